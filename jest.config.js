@@ -7,7 +7,8 @@ module.exports = {
     'src/**/*.ts',
     '!src/**/*.d.ts',
     '!src/**/*.test.ts',
-    '!src/**/__tests__/**'
+    '!src/**/__tests__/**',
+    '!src/**/__mocks__/**'
   ],
   coverageThreshold: {
     global: {
@@ -0,0 +1,174 @@
+/**
+ * Minimal OpenID Connect provider for testing SSO locally.
+ *
+ * Every authorization request is approved at once for the email passed as
+ * `login_hint`, so no login form is involved. Supports the authorization code
+ * flow with PKCE, RS256 ID tokens and the userinfo endpoint.
+ *
+ *   MOCK_OIDC_PORT=4000                     port to listen on
+ *   MOCK_OIDC_CLIENT_ID=neemify             accepted client ID
+ *   MOCK_OIDC_CLIENT_SECRET=mock-secret     accepted client secret
+ *   MOCK_OIDC_GROUPS=clinicians,admins      groups claim for every user
+ *
+ * Usage: node scripts/mock-oidc-provider.js
+ */
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 4000);
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'neemify';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'mock-secret';
+const GROUPS = (process.env.MOCK_OIDC_GROUPS || '').split(',').map(g => g.trim()).filter(Boolean);
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+
+// Pending authorization codes and issued access tokens (in memory only)
+const codes = new Map();
+const accessTokens = new Map();
+
+function signIdToken(claims) {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${signature.toString('base64url')}`;
+}
+
+function userClaims(email) {
+  return {
+    sub: crypto.createHash('sha256').update(email).digest('hex').slice(0, 24),
+    email,
+    email_verified: true,
+    name: email.split('@')[0].replace(/[._]/g, ' '),
+    groups: GROUPS,
+  };
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(new URLSearchParams(body)));
+  });
+}
+
+function clientCredentials(req, params) {
+  const header = req.headers.authorization || '';
+  if (header.startsWith('Basic ')) {
+    const [id, secret] = Buffer.from(header.slice(6), 'base64').toString().split(':');
+    return { id: decodeURIComponent(id), secret: decodeURIComponent(secret) };
+  }
+  return { id: params.get('client_id'), secret: params.get('client_secret') };
+}
+
+async function handleToken(req, res) {
+  const params = await readBody(req);
+  const client = clientCredentials(req, params);
+
+  if (client.id !== CLIENT_ID || client.secret !== CLIENT_SECRET) {
+    return sendJson(res, 401, { error: 'invalid_client' });
+  }
+
+  const grant = codes.get(params.get('code'));
+  codes.delete(params.get('code'));
+
+  if (!grant || grant.redirectUri !== params.get('redirect_uri')) {
+    return sendJson(res, 400, { error: 'invalid_grant' });
+  }
+
+  const challenge = crypto.createHash('sha256').update(params.get('code_verifier') || '').digest('base64url');
+  if (challenge !== grant.codeChallenge) {
+    return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = crypto.randomBytes(24).toString('hex');
+  accessTokens.set(accessToken, grant.email);
+
+  sendJson(res, 200, {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: signIdToken({
+      ...userClaims(grant.email),
+      iss: ISSUER,
+      aud: CLIENT_ID,
+      nonce: grant.nonce,
+      iat: now,
+      exp: now + 300,
+    }),
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+  console.log(`${req.method} ${url.pathname}`);
+
+  if (url.pathname === '/.well-known/openid-configuration') {
+    return sendJson(res, 200, {
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      userinfo_endpoint: `${ISSUER}/userinfo`,
+      jwks_uri: `${ISSUER}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+    });
+  }
+
+  if (url.pathname === '/jwks') {
+    return sendJson(res, 200, {
+      keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }],
+    });
+  }
+
+  if (url.pathname === '/authorize') {
+    const params = url.searchParams;
+    const redirect = new URL(params.get('redirect_uri'));
+
+    if (params.get('client_id') !== CLIENT_ID || !params.get('login_hint')) {
+      redirect.searchParams.set('error', 'invalid_request');
+    } else {
+      const code = crypto.randomBytes(16).toString('hex');
+      codes.set(code, {
+        email: params.get('login_hint').toLowerCase(),
+        nonce: params.get('nonce'),
+        codeChallenge: params.get('code_challenge'),
+        redirectUri: params.get('redirect_uri'),
+      });
+      redirect.searchParams.set('code', code);
+    }
+    redirect.searchParams.set('state', params.get('state'));
+
+    res.writeHead(302, { Location: redirect.toString() });
+    return res.end();
+  }
+
+  if (url.pathname === '/token' && req.method === 'POST') {
+    return handleToken(req, res);
+  }
+
+  if (url.pathname === '/userinfo') {
+    const email = accessTokens.get((req.headers.authorization || '').replace(/^Bearer /, ''));
+    if (!email) {
+      return sendJson(res, 401, { error: 'invalid_token' });
+    }
+    return sendJson(res, 200, userClaims(email));
+  }
+
+  sendJson(res, 404, { error: 'not_found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC provider listening on ${ISSUER}`);
+  console.log(`Client ID: ${CLIENT_ID}  Client secret: ${CLIENT_SECRET}  Groups: ${GROUPS.join(', ') || '(none)'}`);
+});
@@ -0,0 +1,113 @@
+/**
+ * @file Super user bootstrap command
+ * @module cli/create-super-user
+ *
+ * Creates the platform super user on a fresh install:
+ *
+ *   npm run super-user:create -- --email admin@example.com --name "Jane Doe"
+ *
+ * The password is read from the terminal without echo (or from one line of stdin
+ * when piped). The account must choose a new password on its first login, and the
+ * command refuses to run once a super user exists.
+ */
+
+import readline from 'readline';
+import { Writable } from 'stream';
+import { authService } from '../services/auth.service';
+
+/**
+ * Read `--name value` style arguments
+ */
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--') && argv[i + 1] !== undefined) {
+      args[argv[i].slice(2)] = argv[++i];
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Prompt for input on the terminal
+ * While `muted` is set, typed characters are not echoed.
+ */
+function createPrompt() {
+  let muted = false;
+
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) {
+        process.stdout.write(chunk, encoding);
+      }
+      callback();
+    },
+  });
+
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: process.stdin.isTTY });
+  const lines = rl[Symbol.asyncIterator]();
+
+  const ask = async (question: string, hidden = false): Promise<string> => {
+    process.stdout.write(question);
+    muted = hidden;
+
+    const { value, done } = await lines.next();
+
+    muted = false;
+    if (hidden && process.stdin.isTTY) {
+      process.stdout.write('\n');
+    }
+
+    return done ? '' : String(value).trim();
+  };
+
+  return { ask, close: () => rl.close() };
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (await authService.hasSuperUser()) {
+    console.error('A super user already exists. Nothing to do.');
+    process.exit(1);
+  }
+
+  const prompt = createPrompt();
+
+  try {
+    const email = (args.email || (await prompt.ask('Super user email: '))).toLowerCase();
+    const fullName = args.name || (await prompt.ask('Full name [System Administrator]: ')) || 'System Administrator';
+    const password = await prompt.ask('Password: ', true);
+
+    if (!email || !password) {
+      console.error('Email and password are required.');
+      process.exit(1);
+    }
+
+    if (process.stdin.isTTY && (await prompt.ask('Confirm password: ', true)) !== password) {
+      console.error('Passwords do not match.');
+      process.exit(1);
+    }
+
+    const result = await authService.bootstrapSuperUser(email, password, fullName);
+
+    if (!result.success) {
+      console.error(`Failed to create super user: ${result.error}`);
+      for (const violation of result.violations || []) {
+        console.error(`  - ${violation.message}`);
+      }
+      process.exit(1);
+    }
+
+    console.log(`Super user ${email} created. A new password must be chosen at first login.`);
+  } finally {
+    prompt.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('Super user bootstrap failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,278 @@
+/**
+ * @file In-memory stand-in for the Supabase clients, used by `jest.mock('../config/database')`
+ * @module config/__mocks__/database
+ *
+ * Implements the subset of the PostgREST query builder the services use, against
+ * plain arrays of rows. Joins (`table!fkey(...)`) are not resolved.
+ */
+
+import crypto from 'crypto';
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+type Comparable = string | number;
+
+interface Result {
+  data: Row | Row[] | null;
+  error: { message: string; code?: string } | null;
+  count?: number | null;
+}
+
+/**
+ * Parse one `column.operator.value` condition of an `or()` filter
+ */
+function parseCondition(condition: string): Filter {
+  const [column, operator, ...rest] = condition.split('.');
+  const raw = rest.join('.');
+  const value: unknown = raw === 'null' ? null : raw === 'true' ? true : raw === 'false' ? false : raw;
+  const compare = (row: Row): number => {
+    const left = row[column] as Comparable;
+    const right = typeof left === 'number' ? Number(value) : (value as Comparable);
+    return left < right ? -1 : left > right ? 1 : 0;
+  };
+
+  switch (operator) {
+    case 'is':
+      return (row) => (row[column] ?? null) === value;
+    case 'eq':
+      return (row) => String(row[column]) === raw;
+    case 'neq':
+      return (row) => String(row[column]) !== raw;
+    case 'lt':
+      return (row) => row[column] != null && compare(row) < 0;
+    case 'lte':
+      return (row) => row[column] != null && compare(row) <= 0;
+    case 'gt':
+      return (row) => row[column] != null && compare(row) > 0;
+    case 'gte':
+      return (row) => row[column] != null && compare(row) >= 0;
+    default:
+      throw new Error(`Unsupported or() operator: ${operator}`);
+  }
+}
+
+/**
+ * Chainable query against one table; awaiting it runs the query
+ */
+class FakeQuery implements PromiseLike<Result> {
+  private operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private filters: Filter[] = [];
+  private rows: Row[] = [];
+  private values: Row = {};
+  private returning = false;
+  private single_ = false;
+  private maybe = false;
+  private limit_?: number;
+  private orderBy?: { column: string; ascending: boolean };
+  private countOnly = false;
+
+  constructor(
+    private readonly db: FakeSupabase,
+    private readonly table: string
+  ) {}
+
+  select(_columns?: string, options?: { count?: string; head?: boolean }): this {
+    if (this.operation !== 'select') {
+      this.returning = true;
+    }
+    this.countOnly = !!options?.count;
+    return this;
+  }
+
+  insert(rows: Row | Row[]): this {
+    this.operation = 'insert';
+    this.rows = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: Row | Row[]): this {
+    return this.insert(rows);
+  }
+
+  update(values: Row): this {
+    this.operation = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.where((row) => row[column] === value);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.where((row) => row[column] !== value);
+  }
+
+  is(column: string, value: unknown): this {
+    return this.where((row) => (row[column] ?? null) === value);
+  }
+
+  not(column: string, _operator: string, value: unknown): this {
+    return this.where((row) => (row[column] ?? null) !== value);
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.where((row) => values.includes(row[column]));
+  }
+
+  gt(column: string, value: Comparable): this {
+    return this.where((row) => row[column] != null && (row[column] as Comparable) > value);
+  }
+
+  gte(column: string, value: Comparable): this {
+    return this.where((row) => row[column] != null && (row[column] as Comparable) >= value);
+  }
+
+  lt(column: string, value: Comparable): this {
+    return this.where((row) => row[column] != null && (row[column] as Comparable) < value);
+  }
+
+  lte(column: string, value: Comparable): this {
+    return this.where((row) => row[column] != null && (row[column] as Comparable) <= value);
+  }
+
+  ilike(column: string, pattern: string): this {
+    const regex = new RegExp(`^${pattern.replace(/%/g, '.*')}$`, 'i');
+    return this.where((row) => regex.test(String(row[column] ?? '')));
+  }
+
+  or(conditions: string): this {
+    const alternatives = conditions.split(',').map(parseCondition);
+    return this.where((row) => alternatives.some((matches) => matches(row)));
+  }
+
+  order(column: string, options?: { ascending?: boolean }): this {
+    this.orderBy = { column, ascending: options?.ascending !== false };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limit_ = count;
+    return this;
+  }
+
+  range(): this {
+    return this;
+  }
+
+  single(): this {
+    this.single_ = true;
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.single_ = true;
+    this.maybe = true;
+    return this;
+  }
+
+  then<T1 = Result, T2 = never>(
+    onFulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onRejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve()
+      .then(() => this.run())
+      .then(onFulfilled, onRejected);
+  }
+
+  private where(filter: Filter): this {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private run(): Result {
+    this.db.queries.push(this.table);
+
+    const rows = this.db.table(this.table);
+    const matches = (row: Row): boolean => this.filters.every((filter) => filter(row));
+    let data: Row[] | null;
+
+    if (this.operation === 'insert') {
+      data = this.rows.map((row) => ({
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+        ...row,
+      }));
+      rows.push(...data);
+    } else if (this.operation === 'update') {
+      data = rows.filter(matches);
+      data.forEach((row) => Object.assign(row, this.values));
+    } else if (this.operation === 'delete') {
+      data = rows.filter(matches);
+      this.db.tables[this.table] = rows.filter((row) => !matches(row));
+    } else {
+      data = rows.filter(matches);
+      if (this.orderBy) {
+        const { column, ascending } = this.orderBy;
+        data = [...data].sort((a, b) => {
+          const order = (a[column] as Comparable) < (b[column] as Comparable) ? -1 : 1;
+          return ascending ? order : -order;
+        });
+      }
+      if (this.limit_ !== undefined) {
+        data = data.slice(0, this.limit_);
+      }
+      if (this.countOnly) {
+        return { data: null, error: null, count: data.length };
+      }
+    }
+
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    const copies = data.map((row) => ({ ...row }));
+
+    if (this.single_) {
+      if (copies.length === 1) {
+        return { data: copies[0], error: null };
+      }
+      return this.maybe
+        ? { data: null, error: null }
+        : { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' } };
+    }
+
+    return { data: copies, error: null };
+  }
+}
+
+/**
+ * In-memory database with a Supabase-like `from()` / `rpc()` surface
+ */
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {};
+  // Table of every query run, in order; lets tests count round-trips
+  queries: string[] = [];
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  async rpc(): Promise<Result> {
+    return { data: null, error: null };
+  }
+
+  table(name: string): Row[] {
+    return (this.tables[name] ||= []);
+  }
+
+  reset(): void {
+    this.tables = {};
+    this.queries = [];
+  }
+}
+
+export const supabaseAdmin = new FakeSupabase();
+export const supabase = supabaseAdmin;
+
+export const dbConfig = {
+  url: 'http://localhost',
+  maxConnections: 20,
+  idleTimeout: 30000,
+  connectionTimeout: 10000,
+};
@@ -14,16 +14,103 @@ export const config = {
   },
   jwt: {
     secret: process.env.JWT_SECRET || 'default-secret-change-in-production',
-    expiresIn: process.env.JWT_EXPIRES_IN || '24h',
+    expiresIn: process.env.JWT_EXPIRES_IN || '15m',
+    refreshExpiresInDays: parseInt(process.env.JWT_REFRESH_EXPIRES_IN_DAYS || '30', 10),
+    algorithm: (process.env.JWT_ALGORITHM || 'RS256') as 'RS256' | 'EdDSA',
+    keyEncryptionKey: process.env.JWT_KEY_ENCRYPTION_KEY || 'default-jwt-key-change-in-production',
+    keyRotationDays: parseInt(process.env.JWT_KEY_ROTATION_DAYS || '90', 10),
+    retiredKeyTtlHours: parseInt(process.env.JWT_RETIRED_KEY_TTL_HOURS || '24', 10),
+  },
+  mfa: {
+    issuer: process.env.MFA_ISSUER || 'NEEMIFY',
+    encryptionKey: process.env.MFA_ENCRYPTION_KEY || 'default-mfa-key-change-in-production',
+    challengeExpiresIn: process.env.MFA_CHALLENGE_EXPIRES_IN || '5m',
+    challengeMaxAttempts: parseInt(process.env.MFA_CHALLENGE_MAX_ATTEMPTS || '5', 10),
+  },
+  webauthn: {
+    rpName: process.env.WEBAUTHN_RP_NAME || 'NEEMIFY',
+    rpId: process.env.WEBAUTHN_RP_ID || 'localhost',
+    origins: (process.env.WEBAUTHN_ORIGINS || 'http://localhost:3001').split(','),
+    challengeTtlSeconds: parseInt(process.env.WEBAUTHN_CHALLENGE_TTL_SECONDS || '300', 10),
+  },
+  lockout: {
+    maxAttempts: parseInt(process.env.LOCKOUT_MAX_ATTEMPTS || '5', 10),
+    baseDurationMinutes: parseInt(process.env.LOCKOUT_BASE_DURATION_MINUTES || '15', 10),
+    maxDurationMinutes: parseInt(process.env.LOCKOUT_MAX_DURATION_MINUTES || '1440', 10),
+  },
+  passwordReset: {
+    tokenTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '30', 10),
+  },
+  mail: {
+    transport: process.env.MAIL_TRANSPORT || 'outbox',
+    from: process.env.MAIL_FROM || 'NEEMIFY <no-reply@neemify.com>',
+    outboxDir: process.env.MAIL_OUTBOX_DIR || 'outbox',
+  },
+  web: {
+    url: process.env.WEB_URL || 'http://localhost:3001',
+  },
+  sso: {
+    encryptionKey: process.env.SSO_ENCRYPTION_KEY || 'default-sso-key-change-in-production',
+    redirectUri:
+      process.env.SSO_REDIRECT_URI ||
+      `${process.env.WEB_URL || 'http://localhost:3001'}/sso/callback`,
+    stateTtlSeconds: parseInt(process.env.SSO_STATE_TTL_SECONDS || '600', 10),
+  },
+  saml: {
+    baseUrl: process.env.SAML_SP_BASE_URL || 'http://localhost:3000/api/auth/sso/saml',
+    privateKey: (process.env.SAML_SP_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+    certificate: (process.env.SAML_SP_CERTIFICATE || '').replace(/\\n/g, '\n'),
+    requestTtlSeconds: parseInt(process.env.SAML_REQUEST_TTL_SECONDS || '600', 10),
+  },
+  scim: {
+    baseUrl: process.env.SCIM_BASE_URL || 'http://localhost:3000/scim/v2',
+  },
+  apiKeys: {
+    defaultExpiryDays: parseInt(process.env.API_KEY_DEFAULT_EXPIRY_DAYS || '365', 10),
+    maxExpiryDays: parseInt(process.env.API_KEY_MAX_EXPIRY_DAYS || '730', 10),
+    maxRotationGraceHours: parseInt(process.env.API_KEY_MAX_ROTATION_GRACE_HOURS || '168', 10),
+  },
+  oauth: {
+    accessTokenTtlSeconds: parseInt(process.env.OAUTH_ACCESS_TOKEN_TTL_SECONDS || '900', 10),
+  },
+  smart: {
+    baseUrl: process.env.SMART_BASE_URL || 'http://localhost:3000',
+    codeTtlSeconds: parseInt(process.env.SMART_CODE_TTL_SECONDS || '60', 10),
+    launchTtlSeconds: parseInt(process.env.SMART_LAUNCH_TTL_SECONDS || '300', 10),
+  },
+  impersonation: {
+    ttlMinutes: parseInt(process.env.IMPERSONATION_TTL_MINUTES || '30', 10),
+  },
+  invitations: {
+    ttlDays: parseInt(process.env.INVITATION_TTL_DAYS || '7', 10),
+  },
+  emailVerification: {
+    required: process.env.EMAIL_VERIFICATION_REQUIRED !== 'false',
+    tokenTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24', 10),
+    signupTtlHours: parseInt(process.env.EMAIL_VERIFICATION_SIGNUP_TTL_HOURS || '72', 10),
+    purgeIntervalMinutes: parseInt(process.env.EMAIL_VERIFICATION_PURGE_INTERVAL_MINUTES || '60', 10),
+  },
+  breakGlass: {
+    ttlMinutes: parseInt(process.env.BREAK_GLASS_TTL_MINUTES || '60', 10),
+    permissions: (process.env.BREAK_GLASS_PERMISSIONS || 'api.use,tenant.read,user.read')
+      .split(',')
+      .map((permission) => permission.trim())
+      .filter(Boolean),
+    reviewSweepMinutes: parseInt(process.env.BREAK_GLASS_REVIEW_SWEEP_MINUTES || '5', 10),
+  },
+  stepUp: {
+    maxAgeSeconds: parseInt(process.env.STEP_UP_MAX_AGE_SECONDS || '300', 10),
+  },
+  magicLink: {
+    tokenTtlMinutes: parseInt(process.env.MAGIC_LINK_TTL_MINUTES || '10', 10),
+  },
+  contextCache: {
+    ttlSeconds: parseInt(process.env.CONTEXT_CACHE_TTL_SECONDS || '30', 10),
   },
   license: {
     encryptionKey: process.env.LICENSE_ENCRYPTION_KEY || 'default-key-change-in-production',
     signingKey: process.env.LICENSE_SIGNING_KEY || 'default-signing-key',
   },
-  superUser: {
-    email: process.env.SUPER_USER_EMAIL || 'admin@neemify.com',
-    password: process.env.SUPER_USER_PASSWORD || 'ChangeMe123!',
-  },
   rateLimit: {
     windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10),
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
@@ -32,3 +119,32 @@ export const config = {
     level: process.env.LOG_LEVEL || 'info',
   },
 };
+
+/**
+ * List secrets that are unset or still hold a placeholder value, plus the retired
+ * super user credentials if they are still configured
+ * The server refuses to start in production while this is not empty.
+ *
+ * @returns Names of the offending environment variables
+ */
+export function findDefaultSecrets(): string[] {
+  const placeholder = /change-in-production|^your-|^default-/;
+  const secrets: Record<string, string> = {
+    JWT_SECRET: config.jwt.secret,
+    JWT_KEY_ENCRYPTION_KEY: config.jwt.keyEncryptionKey,
+    MFA_ENCRYPTION_KEY: config.mfa.encryptionKey,
+    SSO_ENCRYPTION_KEY: config.sso.encryptionKey,
+    LICENSE_ENCRYPTION_KEY: config.license.encryptionKey,
+    LICENSE_SIGNING_KEY: config.license.signingKey,
+  };
+
+  const found = Object.entries(secrets)
+    .filter(([, value]) => !value || placeholder.test(value))
+    .map(([name]) => name);
+
+  if (process.env.SUPER_USER_PASSWORD) {
+    found.push('SUPER_USER_PASSWORD');
+  }
+
+  return found;
+}
@@ -0,0 +1,19 @@
+-- Migration: Add server-side session registry
+-- Created: 2026-10-19
+
+-- One row per login. The session ID is carried in the access token as the
+-- `jti` claim and doubles as the refresh token family ID.
+CREATE TABLE IF NOT EXISTS sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_reason VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_company ON sessions(company_id);
+
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,27 @@
+-- Migration: Add TOTP multi-factor authentication
+-- Created: 2026-10-19
+
+-- Per-user TOTP enrollment. The secret is stored AES-256-GCM encrypted and is
+-- only active once mfa_enabled is set by the confirm step.
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS mfa_enabled BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS mfa_secret TEXT,
+ADD COLUMN IF NOT EXISTS mfa_last_used_step BIGINT,
+ADD COLUMN IF NOT EXISTS mfa_enrolled_at TIMESTAMP WITH TIME ZONE;
+
+-- Company-wide MFA requirement, set by org admins
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS require_mfa BOOLEAN DEFAULT false;
+
+-- Single-use recovery codes, stored as SHA-256 hashes
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user ON mfa_recovery_codes(user_id);
+
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
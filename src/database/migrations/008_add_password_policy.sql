@@ -0,0 +1,22 @@
+-- Migration: Add per-company password policy
+-- Created: 2026-10-19
+
+-- Company overrides of the default password policy (keys match PasswordPolicy)
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS password_policy JSONB DEFAULT '{}';
+
+-- Used for the maximum password age
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Previous password hashes, checked against the policy's history depth
+CREATE TABLE IF NOT EXISTS password_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    password_hash TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_history_user ON password_history(user_id, created_at DESC);
+
+ALTER TABLE password_history ENABLE ROW LEVEL SECURITY;
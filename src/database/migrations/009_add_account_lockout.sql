@@ -0,0 +1,9 @@
+-- Migration: Add per-account lockout
+-- Created: 2026-10-19
+
+-- Consecutive failed password attempts. The counter is only reset by a
+-- successful login, a password reset or an admin unlock, so each lock after
+-- the first lasts twice as long as the one before.
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
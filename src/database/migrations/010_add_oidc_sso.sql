@@ -0,0 +1,34 @@
+-- Migration: Add company-scoped OpenID Connect single sign-on
+-- Created: 2026-10-19
+
+-- One OIDC identity provider per company. The client secret is stored
+-- AES-256-GCM encrypted.
+CREATE TABLE IF NOT EXISTS oidc_providers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL UNIQUE REFERENCES companies(id) ON DELETE CASCADE,
+    issuer TEXT NOT NULL,
+    client_id TEXT NOT NULL,
+    client_secret TEXT NOT NULL,
+    scopes TEXT NOT NULL DEFAULT 'openid email profile',
+    claim_mappings JSONB DEFAULT '{}',
+    group_role_mappings JSONB DEFAULT '{}',
+    jit_provisioning BOOLEAN DEFAULT true,
+    enabled BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- In-flight authorization requests (state, nonce and PKCE verifier)
+CREATE TABLE IF NOT EXISTS oidc_login_states (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider_id UUID NOT NULL REFERENCES oidc_providers(id) ON DELETE CASCADE,
+    nonce TEXT NOT NULL,
+    code_verifier TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_oidc_login_states_expires ON oidc_login_states(expires_at);
+
+ALTER TABLE oidc_providers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE oidc_login_states ENABLE ROW LEVEL SECURITY;
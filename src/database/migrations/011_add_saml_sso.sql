@@ -0,0 +1,60 @@
+-- Migration: Add SAML 2.0 service provider support
+-- Created: 2026-10-19
+
+-- One SAML identity provider per company (imported from IdP metadata)
+CREATE TABLE IF NOT EXISTS saml_providers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL UNIQUE REFERENCES companies(id) ON DELETE CASCADE,
+    idp_entity_id TEXT NOT NULL,
+    idp_sso_url TEXT NOT NULL,
+    idp_slo_url TEXT,
+    idp_certificates TEXT[] NOT NULL,
+    attribute_mappings JSONB DEFAULT '{}',
+    group_role_mappings JSONB DEFAULT '{}',
+    jit_provisioning BOOLEAN DEFAULT true,
+    allow_idp_initiated BOOLEAN DEFAULT true,
+    enabled BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Outstanding AuthnRequest IDs and consumed assertion IDs (replay protection)
+CREATE TABLE IF NOT EXISTS saml_request_cache (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saml_request_cache_created ON saml_request_cache(created_at);
+
+-- Single-use codes that hand a validated assertion from the ACS to the dashboard
+CREATE TABLE IF NOT EXISTS saml_login_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code_hash VARCHAR(64) NOT NULL UNIQUE,
+    provider_id UUID NOT NULL REFERENCES saml_providers(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    provisioned BOOLEAN DEFAULT false,
+    name_id TEXT NOT NULL,
+    name_id_format TEXT,
+    session_index TEXT,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- IdP session behind each SAML login, for single logout
+CREATE TABLE IF NOT EXISTS saml_sessions (
+    session_id UUID PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+    provider_id UUID NOT NULL REFERENCES saml_providers(id) ON DELETE CASCADE,
+    name_id TEXT NOT NULL,
+    name_id_format TEXT,
+    session_index TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saml_sessions_name_id ON saml_sessions(provider_id, name_id);
+
+ALTER TABLE saml_providers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saml_request_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saml_login_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saml_sessions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,30 @@
+-- Migration: Add SCIM 2.0 provisioning
+-- Created: 2026-10-19
+
+-- Deprovisioned users are deactivated rather than deleted, so their audit
+-- trail and role history survive. Inactive users cannot sign in.
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS scim_external_id TEXT;
+
+-- SCIM groups map onto company roles
+ALTER TABLE roles
+ADD COLUMN IF NOT EXISTS scim_external_id TEXT;
+
+-- Per-company bearer tokens used by the IdP's SCIM client. Only a SHA-256
+-- hash of each token is stored.
+CREATE TABLE IF NOT EXISTS scim_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scim_tokens_company ON scim_tokens(company_id);
+
+ALTER TABLE scim_tokens ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,21 @@
+-- Migration: Add asymmetric JWT signing keys
+-- Created: 2026-10-19
+
+-- Access tokens are signed with the newest active key and carry its `kid`.
+-- Rotated keys are retired but stay published in the JWKS until expires_at,
+-- so tokens signed before a rotation keep verifying. Private keys are stored
+-- AES-256-GCM encrypted.
+CREATE TABLE IF NOT EXISTS jwt_signing_keys (
+    kid VARCHAR(64) PRIMARY KEY,
+    algorithm VARCHAR(10) NOT NULL CHECK (algorithm IN ('RS256', 'EdDSA')),
+    public_key TEXT NOT NULL,
+    private_key TEXT NOT NULL,
+    status VARCHAR(10) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    retired_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_jwt_signing_keys_status ON jwt_signing_keys(status);
+
+ALTER TABLE jwt_signing_keys ENABLE ROW LEVEL SECURITY;
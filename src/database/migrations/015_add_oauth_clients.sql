@@ -0,0 +1,23 @@
+-- Migration: Add OAuth 2.0 clients
+-- Created: 2026-10-19
+
+-- Clients for the client_credentials grant, registered per company. Each client
+-- is backed by its own service account, whose permission names are the scopes
+-- the client may request. Only a SHA-256 hash of each secret is stored.
+-- Issued access tokens are tracked as sessions, so they can be revoked.
+CREATE TABLE IF NOT EXISTS oauth_clients (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    service_account_id UUID NOT NULL REFERENCES service_accounts(user_id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    client_id VARCHAR(64) NOT NULL UNIQUE,
+    client_secret_hash VARCHAR(64) NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_clients_company ON oauth_clients(company_id);
+
+ALTER TABLE oauth_clients ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,57 @@
+-- Migration: Add SMART on FHIR app launch
+-- Created: 2026-10-19
+
+-- Third-party clinical apps registered per company. Public apps have no secret
+-- and rely on PKCE; confidential apps store a SHA-256 hash of their secret.
+-- `scopes` are the SMART scopes the app may request.
+CREATE TABLE IF NOT EXISTS smart_apps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    client_id VARCHAR(64) NOT NULL UNIQUE,
+    client_secret_hash VARCHAR(64),
+    redirect_uris TEXT[] NOT NULL,
+    launch_uri TEXT,
+    scopes TEXT[] NOT NULL DEFAULT '{}',
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_smart_apps_company ON smart_apps(company_id);
+
+-- EHR launches: the tenant and clinical context a user opened an app with.
+-- The ID is the opaque `launch` parameter; each launch is used once.
+CREATE TABLE IF NOT EXISTS smart_launches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    app_id UUID NOT NULL REFERENCES smart_apps(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    context JSONB NOT NULL DEFAULT '{}',
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Single-use authorization codes (stored as SHA-256 hashes) bound to the
+-- app, redirect URI and PKCE challenge of the consented request
+CREATE TABLE IF NOT EXISTS smart_authorization_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code_hash VARCHAR(64) NOT NULL UNIQUE,
+    app_id UUID NOT NULL REFERENCES smart_apps(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    scope TEXT NOT NULL,
+    redirect_uri TEXT NOT NULL,
+    code_challenge VARCHAR(128) NOT NULL,
+    context JSONB NOT NULL DEFAULT '{}',
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_smart_authorization_codes_expires ON smart_authorization_codes(expires_at);
+
+ALTER TABLE smart_apps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE smart_launches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE smart_authorization_codes ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,29 @@
+-- Migration: Add access requests
+-- Created: 2026-10-19
+
+-- People whose email domain belongs to an existing company can ask to join it.
+-- Requests stay pending until an org admin approves them (which provisions the
+-- user with the chosen tenant and roles) or denies them with a reason. Only one
+-- request per email can be pending for a company.
+CREATE TABLE IF NOT EXISTS access_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+    full_name VARCHAR(255) NOT NULL,
+    message TEXT,
+    status VARCHAR(10) NOT NULL DEFAULT 'pending',
+    tenant_id UUID REFERENCES tenants(id) ON DELETE SET NULL,
+    role_ids UUID[] NOT NULL DEFAULT '{}',
+    decision_reason TEXT,
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_access_request_status CHECK (status IN ('pending', 'approved', 'denied'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_access_requests_company_status ON access_requests(company_id, status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_access_requests_pending_email
+    ON access_requests(company_id, email) WHERE status = 'pending';
+
+ALTER TABLE access_requests ENABLE ROW LEVEL SECURITY;
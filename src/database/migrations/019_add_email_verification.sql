@@ -0,0 +1,25 @@
+-- Migration: Add email verification for self-service signups
+-- Created: 2026-10-19
+
+-- Users created by signup start unverified and must follow an emailed link to
+-- prove they control the address. Every other way of creating users (admins,
+-- invitations, SSO, SCIM) leaves them verified, as do existing rows. Unverified
+-- signups are removed, with their provisional company, after a timeout.
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS email_verified BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_users_unverified ON users(created_at) WHERE email_verified = false;
+
+-- Single-use verification tokens. Only the SHA-256 hash of the token is stored.
+CREATE TABLE IF NOT EXISTS email_verification_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_verification_tokens_user ON email_verification_tokens(user_id);
+
+ALTER TABLE email_verification_tokens ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,14 @@
+-- Migration: Add forced password change
+-- Created: 2026-10-19
+
+-- Accounts flagged here must choose a new password before their next login
+-- completes. The super user created by the bootstrap command starts flagged.
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS must_change_password BOOLEAN NOT NULL DEFAULT false;
+
+-- Super users created by the old automatic setup (with the password from the
+-- environment) and never changed since must change it at their next login
+UPDATE users
+SET must_change_password = true
+WHERE is_super_user = true
+  AND password_changed_at = created_at;
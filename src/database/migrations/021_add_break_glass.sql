@@ -0,0 +1,37 @@
+-- Migration: Add break-glass emergency access
+-- Created: 2026-10-19
+
+-- A user who declares an emergency gets extra permissions in a tenant of their
+-- choice for a limited time. The window ends when it expires or the user closes
+-- it; afterwards an org admin must review it as justified or unjustified.
+CREATE TABLE IF NOT EXISTS break_glass_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    emergency VARCHAR(255) NOT NULL,
+    justification TEXT NOT NULL,
+    permissions TEXT[] NOT NULL DEFAULT '{}',
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    review_requested_at TIMESTAMP WITH TIME ZONE,
+    review_outcome VARCHAR(12),
+    review_notes TEXT,
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_break_glass_review_outcome CHECK (review_outcome IN ('justified', 'unjustified'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_break_glass_sessions_user ON break_glass_sessions(user_id, expires_at);
+CREATE INDEX IF NOT EXISTS idx_break_glass_sessions_company ON break_glass_sessions(company_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_break_glass_sessions_unrequested
+    ON break_glass_sessions(expires_at) WHERE review_requested_at IS NULL;
+
+-- Audit entries written during a window point at it
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS break_glass_session_id UUID;
+CREATE INDEX IF NOT EXISTS idx_audit_logs_break_glass
+    ON audit_logs(break_glass_session_id) WHERE break_glass_session_id IS NOT NULL;
+
+ALTER TABLE break_glass_sessions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,9 @@
+-- Migration: Add client details to sessions
+-- Created: 2026-10-19
+
+-- Sessions remember the IP address and user agent they were last used from, and
+-- when, so users can see where they are signed in and revoke what they do not
+-- recognise. Updated by `authenticate` at most once a minute per session.
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS ip_address INET;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS user_agent TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,51 @@
+-- Migration: Add known devices and new-device login policy
+-- Created: 2026-10-19
+
+-- Every completed login is fingerprinted by its browser/platform family and IP
+-- prefix (/24 for IPv4, /48 for IPv6). The fingerprints a user has signed in
+-- from are their known devices; a login from anywhere else alerts the user and
+-- their org admins. A user's first device is recorded without an alert.
+CREATE TABLE IF NOT EXISTS known_devices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    user_agent_family VARCHAR(100) NOT NULL,
+    ip_prefix VARCHAR(64) NOT NULL,
+    last_ip_address INET,
+    last_user_agent TEXT,
+    first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, user_agent_family, ip_prefix)
+);
+
+-- Companies choose what a login from an unknown device needs: nothing beyond the
+-- alert (notify), a second factor (require_mfa) or an org admin's approval
+-- (require_approval)
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS new_device_policy VARCHAR(20) NOT NULL DEFAULT 'notify';
+
+ALTER TABLE companies DROP CONSTRAINT IF EXISTS valid_new_device_policy;
+ALTER TABLE companies ADD CONSTRAINT valid_new_device_policy
+    CHECK (new_device_policy IN ('notify', 'require_mfa', 'require_approval'));
+
+-- Logins held for approval. Approving one makes its fingerprint a known device of
+-- the user, who then signs in again. Only one request per fingerprint is pending.
+CREATE TABLE IF NOT EXISTS device_approvals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_agent_family VARCHAR(100) NOT NULL,
+    ip_prefix VARCHAR(64) NOT NULL,
+    ip_address INET,
+    user_agent TEXT,
+    status VARCHAR(10) NOT NULL DEFAULT 'pending',
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_device_approval_status CHECK (status IN ('pending', 'approved', 'denied'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_approvals_company_status ON device_approvals(company_id, status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_device_approvals_pending_device
+    ON device_approvals(user_id, user_agent_family, ip_prefix) WHERE status = 'pending';
+
+ALTER TABLE known_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE device_approvals ENABLE ROW LEVEL SECURITY;
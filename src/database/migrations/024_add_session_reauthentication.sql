@@ -0,0 +1,7 @@
+-- Migration: Add step-up re-authentication to sessions
+-- Created: 2026-10-19
+
+-- Sensitive operations need the user to have proved their identity recently: either
+-- the login that opened the session (`created_at`) or a later re-authentication with
+-- their password or a second factor, recorded here.
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS reauthenticated_at TIMESTAMP WITH TIME ZONE;
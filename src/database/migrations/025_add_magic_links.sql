@@ -0,0 +1,23 @@
+-- Migration: Add passwordless magic-link login
+-- Created: 2026-10-19
+
+-- Companies opt in to signing in with an emailed link; it is off by default.
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS magic_link_enabled BOOLEAN NOT NULL DEFAULT false;
+
+-- Single-use sign-in links. Each is bound to the browser that asked for it: that
+-- browser keeps a random key, and the link only works when presented with it.
+-- Only SHA-256 hashes of the token and the browser key are stored.
+CREATE TABLE IF NOT EXISTS magic_link_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    browser_key_hash VARCHAR(64) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_magic_link_tokens_user ON magic_link_tokens(user_id);
+
+ALTER TABLE magic_link_tokens ENABLE ROW LEVEL SECURITY;
@@ -22,9 +22,14 @@ CREATE TABLE companies (
     blocked_at TIMESTAMP WITH TIME ZONE,
     blocked_reason TEXT,
     blocked_by_user_id UUID,
+    require_mfa BOOLEAN DEFAULT false,
+    new_device_policy VARCHAR(20) NOT NULL DEFAULT 'notify',
+    magic_link_enabled BOOLEAN NOT NULL DEFAULT false,
+    password_policy JSONB DEFAULT '{}',
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    CONSTRAINT valid_license_status CHECK (license_status IN ('active', 'expired', 'suspended', 'revoked'))
+    CONSTRAINT valid_license_status CHECK (license_status IN ('active', 'expired', 'suspended', 'revoked')),
+    CONSTRAINT valid_new_device_policy CHECK (new_device_policy IN ('notify', 'require_mfa', 'require_approval'))
 );
 
 CREATE INDEX idx_companies_domain ON companies(domain);
@@ -61,6 +66,19 @@ CREATE TABLE users (
     tenant_id UUID REFERENCES tenants(id) ON DELETE SET NULL,
     is_super_user BOOLEAN DEFAULT false,
     is_org_admin BOOLEAN DEFAULT false,
+    mfa_enabled BOOLEAN DEFAULT false,
+    mfa_secret TEXT,
+    mfa_last_used_step BIGINT,
+    mfa_enrolled_at TIMESTAMP WITH TIME ZONE,
+    password_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    failed_login_attempts INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    deactivated_at TIMESTAMP WITH TIME ZONE,
+    scim_external_id TEXT,
+    is_service_account BOOLEAN NOT NULL DEFAULT false,
+    email_verified BOOLEAN NOT NULL DEFAULT true,
+    must_change_password BOOLEAN NOT NULL DEFAULT false,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     last_login TIMESTAMP WITH TIME ZONE
@@ -70,6 +88,7 @@ CREATE INDEX idx_users_email ON users(email);
 CREATE INDEX idx_users_company ON users(company_id);
 CREATE INDEX idx_users_tenant ON users(tenant_id);
 CREATE INDEX idx_users_super_user ON users(is_super_user) WHERE is_super_user = true;
+CREATE INDEX idx_users_unverified ON users(created_at) WHERE email_verified = false;
 
 -- ============================================================================
 -- LICENSES
@@ -117,6 +136,7 @@ CREATE TABLE roles (
     company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
     name VARCHAR(100) NOT NULL,
     description TEXT,
+    scim_external_id TEXT,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     UNIQUE(company_id, name)
@@ -188,6 +208,7 @@ CREATE TABLE audit_logs (
     changes JSONB,
     ip_address INET,
     user_agent TEXT,
+    break_glass_session_id UUID,
     timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -196,6 +217,482 @@ CREATE INDEX idx_audit_logs_tenant ON audit_logs(tenant_id);
 CREATE INDEX idx_audit_logs_user ON audit_logs(user_id);
 CREATE INDEX idx_audit_logs_timestamp ON audit_logs(timestamp);
 CREATE INDEX idx_audit_logs_action ON audit_logs(action);
+CREATE INDEX idx_audit_logs_break_glass ON audit_logs(break_glass_session_id) WHERE break_glass_session_id IS NOT NULL;
+
+-- ============================================================================
+-- REFRESH TOKENS (Rotating, hashed)
+-- ============================================================================
+
+CREATE TABLE refresh_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    family_id UUID NOT NULL,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    rotated_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_refresh_tokens_user ON refresh_tokens(user_id);
+CREATE INDEX idx_refresh_tokens_family ON refresh_tokens(family_id);
+CREATE INDEX idx_refresh_tokens_hash ON refresh_tokens(token_hash);
+
+-- ============================================================================
+-- SESSIONS (Server-side registry, keyed by JWT jti)
+-- ============================================================================
+
+CREATE TABLE sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_reason VARCHAR(100),
+    ip_address INET,
+    user_agent TEXT,
+    last_seen_at TIMESTAMP WITH TIME ZONE,
+    reauthenticated_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_sessions_user ON sessions(user_id);
+CREATE INDEX idx_sessions_company ON sessions(company_id);
+
+-- ============================================================================
+-- MFA RECOVERY CODES (Single-use, hashed)
+-- ============================================================================
+
+CREATE TABLE mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_mfa_recovery_codes_user ON mfa_recovery_codes(user_id);
+
+-- ============================================================================
+-- WEBAUTHN CREDENTIALS (Passkeys)
+-- ============================================================================
+
+CREATE TABLE webauthn_credentials (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    credential_id TEXT NOT NULL UNIQUE,
+    public_key TEXT NOT NULL,
+    counter BIGINT NOT NULL DEFAULT 0,
+    transports JSONB DEFAULT '[]',
+    device_type VARCHAR(20),
+    backed_up BOOLEAN DEFAULT false,
+    name VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_webauthn_credentials_user ON webauthn_credentials(user_id);
+
+CREATE TABLE webauthn_challenges (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    ceremony VARCHAR(20) NOT NULL,
+    challenge TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_webauthn_ceremony CHECK (ceremony IN ('registration', 'authentication'))
+);
+
+CREATE INDEX idx_webauthn_challenges_expires ON webauthn_challenges(expires_at);
+
+-- ============================================================================
+-- PASSWORD RESET TOKENS (Single-use, hashed)
+-- ============================================================================
+
+CREATE TABLE password_reset_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_password_reset_tokens_user ON password_reset_tokens(user_id);
+
+-- ============================================================================
+-- PASSWORD HISTORY
+-- ============================================================================
+
+CREATE TABLE password_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    password_hash TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_password_history_user ON password_history(user_id, created_at DESC);
+
+-- ============================================================================
+-- OIDC SINGLE SIGN-ON (One identity provider per company)
+-- ============================================================================
+
+CREATE TABLE oidc_providers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL UNIQUE REFERENCES companies(id) ON DELETE CASCADE,
+    issuer TEXT NOT NULL,
+    client_id TEXT NOT NULL,
+    client_secret TEXT NOT NULL,
+    scopes TEXT NOT NULL DEFAULT 'openid email profile',
+    claim_mappings JSONB DEFAULT '{}',
+    group_role_mappings JSONB DEFAULT '{}',
+    jit_provisioning BOOLEAN DEFAULT true,
+    enabled BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE oidc_login_states (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider_id UUID NOT NULL REFERENCES oidc_providers(id) ON DELETE CASCADE,
+    nonce TEXT NOT NULL,
+    code_verifier TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_oidc_login_states_expires ON oidc_login_states(expires_at);
+
+-- ============================================================================
+-- SAML SINGLE SIGN-ON (One identity provider per company)
+-- ============================================================================
+
+CREATE TABLE saml_providers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL UNIQUE REFERENCES companies(id) ON DELETE CASCADE,
+    idp_entity_id TEXT NOT NULL,
+    idp_sso_url TEXT NOT NULL,
+    idp_slo_url TEXT,
+    idp_certificates TEXT[] NOT NULL,
+    attribute_mappings JSONB DEFAULT '{}',
+    group_role_mappings JSONB DEFAULT '{}',
+    jit_provisioning BOOLEAN DEFAULT true,
+    allow_idp_initiated BOOLEAN DEFAULT true,
+    enabled BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE saml_request_cache (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_saml_request_cache_created ON saml_request_cache(created_at);
+
+CREATE TABLE saml_login_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code_hash VARCHAR(64) NOT NULL UNIQUE,
+    provider_id UUID NOT NULL REFERENCES saml_providers(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    provisioned BOOLEAN DEFAULT false,
+    name_id TEXT NOT NULL,
+    name_id_format TEXT,
+    session_index TEXT,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE saml_sessions (
+    session_id UUID PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+    provider_id UUID NOT NULL REFERENCES saml_providers(id) ON DELETE CASCADE,
+    name_id TEXT NOT NULL,
+    name_id_format TEXT,
+    session_index TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_saml_sessions_name_id ON saml_sessions(provider_id, name_id);
+
+-- ============================================================================
+-- SCIM PROVISIONING TOKENS (Per-company bearer tokens)
+-- ============================================================================
+
+CREATE TABLE scim_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_scim_tokens_company ON scim_tokens(company_id);
+
+-- ============================================================================
+-- JWT SIGNING KEYS (Asymmetric, rotated; published as JWKS)
+-- ============================================================================
+
+CREATE TABLE jwt_signing_keys (
+    kid VARCHAR(64) PRIMARY KEY,
+    algorithm VARCHAR(10) NOT NULL CHECK (algorithm IN ('RS256', 'EdDSA')),
+    public_key TEXT NOT NULL,
+    private_key TEXT NOT NULL,
+    status VARCHAR(10) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    retired_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_jwt_signing_keys_status ON jwt_signing_keys(status);
+
+-- ============================================================================
+-- SERVICE ACCOUNTS & API KEYS (Machine clients; keys stored as SHA-256 hashes)
+-- ============================================================================
+
+CREATE TABLE service_accounts (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    permissions TEXT[] NOT NULL DEFAULT '{}',
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_service_accounts_company ON service_accounts(company_id);
+
+CREATE TABLE api_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    service_account_id UUID NOT NULL REFERENCES service_accounts(user_id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    key_prefix VARCHAR(16) NOT NULL,
+    key_hash VARCHAR(64) NOT NULL UNIQUE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    last_used_ip VARCHAR(45),
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    replaced_by UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_api_keys_service_account ON api_keys(service_account_id);
+
+-- ============================================================================
+-- OAUTH 2.0 CLIENTS (client_credentials grant; secrets stored as SHA-256 hashes)
+-- ============================================================================
+
+CREATE TABLE oauth_clients (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    service_account_id UUID NOT NULL REFERENCES service_accounts(user_id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    client_id VARCHAR(64) NOT NULL UNIQUE,
+    client_secret_hash VARCHAR(64) NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_oauth_clients_company ON oauth_clients(company_id);
+
+-- ============================================================================
+-- SMART ON FHIR (App registrations, EHR launches, authorization codes)
+-- ============================================================================
+
+CREATE TABLE smart_apps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    client_id VARCHAR(64) NOT NULL UNIQUE,
+    client_secret_hash VARCHAR(64),
+    redirect_uris TEXT[] NOT NULL,
+    launch_uri TEXT,
+    scopes TEXT[] NOT NULL DEFAULT '{}',
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_smart_apps_company ON smart_apps(company_id);
+
+CREATE TABLE smart_launches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    app_id UUID NOT NULL REFERENCES smart_apps(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    context JSONB NOT NULL DEFAULT '{}',
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE smart_authorization_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code_hash VARCHAR(64) NOT NULL UNIQUE,
+    app_id UUID NOT NULL REFERENCES smart_apps(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    scope TEXT NOT NULL,
+    redirect_uri TEXT NOT NULL,
+    code_challenge VARCHAR(128) NOT NULL,
+    context JSONB NOT NULL DEFAULT '{}',
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_smart_authorization_codes_expires ON smart_authorization_codes(expires_at);
+
+-- ============================================================================
+-- INVITATIONS (Email invitations with single-use, expiring tokens)
+-- ============================================================================
+
+CREATE TABLE invitations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+    role_ids UUID[] NOT NULL DEFAULT '{}',
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    accepted_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_invitations_company ON invitations(company_id);
+CREATE INDEX idx_invitations_email ON invitations(email);
+
+-- ============================================================================
+-- ACCESS REQUESTS (Requests to join an existing company, reviewed by org admins)
+-- ============================================================================
+
+CREATE TABLE access_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+    full_name VARCHAR(255) NOT NULL,
+    message TEXT,
+    status VARCHAR(10) NOT NULL DEFAULT 'pending',
+    tenant_id UUID REFERENCES tenants(id) ON DELETE SET NULL,
+    role_ids UUID[] NOT NULL DEFAULT '{}',
+    decision_reason TEXT,
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_access_request_status CHECK (status IN ('pending', 'approved', 'denied'))
+);
+
+CREATE INDEX idx_access_requests_company_status ON access_requests(company_id, status);
+CREATE UNIQUE INDEX idx_access_requests_pending_email ON access_requests(company_id, email) WHERE status = 'pending';
+
+-- ============================================================================
+-- EMAIL VERIFICATION (Single-use links proving a signup controls its email)
+-- ============================================================================
+
+CREATE TABLE email_verification_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_email_verification_tokens_user ON email_verification_tokens(user_id);
+
+-- ============================================================================
+-- BREAK-GLASS SESSIONS (Time-limited emergency access, reviewed afterwards)
+-- ============================================================================
+
+CREATE TABLE break_glass_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    emergency VARCHAR(255) NOT NULL,
+    justification TEXT NOT NULL,
+    permissions TEXT[] NOT NULL DEFAULT '{}',
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    review_requested_at TIMESTAMP WITH TIME ZONE,
+    review_outcome VARCHAR(12),
+    review_notes TEXT,
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_break_glass_review_outcome CHECK (review_outcome IN ('justified', 'unjustified'))
+);
+
+CREATE INDEX idx_break_glass_sessions_user ON break_glass_sessions(user_id, expires_at);
+CREATE INDEX idx_break_glass_sessions_company ON break_glass_sessions(company_id, started_at);
+CREATE INDEX idx_break_glass_sessions_unrequested ON break_glass_sessions(expires_at) WHERE review_requested_at IS NULL;
+
+-- ============================================================================
+-- KNOWN DEVICES (Login fingerprints per user; unknown ones alert or need approval)
+-- ============================================================================
+
+CREATE TABLE known_devices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    user_agent_family VARCHAR(100) NOT NULL,
+    ip_prefix VARCHAR(64) NOT NULL,
+    last_ip_address INET,
+    last_user_agent TEXT,
+    first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, user_agent_family, ip_prefix)
+);
+
+CREATE TABLE device_approvals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_agent_family VARCHAR(100) NOT NULL,
+    ip_prefix VARCHAR(64) NOT NULL,
+    ip_address INET,
+    user_agent TEXT,
+    status VARCHAR(10) NOT NULL DEFAULT 'pending',
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_device_approval_status CHECK (status IN ('pending', 'approved', 'denied'))
+);
+
+CREATE INDEX idx_device_approvals_company_status ON device_approvals(company_id, status);
+CREATE UNIQUE INDEX idx_device_approvals_pending_device
+    ON device_approvals(user_id, user_agent_family, ip_prefix) WHERE status = 'pending';
+
+-- ============================================================================
+-- MAGIC LINK TOKENS (Single-use, hashed, bound to the requesting browser)
+-- ============================================================================
+
+CREATE TABLE magic_link_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    browser_key_hash VARCHAR(64) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_magic_link_tokens_user ON magic_link_tokens(user_id);
 
 -- ============================================================================
 -- ROW LEVEL SECURITY (RLS) POLICIES
@@ -211,6 +708,34 @@ ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE api_usage ENABLE ROW LEVEL SECURITY;
 ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refresh_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webauthn_credentials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webauthn_challenges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE password_reset_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE password_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE oidc_providers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE oidc_login_states ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saml_providers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saml_request_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saml_login_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saml_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scim_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE jwt_signing_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE oauth_clients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE smart_apps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE smart_launches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE smart_authorization_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE access_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_verification_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE break_glass_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE known_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE device_approvals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE magic_link_tokens ENABLE ROW LEVEL SECURITY;
 
 -- Super User has access to everything
 CREATE POLICY super_user_all ON companies FOR ALL
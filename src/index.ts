@@ -9,11 +9,16 @@
 import express, { Application, Request, Response, NextFunction } from 'express';
 import helmet from 'helmet';
 import cors from 'cors';
-import { config } from './config';
+import { config, findDefaultSecrets } from './config';
 import routes from './routes';
+import scimRoutes from './routes/scim.routes';
+import wellKnownRoutes from './routes/well-known.routes';
 import { auditLog } from './middleware/audit.middleware';
 import { apiRateLimiter } from './middleware/rate-limit.middleware';
 import { authService } from './services/auth.service';
+import { signingKeyService } from './services/signing-key.service';
+import { emailVerificationService } from './services/email-verification.service';
+import { breakGlassService } from './services/break-glass.service';
 
 /**
  * NEEMIFY Application Server
@@ -50,6 +55,7 @@ class NEEMIFYServer {
 
     // Rate limiting
     this.app.use('/api', apiRateLimiter);
+    this.app.use('/scim/v2', apiRateLimiter);
 
     // Audit logging
     this.app.use('/api', auditLog);
@@ -70,6 +76,12 @@ class NEEMIFYServer {
     // Mount API routes
     this.app.use('/api', routes);
 
+    // Mount SCIM 2.0 provisioning (outside /api, as IdPs expect)
+    this.app.use('/scim/v2', scimRoutes);
+
+    // Mount discovery documents (JWKS)
+    this.app.use('/.well-known', wellKnownRoutes);
+
     // Root endpoint
     this.app.get('/', (req: Request, res: Response) => {
       res.json({
@@ -104,12 +116,53 @@ class NEEMIFYServer {
   }
 
   /**
-   * Initialize super user (one-time setup)
+   * Refuse to run in production with placeholder secrets or default credentials
+   */
+  private assertProductionSecrets(): void {
+    if (config.server.env !== 'production') {
+      return;
+    }
+
+    const defaults = findDefaultSecrets();
+    if (defaults.length > 0) {
+      throw new Error(`Default or placeholder secrets configured in production: ${defaults.join(', ')}`);
+    }
+  }
+
+  /**
+   * Point the operator at the bootstrap command on a fresh install
+   * The super user is never created at boot.
+   */
+  private async checkSuperUser(): Promise<void> {
+    if (!(await authService.hasSuperUser())) {
+      console.log('No super user exists yet. Create one with: npm run super-user:create');
+    }
+  }
+
+  /**
+   * Periodically delete signups that never verified their email
    */
-  async initializeSuperUser(): Promise<void> {
-    console.log('Checking super user setup...');
-    const result = await authService.initializeSuperUser();
-    console.log(result.message);
+  private scheduleUnverifiedSignupPurge(): void {
+    const purge = () =>
+      emailVerificationService.purgeExpiredSignups().catch((error) => {
+        console.error('Failed to purge unverified signups:', error);
+      });
+
+    purge();
+    setInterval(purge, config.emailVerification.purgeIntervalMinutes * 60 * 1000).unref();
+  }
+
+  /**
+   * Periodically ask org admins to review break-glass sessions that have expired
+   */
+  private scheduleBreakGlassReviews(): void {
+    const sweep = () =>
+      breakGlassService.requestPendingReviews().catch((error) => {
+        console.error('Failed to request break-glass reviews:', error);
+      });
+
+    sweep();
+    setInterval(sweep, config.breakGlass.reviewSweepMinutes * 60 * 1000).unref();
   }
 
   /**
@@ -117,8 +170,19 @@ class NEEMIFYServer {
    */
   async start(): Promise<void> {
     try {
-      // Initialize super user if needed
-      await this.initializeSuperUser();
+      this.assertProductionSecrets();
+
+      await this.checkSuperUser();
+
+      // Load JWT signing keys (creates the first key on a fresh install)
+      const signingKey = await signingKeyService.initialize();
+      console.log(`JWT signing key: ${signingKey.kid} (${signingKey.algorithm})`);
+
+      // Remove unverified signups (and their provisional companies) once they time out
+      this.scheduleUnverifiedSignupPurge();
+
+      // Send expired break-glass sessions to the org admins for review
+      this.scheduleBreakGlassReviews();
 
       // Start listening
       this.app.listen(config.server.port, () => {
@@ -0,0 +1,204 @@
+import { Request, Response } from 'express';
+import { supabaseAdmin } from '../../config/database';
+import type { FakeSupabase } from '../../config/__mocks__/database';
+import { JwtPayload, RequestContext } from '../../types';
+import { authService } from '../../services/auth.service';
+import { contextCacheService } from '../../services/context-cache.service';
+import { licensingService } from '../../services/licensing.service';
+import { rbacService } from '../../services/rbac.service';
+import { serviceAccountService } from '../../services/service-account.service';
+import { smartService } from '../../services/smart.service';
+import { authenticate, requireRecentAuth } from '../auth.middleware';
+
+jest.mock('../../config/database');
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+function contextSignedIn(secondsAgo: number, overrides: Partial<RequestContext> = {}): RequestContext {
+  return {
+    user: { id: 'user-1', is_service_account: false },
+    sessionId: 'session-1',
+    authenticatedAt: new Date(Date.now() - secondsAgo * 1000),
+    permissions: new Set<string>(),
+    ...overrides,
+  } as RequestContext;
+}
+
+function run(context?: RequestContext): { status?: number; body?: Record<string, unknown>; passed: boolean } {
+  const outcome: { status?: number; body?: Record<string, unknown>; passed: boolean } = { passed: false };
+  const res = {
+    status(code: number) {
+      outcome.status = code;
+      return this;
+    },
+    json(body: Record<string, unknown>) {
+      outcome.body = body;
+      return this;
+    },
+  } as unknown as Response;
+
+  requireRecentAuth(300)({ context } as Request, res, () => {
+    outcome.passed = true;
+  });
+  return outcome;
+}
+
+describe('requireRecentAuth', () => {
+  it('lets a recently authenticated user through', () => {
+    expect(run(contextSignedIn(60)).passed).toBe(true);
+  });
+
+  it('asks a user who authenticated too long ago to re-authenticate', () => {
+    const outcome = run(contextSignedIn(301));
+
+    expect(outcome.passed).toBe(false);
+    expect(outcome.status).toBe(403);
+    expect(outcome.body).toMatchObject({ reauthenticationRequired: true, maxAgeSeconds: 300 });
+  });
+
+  it('treats a context without an authentication time as stale', () => {
+    const outcome = run(contextSignedIn(0, { authenticatedAt: undefined }));
+
+    expect(outcome.status).toBe(403);
+    expect(outcome.body).toMatchObject({ reauthenticationRequired: true });
+  });
+
+  it('requires authentication', () => {
+    expect(run(undefined).status).toBe(401);
+  });
+
+  it('exempts service accounts', () => {
+    const context = contextSignedIn(0, { sessionId: undefined, authenticatedAt: undefined, apiKeyId: 'key-1' });
+    context.user.is_service_account = true;
+
+    expect(run(context).passed).toBe(true);
+  });
+
+  it('refuses impersonation tokens however recent', () => {
+    const outcome = run(contextSignedIn(0, { impersonation: { impersonatorId: 'admin-1', reason: 'support' } }));
+
+    expect(outcome.passed).toBe(false);
+    expect(outcome.status).toBe(403);
+    expect(outcome.body?.reauthenticationRequired).toBeUndefined();
+  });
+
+  it('refuses SMART app tokens however recent', () => {
+    const outcome = run(
+      contextSignedIn(0, { smart: { clientId: 'app-1', scopes: ['patient/*.read'] } as RequestContext['smart'] })
+    );
+
+    expect(outcome.passed).toBe(false);
+    expect(outcome.status).toBe(403);
+    expect(outcome.body?.reauthenticationRequired).toBeUndefined();
+  });
+});
+
+describe('authenticate', () => {
+  const client = { ip: '203.0.113.7', headers: { authorization: 'Bearer token', 'user-agent': 'jest' } };
+
+  async function request(payload: Partial<JwtPayload>): Promise<{ status?: number; context?: RequestContext }> {
+    jest.spyOn(authService, 'verifyToken').mockResolvedValue({ userId: 'user-1', jti: 'session-1', ...payload } as JwtPayload);
+
+    const outcome: { status?: number; context?: RequestContext } = {};
+    const req = { ...client, method: 'GET', originalUrl: '/api/users', socket: {} } as unknown as Request;
+    const res = {
+      status(code: number) {
+        outcome.status = code;
+        return this;
+      },
+      json() {
+        return this;
+      },
+    } as unknown as Response;
+
+    await authenticate(req, res, () => {
+      outcome.context = req.context;
+    });
+    return outcome;
+  }
+
+  beforeEach(() => {
+    db.reset();
+    ['user-1', 'admin-1', 'oauth-1'].forEach((id) => contextCacheService.forgetUser(id));
+    contextCacheService.forget('session', 'session-1');
+    contextCacheService.forget('smartApp', 'app-1');
+    contextCacheService.forgetCompany('acme');
+
+    jest.spyOn(rbacService, 'getUserRolesAndPermissions').mockResolvedValue({
+      roles: [],
+      permissions: [{ name: 'api.use' }, { name: 'user.read' }] as never,
+    });
+    jest.spyOn(licensingService, 'validateLicense').mockResolvedValue({ valid: true, license: { id: 'license-1' } as never });
+
+    db.table('sessions').push({
+      id: 'session-1',
+      user_id: 'user-1',
+      ip_address: client.ip,
+      user_agent: 'jest',
+      last_seen_at: new Date().toISOString(),
+      created_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+    db.table('companies').push({ id: 'acme', license_key: 'key', is_blocked: false });
+    db.table('users').push(
+      { id: 'user-1', company_id: 'acme', is_active: true, is_super_user: false, is_service_account: false },
+      { id: 'admin-1', company_id: 'acme', is_active: true, is_super_user: true, is_service_account: false }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('serves a repeat request entirely from the context cache', async () => {
+    expect((await request({})).context?.user.id).toBe('user-1');
+
+    db.queries = [];
+    expect((await request({})).context?.user.id).toBe('user-1');
+    expect(db.queries).toEqual([]);
+  });
+
+  it('caches the impersonator and still checks them on every request', async () => {
+    const payload = { impersonatorId: 'admin-1', impersonationReason: 'support' };
+    expect((await request(payload)).context?.impersonation?.impersonatorId).toBe('admin-1');
+
+    db.queries = [];
+    expect((await request(payload)).context?.impersonation?.impersonatorId).toBe('admin-1');
+    expect(db.queries).toEqual(['audit_logs']);
+
+    db.table('users')[1].is_super_user = false;
+    contextCacheService.forgetUser('admin-1');
+
+    expect((await request(payload)).status).toBe(401);
+  });
+
+  it('caches SMART apps until they are revoked', async () => {
+    db.table('smart_apps').push({ id: 'smart-1', company_id: 'acme', client_id: 'app-1', revoked_at: null });
+    const payload = { client_id: 'app-1', scope: 'patient/*.read', smart: { patient: 'patient-1' } };
+    expect((await request(payload)).context?.smart?.clientId).toBe('app-1');
+
+    db.queries = [];
+    expect((await request(payload)).context?.smart?.clientId).toBe('app-1');
+    expect(db.queries).toEqual([]);
+
+    await smartService.revokeApp('acme', 'smart-1');
+
+    expect((await request(payload)).status).toBe(401);
+  });
+
+  it("caches an OAuth client's permissions until its service account changes", async () => {
+    db.table('users').push({ id: 'oauth-1', company_id: 'acme', is_active: true, is_service_account: true });
+    db.table('service_accounts').push({ user_id: 'oauth-1', company_id: 'acme', permissions: ['api.use', 'user.read'] });
+    db.table('permissions').push({ name: 'api.use' }, { name: 'user.read' });
+    const payload = { userId: 'oauth-1', client_id: 'client-1', scope: 'api.use user.read' };
+    expect([...(await request(payload)).context!.permissions]).toEqual(['api.use', 'user.read']);
+
+    db.queries = [];
+    await request(payload);
+    expect(db.queries).toEqual([]);
+
+    await serviceAccountService.updateServiceAccount('acme', 'oauth-1', { permissions: ['api.use'] }, null);
+
+    expect([...(await request(payload)).context!.permissions]).toEqual(['api.use']);
+  });
+});
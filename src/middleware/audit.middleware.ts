@@ -8,6 +8,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { supabaseAdmin } from '../config/database';
+import { ClientInfo } from '../types';
 
 /**
  * Audit logging middleware
@@ -48,8 +49,10 @@ export async function auditLog(req: Request, res: Response, next: NextFunction):
 
 /**
  * Create audit log entry for sensitive actions
+ * Actions taken while impersonating also record the super user behind them, and actions
+ * taken during a break-glass session are tagged with it.
  *
- * @param userId - User performing action
+ * @param userId - User performing action (null when no user is behind it, e.g. SCIM)
  * @param companyId - Company ID
  * @param action - Action performed
  * @param resource - Resource type
@@ -58,26 +61,91 @@ export async function auditLog(req: Request, res: Response, next: NextFunction):
  * @param req - Express request object
  */
 export async function createAuditLogEntry(
-  userId: string,
+  userId: string | null,
   companyId: string,
   action: string,
   resource: string,
   resourceId: string | null,
   changes: Record<string, unknown>,
   req: Request
+): Promise<void> {
+  await insertAuditLogEntry(
+    userId,
+    companyId,
+    action,
+    resource,
+    resourceId,
+    req.context?.impersonation && req.context.impersonation.impersonatorId !== userId
+      ? { ...changes, impersonatorId: req.context.impersonation.impersonatorId }
+      : changes,
+    {
+      tenantId: req.context?.tenant?.id || null,
+      breakGlassSessionId: req.context?.breakGlass?.id || null,
+      ipAddress: req.ip || req.socket.remoteAddress || null,
+      userAgent: req.headers['user-agent'] || null,
+    }
+  );
+}
+
+/**
+ * Create audit log entry for an action that happens outside an authenticated request
+ * (a failed login locking the account, for example), from the client that caused it
+ *
+ * @param userId - User the action concerns
+ * @param companyId - Company ID
+ * @param action - Action performed
+ * @param resource - Resource type
+ * @param resourceId - Resource ID
+ * @param changes - Changes made
+ * @param client - IP address and User-Agent of the client
+ */
+export async function createClientAuditLogEntry(
+  userId: string | null,
+  companyId: string,
+  action: string,
+  resource: string,
+  resourceId: string | null,
+  changes: Record<string, unknown>,
+  client?: ClientInfo
+): Promise<void> {
+  await insertAuditLogEntry(userId, companyId, action, resource, resourceId, changes, {
+    tenantId: null,
+    breakGlassSessionId: null,
+    ipAddress: client?.ipAddress || null,
+    userAgent: client?.userAgent || null,
+  });
+}
+
+/**
+ * Write one audit log row; every entry is built here
+ */
+async function insertAuditLogEntry(
+  userId: string | null,
+  companyId: string,
+  action: string,
+  resource: string,
+  resourceId: string | null,
+  changes: Record<string, unknown>,
+  origin: {
+    tenantId: string | null;
+    breakGlassSessionId: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+  }
 ): Promise<void> {
   try {
     await supabaseAdmin.from('audit_logs').insert({
       id: uuidv4(),
       user_id: userId,
-      company_id: companyId,
-      tenant_id: req.context?.tenant?.id || null,
+      company_id: companyId || null,
+      tenant_id: origin.tenantId,
       action,
       resource,
       resource_id: resourceId,
       changes,
-      ip_address: req.ip || req.socket.remoteAddress || null,
-      user_agent: req.headers['user-agent'] || null,
+      ip_address: origin.ipAddress,
+      user_agent: origin.userAgent,
+      break_glass_session_id: origin.breakGlassSessionId,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -2,15 +2,33 @@
  * @file Authentication middleware
  * @module middleware/auth
  *
- * JWT validation and request context setup
+ * JWT and API key validation and request context setup
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
 import { authService } from '../services/auth.service';
 import { supabaseAdmin } from '../config/database';
-import { RequestContext, User, Company, License } from '../types';
+import {
+  RequestContext,
+  ScimContext,
+  SmartContext,
+  ImpersonationContext,
+  BreakGlassSession,
+  SmartApp,
+  User,
+  Company,
+  Tenant,
+} from '../types';
 import { licensingService } from '../services/licensing.service';
 import { rbacService } from '../services/rbac.service';
+import { sessionService } from '../services/session.service';
+import { serviceAccountService, API_KEY_PREFIX } from '../services/service-account.service';
+import { smartService, SMART_DELEGATED_PERMISSIONS } from '../services/smart.service';
+import { breakGlassService } from '../services/break-glass.service';
+import { contextCacheService, CachedCompany, CachedUser } from '../services/context-cache.service';
+import { parseScopes } from '../utils/smart';
+import { createAuditLogEntry } from './audit.middleware';
 
 /**
  * Extend Express Request to include our context
@@ -19,13 +37,120 @@ declare global {
   namespace Express {
     interface Request {
       context?: RequestContext;
+      scim?: ScimContext;
     }
   }
 }
 
+/**
+ * Load a user with their roles, permissions and open break-glass session
+ * Cached; see `ContextCacheService` for when entries are dropped.
+ *
+ * @param userId - User ID
+ */
+async function loadUser(userId: string): Promise<CachedUser | null> {
+  return contextCacheService.remember('user', userId, async () => {
+    const { data: user, error } = await supabaseAdmin
+      .from('users')
+      .select('*')
+      .eq('id', userId)
+      .single();
+
+    if (error || !user) {
+      return null;
+    }
+
+    const { roles, permissions } = await rbacService.getUserRolesAndPermissions(user.id);
+
+    // Super users and service accounts never use break-glass access
+    const breakGlass =
+      user.is_super_user || user.is_service_account
+        ? null
+        : await breakGlassService.getActiveSession(user.id);
+
+    return {
+      user: user as User,
+      roleIds: roles.map((role) => role.id),
+      permissions: permissions.map((permission) => permission.name),
+      breakGlass,
+    };
+  });
+}
+
+/**
+ * Load a company with the validation of its license
+ * Cached; see `ContextCacheService` for when entries are dropped.
+ *
+ * @param companyId - Company ID
+ */
+async function loadCompany(companyId: string): Promise<CachedCompany | null> {
+  return contextCacheService.remember('company', companyId, async () => {
+    const { data: company, error } = await supabaseAdmin
+      .from('companies')
+      .select('*')
+      .eq('id', companyId)
+      .single();
+
+    if (error || !company) {
+      return null;
+    }
+
+    return {
+      company: company as Company,
+      license: await licensingService.validateLicense(company.license_key),
+    };
+  });
+}
+
+/**
+ * Load a tenant
+ * Cached; see `ContextCacheService` for when entries are dropped.
+ *
+ * @param tenantId - Tenant ID
+ */
+async function loadTenant(tenantId: string): Promise<Tenant | null> {
+  return contextCacheService.remember('tenant', tenantId, async () => {
+    const { data: tenant } = await supabaseAdmin
+      .from('tenants')
+      .select('*')
+      .eq('id', tenantId)
+      .single();
+
+    return (tenant as Tenant) || null;
+  });
+}
+
+/**
+ * Load the permissions an OAuth client's service account still holds
+ * Cached; see `ContextCacheService` for when entries are dropped.
+ *
+ * @param serviceAccountId - Service account (user) ID
+ */
+async function loadServiceAccountPermissions(serviceAccountId: string): Promise<string[]> {
+  const permissions = await contextCacheService.remember('serviceAccountPermissions', serviceAccountId, () =>
+    serviceAccountService.getPermissions(serviceAccountId)
+  );
+
+  return permissions || [];
+}
+
+/**
+ * Load a registered, unrevoked SMART app
+ * Cached; see `ContextCacheService` for when entries are dropped.
+ *
+ * @param clientId - App client ID
+ */
+async function loadSmartApp(clientId: string): Promise<SmartApp | null> {
+  return contextCacheService.remember('smartApp', clientId, () => smartService.getApp(clientId));
+}
+
 /**
  * Authentication middleware
- * Validates JWT and sets up request context
+ * Validates a JWT (checking its server-side session) or a service account API key
+ * and sets up request context. Everything it checks, including impersonators, SMART
+ * apps and OAuth client permissions, comes from the context cache, so in the common
+ * case the request makes no database round-trip. Requests made while impersonating or
+ * during a break-glass session still write their audit entry.
  */
 export async function authenticate(
   req: Request,
@@ -33,50 +158,124 @@ export async function authenticate(
   next: NextFunction
 ): Promise<void> {
   try {
-    // Extract token from Authorization header
+    // Extract the credential: an API key (X-API-Key or Bearer) or a JWT (Bearer)
     const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const apiKeyHeader = req.headers['x-api-key'];
+
+    let token: string;
+    if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+      token = apiKeyHeader;
+    } else if (authHeader && authHeader.startsWith('Bearer ')) {
+      token = authHeader.substring(7);
+    } else {
       res.status(401).json({ error: 'Missing or invalid authorization header' });
       return;
     }
 
-    const token = authHeader.substring(7);
+    let userId: string;
+    let sessionId: string | undefined;
+    let authenticatedAt: Date | undefined;
+    let apiKeyId: string | undefined;
+    let scopedPermissions: string[] | undefined;
+    let smart: SmartContext | undefined;
+    let launchTenantId: string | undefined;
+    let impersonation: ImpersonationContext | undefined;
 
-    // Verify JWT
-    const payload = authService.verifyToken(token);
-    if (!payload) {
-      res.status(401).json({ error: 'Invalid or expired token' });
-      return;
-    }
+    if (token.startsWith(API_KEY_PREFIX)) {
+      // Service account API key; its scoped permissions replace role permissions
+      const verified = await serviceAccountService.verifyKey(token, req.ip);
+      if (!verified) {
+        res.status(401).json({ error: 'Invalid, expired or revoked API key' });
+        return;
+      }
 
-    // Get user from database
-    const { data: user, error: userError } = await supabaseAdmin
-      .from('users')
-      .select('*')
-      .eq('id', payload.userId)
-      .single();
+      userId = verified.userId;
+      apiKeyId = verified.apiKeyId;
+      scopedPermissions = verified.permissions;
+    } else {
+      // Verify JWT
+      const payload = await authService.verifyToken(token);
+      if (!payload) {
+        res.status(401).json({ error: 'Invalid or expired token' });
+        return;
+      }
 
-    if (userError || !user) {
+      // Check the session has not been revoked (logout, password change, admin action)
+      const session = payload.jti ? await sessionService.getActiveSession(payload.jti) : null;
+      if (!session) {
+        res.status(401).json({ error: 'Session has been revoked' });
+        return;
+      }
+
+      await sessionService.recordActivity(session, {
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
+
+      userId = payload.userId;
+      sessionId = payload.jti;
+      authenticatedAt = new Date(session.reauthenticated_at || session.created_at);
+
+      if (payload.impersonatorId) {
+        // Impersonation ends as soon as the impersonator is no longer an active super user
+        const impersonator = (await loadUser(payload.impersonatorId))?.user;
+
+        if (!impersonator || !impersonator.is_super_user || impersonator.is_active === false) {
+          res.status(401).json({ error: 'Impersonation is no longer allowed' });
+          return;
+        }
+
+        impersonation = { impersonatorId: payload.impersonatorId, reason: payload.impersonationReason || '' };
+      }
+
+      if (payload.smart) {
+        // SMART app tokens act for the user in the launch tenant while the app is registered
+        if (!(await loadSmartApp(payload.client_id!))) {
+          res.status(401).json({ error: 'App has been revoked' });
+          return;
+        }
+
+        smart = {
+          clientId: payload.client_id!,
+          scopes: parseScopes(payload.scope),
+          ...payload.smart,
+        };
+        launchTenantId = payload.tenantId;
+      } else if (payload.client_id) {
+        // OAuth client tokens are limited to their scopes that the client still holds
+        const granted = await loadServiceAccountPermissions(payload.userId);
+        scopedPermissions = (payload.scope || '').split(' ').filter((scope) => granted.includes(scope));
+      }
+    }
+
+    const cachedUser = await loadUser(userId);
+    if (!cachedUser) {
       res.status(401).json({ error: 'User not found' });
       return;
     }
 
-    // Get company
-    const { data: company, error: companyError } = await supabaseAdmin
-      .from('companies')
-      .select('*')
-      .eq('id', user.company_id)
-      .single();
+    const { user } = cachedUser;
+    if (user.is_active === false) {
+      res.status(401).json({ error: 'Account is deactivated' });
+      return;
+    }
 
-    if (companyError || !company) {
+    const cachedCompany = await loadCompany(user.company_id);
+    if (!cachedCompany) {
       res.status(403).json({ error: 'Company not found' });
       return;
     }
 
+    const { company } = cachedCompany;
+    if (company.is_blocked && !user.is_super_user) {
+      res.status(403).json({ error: 'Company is blocked' });
+      return;
+    }
+
     // Validate license (skip for super users)
     let licenseValidation;
     if (!user.is_super_user) {
-      licenseValidation = await licensingService.validateLicense(company.license_key);
+      licenseValidation = cachedCompany.license;
       if (!licenseValidation.valid) {
         res.status(403).json({
           error: 'Invalid or expired license',
@@ -86,30 +285,80 @@ export async function authenticate(
       }
     }
 
-    // Get tenant if applicable
-    let tenant;
-    if (user.tenant_id) {
-      const { data: tenantData } = await supabaseAdmin
-        .from('tenants')
-        .select('*')
-        .eq('id', user.tenant_id)
-        .single();
-      tenant = tenantData;
+    // An open break-glass session applies to the user's own sign-ins (not API keys,
+    // SMART apps or impersonation)
+    let breakGlass: BreakGlassSession | undefined;
+    if (
+      sessionId &&
+      !smart &&
+      !impersonation &&
+      !scopedPermissions &&
+      cachedUser.breakGlass &&
+      new Date(cachedUser.breakGlass.expires_at).getTime() > Date.now()
+    ) {
+      breakGlass = cachedUser.breakGlass;
     }
 
+    // Get tenant if applicable (a SMART token's launch tenant or the break-glass tenant takes precedence)
+    const tenantId = smart ? launchTenantId : breakGlass?.tenant_id || user.tenant_id;
+    const tenant = tenantId ? (await loadTenant(tenantId)) || undefined : undefined;
+
     // Get user permissions
-    const { permissions } = await rbacService.getUserRolesAndPermissions(user.id);
-    const permissionSet = new Set(permissions.map((p) => p.name));
+    let permissionSet: Set<string>;
+    if (scopedPermissions) {
+      permissionSet = new Set(scopedPermissions);
+    } else {
+      permissionSet = new Set(
+        cachedUser.permissions.filter((name) => !smart || SMART_DELEGATED_PERMISSIONS.includes(name))
+      );
+    }
+
+    for (const permission of breakGlass?.permissions || []) {
+      permissionSet.add(permission);
+    }
 
     // Set request context
     req.context = {
-      user: user as User,
+      // SMART apps act for the user but never with admin rights
+      user: (smart ? { ...user, is_super_user: false, is_org_admin: false } : user) as User,
       company: company as Company,
       tenant,
       license: licenseValidation?.license || null,
       permissions: permissionSet,
+      sessionId,
+      authenticatedAt,
+      apiKeyId,
+      smart,
+      impersonation,
+      breakGlass,
     };
 
+    if (impersonation) {
+      // Audit log: every request made while impersonating is attributed to the super user
+      await createAuditLogEntry(
+        impersonation.impersonatorId,
+        company.id,
+        'user.impersonate_request',
+        'user',
+        user.id,
+        { method: req.method, path: req.originalUrl, reason: impersonation.reason },
+        req
+      );
+    }
+
+    if (breakGlass) {
+      // Audit log: every request made during a break-glass session is recorded and tagged with it
+      await createAuditLogEntry(
+        user.id,
+        company.id,
+        'break_glass.request',
+        'break_glass_session',
+        breakGlass.id,
+        { method: req.method, path: req.originalUrl },
+        req
+      );
+    }
+
     next();
   } catch (error) {
     res.status(500).json({
@@ -151,6 +400,46 @@ export function requirePermission(requiredPermission: string) {
   };
 }
 
+/**
+ * Step-up check middleware factory
+ * Requires the user to have signed in, or re-authenticated with
+ * `POST /api/auth/reauthenticate`, within the last `maxAgeSeconds`. Impersonation and
+ * SMART app tokens cannot re-authenticate, so they are always refused. Service accounts
+ * have nobody to prompt and are exempt; their keys are already scoped.
+ *
+ * @param maxAgeSeconds - How recent the authentication must be
+ */
+export function requireRecentAuth(maxAgeSeconds: number = config.stepUp.maxAgeSeconds) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.context) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (req.context.impersonation || req.context.smart) {
+      res.status(403).json({ error: 'Only the user signing in can confirm this action' });
+      return;
+    }
+
+    if (req.context.user.is_service_account) {
+      next();
+      return;
+    }
+
+    const authenticatedAt = req.context.authenticatedAt?.getTime() || 0;
+    if (Date.now() - authenticatedAt > maxAgeSeconds * 1000) {
+      res.status(403).json({
+        error: 'Confirm your identity to continue',
+        reauthenticationRequired: true,
+        maxAgeSeconds,
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
 /**
  * Organization admin check middleware
  */
@@ -49,3 +49,38 @@ export const authRateLimiter = rateLimit({
   message: { error: 'Too many authentication attempts, please try again later.' },
   skipSuccessfulRequests: true,
 });
+
+/**
+ * Rate limiter for password reset emails
+ * Counts every request, since the endpoint always reports success.
+ */
+export const passwordResetRateLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: 'Too many password reset requests, please try again later.' },
+});
+
+/**
+ * Rate limiter for resending email verification links
+ */
+export const emailVerificationRateLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: 'Too many verification email requests, please try again later.' },
+});
+
+/**
+ * Rate limiter for magic-link emails
+ * Counts every request, since the endpoint always reports success.
+ */
+export const magicLinkRateLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: 'Too many sign-in link requests, please try again later.' },
+});
@@ -0,0 +1,54 @@
+/**
+ * @file SCIM authentication middleware
+ * @module middleware/scim
+ *
+ * Per-company bearer token validation for the SCIM endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { scimService } from '../services/scim.service';
+import { licensingService } from '../services/licensing.service';
+import { scimError } from '../utils/scim';
+
+/**
+ * SCIM authentication middleware
+ * Resolves the provisioning token to its company; errors use the SCIM error format
+ */
+export async function authenticateScim(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      res.status(401).type('application/scim+json').json(scimError(401, 'Missing or invalid authorization header'));
+      return;
+    }
+
+    const verified = await scimService.verifyToken(authHeader.substring(7));
+    if (!verified) {
+      res.status(401).type('application/scim+json').json(scimError(401, 'Invalid or revoked token'));
+      return;
+    }
+
+    if (verified.company.is_blocked) {
+      res.status(403).type('application/scim+json').json(scimError(403, 'Company is blocked'));
+      return;
+    }
+
+    const licenseValidation = await licensingService.validateLicense(verified.company.license_key);
+    if (!licenseValidation.valid) {
+      res.status(403).type('application/scim+json').json(scimError(403, 'Invalid or expired license'));
+      return;
+    }
+
+    req.scim = verified;
+
+    next();
+  } catch (error) {
+    res.status(500).type('application/scim+json').json(
+      scimError(500, error instanceof Error ? error.message : 'Authentication error')
+    );
+  }
+}
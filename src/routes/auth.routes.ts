@@ -3,15 +3,113 @@
  * @module routes/auth
  */
 
-import { Router, Request, Response } from 'express';
-import { authService } from '../services/auth.service';
+import { Router, Request, Response, NextFunction } from 'express';
+import { authService, LoginResult } from '../services/auth.service';
 import { companyService } from '../services/company.service';
 import { rbacService } from '../services/rbac.service';
-import { authRateLimiter } from '../middleware/rate-limit.middleware';
-import { LicenseFeatures } from '../types';
+import { sessionService } from '../services/session.service';
+import { mfaService } from '../services/mfa.service';
+import { userService } from '../services/user.service';
+import { webauthnService } from '../services/webauthn.service';
+import { passwordPolicyService } from '../services/password-policy.service';
+import { oidcService } from '../services/oidc.service';
+import { samlService } from '../services/saml.service';
+import { invitationService } from '../services/invitation.service';
+import { accessRequestService } from '../services/access-request.service';
+import { emailVerificationService } from '../services/email-verification.service';
+import { deviceService } from '../services/device.service';
+import { authenticate, requireSuperUser } from '../middleware/auth.middleware';
+import {
+  authRateLimiter,
+  emailVerificationRateLimiter,
+  magicLinkRateLimiter,
+  passwordResetRateLimiter,
+} from '../middleware/rate-limit.middleware';
+import { createAuditLogEntry } from '../middleware/audit.middleware';
+import { config } from '../config';
+import { ClientInfo, LicenseFeatures, User } from '../types';
 
 const router = Router();
 
+/**
+ * Shape a user for login responses
+ */
+function toLoginUser(user: User): Record<string, unknown> {
+  return {
+    id: user.id,
+    email: user.email,
+    fullName: user.full_name,
+    companyId: user.company_id,
+    isOrgAdmin: user.is_org_admin,
+    isSuperUser: user.is_super_user,
+  };
+}
+
+/**
+ * IP address and User-Agent of a login request, used to recognise the device
+ */
+function clientOf(req: Request): ClientInfo {
+  return { ipAddress: req.ip, userAgent: req.headers['user-agent'] };
+}
+
+/**
+ * Audit a login from a new device, and answer a login held until an org admin
+ * approves its device
+ *
+ * @returns Whether a response was sent
+ */
+async function handleDeviceCheck(result: LoginResult, req: Request, res: Response): Promise<boolean> {
+  if (result.deviceApprovalRequired) {
+    if (result.deviceApproval) {
+      // Audit log
+      await createAuditLogEntry(
+        result.user!.id,
+        result.user!.company_id,
+        'user.device_approval_request',
+        'device_approval',
+        result.deviceApproval.id,
+        { device: result.deviceApproval.user_agent_family, ipPrefix: result.deviceApproval.ip_prefix },
+        req
+      );
+    }
+
+    res.status(403).json({ error: result.error, deviceApprovalRequired: true });
+    return true;
+  }
+
+  if (result.newDevice) {
+    // Audit log
+    await createAuditLogEntry(
+      result.user!.id,
+      result.user!.company_id,
+      'user.new_device',
+      'known_device',
+      result.newDevice.id,
+      { device: result.newDevice.user_agent_family, ipPrefix: result.newDevice.ip_prefix },
+      req
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Accept either a bearer session or, during a login that forces MFA enrollment,
+ * the MFA challenge token in the request body
+ */
+function authenticateOrMfaChallenge(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void | Promise<void> {
+  if (req.body?.mfaToken) {
+    next();
+    return;
+  }
+
+  return authenticate(req, res, next);
+}
+
 /**
  * POST /api/auth/signup
  * User signup with domain validation
@@ -40,6 +138,13 @@ router.post('/signup', authRateLimiter, async (req: Request, res: Response): Pro
       return;
     }
 
+    // Check the password before creating anything (new companies use the default policy)
+    const violations = await passwordPolicyService.checkPassword(password, { email });
+    if (violations.length > 0) {
+      res.status(400).json({ error: 'Password does not meet the password policy', violations });
+      return;
+    }
+
     // Create new company
     const domain = email.split('@')[1];
     const companyName = req.body.companyName || domain;
@@ -65,28 +170,32 @@ router.post('/signup', authRateLimiter, async (req: Request, res: Response): Pro
       return;
     }
 
-    // Register user as organization admin
+    // Register user as organization admin (unverified until they follow the emailed link)
     const userResult = await authService.register(
       email,
       password,
       fullName,
       companyResult.company!.id,
-      true // isOrgAdmin
+      true, // isOrgAdmin
+      false // emailVerified
     );
 
     if (!userResult.success) {
-      res.status(400).json({ error: userResult.error });
+      res.status(400).json({ error: userResult.error, violations: userResult.violations });
       return;
     }
 
     // Create default roles for the company
     await rbacService.createDefaultRoles(companyResult.company!.id);
 
+    await emailVerificationService.sendVerification({ id: userResult.userId!, email, full_name: fullName });
+
     res.status(201).json({
-      message: 'Company and user created successfully',
+      message: 'Company and user created. Check your email to verify your address.',
       userId: userResult.userId,
       companyId: companyResult.company!.id,
       licenseKey: companyResult.licenseKey,
+      emailVerificationRequired: config.emailVerification.required,
     });
   } catch (error) {
     res.status(500).json({
@@ -109,23 +218,51 @@ router.post('/login', authRateLimiter, async (req: Request, res: Response): Prom
       return;
     }
 
-    const result = await authService.login(email, password);
+    const result = await authService.login(email, password, clientOf(req));
+
+    // The lock itself is audited by the lockout service
+    if (result.lockout) {
+      res.status(423).json({ error: result.error, lockedUntil: result.lockout.lockedUntil });
+      return;
+    }
+
+    if (result.passwordExpired) {
+      res.status(403).json({ error: result.error, passwordExpired: true });
+      return;
+    }
+
+    if (result.emailUnverified) {
+      res.status(403).json({ error: result.error, emailUnverified: true });
+      return;
+    }
+
+    if (result.passwordChangeRequired) {
+      res.status(403).json({ error: result.error, passwordChangeRequired: true });
+      return;
+    }
+
+    if (await handleDeviceCheck(result, req, res)) {
+      return;
+    }
 
     if (!result.success) {
       res.status(401).json({ error: result.error });
       return;
     }
 
+    if (result.mfaRequired) {
+      res.json({
+        mfaRequired: true,
+        enrollmentRequired: result.mfaEnrollmentRequired,
+        mfaToken: result.mfaToken,
+      });
+      return;
+    }
+
     res.json({
       token: result.token,
-      user: {
-        id: result.user!.id,
-        email: result.user!.email,
-        fullName: result.user!.full_name,
-        companyId: result.user!.company_id,
-        isOrgAdmin: result.user!.is_org_admin,
-        isSuperUser: result.user!.is_super_user,
-      },
+      refreshToken: result.refreshToken,
+      user: toLoginUser(result.user!),
     });
   } catch (error) {
     res.status(500).json({
@@ -136,21 +273,1341 @@ router.post('/login', authRateLimiter, async (req: Request, res: Response): Prom
 });
 
 /**
- * POST /api/auth/request-access
- * Request access to existing company
+ * POST /api/auth/mfa/verify
+ * Second login step: exchange an MFA challenge token and a TOTP or recovery code for tokens
  */
-router.post('/request-access', async (req: Request, res: Response): Promise<void> => {
+router.post('/mfa/verify', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
   try {
-    const { email, companyId } = req.body;
+    const { mfaToken, code, recoveryCode } = req.body;
 
-    if (!email || !companyId) {
-      res.status(400).json({ error: 'Missing required fields' });
+    if (!mfaToken || (!code && !recoveryCode)) {
+      res.status(400).json({ error: 'Missing MFA token or verification code' });
+      return;
+    }
+
+    const result = await authService.completeMfaLogin(mfaToken, { code, recoveryCode }, clientOf(req));
+
+    if (await handleDeviceCheck(result, req, res)) {
+      return;
+    }
+
+    if (!result.success) {
+      res.status(401).json({ error: result.error });
+      return;
+    }
+
+    res.json({
+      token: result.token,
+      refreshToken: result.refreshToken,
+      user: toLoginUser(result.user!),
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'MFA verification failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/mfa/enroll
+ * Start TOTP enrollment (returns the secret and otpauth:// provisioning URI)
+ */
+router.post('/mfa/enroll', authenticateOrMfaChallenge, async (req: Request, res: Response): Promise<void> => {
+  try {
+    let userId = req.context?.user.id;
+    if (!userId) {
+      const challenge = authService.verifyMfaChallenge(req.body.mfaToken);
+      if (!challenge || !challenge.enrollmentRequired) {
+        res.status(401).json({ error: 'Invalid or expired MFA challenge' });
+        return;
+      }
+      userId = challenge.userId;
+    }
+
+    const user = await userService.getUserById(userId);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const result = await mfaService.startEnrollment(user.id, user.email);
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    res.json({ secret: result.secret, otpauthUrl: result.otpauthUrl });
+  } catch (error) {
+    res.status(500).json({
+      error: 'MFA enrollment failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/mfa/confirm
+ * Confirm TOTP enrollment with a first code; returns single-use recovery codes.
+ * With an MFA challenge token this also completes the interrupted login.
+ */
+router.post('/mfa/confirm', authenticateOrMfaChallenge, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code, mfaToken } = req.body;
+
+    if (!code) {
+      res.status(400).json({ error: 'Verification code is required' });
+      return;
+    }
+
+    if (!req.context) {
+      const result = await authService.completeMfaEnrollmentLogin(mfaToken, code, clientOf(req));
+
+      if (await handleDeviceCheck(result, req, res)) {
+        return;
+      }
+
+      if (!result.success) {
+        res.status(400).json({ error: result.error });
+        return;
+      }
+
+      res.json({
+        token: result.token,
+        refreshToken: result.refreshToken,
+        user: toLoginUser(result.user!),
+        recoveryCodes: result.recoveryCodes,
+      });
+      return;
+    }
+
+    const result = await mfaService.confirmEnrollment(req.context.user.id, code);
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context.user.id,
+      req.context.company.id,
+      'mfa.enable',
+      'user',
+      req.context.user.id,
+      {},
+      req
+    );
+
+    res.json({ message: 'MFA enabled successfully', recoveryCodes: result.recoveryCodes });
+  } catch (error) {
+    res.status(500).json({
+      error: 'MFA confirmation failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/mfa/recovery-codes
+ * Replace the current user's recovery codes (requires a valid TOTP code)
+ */
+router.post('/mfa/recovery-codes', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (!code || !(await mfaService.verifyCode(req.context!.user.id, code))) {
+      res.status(400).json({ error: 'Invalid verification code' });
+      return;
+    }
+
+    const recoveryCodes = await mfaService.generateRecoveryCodes(req.context!.user.id);
+
+    res.json({ recoveryCodes });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to regenerate recovery codes',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/mfa/disable
+ * Turn off MFA for the current user (requires a valid TOTP code)
+ */
+router.post('/mfa/disable', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (req.context!.company.require_mfa) {
+      res.status(403).json({ error: 'MFA is required by your organization' });
+      return;
+    }
+
+    if (!code || !(await mfaService.verifyCode(req.context!.user.id, code))) {
+      res.status(400).json({ error: 'Invalid verification code' });
+      return;
+    }
+
+    const result = await mfaService.disable(req.context!.user.id);
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'mfa.disable',
+      'user',
+      req.context!.user.id,
+      {},
+      req
+    );
+
+    res.json({ message: 'MFA disabled successfully' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to disable MFA',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/webauthn/register/options
+ * Start passkey registration for the current user
+ */
+router.post('/webauthn/register/options', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await webauthnService.generateRegistrationOptions(req.context!.user);
+    res.json(result);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to start passkey registration',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/webauthn/register/verify
+ * Finish passkey registration with the authenticator's attestation
+ */
+router.post('/webauthn/register/verify', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { challengeId, response, name } = req.body;
+
+    if (!challengeId || !response) {
+      res.status(400).json({ error: 'Missing challenge ID or response' });
+      return;
+    }
+
+    const result = await webauthnService.verifyRegistration(
+      req.context!.user.id,
+      challengeId,
+      response,
+      name
+    );
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
       return;
     }
 
-    const result = await companyService.requestCompanyAccess(companyId, email);
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'webauthn.register',
+      'user',
+      req.context!.user.id,
+      { name: name || null },
+      req
+    );
+
+    res.status(201).json({ message: 'Passkey registered successfully' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Passkey registration failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
 
+/**
+ * POST /api/auth/webauthn/authenticate/options
+ * Start passkey login (email is optional; without it any discoverable passkey is offered)
+ */
+router.post('/webauthn/authenticate/options', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await webauthnService.generateAuthenticationOptions(req.body?.email);
     res.json(result);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to start passkey login',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/webauthn/authenticate/verify
+ * Finish passkey login with the authenticator's assertion
+ */
+router.post('/webauthn/authenticate/verify', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { challengeId, response } = req.body;
+
+    if (!challengeId || !response) {
+      res.status(400).json({ error: 'Missing challenge ID or response' });
+      return;
+    }
+
+    const result = await authService.loginWithPasskey(challengeId, response, clientOf(req));
+
+    if (await handleDeviceCheck(result, req, res)) {
+      return;
+    }
+
+    if (!result.success) {
+      res.status(401).json({ error: result.error });
+      return;
+    }
+
+    res.json({
+      token: result.token,
+      refreshToken: result.refreshToken,
+      user: toLoginUser(result.user!),
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Passkey login failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/auth/webauthn/credentials
+ * List the current user's passkeys
+ */
+router.get('/webauthn/credentials', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const credentials = await webauthnService.getUserCredentials(req.context!.user.id);
+
+    res.json(
+      credentials.map((credential) => ({
+        id: credential.id,
+        name: credential.name,
+        deviceType: credential.device_type,
+        backedUp: credential.backed_up,
+        createdAt: credential.created_at,
+        lastUsedAt: credential.last_used_at,
+      }))
+    );
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch passkeys',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/webauthn/credentials/:id
+ * Remove one of the current user's passkeys
+ */
+router.delete('/webauthn/credentials/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await webauthnService.deleteCredential(req.context!.user.id, req.params.id);
+
+    if (!result.success) {
+      res.status(404).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'webauthn.remove',
+      'user',
+      req.context!.user.id,
+      { credentialId: req.params.id },
+      req
+    );
+
+    res.json({ message: 'Passkey removed successfully' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to remove passkey',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/sso/discover
+ * Check whether an email's company signs in through SSO (OIDC or SAML) and, if so,
+ * where to send the browser
+ */
+router.post('/sso/discover', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      res.status(400).json({ error: 'Missing email' });
+      return;
+    }
+
+    // A company with both providers configured signs in through OIDC
+    const oidc = await oidcService.startLogin(email);
+
+    res.json(oidc.sso ? oidc : await samlService.startLogin(email));
+  } catch (error) {
+    res.status(500).json({
+      error: 'SSO discovery failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/sso/oidc/callback
+ * Finish an SSO login with the code and state the IdP redirected back with
+ */
+router.post('/sso/oidc/callback', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code, state } = req.body;
+
+    if (!code || !state) {
+      res.status(400).json({ error: 'Missing code or state' });
+      return;
+    }
+
+    const result = await authService.loginWithOidc(state, code, clientOf(req));
+
+    if (await handleDeviceCheck(result, req, res)) {
+      return;
+    }
+
+    if (!result.success) {
+      res.status(401).json({ error: result.error });
+      return;
+    }
+
+    if (result.provisioned) {
+      // Audit log
+      await createAuditLogEntry(
+        result.user!.id,
+        result.user!.company_id,
+        'user.jit_provision',
+        'user',
+        result.user!.id,
+        { email: result.user!.email, source: 'oidc' },
+        req
+      );
+    }
+
+    res.json({
+      token: result.token,
+      refreshToken: result.refreshToken,
+      user: toLoginUser(result.user!),
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'SSO login failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/auth/sso/saml/:companyId/metadata
+ * SAML service provider metadata for a company (give this to the IdP)
+ */
+router.get('/sso/saml/:companyId/metadata', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const metadata = await samlService.getServiceProviderMetadata(req.params.companyId);
+
+    if (!metadata) {
+      res.status(404).json({ error: 'Company not found' });
+      return;
+    }
+
+    res.type('application/samlmetadata+xml').send(metadata);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to generate SAML metadata',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/sso/saml/:companyId/acs
+ * Assertion consumer service: the IdP posts the SAML response here (SP- or IdP-initiated),
+ * and the browser is sent on to the dashboard with a single-use login code
+ */
+router.post('/sso/saml/:companyId/acs', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  const redirect = new URL(config.sso.redirectUri);
+  redirect.searchParams.set('protocol', 'saml');
+
+  try {
+    const result = await samlService.handleAssertion(req.params.companyId, req.body || {});
+
+    if (result.success) {
+      redirect.searchParams.set('code', result.code!);
+    } else {
+      redirect.searchParams.set('error', result.error || 'SAML login failed');
+    }
+  } catch (error) {
+    redirect.searchParams.set('error', 'SAML login failed');
+  }
+
+  res.redirect(303, redirect.toString());
+});
+
+/**
+ * POST /api/auth/sso/saml/callback
+ * Exchange the login code from the ACS redirect for access and refresh tokens
+ */
+router.post('/sso/saml/callback', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      res.status(400).json({ error: 'Missing code' });
+      return;
+    }
+
+    const result = await authService.loginWithSaml(code, clientOf(req));
+
+    if (await handleDeviceCheck(result, req, res)) {
+      return;
+    }
+
+    if (!result.success) {
+      res.status(401).json({ error: result.error });
+      return;
+    }
+
+    if (result.provisioned) {
+      // Audit log
+      await createAuditLogEntry(
+        result.user!.id,
+        result.user!.company_id,
+        'user.jit_provision',
+        'user',
+        result.user!.id,
+        { email: result.user!.email, source: 'saml' },
+        req
+      );
+    }
+
+    res.json({
+      token: result.token,
+      refreshToken: result.refreshToken,
+      user: toLoginUser(result.user!),
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'SSO login failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET|POST /api/auth/sso/saml/:companyId/slo
+ * Single logout: handles IdP-initiated LogoutRequests and responses to our own
+ * (HTTP-Redirect or HTTP-POST binding)
+ */
+router.all('/sso/saml/:companyId/slo', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const isRedirectBinding = req.method === 'GET';
+    const result = await samlService.handleLogout(
+      req.params.companyId,
+      isRedirectBinding ? (req.query as Record<string, string>) : req.body || {},
+      isRedirectBinding ? req.originalUrl.split('?')[1] || '' : undefined
+    );
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    res.redirect(303, result.redirectUrl!);
+  } catch (error) {
+    res.status(500).json({
+      error: 'SAML logout failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access token (rotates the refresh token)
+ */
+router.post('/refresh', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      res.status(400).json({ error: 'Missing refresh token' });
+      return;
+    }
+
+    const result = await authService.refresh(refreshToken);
+
+    if (!result.success) {
+      res.status(401).json({ error: result.error });
+      return;
+    }
+
+    res.json({
+      token: result.token,
+      refreshToken: result.refreshToken,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Token refresh failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a password reset link (the response is the same whether or not the account exists)
+ */
+router.post('/forgot-password', passwordResetRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      res.status(400).json({ error: 'Missing email' });
+      return;
+    }
+
+    await authService.requestPasswordReset(email);
+
+    res.json({
+      message: 'If an account exists for this email, a password reset link has been sent.',
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Password reset request failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/magic-link
+ * Email a single-use sign-in link (the response is the same whether or not one was sent).
+ * The returned browser key must accompany the link, so it only works in this browser.
+ */
+router.post('/magic-link', magicLinkRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      res.status(400).json({ error: 'Missing email' });
+      return;
+    }
+
+    const { browserKey } = await authService.requestMagicLink(email);
+
+    res.json({
+      message: 'If magic-link sign-in is available for this email, a sign-in link has been sent.',
+      browserKey,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Magic link request failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/magic-link/verify
+ * Log in with the token from a magic link and the browser key it was requested with
+ */
+router.post('/magic-link/verify', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, browserKey } = req.body;
+
+    if (!token || !browserKey) {
+      res.status(400).json({ error: 'Missing token or browser key' });
+      return;
+    }
+
+    const result = await authService.loginWithMagicLink(token, browserKey, clientOf(req));
+
+    if (result.lockout) {
+      res.status(423).json({ error: result.error, lockedUntil: result.lockout.lockedUntil });
+      return;
+    }
+
+    if (await handleDeviceCheck(result, req, res)) {
+      return;
+    }
+
+    if (!result.success) {
+      res.status(401).json({ error: result.error });
+      return;
+    }
+
+    if (result.mfaRequired) {
+      res.json({
+        mfaRequired: true,
+        enrollmentRequired: result.mfaEnrollmentRequired,
+        mfaToken: result.mfaToken,
+      });
+      return;
+    }
+
+    res.json({
+      token: result.token,
+      refreshToken: result.refreshToken,
+      user: toLoginUser(result.user!),
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Magic link login failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password with the token from a reset link
+ */
+router.post('/reset-password', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      res.status(400).json({ error: 'Missing token or password' });
+      return;
+    }
+
+    const result = await authService.resetPassword(token, password);
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error, violations: result.violations });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      result.userId!,
+      result.companyId!,
+      'user.password_reset',
+      'user',
+      result.userId!,
+      {},
+      req
+    );
+
+    res.json({ message: 'Password has been reset. Please log in with your new password.' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Password reset failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/required-password-change
+ * Choose a new password when login reports `passwordChangeRequired`
+ */
+router.post('/required-password-change', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, currentPassword, newPassword } = req.body;
+
+    if (!email || !currentPassword || !newPassword) {
+      res.status(400).json({ error: 'Missing email, current password or new password' });
+      return;
+    }
+
+    const result = await authService.changeRequiredPassword(email, currentPassword, newPassword, clientOf(req));
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error, violations: result.violations });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      result.userId!,
+      result.companyId!,
+      'user.password_change',
+      'user',
+      result.userId!,
+      {},
+      req
+    );
+
+    res.json({ message: 'Password changed. Please log in with your new password.' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Password change failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/verify-email
+ * Confirm a signup's email address with the token from the verification link
+ */
+router.post('/verify-email', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      res.status(400).json({ error: 'Missing token' });
+      return;
+    }
+
+    const result = await emailVerificationService.verifyEmail(token);
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      result.userId!,
+      result.companyId!,
+      'user.email_verify',
+      'user',
+      result.userId!,
+      {},
+      req
+    );
+
+    res.json({ message: 'Email address verified. You can now log in.' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Email verification failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/verify-email/resend
+ * Email a new verification link (the response is the same whether or not the account needs one)
+ */
+router.post('/verify-email/resend', emailVerificationRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      res.status(400).json({ error: 'Missing email' });
+      return;
+    }
+
+    await emailVerificationService.resendVerification(email);
+
+    res.json({
+      message: 'If this account still needs verifying, a new verification link has been sent.',
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Verification email request failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/invitations/lookup
+ * Describe a pending invitation for the accept form
+ */
+router.post('/invitations/lookup', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      res.status(400).json({ error: 'Missing token' });
+      return;
+    }
+
+    const invitation = await invitationService.lookupInvitation(token);
+
+    if (!invitation) {
+      res.status(404).json({ error: 'Invalid or expired invitation' });
+      return;
+    }
+
+    res.json(invitation);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to load invitation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/invitations/accept
+ * Accept an invitation and set your own password
+ */
+router.post('/invitations/accept', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, fullName, password } = req.body;
+
+    if (!token || !fullName || !password) {
+      res.status(400).json({ error: 'Missing token, fullName or password' });
+      return;
+    }
+
+    const result = await invitationService.acceptInvitation(token, { fullName, password });
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error, violations: result.violations });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      result.userId!,
+      result.companyId!,
+      'user.invite_accept',
+      'invitation',
+      result.invitationId!,
+      { userId: result.userId },
+      req
+    );
+
+    res.status(201).json({ message: 'Invitation accepted. Please log in with your new password.' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to accept invitation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * End the current session
+ */
+router.post('/logout', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessionId = req.context!.sessionId;
+
+    // API keys are not sessions; they are revoked through their service account
+    if (!sessionId) {
+      res.status(400).json({ error: 'No session to log out of' });
+      return;
+    }
+
+    // Sessions that started at a SAML IdP are ended there too
+    const ssoLogoutUrl = await samlService.getLogoutUrl(sessionId);
+
+    await sessionService.revokeSession(sessionId, 'logout');
+
+    res.json({ message: 'Logged out successfully', ...(ssoLogoutUrl && { ssoLogoutUrl }) });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Logout failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/logout-all
+ * End every session of the current user, on all devices (only the user themselves,
+ * not a super user impersonating them or a SMART app acting for them)
+ */
+router.post('/logout-all', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (req.context!.impersonation || req.context!.smart) {
+      res.status(403).json({ error: 'Sessions cannot be revoked while impersonating or from an app' });
+      return;
+    }
+
+    const revoked = await sessionService.revokeAllForUser(req.context!.user.id, 'logout_all');
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'user.logout_all',
+      'session',
+      null,
+      { revokedSessions: revoked },
+      req
+    );
+
+    res.json({ message: 'All sessions logged out successfully', revokedSessions: revoked });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Logout failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/auth/sessions
+ * List the current user's active sessions with their device, IP address and last use
+ */
+router.get('/sessions', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessions = await sessionService.listActiveSessions(req.context!.user.id, req.context!.sessionId);
+
+    res.json(sessions);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch sessions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Sign out one of the current user's sessions (not while impersonating or from a SMART app)
+ */
+router.delete('/sessions/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (req.context!.impersonation || req.context!.smart) {
+      res.status(403).json({ error: 'Sessions cannot be revoked while impersonating or from an app' });
+      return;
+    }
+
+    const revoked = await sessionService.revokeUserSession(req.context!.user.id, req.params.id);
+
+    if (!revoked) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'user.session_revoke',
+      'session',
+      req.params.id,
+      { current: req.params.id === req.context!.sessionId },
+      req
+    );
+
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to revoke session',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/auth/devices
+ * List the devices (browser/platform and network) the current user has signed in from
+ */
+router.get('/devices', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const devices = await deviceService.listDevices(req.context!.user.id);
+
+    res.json(
+      devices.map((device) => ({
+        id: device.id,
+        device: device.user_agent_family,
+        ipPrefix: device.ip_prefix,
+        lastIpAddress: device.last_ip_address,
+        firstSeenAt: device.first_seen_at,
+        lastSeenAt: device.last_seen_at,
+      }))
+    );
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch devices',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/devices/:id
+ * Forget a known device; the next login from it is treated as a new device
+ */
+router.delete('/devices/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (req.context!.impersonation) {
+      res.status(403).json({ error: 'Devices cannot be forgotten while impersonating' });
+      return;
+    }
+
+    const forgotten = await deviceService.forgetDevice(req.context!.user.id, req.params.id);
+
+    if (!forgotten) {
+      res.status(404).json({ error: 'Device not found' });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'user.device_forget',
+      'known_device',
+      req.params.id,
+      {},
+      req
+    );
+
+    res.json({ message: 'Device forgotten' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to forget device',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/change-password
+ * Change the current user's password; every session, including this one, is signed out
+ */
+router.post('/change-password', authRateLimiter, authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      res.status(400).json({ error: 'Missing current password or new password' });
+      return;
+    }
+
+    if (req.context!.impersonation || req.context!.apiKeyId || req.context!.smart) {
+      res.status(403).json({ error: 'The password can only be changed by the user signing in' });
+      return;
+    }
+
+    const result = await authService.changePassword(req.context!.user.id, currentPassword, newPassword);
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error, violations: result.violations });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'user.password_change',
+      'user',
+      req.context!.user.id,
+      {},
+      req
+    );
+
+    res.json({ message: 'Password changed. Please log in with your new password.' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Password change failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/reauthenticate
+ * Confirm the current user's identity with their password, or a TOTP or recovery code,
+ * so sensitive operations guarded by `requireRecentAuth` are allowed for a few minutes
+ */
+router.post('/reauthenticate', authRateLimiter, authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+
+    if (!password && !code && !recoveryCode) {
+      res.status(400).json({ error: 'A password or verification code is required' });
+      return;
+    }
+
+    if (!req.context!.sessionId || req.context!.impersonation || req.context!.smart) {
+      res.status(403).json({ error: 'Only the user signing in can re-authenticate' });
+      return;
+    }
+
+    const result = await authService.reauthenticate(
+      req.context!.user.id,
+      { password, code, recoveryCode },
+      clientOf(req)
+    );
+
+    // 400 rather than 401: the session itself is still valid
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    const reauthenticatedAt = await sessionService.markReauthenticated(req.context!.sessionId);
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'user.reauthenticate',
+      'session',
+      req.context!.sessionId,
+      { method: password ? 'password' : 'mfa' },
+      req
+    );
+
+    res.json({
+      reauthenticatedAt,
+      expiresAt: new Date(reauthenticatedAt.getTime() + config.stepUp.maxAgeSeconds * 1000),
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Re-authentication failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/impersonate/:userId
+ * Act as another user for support (Super User only). Issues a time-boxed access token
+ * without a refresh token; every request made with it is audited.
+ */
+router.post(
+  '/impersonate/:userId',
+  authenticate,
+  requireSuperUser,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+
+      if (!reason) {
+        res.status(400).json({ error: 'A reason is required to impersonate a user' });
+        return;
+      }
+
+      const result = await authService.impersonate(req.context!.user, req.params.userId, reason);
+
+      if (!result.success) {
+        res.status(400).json({ error: result.error });
+        return;
+      }
+
+      // Audit log
+      await createAuditLogEntry(
+        req.context!.user.id,
+        result.user!.company_id,
+        'user.impersonate_start',
+        'user',
+        result.user!.id,
+        { email: result.user!.email, reason, sessionId: result.sessionId, expiresAt: result.expiresAt },
+        req
+      );
+
+      res.json({
+        token: result.token,
+        expiresAt: result.expiresAt,
+        user: toLoginUser(result.user!),
+      });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Impersonation failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/auth/impersonate
+ * End the current impersonation; its token stops working immediately
+ */
+router.delete('/impersonate', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const impersonation = req.context!.impersonation;
+
+    if (!impersonation) {
+      res.status(400).json({ error: 'Not impersonating a user' });
+      return;
+    }
+
+    await sessionService.revokeSession(req.context!.sessionId!, 'impersonation_end');
+
+    // Audit log
+    await createAuditLogEntry(
+      impersonation.impersonatorId,
+      req.context!.company.id,
+      'user.impersonate_end',
+      'user',
+      req.context!.user.id,
+      { reason: impersonation.reason, sessionId: req.context!.sessionId },
+      req
+    );
+
+    res.json({ message: 'Impersonation ended' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to end impersonation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/request-access
+ * Ask to join the existing company that owns your email domain; an org admin reviews it
+ */
+router.post('/request-access', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, fullName, message, companyId } = req.body;
+
+    if (!email || !fullName) {
+      res.status(400).json({ error: 'Missing required fields' });
+      return;
+    }
+
+    const result = await accessRequestService.submitRequest({ email, fullName, message, companyId });
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    if (result.request) {
+      // Audit log
+      await createAuditLogEntry(
+        null,
+        result.request.company_id,
+        'user.access_request',
+        'access_request',
+        result.request.id,
+        { email: result.request.email },
+        req
+      );
+    }
+
+    // Same answer whether or not a request was created
+    res.status(202).json({
+      success: true,
+      message: 'Access request submitted. You will receive an email once an admin has reviewed it.',
+    });
   } catch (error) {
     res.status(500).json({
       error: 'Request failed',
@@ -0,0 +1,226 @@
+/**
+ * @file Break-glass emergency access routes
+ * @module routes/break-glass
+ */
+
+import { Router, Request, Response } from 'express';
+import { breakGlassService } from '../services/break-glass.service';
+import { tenantService } from '../services/tenant.service';
+import { authenticate, requireOrgAdmin } from '../middleware/auth.middleware';
+import { createAuditLogEntry } from '../middleware/audit.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * POST /api/break-glass
+ * Declare an emergency and open a time-limited session with elevated access in a tenant
+ */
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { tenantId, emergency, justification } = req.body;
+
+    if (!tenantId || !emergency?.trim() || !justification?.trim()) {
+      res.status(400).json({ error: 'A tenant, the emergency and a justification are required' });
+      return;
+    }
+
+    if (req.context!.apiKeyId || req.context!.smart || req.context!.impersonation) {
+      res.status(403).json({ error: 'Break-glass access must be declared by the user signing in' });
+      return;
+    }
+
+    const result = await breakGlassService.declareEmergency(req.context!.user, {
+      tenantId,
+      emergency,
+      justification,
+    });
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log (tagged with the new session like everything that follows)
+    req.context!.breakGlass = result.session;
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'break_glass.start',
+      'break_glass_session',
+      result.session!.id,
+      {
+        tenantId,
+        emergency: result.session!.emergency,
+        justification: result.session!.justification,
+        permissions: result.session!.permissions,
+        expiresAt: result.session!.expires_at,
+      },
+      req
+    );
+
+    res.status(201).json(result.session);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to open break-glass session',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/break-glass/tenants
+ * Tenants a break-glass session can be opened in (IDs and names only, so users
+ * without `tenant.read` can still choose one)
+ */
+router.get('/tenants', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const tenants = await tenantService.getChildTenants(req.context!.company.id);
+    res.json(tenants.map((tenant) => ({ id: tenant.id, name: tenant.name })));
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch tenants',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/break-glass/active
+ * The current user's open break-glass session (null when there is none)
+ */
+router.get('/active', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const session = req.context!.breakGlass;
+    res.json(session ? { ...session, tenant_name: req.context!.tenant?.name } : null);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch break-glass session',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/break-glass/active
+ * Close the current user's break-glass session early; org admins are asked to review it
+ */
+router.delete('/active', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await breakGlassService.endSession(req.context!.user.id);
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'break_glass.end',
+      'break_glass_session',
+      result.session!.id,
+      {},
+      req
+    );
+
+    res.json({ message: 'Break-glass session closed' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to close break-glass session',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/break-glass
+ * List the company's break-glass sessions (`?pendingReview=true` for those awaiting review)
+ */
+router.get('/', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessions = await breakGlassService.listSessions(
+      req.context!.company.id,
+      req.query.pendingReview === 'true'
+    );
+
+    res.json(sessions);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch break-glass sessions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/break-glass/:id
+ * A break-glass session with the audit entries recorded during it
+ */
+router.get('/:id', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await breakGlassService.getSession(req.context!.company.id, req.params.id);
+
+    if (!result) {
+      res.status(404).json({ error: 'Break-glass session not found' });
+      return;
+    }
+
+    res.json(result);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch break-glass session',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/break-glass/:id/review
+ * Record whether an ended break-glass session was justified
+ */
+router.post('/:id/review', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { outcome, notes } = req.body;
+
+    if (!['justified', 'unjustified'].includes(outcome)) {
+      res.status(400).json({ error: 'outcome must be justified or unjustified' });
+      return;
+    }
+
+    const result = await breakGlassService.reviewSession(
+      req.context!.company.id,
+      req.params.id,
+      { outcome, notes },
+      req.context!.user.id
+    );
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'break_glass.review',
+      'break_glass_session',
+      req.params.id,
+      { outcome, notes: result.session!.review_notes, userId: result.session!.user_id },
+      req
+    );
+
+    res.json(result.session);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to review break-glass session',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
@@ -5,7 +5,23 @@
 
 import { Router, Request, Response } from 'express';
 import { companyService } from '../services/company.service';
-import { authenticate, requirePermission, requireSuperUser } from '../middleware/auth.middleware';
+import { sessionService } from '../services/session.service';
+import { passwordPolicyService } from '../services/password-policy.service';
+import { oidcService } from '../services/oidc.service';
+import { samlService } from '../services/saml.service';
+import { scimService } from '../services/scim.service';
+import { serviceAccountService } from '../services/service-account.service';
+import { oauthService } from '../services/oauth.service';
+import { smartService } from '../services/smart.service';
+import { rbacService } from '../services/rbac.service';
+import { contextCacheService } from '../services/context-cache.service';
+import {
+  authenticate,
+  requirePermission,
+  requireSuperUser,
+  requireOrgAdmin,
+  requireRecentAuth,
+} from '../middleware/auth.middleware';
 import { createAuditLogEntry } from '../middleware/audit.middleware';
 
 const router = Router();
@@ -182,6 +198,1239 @@ router.patch('/:id', requireSuperUser, async (req: Request, res: Response): Prom
   }
 });
 
+/**
+ * PATCH /api/companies/:id/mfa-policy
+ * Require (or stop requiring) MFA for every user in a company (Org Admin of that company)
+ */
+router.patch('/:id/mfa-policy', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { requireMfa } = req.body;
+
+    if (typeof requireMfa !== 'boolean') {
+      res.status(400).json({ error: 'requireMfa must be a boolean' });
+      return;
+    }
+
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const result = await companyService.updateCompany(req.params.id, { require_mfa: requireMfa });
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.mfa_policy',
+      'company',
+      req.params.id,
+      { requireMfa },
+      req
+    );
+
+    res.json({ message: 'MFA policy updated successfully', requireMfa });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to update MFA policy',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PATCH /api/companies/:id/device-policy
+ * Choose what logins from unknown devices need: `notify`, `require_mfa` or
+ * `require_approval` (Org Admin of that company)
+ */
+router.patch('/:id/device-policy', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { policy } = req.body;
+
+    if (!['notify', 'require_mfa', 'require_approval'].includes(policy)) {
+      res.status(400).json({ error: 'policy must be notify, require_mfa or require_approval' });
+      return;
+    }
+
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const result = await companyService.updateCompany(req.params.id, { new_device_policy: policy });
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.device_policy',
+      'company',
+      req.params.id,
+      { policy },
+      req
+    );
+
+    res.json({ message: 'Device policy updated successfully', policy });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to update device policy',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PATCH /api/companies/:id/magic-link
+ * Let (or stop letting) a company's users sign in with emailed magic links
+ * (Org Admin of that company)
+ */
+router.patch('/:id/magic-link', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { enabled } = req.body;
+
+    if (typeof enabled !== 'boolean') {
+      res.status(400).json({ error: 'enabled must be a boolean' });
+      return;
+    }
+
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const result = await companyService.updateCompany(req.params.id, { magic_link_enabled: enabled });
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.magic_link_policy',
+      'company',
+      req.params.id,
+      { enabled },
+      req
+    );
+
+    res.json({ message: 'Magic link setting updated successfully', enabled });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to update magic link setting',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/companies/:id/password-policy
+ * Get the effective password policy of a company (Org Admin of that company)
+ */
+router.get('/:id/password-policy', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const policy = await passwordPolicyService.getPolicy(req.params.id);
+
+    res.json(policy);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch password policy',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PATCH /api/companies/:id/password-policy
+ * Override password policy settings for a company (Org Admin of that company)
+ */
+router.patch('/:id/password-policy', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const result = await passwordPolicyService.updatePolicy(req.params.id, req.body || {});
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.password_policy',
+      'company',
+      req.params.id,
+      req.body,
+      req
+    );
+
+    res.json({ message: 'Password policy updated successfully', policy: result.policy });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to update password policy',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/companies/:id/sso/oidc
+ * Get the company's OpenID Connect provider (Org Admin of that company)
+ */
+router.get('/:id/sso/oidc', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const provider = await oidcService.getProvider(req.params.id);
+
+    if (!provider) {
+      res.status(404).json({ error: 'No OIDC provider configured' });
+      return;
+    }
+
+    res.json(oidcService.toPublic(provider));
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch OIDC provider',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PUT /api/companies/:id/sso/oidc
+ * Register or update the company's OpenID Connect provider (Org Admin of that company)
+ */
+router.put('/:id/sso/oidc', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const {
+      issuer,
+      clientId,
+      clientSecret,
+      scopes,
+      claimMappings,
+      groupRoleMappings,
+      jitProvisioning,
+      enabled,
+    } = req.body;
+
+    const result = await oidcService.saveProvider(req.params.id, {
+      issuer,
+      clientId,
+      clientSecret,
+      scopes,
+      claimMappings,
+      groupRoleMappings,
+      jitProvisioning,
+      enabled,
+    });
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log (never record the client secret)
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.sso_oidc_update',
+      'company',
+      req.params.id,
+      {
+        issuer,
+        clientId,
+        clientSecretChanged: !!clientSecret,
+        scopes,
+        claimMappings,
+        groupRoleMappings,
+        jitProvisioning,
+        enabled,
+      },
+      req
+    );
+
+    res.json({
+      message: 'OIDC provider saved successfully',
+      provider: oidcService.toPublic(result.provider!),
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to save OIDC provider',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/companies/:id/sso/oidc
+ * Remove the company's OpenID Connect provider (Org Admin of that company)
+ */
+router.delete('/:id/sso/oidc', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const result = await oidcService.deleteProvider(req.params.id);
+
+    if (!result.success) {
+      res.status(404).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.sso_oidc_delete',
+      'company',
+      req.params.id,
+      {},
+      req
+    );
+
+    res.json({ message: 'OIDC provider removed successfully' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to remove OIDC provider',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/companies/:id/sso/saml
+ * Get the company's SAML provider and the SP endpoints to register at the IdP
+ * (Org Admin of that company)
+ */
+router.get('/:id/sso/saml', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const provider = await samlService.getProvider(req.params.id);
+
+    res.json({
+      provider,
+      serviceProvider: samlService.serviceProviderUrls(req.params.id),
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch SAML provider',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PUT /api/companies/:id/sso/saml
+ * Register or update the company's SAML provider from IdP metadata and/or explicit
+ * settings (Org Admin of that company)
+ */
+router.put('/:id/sso/saml', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const {
+      metadataXml,
+      idpEntityId,
+      idpSsoUrl,
+      idpSloUrl,
+      idpCertificates,
+      attributeMappings,
+      groupRoleMappings,
+      jitProvisioning,
+      allowIdpInitiated,
+      enabled,
+    } = req.body;
+
+    const result = await samlService.saveProvider(req.params.id, {
+      metadataXml,
+      idpEntityId,
+      idpSsoUrl,
+      idpSloUrl,
+      idpCertificates,
+      attributeMappings,
+      groupRoleMappings,
+      jitProvisioning,
+      allowIdpInitiated,
+      enabled,
+    });
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.sso_saml_update',
+      'company',
+      req.params.id,
+      {
+        idpEntityId: result.provider!.idp_entity_id,
+        idpSsoUrl: result.provider!.idp_sso_url,
+        idpSloUrl: result.provider!.idp_slo_url,
+        metadataImported: !!metadataXml,
+        attributeMappings,
+        groupRoleMappings,
+        jitProvisioning,
+        allowIdpInitiated,
+        enabled,
+      },
+      req
+    );
+
+    res.json({ message: 'SAML provider saved successfully', provider: result.provider });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to save SAML provider',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/companies/:id/sso/saml
+ * Remove the company's SAML provider (Org Admin of that company)
+ */
+router.delete('/:id/sso/saml', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const result = await samlService.deleteProvider(req.params.id);
+
+    if (!result.success) {
+      res.status(404).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.sso_saml_delete',
+      'company',
+      req.params.id,
+      {},
+      req
+    );
+
+    res.json({ message: 'SAML provider removed successfully' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to remove SAML provider',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/companies/:id/scim-tokens
+ * List the company's SCIM provisioning tokens (Org Admin of that company)
+ */
+router.get('/:id/scim-tokens', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const tokens = await scimService.listTokens(req.params.id);
+
+    res.json(tokens);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch SCIM tokens',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/companies/:id/scim-tokens
+ * Issue a SCIM provisioning token; the token is only shown in this response
+ * (Org Admin of that company)
+ */
+router.post('/:id/scim-tokens', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const { name } = req.body;
+
+    if (!name) {
+      res.status(400).json({ error: 'Token name is required' });
+      return;
+    }
+
+    const result = await scimService.createToken(req.params.id, name, req.context!.user.id);
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.scim_token_create',
+      'company',
+      req.params.id,
+      { tokenId: result.scimToken!.id, name },
+      req
+    );
+
+    res.status(201).json({
+      message: 'SCIM token created successfully',
+      token: result.token,
+      scimToken: result.scimToken,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to create SCIM token',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/companies/:id/scim-tokens/:tokenId
+ * Revoke a SCIM provisioning token (Org Admin of that company)
+ */
+router.delete('/:id/scim-tokens/:tokenId', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const result = await scimService.revokeToken(req.params.id, req.params.tokenId);
+
+    if (!result.success) {
+      res.status(404).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.scim_token_revoke',
+      'company',
+      req.params.id,
+      { tokenId: req.params.tokenId },
+      req
+    );
+
+    res.json({ message: 'SCIM token revoked successfully' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to revoke SCIM token',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/companies/:id/service-accounts
+ * List the company's service accounts and their API keys (Org Admin of that company)
+ */
+router.get('/:id/service-accounts', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const serviceAccounts = await serviceAccountService.listServiceAccounts(req.params.id);
+
+    res.json(serviceAccounts);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch service accounts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/companies/:id/service-accounts
+ * Create a service account with a scoped set of permission names
+ * (Org Admin of that company)
+ */
+router.post('/:id/service-accounts', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const { name, description, tenantId, permissions } = req.body;
+
+    if (!name) {
+      res.status(400).json({ error: 'Service account name is required' });
+      return;
+    }
+
+    if (!Array.isArray(permissions) || permissions.some((permission) => typeof permission !== 'string')) {
+      res.status(400).json({ error: 'permissions must be an array of permission names' });
+      return;
+    }
+
+    const result = await serviceAccountService.createServiceAccount(
+      req.params.id,
+      { name, description, tenantId, permissions },
+      req.context!.user.id,
+      req.context!.user.is_super_user ? null : req.context!.permissions
+    );
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.service_account_create',
+      'service_account',
+      result.serviceAccount!.user_id,
+      { name, tenantId: tenantId || null, permissions },
+      req
+    );
+
+    res.status(201).json({
+      message: 'Service account created successfully',
+      serviceAccount: result.serviceAccount,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to create service account',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PATCH /api/companies/:id/service-accounts/:accountId
+ * Update a service account's name, description or permissions (Org Admin of that company)
+ */
+router.patch(
+  '/:id/service-accounts/:accountId',
+  requireOrgAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const { name, description, permissions } = req.body;
+
+      if (
+        permissions !== undefined &&
+        (!Array.isArray(permissions) || permissions.some((permission) => typeof permission !== 'string'))
+      ) {
+        res.status(400).json({ error: 'permissions must be an array of permission names' });
+        return;
+      }
+
+      const result = await serviceAccountService.updateServiceAccount(
+        req.params.id,
+        req.params.accountId,
+        { name, description, permissions },
+        req.context!.user.is_super_user ? null : req.context!.permissions
+      );
+
+      if (!result.success) {
+        res.status(result.error === 'Service account not found' ? 404 : 400).json({ error: result.error });
+        return;
+      }
+
+      // Audit log
+      await createAuditLogEntry(
+        req.context!.user.id,
+        req.context!.company.id,
+        'company.service_account_update',
+        'service_account',
+        req.params.accountId,
+        { name, description, permissions },
+        req
+      );
+
+      res.json({
+        message: 'Service account updated successfully',
+        serviceAccount: result.serviceAccount,
+      });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to update service account',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/companies/:id/service-accounts/:accountId
+ * Deactivate a service account and revoke its keys (Org Admin of that company)
+ */
+router.delete(
+  '/:id/service-accounts/:accountId',
+  requireOrgAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const result = await serviceAccountService.deactivateServiceAccount(req.params.id, req.params.accountId);
+
+      if (!result.success) {
+        res.status(404).json({ error: result.error });
+        return;
+      }
+
+      // Audit log
+      await createAuditLogEntry(
+        req.context!.user.id,
+        req.context!.company.id,
+        'company.service_account_deactivate',
+        'service_account',
+        req.params.accountId,
+        {},
+        req
+      );
+
+      res.json({ message: 'Service account deactivated successfully' });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to deactivate service account',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/companies/:id/service-accounts/:accountId/keys
+ * Issue an API key; the key is only shown in this response (Org Admin of that company)
+ */
+router.post(
+  '/:id/service-accounts/:accountId/keys',
+  requireOrgAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const { name, expiresInDays } = req.body;
+
+      if (!name) {
+        res.status(400).json({ error: 'Key name is required' });
+        return;
+      }
+
+      const result = await serviceAccountService.createKey(
+        req.params.id,
+        req.params.accountId,
+        { name, expiresInDays: expiresInDays === undefined ? undefined : Number(expiresInDays) },
+        req.context!.user.id
+      );
+
+      if (!result.success) {
+        res.status(result.error === 'Service account not found' ? 404 : 400).json({ error: result.error });
+        return;
+      }
+
+      // Audit log
+      await createAuditLogEntry(
+        req.context!.user.id,
+        req.context!.company.id,
+        'company.api_key_create',
+        'service_account',
+        req.params.accountId,
+        { keyId: result.apiKey!.id, name, expiresAt: result.apiKey!.expires_at },
+        req
+      );
+
+      res.status(201).json({
+        message: 'API key created successfully',
+        key: result.key,
+        apiKey: result.apiKey,
+      });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to create API key',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/companies/:id/service-accounts/:accountId/keys/:keyId/rotate
+ * Replace an API key; the old key stays valid for `gracePeriodHours` (default 0)
+ * and the new key is only shown in this response (Org Admin of that company)
+ */
+router.post(
+  '/:id/service-accounts/:accountId/keys/:keyId/rotate',
+  requireOrgAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const gracePeriodHours = req.body?.gracePeriodHours === undefined ? 0 : Number(req.body.gracePeriodHours);
+
+      const result = await serviceAccountService.rotateKey(
+        req.params.id,
+        req.params.accountId,
+        req.params.keyId,
+        gracePeriodHours,
+        req.context!.user.id
+      );
+
+      if (!result.success) {
+        res.status(result.error === 'API key not found' ? 404 : 400).json({ error: result.error });
+        return;
+      }
+
+      // Audit log
+      await createAuditLogEntry(
+        req.context!.user.id,
+        req.context!.company.id,
+        'company.api_key_rotate',
+        'service_account',
+        req.params.accountId,
+        { keyId: req.params.keyId, replacedBy: result.apiKey!.id, gracePeriodHours },
+        req
+      );
+
+      res.status(201).json({
+        message: 'API key rotated successfully',
+        key: result.key,
+        apiKey: result.apiKey,
+      });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to rotate API key',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/companies/:id/service-accounts/:accountId/keys/:keyId
+ * Revoke an API key (Org Admin of that company)
+ */
+router.delete(
+  '/:id/service-accounts/:accountId/keys/:keyId',
+  requireOrgAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const result = await serviceAccountService.revokeKey(req.params.id, req.params.accountId, req.params.keyId);
+
+      if (!result.success) {
+        res.status(404).json({ error: result.error });
+        return;
+      }
+
+      // Audit log
+      await createAuditLogEntry(
+        req.context!.user.id,
+        req.context!.company.id,
+        'company.api_key_revoke',
+        'service_account',
+        req.params.accountId,
+        { keyId: req.params.keyId },
+        req
+      );
+
+      res.json({ message: 'API key revoked successfully' });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to revoke API key',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/companies/:id/oauth-clients
+ * List the company's OAuth clients and their scopes (Org Admin of that company)
+ */
+router.get('/:id/oauth-clients', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const clients = await oauthService.listClients(req.params.id);
+
+    res.json(clients);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch OAuth clients',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/companies/:id/oauth-clients
+ * Register an OAuth client; the secret is only shown in this response
+ * (Org Admin of that company)
+ */
+router.post('/:id/oauth-clients', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const { name, scopes, tenantId } = req.body;
+
+    if (!name) {
+      res.status(400).json({ error: 'Client name is required' });
+      return;
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || scopes.some((scope) => typeof scope !== 'string')) {
+      res.status(400).json({ error: 'scopes must be a non-empty array of permission names' });
+      return;
+    }
+
+    const result = await oauthService.createClient(
+      req.params.id,
+      { name, scopes, tenantId },
+      req.context!.user.id,
+      req.context!.user.is_super_user ? null : req.context!.permissions
+    );
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.oauth_client_create',
+      'oauth_client',
+      result.client!.id,
+      { name, clientId: result.client!.client_id, scopes, tenantId: tenantId || null },
+      req
+    );
+
+    res.status(201).json({
+      message: 'OAuth client created successfully',
+      clientSecret: result.clientSecret,
+      client: result.client,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to create OAuth client',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/companies/:id/oauth-clients/:clientId/rotate-secret
+ * Replace a client's secret; the new secret is only shown in this response
+ * (Org Admin of that company)
+ */
+router.post(
+  '/:id/oauth-clients/:clientId/rotate-secret',
+  requireOrgAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const result = await oauthService.rotateSecret(req.params.id, req.params.clientId);
+
+      if (!result.success) {
+        res.status(404).json({ error: result.error });
+        return;
+      }
+
+      // Audit log
+      await createAuditLogEntry(
+        req.context!.user.id,
+        req.context!.company.id,
+        'company.oauth_client_rotate_secret',
+        'oauth_client',
+        req.params.clientId,
+        {},
+        req
+      );
+
+      res.json({
+        message: 'Client secret rotated successfully',
+        clientSecret: result.clientSecret,
+      });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to rotate client secret',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/companies/:id/oauth-clients/:clientId
+ * Revoke an OAuth client and every token issued to it (Org Admin of that company)
+ */
+router.delete('/:id/oauth-clients/:clientId', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const result = await oauthService.revokeClient(req.params.id, req.params.clientId);
+
+    if (!result.success) {
+      res.status(404).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.oauth_client_revoke',
+      'oauth_client',
+      req.params.clientId,
+      {},
+      req
+    );
+
+    res.json({ message: 'OAuth client revoked successfully' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to revoke OAuth client',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/companies/:id/smart-apps
+ * List the company's SMART on FHIR apps (Org Admin of that company)
+ */
+router.get('/:id/smart-apps', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const apps = await smartService.listApps(req.params.id);
+
+    res.json(apps);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch SMART apps',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/companies/:id/smart-apps
+ * Register a SMART on FHIR app; a confidential app's secret is only shown in this
+ * response (Org Admin of that company)
+ */
+router.post('/:id/smart-apps', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const { name, redirectUris, launchUri, scopes, confidential } = req.body;
+
+    if (!name) {
+      res.status(400).json({ error: 'App name is required' });
+      return;
+    }
+
+    if (
+      !Array.isArray(redirectUris) ||
+      redirectUris.length === 0 ||
+      redirectUris.some((uri) => typeof uri !== 'string')
+    ) {
+      res.status(400).json({ error: 'redirectUris must be a non-empty array of URLs' });
+      return;
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || scopes.some((scope) => typeof scope !== 'string')) {
+      res.status(400).json({ error: 'scopes must be a non-empty array of SMART scopes' });
+      return;
+    }
+
+    const result = await smartService.createApp(
+      req.params.id,
+      { name, redirectUris, launchUri, scopes, confidential: confidential === true },
+      req.context!.user.id
+    );
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.smart_app_create',
+      'smart_app',
+      result.app!.id,
+      { name, clientId: result.app!.client_id, redirectUris, launchUri: launchUri || null, scopes },
+      req
+    );
+
+    res.status(201).json({
+      message: 'SMART app registered successfully',
+      ...(result.clientSecret && { clientSecret: result.clientSecret }),
+      app: result.app,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to register SMART app',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/companies/:id/smart-apps/:appId
+ * Revoke a SMART app; its tokens stop working immediately (Org Admin of that company)
+ */
+router.delete('/:id/smart-apps/:appId', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const result = await smartService.revokeApp(req.params.id, req.params.appId);
+
+    if (!result.success) {
+      res.status(404).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'company.smart_app_revoke',
+      'smart_app',
+      req.params.appId,
+      {},
+      req
+    );
+
+    res.json({ message: 'SMART app revoked successfully' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to revoke SMART app',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/companies/:id/roles
+ * List the company's roles, e.g. to pick from when approving access requests (Org Admin of that company)
+ */
+router.get('/:id/roles', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.context!.user.is_super_user && req.params.id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const roles = await rbacService.getCompanyRoles(req.params.id);
+
+    res.json(roles);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch roles',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * GET /api/companies/:id/verification-info
  * Get DNS verification information for a company
@@ -274,6 +1523,11 @@ router.post('/:id/block', requireSuperUser, async (req: Request, res: Response):
       return;
     }
 
+    contextCacheService.forgetCompany(req.params.id);
+
+    // Log out everyone in the blocked company
+    const revoked = await sessionService.revokeAllForCompany(req.params.id, 'company_blocked');
+
     // Audit log
     await createAuditLogEntry(
       req.context!.user.id,
@@ -281,7 +1535,7 @@ router.post('/:id/block', requireSuperUser, async (req: Request, res: Response):
       'company.block',
       'company',
       req.params.id,
-      { reason },
+      { reason, revokedSessions: revoked },
       req
     );
 
@@ -317,6 +1571,8 @@ router.post('/:id/unblock', requireSuperUser, async (req: Request, res: Response
       return;
     }
 
+    contextCacheService.forgetCompany(req.params.id);
+
     // Audit log
     await createAuditLogEntry(
       req.context!.user.id,
@@ -337,11 +1593,39 @@ router.post('/:id/unblock', requireSuperUser, async (req: Request, res: Response
   }
 });
 
+/**
+ * POST /api/companies/:id/revoke-sessions
+ * Revoke every session of every user in a company
+ */
+router.post('/:id/revoke-sessions', requireSuperUser, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const revoked = await sessionService.revokeAllForCompany(req.params.id, 'admin_revoked');
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'session.revoke_all',
+      'company',
+      req.params.id,
+      { revokedSessions: revoked },
+      req
+    );
+
+    res.json({ message: 'Sessions revoked successfully', revokedSessions: revoked });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to revoke sessions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * DELETE /api/companies/:id
  * Delete a company (with safety checks)
  */
-router.delete('/:id', requireSuperUser, async (req: Request, res: Response): Promise<void> => {
+router.delete('/:id', requireSuperUser, requireRecentAuth(), async (req: Request, res: Response): Promise<void> => {
   try {
     const { supabaseAdmin } = await import('../config/database');
 
@@ -398,6 +1682,8 @@ router.delete('/:id', requireSuperUser, async (req: Request, res: Response): Pro
       return;
     }
 
+    contextCacheService.forgetCompany(req.params.id);
+
     // Audit log
     await createAuditLogEntry(
       req.context!.user.id,
@@ -12,6 +12,10 @@ import licenseRoutes from './license.routes';
 import apiUsageRoutes from './api-usage.routes';
 import auditLogRoutes from './audit-log.routes';
 import dashboardRoutes from './dashboard.routes';
+import signingKeyRoutes from './signing-key.routes';
+import oauthRoutes from './oauth.routes';
+import smartRoutes from './smart.routes';
+import breakGlassRoutes from './break-glass.routes';
 
 const router = Router();
 
@@ -33,5 +37,9 @@ router.use('/licenses', licenseRoutes);
 router.use('/api-usage', apiUsageRoutes);
 router.use('/audit-logs', auditLogRoutes);
 router.use('/dashboard', dashboardRoutes);
+router.use('/signing-keys', signingKeyRoutes);
+router.use('/oauth', oauthRoutes);
+router.use('/smart', smartRoutes);
+router.use('/break-glass', breakGlassRoutes);
 
 export default router;
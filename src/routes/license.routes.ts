@@ -5,7 +5,12 @@
 
 import { Router, Request, Response } from 'express';
 import { licensingService } from '../services/licensing.service';
-import { authenticate, requirePermission, requireSuperUser } from '../middleware/auth.middleware';
+import {
+  authenticate,
+  requirePermission,
+  requireSuperUser,
+  requireRecentAuth,
+} from '../middleware/auth.middleware';
 import { createAuditLogEntry } from '../middleware/audit.middleware';
 import { supabaseAdmin } from '../config/database';
 
@@ -126,7 +131,7 @@ router.post('/', requireSuperUser, async (req: Request, res: Response): Promise<
  * POST /api/licenses/:id/revoke
  * Revoke a license
  */
-router.post('/:id/revoke', requireSuperUser, async (req: Request, res: Response): Promise<void> => {
+router.post('/:id/revoke', requireSuperUser, requireRecentAuth(), async (req: Request, res: Response): Promise<void> => {
   try {
     await licensingService.revokeLicense(req.params.id);
 
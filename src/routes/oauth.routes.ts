@@ -0,0 +1,222 @@
+/**
+ * @file OAuth 2.0 routes
+ * @module routes/oauth
+ *
+ * Token (client credentials and SMART authorization code grants), introspection and
+ * revocation endpoints. Clients authenticate with HTTP Basic or `client_id`/`client_secret`
+ * form fields.
+ */
+
+import { Router, Request, Response } from 'express';
+import { oauthService } from '../services/oauth.service';
+import { smartService } from '../services/smart.service';
+import { createAuditLogEntry } from '../middleware/audit.middleware';
+import { authRateLimiter } from '../middleware/rate-limit.middleware';
+import { OAuthClient } from '../types';
+
+const router = Router();
+
+/**
+ * Send an error response (RFC 6749 section 5.2)
+ */
+function sendError(res: Response, status: number, error: string, description?: string): void {
+  if (status === 401) {
+    res.setHeader('WWW-Authenticate', 'Basic realm="neemify"');
+  }
+  res.status(status).json({ error, ...(description && { error_description: description }) });
+}
+
+/**
+ * Read client credentials from the Basic header or the form body
+ * Public SMART apps send only `client_id`.
+ */
+function readClientCredentials(req: Request): { clientId?: string; clientSecret?: string } {
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Basic ')) {
+    const decoded = Buffer.from(authHeader.substring(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator > 0) {
+      // Credentials are form-encoded before being put in the header (RFC 6749 section 2.3.1)
+      return {
+        clientId: decodeURIComponent(decoded.substring(0, separator)),
+        clientSecret: decodeURIComponent(decoded.substring(separator + 1)),
+      };
+    }
+    return {};
+  }
+
+  return {
+    clientId: req.body?.client_id ? String(req.body.client_id) : undefined,
+    clientSecret: req.body?.client_secret ? String(req.body.client_secret) : undefined,
+  };
+}
+
+/**
+ * Authenticate the calling client
+ * Sends `invalid_client` and returns null when the credentials are missing or wrong.
+ */
+async function authenticateClient(req: Request, res: Response): Promise<OAuthClient | null> {
+  const { clientId, clientSecret } = readClientCredentials(req);
+
+  const client = clientId && clientSecret ? await oauthService.authenticateClient(clientId, clientSecret) : null;
+  if (!client) {
+    sendError(res, 401, 'invalid_client', 'Client authentication failed');
+    return null;
+  }
+
+  return client;
+}
+
+/**
+ * Answer the authorization code grant for a SMART app
+ */
+async function exchangeAuthorizationCode(req: Request, res: Response): Promise<void> {
+  const { clientId, clientSecret } = readClientCredentials(req);
+
+  const app = clientId ? await smartService.authenticateApp(clientId, clientSecret) : null;
+  if (!app) {
+    sendError(res, 401, 'invalid_client', 'Client authentication failed');
+    return;
+  }
+
+  const result = await smartService.exchangeCode(app, {
+    code: req.body.code,
+    redirectUri: req.body.redirect_uri,
+    codeVerifier: req.body.code_verifier,
+  });
+
+  if (!result.success) {
+    sendError(res, 400, result.error!, result.errorDescription);
+    return;
+  }
+
+  res.json({
+    access_token: result.accessToken,
+    token_type: 'Bearer',
+    expires_in: result.expiresIn,
+    scope: result.scope,
+    tenant: result.tenant,
+    ...(result.patient && { patient: result.patient }),
+    ...(result.encounter && { encounter: result.encounter }),
+    need_patient_banner: Boolean(result.patient),
+  });
+}
+
+/**
+ * POST /api/oauth/token
+ * Issue an access token for the client credentials grant, or for a SMART app's
+ * authorization code
+ */
+router.post('/token', authRateLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Token responses must not be cached (RFC 6749 section 5.1)
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Pragma', 'no-cache');
+
+    if (req.body?.grant_type === 'authorization_code') {
+      await exchangeAuthorizationCode(req, res);
+      return;
+    }
+
+    if (req.body?.grant_type !== 'client_credentials') {
+      sendError(res, 400, 'unsupported_grant_type', 'Supported grants are client_credentials and authorization_code');
+      return;
+    }
+
+    const client = await authenticateClient(req, res);
+    if (!client) {
+      return;
+    }
+
+    const result = await oauthService.issueToken(
+      client,
+      typeof req.body.scope === 'string' ? req.body.scope : undefined
+    );
+
+    if (!result.success) {
+      sendError(res, 400, result.error!, result.errorDescription);
+      return;
+    }
+
+    res.json({
+      access_token: result.accessToken,
+      token_type: 'Bearer',
+      expires_in: result.expiresIn,
+      scope: result.scope,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'server_error',
+      error_description: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/oauth/introspect
+ * Describe an access token to the client it was issued to (RFC 7662)
+ */
+router.post('/introspect', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const client = await authenticateClient(req, res);
+    if (!client) {
+      return;
+    }
+
+    if (!req.body?.token) {
+      sendError(res, 400, 'invalid_request', 'token is required');
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.json(await oauthService.introspect(client, String(req.body.token)));
+  } catch (error) {
+    res.status(500).json({
+      error: 'server_error',
+      error_description: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/oauth/revoke
+ * Revoke an access token issued to the calling client (RFC 7009)
+ * Always answers 200, whether or not the token was known.
+ */
+router.post('/revoke', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const client = await authenticateClient(req, res);
+    if (!client) {
+      return;
+    }
+
+    if (!req.body?.token) {
+      sendError(res, 400, 'invalid_request', 'token is required');
+      return;
+    }
+
+    const revoked = await oauthService.revokeToken(client, String(req.body.token));
+
+    if (revoked) {
+      // Audit log
+      await createAuditLogEntry(
+        null,
+        client.company_id,
+        'oauth.token_revoke',
+        'oauth_client',
+        client.id,
+        { clientId: client.client_id },
+        req
+      );
+    }
+
+    res.status(200).end();
+  } catch (error) {
+    res.status(500).json({
+      error: 'server_error',
+      error_description: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
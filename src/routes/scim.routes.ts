@@ -0,0 +1,391 @@
+/**
+ * @file SCIM 2.0 provisioning routes
+ * @module routes/scim
+ *
+ * Mounted at /scim/v2. Every request is scoped to the company of its bearer token.
+ */
+
+import express, { Router, Request, Response } from 'express';
+import { scimService, ScimListQuery, ScimResult } from '../services/scim.service';
+import { authenticateScim } from '../middleware/scim.middleware';
+import { createAuditLogEntry } from '../middleware/audit.middleware';
+import { ScimPatchOperation, ScimResource, SCIM_SCHEMAS, scimError } from '../utils/scim';
+
+const router = Router();
+
+// SCIM clients send application/scim+json, which the global JSON parser skips
+router.use(express.json({ type: ['application/json', 'application/scim+json'], limit: '1mb' }));
+
+// All routes require a provisioning token
+router.use(authenticateScim);
+
+function send(res: Response, status: number, body?: ScimResource): void {
+  res.status(status).type('application/scim+json');
+  if (body) {
+    res.json(body);
+  } else {
+    res.end();
+  }
+}
+
+/**
+ * Send a service result, or its failure in the SCIM error format
+ */
+function sendResult(res: Response, result: ScimResult, status = 200): void {
+  if (!result.success) {
+    send(res, result.status || 400, scimError(result.status || 400, result.error || 'Request failed', result.scimType));
+    return;
+  }
+
+  if (status === 201) {
+    res.setHeader('Location', (result.resource!.meta as ScimResource).location as string);
+  }
+  send(res, status, result.resource);
+}
+
+function sendServerError(res: Response, error: unknown): void {
+  send(res, 500, scimError(500, error instanceof Error ? error.message : 'Unknown error'));
+}
+
+function listQuery(req: Request): ScimListQuery {
+  const toInt = (value: unknown): number | undefined => {
+    const parsed = parseInt(String(value), 10);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+
+  return {
+    filter: req.query.filter as string | undefined,
+    startIndex: toInt(req.query.startIndex),
+    count: toInt(req.query.count),
+    attributes: req.query.attributes as string | undefined,
+    excludedAttributes: req.query.excludedAttributes as string | undefined,
+  };
+}
+
+/**
+ * Validate a PatchOp request body and return its operations
+ */
+function patchOperations(req: Request, res: Response): ScimPatchOperation[] | null {
+  const schemas = req.body?.schemas;
+  const operations = req.body?.Operations;
+
+  if (!Array.isArray(schemas) || !schemas.includes(SCIM_SCHEMAS.patchOp) || !Array.isArray(operations)) {
+    send(res, 400, scimError(400, 'Request must be a PatchOp with an Operations array', 'invalidSyntax'));
+    return null;
+  }
+
+  return operations;
+}
+
+/**
+ * GET /scim/v2/ServiceProviderConfig
+ * Describe supported SCIM features
+ */
+router.get('/ServiceProviderConfig', (req: Request, res: Response): void => {
+  send(res, 200, scimService.getServiceProviderConfig());
+});
+
+/**
+ * GET /scim/v2/ResourceTypes
+ * List supported resource types
+ */
+router.get('/ResourceTypes', (req: Request, res: Response): void => {
+  const resourceTypes = scimService.getResourceTypes();
+
+  send(res, 200, {
+    schemas: [SCIM_SCHEMAS.listResponse],
+    totalResults: resourceTypes.length,
+    startIndex: 1,
+    itemsPerPage: resourceTypes.length,
+    Resources: resourceTypes,
+  });
+});
+
+/**
+ * GET /scim/v2/Users
+ * List users, with filter, startIndex/count pagination and attribute selection
+ */
+router.get('/Users', async (req: Request, res: Response): Promise<void> => {
+  try {
+    sendResult(res, await scimService.listUsers(req.scim!.company, listQuery(req)));
+  } catch (error) {
+    sendServerError(res, error);
+  }
+});
+
+/**
+ * GET /scim/v2/Users/:id
+ * Get a user
+ */
+router.get('/Users/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    sendResult(res, await scimService.getUser(req.scim!.company, req.params.id));
+  } catch (error) {
+    sendServerError(res, error);
+  }
+});
+
+/**
+ * POST /scim/v2/Users
+ * Provision a user
+ */
+router.post('/Users', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await scimService.createUser(req.scim!.company, req.body || {});
+
+    if (result.success) {
+      // Audit log
+      await createAuditLogEntry(
+        null,
+        req.scim!.company.id,
+        'scim.user_create',
+        'user',
+        result.resource!.id as string,
+        { userName: result.resource!.userName, scimTokenId: req.scim!.tokenId },
+        req
+      );
+    }
+
+    sendResult(res, result, 201);
+  } catch (error) {
+    sendServerError(res, error);
+  }
+});
+
+/**
+ * PUT /scim/v2/Users/:id
+ * Replace a user's attributes
+ */
+router.put('/Users/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await scimService.replaceUser(req.scim!.company, req.params.id, req.body || {});
+
+    if (result.success) {
+      // Audit log
+      await createAuditLogEntry(
+        null,
+        req.scim!.company.id,
+        'scim.user_update',
+        'user',
+        req.params.id,
+        { userName: result.resource!.userName, active: result.resource!.active, scimTokenId: req.scim!.tokenId },
+        req
+      );
+    }
+
+    sendResult(res, result);
+  } catch (error) {
+    sendServerError(res, error);
+  }
+});
+
+/**
+ * PATCH /scim/v2/Users/:id
+ * Apply PATCH operations to a user (e.g. `active` false to deprovision)
+ */
+router.patch('/Users/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const operations = patchOperations(req, res);
+    if (!operations) {
+      return;
+    }
+
+    const result = await scimService.patchUser(req.scim!.company, req.params.id, operations);
+
+    if (result.success) {
+      // Audit log
+      await createAuditLogEntry(
+        null,
+        req.scim!.company.id,
+        'scim.user_update',
+        'user',
+        req.params.id,
+        {
+          paths: operations.map((operation) => operation.path || null),
+          active: result.resource!.active,
+          scimTokenId: req.scim!.tokenId,
+        },
+        req
+      );
+    }
+
+    sendResult(res, result);
+  } catch (error) {
+    sendServerError(res, error);
+  }
+});
+
+/**
+ * DELETE /scim/v2/Users/:id
+ * Deprovision a user; the account is deactivated, not deleted
+ */
+router.delete('/Users/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await scimService.deactivateUser(req.scim!.company, req.params.id);
+
+    if (!result.success) {
+      sendResult(res, result);
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      null,
+      req.scim!.company.id,
+      'scim.user_deactivate',
+      'user',
+      req.params.id,
+      { scimTokenId: req.scim!.tokenId },
+      req
+    );
+
+    send(res, 204);
+  } catch (error) {
+    sendServerError(res, error);
+  }
+});
+
+/**
+ * GET /scim/v2/Groups
+ * List groups (company roles)
+ */
+router.get('/Groups', async (req: Request, res: Response): Promise<void> => {
+  try {
+    sendResult(res, await scimService.listGroups(req.scim!.company, listQuery(req)));
+  } catch (error) {
+    sendServerError(res, error);
+  }
+});
+
+/**
+ * GET /scim/v2/Groups/:id
+ * Get a group
+ */
+router.get('/Groups/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    sendResult(res, await scimService.getGroup(req.scim!.company, req.params.id));
+  } catch (error) {
+    sendServerError(res, error);
+  }
+});
+
+/**
+ * POST /scim/v2/Groups
+ * Create a group as a new role
+ */
+router.post('/Groups', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await scimService.createGroup(req.scim!.company, req.body || {});
+
+    if (result.success) {
+      // Audit log
+      await createAuditLogEntry(
+        null,
+        req.scim!.company.id,
+        'scim.group_create',
+        'role',
+        result.resource!.id as string,
+        { displayName: result.resource!.displayName, scimTokenId: req.scim!.tokenId },
+        req
+      );
+    }
+
+    sendResult(res, result, 201);
+  } catch (error) {
+    sendServerError(res, error);
+  }
+});
+
+/**
+ * PUT /scim/v2/Groups/:id
+ * Replace a group's name and members
+ */
+router.put('/Groups/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await scimService.replaceGroup(req.scim!.company, req.params.id, req.body || {});
+
+    if (result.success) {
+      // Audit log
+      await createAuditLogEntry(
+        null,
+        req.scim!.company.id,
+        'scim.group_update',
+        'role',
+        req.params.id,
+        { displayName: result.resource!.displayName, scimTokenId: req.scim!.tokenId },
+        req
+      );
+    }
+
+    sendResult(res, result);
+  } catch (error) {
+    sendServerError(res, error);
+  }
+});
+
+/**
+ * PATCH /scim/v2/Groups/:id
+ * Apply PATCH operations to a group, typically membership changes
+ */
+router.patch('/Groups/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const operations = patchOperations(req, res);
+    if (!operations) {
+      return;
+    }
+
+    const result = await scimService.patchGroup(req.scim!.company, req.params.id, operations);
+
+    if (result.success) {
+      // Audit log
+      await createAuditLogEntry(
+        null,
+        req.scim!.company.id,
+        'scim.group_update',
+        'role',
+        req.params.id,
+        {
+          paths: operations.map((operation) => operation.path || null),
+          scimTokenId: req.scim!.tokenId,
+        },
+        req
+      );
+    }
+
+    sendResult(res, result);
+  } catch (error) {
+    sendServerError(res, error);
+  }
+});
+
+/**
+ * DELETE /scim/v2/Groups/:id
+ * Delete a group and its role
+ */
+router.delete('/Groups/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await scimService.deleteGroup(req.scim!.company, req.params.id);
+
+    if (!result.success) {
+      sendResult(res, result);
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      null,
+      req.scim!.company.id,
+      'scim.group_delete',
+      'role',
+      req.params.id,
+      { scimTokenId: req.scim!.tokenId },
+      req
+    );
+
+    send(res, 204);
+  } catch (error) {
+    sendServerError(res, error);
+  }
+});
+
+export default router;
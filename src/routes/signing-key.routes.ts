@@ -0,0 +1,68 @@
+/**
+ * @file JWT signing key routes
+ * @module routes/signing-key
+ */
+
+import { Router, Request, Response } from 'express';
+import { signingKeyService } from '../services/signing-key.service';
+import { authenticate, requireSuperUser } from '../middleware/auth.middleware';
+import { createAuditLogEntry } from '../middleware/audit.middleware';
+
+const router = Router();
+
+// All routes require a super user
+router.use(authenticate, requireSuperUser);
+
+/**
+ * GET /api/signing-keys
+ * List signing keys (metadata only)
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const keys = await signingKeyService.listKeys();
+
+    res.json(keys);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch signing keys',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/signing-keys/rotate
+ * Generate a new signing key; the previous key keeps verifying until it expires
+ */
+router.post('/rotate', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { algorithm } = req.body;
+
+    if (algorithm && algorithm !== 'RS256' && algorithm !== 'EdDSA') {
+      res.status(400).json({ error: 'algorithm must be RS256 or EdDSA' });
+      return;
+    }
+
+    const result = await signingKeyService.rotateKey(algorithm);
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'signing_key.rotate',
+      'signing_key',
+      result.kid,
+      { algorithm: result.algorithm, retired: result.retired },
+      req
+    );
+
+    res.json({ message: 'Signing key rotated successfully', ...result });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to rotate signing key',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,202 @@
+/**
+ * @file SMART on FHIR routes
+ * @module routes/smart
+ *
+ * Authorization endpoint (handed on to the web consent screen), the consent screen's
+ * API and EHR launch. Codes are exchanged at the OAuth token endpoint.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { smartService, SmartAuthorizationRequest } from '../services/smart.service';
+import { authenticate } from '../middleware/auth.middleware';
+import { createAuditLogEntry } from '../middleware/audit.middleware';
+import { config } from '../config';
+
+const router = Router();
+
+// Authorization request parameters passed through to the consent screen
+const REQUEST_PARAMS: (keyof SmartAuthorizationRequest)[] = [
+  'response_type',
+  'client_id',
+  'redirect_uri',
+  'scope',
+  'state',
+  'aud',
+  'launch',
+  'code_challenge',
+  'code_challenge_method',
+];
+
+/**
+ * Pick the authorization request parameters from a query string or body
+ */
+function readAuthorizationRequest(source: Record<string, unknown>): SmartAuthorizationRequest {
+  const request: SmartAuthorizationRequest = {};
+  for (const param of REQUEST_PARAMS) {
+    if (typeof source?.[param] === 'string') {
+      request[param] = source[param] as string;
+    }
+  }
+  return request;
+}
+
+/**
+ * Require an interactive user session
+ * SMART app tokens and service accounts cannot approve authorization requests or
+ * launch apps.
+ */
+function requireInteractiveUser(req: Request, res: Response, next: NextFunction): void {
+  if (req.context!.smart || req.context!.user.is_service_account) {
+    res.status(403).json({ error: 'Interactive user session required' });
+    return;
+  }
+  next();
+}
+
+/**
+ * GET /api/smart/authorize
+ * Authorization endpoint: validate the request and send the browser to the consent screen
+ */
+router.get('/authorize', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const request = readAuthorizationRequest(req.query as Record<string, unknown>);
+    const result = await smartService.validateRequest(request);
+
+    if (!result.success) {
+      if (result.redirectTo) {
+        res.redirect(302, result.redirectTo);
+        return;
+      }
+      res.status(400).json({ error: result.error, error_description: result.errorDescription });
+      return;
+    }
+
+    const consent = new URL(`${config.web.url}/smart/authorize`);
+    for (const [param, value] of Object.entries(request)) {
+      consent.searchParams.set(param, value as string);
+    }
+
+    res.redirect(302, consent.toString());
+  } catch (error) {
+    res.status(500).json({
+      error: 'server_error',
+      error_description: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/smart/authorize/details
+ * Describe an authorization request for the consent screen
+ */
+router.get(
+  '/authorize/details',
+  authenticate,
+  requireInteractiveUser,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await smartService.getConsentDetails(
+        req.context!.user,
+        readAuthorizationRequest(req.query as Record<string, unknown>)
+      );
+
+      if (!result.success) {
+        res.status(400).json({
+          error: result.errorDescription || result.error,
+          redirectTo: result.redirectTo,
+        });
+        return;
+      }
+
+      res.json(result.details);
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to load authorization request',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/smart/authorize
+ * Record the user's decision; returns where to send the browser next
+ */
+router.post('/authorize', authenticate, requireInteractiveUser, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { approve, tenantId } = req.body;
+    const request = readAuthorizationRequest(req.body);
+
+    const result = await smartService.authorize(req.context!.user, request, {
+      approve: approve === true,
+      tenantId,
+    });
+
+    if (!result.redirectTo) {
+      res.status(400).json({ error: result.errorDescription || result.error });
+      return;
+    }
+
+    if (result.app) {
+      // Audit log
+      await createAuditLogEntry(
+        req.context!.user.id,
+        req.context!.company.id,
+        result.success ? 'smart.authorize' : 'smart.deny',
+        'smart_app',
+        result.app.id,
+        { clientId: result.app.client_id, scopes: result.scopes || [], ...(result.error && { error: result.error }) },
+        req
+      );
+    }
+
+    res.json({ redirectTo: result.redirectTo });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to answer authorization request',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/smart/launch
+ * Start an EHR launch of an app with a tenant and optional patient or encounter
+ */
+router.post('/launch', authenticate, requireInteractiveUser, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { appId, tenantId, patient, encounter } = req.body;
+
+    if (!appId || !tenantId) {
+      res.status(400).json({ error: 'Missing appId or tenantId' });
+      return;
+    }
+
+    const result = await smartService.createLaunch(req.context!.user, { appId, tenantId, patient, encounter });
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'smart.launch',
+      'smart_app',
+      appId,
+      { tenantId, patient, encounter },
+      req
+    );
+
+    res.status(201).json({ launch: result.launch, launchUrl: result.launchUrl });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to launch app',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
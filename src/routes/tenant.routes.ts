@@ -5,7 +5,12 @@
 
 import { Router, Request, Response } from 'express';
 import { tenantService } from '../services/tenant.service';
-import { authenticate, requirePermission, requireOrgAdmin } from '../middleware/auth.middleware';
+import {
+  authenticate,
+  requirePermission,
+  requireOrgAdmin,
+  requireRecentAuth,
+} from '../middleware/auth.middleware';
 
 const router = Router();
 
@@ -75,11 +80,10 @@ router.get('/:id', requirePermission('tenant.read'), async (req: Request, res: R
       return;
     }
 
-    // Verify access
-    const hasAccess = await tenantService.userHasAccessToTenant(
-      req.context!.user.id,
-      req.params.id
-    );
+    // Verify access (a break-glass session grants its tenant)
+    const hasAccess =
+      req.context!.breakGlass?.tenant_id === req.params.id ||
+      (await tenantService.userHasAccessToTenant(req.context!.user.id, req.params.id));
 
     if (!hasAccess) {
       res.status(403).json({ error: 'Access denied to this tenant' });
@@ -121,7 +125,7 @@ router.patch('/:id', requireOrgAdmin, async (req: Request, res: Response): Promi
  * DELETE /api/tenants/:id
  * Delete tenant
  */
-router.delete('/:id', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+router.delete('/:id', requireOrgAdmin, requireRecentAuth(), async (req: Request, res: Response): Promise<void> => {
   try {
     const result = await tenantService.deleteTenant(req.params.id);
 
@@ -6,8 +6,20 @@
 import { Router, Request, Response } from 'express';
 import { userService } from '../services/user.service';
 import { rbacService } from '../services/rbac.service';
-import { authenticate, requirePermission, requireSuperUser, requireOrgAdmin } from '../middleware/auth.middleware';
+import { sessionService } from '../services/session.service';
+import { lockoutService } from '../services/lockout.service';
+import { invitationService } from '../services/invitation.service';
+import { accessRequestService } from '../services/access-request.service';
+import { deviceService } from '../services/device.service';
+import {
+  authenticate,
+  requirePermission,
+  requireSuperUser,
+  requireOrgAdmin,
+  requireRecentAuth,
+} from '../middleware/auth.middleware';
 import { createAuditLogEntry } from '../middleware/audit.middleware';
+import { AccessRequest, DeviceApproval } from '../types';
 
 const router = Router();
 
@@ -46,6 +58,389 @@ router.get('/', requirePermission('user.read'), async (req: Request, res: Respon
   }
 });
 
+/**
+ * GET /api/users/invitations
+ * List the company's invitations with their status
+ */
+router.get('/invitations', requirePermission('user.read'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invitations = await invitationService.listInvitations(req.context!.company.id);
+
+    res.json(invitations);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch invitations',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/users/invitations
+ * Invite a user by email; they choose their own password when accepting
+ */
+router.post('/invitations', requirePermission('user.create'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, tenantId, roleIds } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      res.status(400).json({ error: 'Email is required' });
+      return;
+    }
+
+    if (roleIds !== undefined && (!Array.isArray(roleIds) || roleIds.some((id) => typeof id !== 'string'))) {
+      res.status(400).json({ error: 'roleIds must be an array of role IDs' });
+      return;
+    }
+
+    const result = await invitationService.createInvitation(
+      req.context!.company.id,
+      { email, tenantId, roleIds },
+      req.context!.user
+    );
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'user.invite',
+      'invitation',
+      result.invitation!.id,
+      { email: result.invitation!.email, tenantId: tenantId || null, roleIds: result.invitation!.role_ids },
+      req
+    );
+
+    res.status(201).json({
+      message: 'Invitation sent successfully',
+      invitation: result.invitation,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to create invitation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/users/invitations/:id/resend
+ * Email a fresh invitation link; the previous link stops working
+ */
+router.post(
+  '/invitations/:id/resend',
+  requirePermission('user.create'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await invitationService.resendInvitation(
+        req.context!.company.id,
+        req.params.id,
+        req.context!.user
+      );
+
+      if (!result.success) {
+        res.status(400).json({ error: result.error });
+        return;
+      }
+
+      // Audit log
+      await createAuditLogEntry(
+        req.context!.user.id,
+        req.context!.company.id,
+        'user.invite_resend',
+        'invitation',
+        req.params.id,
+        { email: result.invitation!.email },
+        req
+      );
+
+      res.json({
+        message: 'Invitation resent successfully',
+        invitation: result.invitation,
+      });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to resend invitation',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/users/invitations/:id
+ * Cancel a pending invitation
+ */
+router.delete('/invitations/:id', requirePermission('user.create'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await invitationService.cancelInvitation(req.context!.company.id, req.params.id);
+
+    if (!result.success) {
+      res.status(404).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'user.invite_cancel',
+      'invitation',
+      req.params.id,
+      {},
+      req
+    );
+
+    res.json({ message: 'Invitation cancelled successfully' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to cancel invitation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/users/access-requests
+ * List the company's access requests, optionally filtered by status
+ */
+router.get('/access-requests', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status } = req.query;
+
+    if (status !== undefined && !['pending', 'approved', 'denied'].includes(status as string)) {
+      res.status(400).json({ error: 'status must be pending, approved or denied' });
+      return;
+    }
+
+    const requests = await accessRequestService.listRequests(
+      req.context!.company.id,
+      status as AccessRequest['status'] | undefined
+    );
+
+    res.json(requests);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch access requests',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/users/access-requests/:id/approve
+ * Approve an access request, creating the user with the chosen tenant and roles
+ */
+router.post('/access-requests/:id/approve', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { tenantId, roleIds } = req.body;
+
+    if (roleIds !== undefined && (!Array.isArray(roleIds) || roleIds.some((id) => typeof id !== 'string'))) {
+      res.status(400).json({ error: 'roleIds must be an array of role IDs' });
+      return;
+    }
+
+    const result = await accessRequestService.approveRequest(
+      req.context!.company.id,
+      req.params.id,
+      { tenantId, roleIds },
+      req.context!.user.id
+    );
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'user.access_request_approve',
+      'access_request',
+      req.params.id,
+      {
+        email: result.request!.email,
+        userId: result.request!.user_id,
+        tenantId: tenantId || null,
+        roleIds: result.request!.role_ids,
+      },
+      req
+    );
+
+    res.json({
+      message: 'Access request approved',
+      request: result.request,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to approve access request',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/users/access-requests/:id/deny
+ * Deny an access request with a reason that is emailed to the requester
+ */
+router.post('/access-requests/:id/deny', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { reason } = req.body;
+
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ error: 'A reason is required' });
+      return;
+    }
+
+    const result = await accessRequestService.denyRequest(
+      req.context!.company.id,
+      req.params.id,
+      reason.trim(),
+      req.context!.user.id
+    );
+
+    if (!result.success) {
+      res.status(404).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'user.access_request_deny',
+      'access_request',
+      req.params.id,
+      { email: result.request!.email, reason: result.request!.decision_reason },
+      req
+    );
+
+    res.json({
+      message: 'Access request denied',
+      request: result.request,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to deny access request',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/users/device-approvals
+ * List the company's requests to approve new devices, optionally filtered by status
+ */
+router.get('/device-approvals', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status } = req.query;
+
+    if (status !== undefined && !['pending', 'approved', 'denied'].includes(status as string)) {
+      res.status(400).json({ error: 'status must be pending, approved or denied' });
+      return;
+    }
+
+    const approvals = await deviceService.listApprovals(
+      req.context!.company.id,
+      status as DeviceApproval['status'] | undefined
+    );
+
+    res.json(approvals);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to fetch device approvals',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/users/device-approvals/:id/approve
+ * Approve a user's new device; they can then sign in from it
+ */
+router.post('/device-approvals/:id/approve', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await deviceService.approveRequest(
+      req.context!.company.id,
+      req.params.id,
+      req.context!.user.id
+    );
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'user.device_approve',
+      'device_approval',
+      req.params.id,
+      {
+        userId: result.approval!.user_id,
+        device: result.approval!.user_agent_family,
+        ipPrefix: result.approval!.ip_prefix,
+      },
+      req
+    );
+
+    res.json({ message: 'Device approved', approval: result.approval });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to approve device',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/users/device-approvals/:id/deny
+ * Deny a user's new device; logins from it stay blocked
+ */
+router.post('/device-approvals/:id/deny', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await deviceService.denyRequest(
+      req.context!.company.id,
+      req.params.id,
+      req.context!.user.id
+    );
+
+    if (!result.success) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'user.device_deny',
+      'device_approval',
+      req.params.id,
+      {
+        userId: result.approval!.user_id,
+        device: result.approval!.user_agent_family,
+        ipPrefix: result.approval!.ip_prefix,
+      },
+      req
+    );
+
+    res.json({ message: 'Device denied', approval: result.approval });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to deny device',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * GET /api/users/:id
  * Get specific user details
@@ -76,13 +471,19 @@ router.get('/:id', requirePermission('user.read'), async (req: Request, res: Res
 
 /**
  * POST /api/users
- * Create new user
+ * Create new user and email them a link to choose their password
+ * Admins never set passwords: a `password` in the body is refused.
  */
 router.post('/', requirePermission('user.create'), async (req: Request, res: Response): Promise<void> => {
   try {
-    const { email, password, fullName, tenantId, isOrgAdmin } = req.body;
+    const { email, fullName, tenantId, isOrgAdmin } = req.body;
 
-    if (!email || !password || !fullName) {
+    if (req.body.password !== undefined) {
+      res.status(400).json({ error: 'Users choose their own password from the emailed link' });
+      return;
+    }
+
+    if (!email || !fullName) {
       res.status(400).json({ error: 'Missing required fields' });
       return;
     }
@@ -92,7 +493,6 @@ router.post('/', requirePermission('user.create'), async (req: Request, res: Res
 
     const result = await userService.createUser({
       email,
-      password,
       fullName,
       companyId,
       tenantId,
@@ -104,6 +504,8 @@ router.post('/', requirePermission('user.create'), async (req: Request, res: Res
       return;
     }
 
+    await userService.sendSetupLink({ id: result.userId!, email, fullName }, req.context!.company.name);
+
     // Audit log
     await createAuditLogEntry(
       req.context!.user.id,
@@ -193,6 +595,86 @@ router.delete('/:id', requirePermission('user.delete'), async (req: Request, res
   }
 });
 
+/**
+ * POST /api/users/:id/revoke-sessions
+ * Revoke every session of a user (Org Admin only)
+ */
+router.post('/:id/revoke-sessions', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await userService.getUserById(req.params.id);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (!req.context!.user.is_super_user && user.company_id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const revoked = await sessionService.revokeAllForUser(req.params.id, 'admin_revoked');
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'session.revoke_all',
+      'user',
+      req.params.id,
+      { revokedSessions: revoked },
+      req
+    );
+
+    res.json({ message: 'Sessions revoked successfully', revokedSessions: revoked });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to revoke sessions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/users/:id/unlock
+ * Clear a user's failed login count and lift any lockout (Org Admin only)
+ */
+router.post('/:id/unlock', requireOrgAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await userService.getUserById(req.params.id);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (!req.context!.user.is_super_user && user.company_id !== req.context!.company.id) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    await lockoutService.reset(req.params.id);
+
+    // Audit log
+    await createAuditLogEntry(
+      req.context!.user.id,
+      req.context!.company.id,
+      'user.unlock',
+      'user',
+      req.params.id,
+      {},
+      req
+    );
+
+    res.json({ message: 'User unlocked successfully' });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to unlock user',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * GET /api/users/:id/roles
  * Get user's roles and permissions
@@ -213,7 +695,7 @@ router.get('/:id/roles', requirePermission('user.read'), async (req: Request, re
  * POST /api/users/:id/roles
  * Assign role to user
  */
-router.post('/:id/roles', requirePermission('role.assign'), async (req: Request, res: Response): Promise<void> => {
+router.post('/:id/roles', requirePermission('role.assign'), requireRecentAuth(), async (req: Request, res: Response): Promise<void> => {
   try {
     const { roleId } = req.body;
 
@@ -257,7 +739,7 @@ router.post('/:id/roles', requirePermission('role.assign'), async (req: Request,
  * DELETE /api/users/:id/roles/:roleId
  * Remove role from user
  */
-router.delete('/:id/roles/:roleId', requirePermission('role.assign'), async (req: Request, res: Response): Promise<void> => {
+router.delete('/:id/roles/:roleId', requirePermission('role.assign'), requireRecentAuth(), async (req: Request, res: Response): Promise<void> => {
   try {
     const result = await rbacService.removeRoleFromUser(req.params.id, req.params.roleId);
 
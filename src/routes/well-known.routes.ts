@@ -0,0 +1,67 @@
+/**
+ * @file Well-known discovery routes
+ * @module routes/well-known
+ *
+ * Mounted at /.well-known (outside /api) so that token verifiers find them at the standard paths
+ */
+
+import { Router, Request, Response } from 'express';
+import { signingKeyService } from '../services/signing-key.service';
+import { config } from '../config';
+import { SUPPORTED_SCOPES } from '../utils/smart';
+
+const router = Router();
+
+/**
+ * GET /.well-known/jwks.json
+ * Public keys for verifying access tokens; retired keys stay listed until they expire
+ */
+router.get('/jwks.json', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const jwks = await signingKeyService.getJwks();
+
+    // Verifiers may cache the set briefly; they refetch when they meet an unknown kid
+    res.set('Cache-Control', 'public, max-age=300');
+    res.json(jwks);
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to load signing keys',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /.well-known/smart-configuration
+ * SMART on FHIR discovery document (SMART App Launch section 2.1.3)
+ */
+router.get('/smart-configuration', (req: Request, res: Response): void => {
+  const { baseUrl } = config.smart;
+
+  res.set('Cache-Control', 'public, max-age=300');
+  res.json({
+    issuer: baseUrl,
+    jwks_uri: `${baseUrl}/.well-known/jwks.json`,
+    authorization_endpoint: `${baseUrl}/api/smart/authorize`,
+    token_endpoint: `${baseUrl}/api/oauth/token`,
+    introspection_endpoint: `${baseUrl}/api/oauth/introspect`,
+    revocation_endpoint: `${baseUrl}/api/oauth/revoke`,
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    grant_types_supported: ['authorization_code', 'client_credentials'],
+    response_types_supported: ['code'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: SUPPORTED_SCOPES,
+    capabilities: [
+      'launch-ehr',
+      'launch-standalone',
+      'client-public',
+      'client-confidential-symmetric',
+      'context-ehr-patient',
+      'context-ehr-encounter',
+      'permission-patient',
+      'permission-user',
+    ],
+  });
+});
+
+export default router;
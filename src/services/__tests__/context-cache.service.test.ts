@@ -0,0 +1,120 @@
+import { BreakGlassSession, Company, Tenant, User } from '../../types';
+import { CachedUser, ContextCacheService } from '../context-cache.service';
+
+function cachedUser(id: string, overrides: Partial<CachedUser> = {}): CachedUser {
+  return {
+    user: { id, tenant_id: null } as unknown as User,
+    roleIds: [],
+    permissions: [],
+    breakGlass: null,
+    ...overrides,
+  };
+}
+
+describe('ContextCacheService', () => {
+  let cache: ContextCacheService;
+  let loads: number;
+
+  // Remember an entry and report whether it had to be loaded
+  async function load<T>(remember: (loader: () => Promise<T>) => Promise<T | null>, value: T): Promise<boolean> {
+    const before = loads;
+    await remember(async () => {
+      loads++;
+      return value;
+    });
+    return loads > before;
+  }
+
+  const user = (id: string, entry = cachedUser(id)): Promise<boolean> =>
+    load((loader) => cache.remember('user', id, loader), entry);
+  const company = (id: string): Promise<boolean> =>
+    load((loader) => cache.remember('company', id, loader), { company: { id } as Company, license: { valid: true } });
+  const tenant = (id: string, companyId: string): Promise<boolean> =>
+    load((loader) => cache.remember('tenant', id, loader), { id, parent_company_id: companyId } as Tenant);
+
+  beforeEach(() => {
+    cache = new ContextCacheService();
+    loads = 0;
+  });
+
+  it('loads an entry once and serves it from memory afterwards', async () => {
+    expect(await user('user-1')).toBe(true);
+    expect(await user('user-1')).toBe(false);
+    expect(loads).toBe(1);
+  });
+
+  it('does not cache lookups that find nothing', async () => {
+    const loader = jest.fn().mockResolvedValue(null);
+
+    expect(await cache.remember('tenant', 'missing', loader)).toBeNull();
+    expect(await cache.remember('tenant', 'missing', loader)).toBeNull();
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('forgets single entries', async () => {
+    await user('user-1');
+    await user('user-2');
+
+    cache.forget('user', 'user-1');
+
+    expect(await user('user-1')).toBe(true);
+    expect(await user('user-2')).toBe(false);
+  });
+
+  it('forgets a user with their API keys and service account permissions', async () => {
+    await user('user-1');
+    await load((loader) => cache.remember('serviceAccountPermissions', 'user-1', loader), ['api.use']);
+    await load((loader) => cache.remember('apiKey', 'hash-1', loader), {
+      userId: 'user-1',
+      apiKeyId: 'key-1',
+      permissions: [],
+      expiresAt: new Date(Date.now() + 60000),
+      lastUsedAt: Date.now(),
+      lastUsedIp: null,
+    });
+
+    cache.forgetUser('user-1');
+
+    expect(await user('user-1')).toBe(true);
+    expect(await load((loader) => cache.remember('serviceAccountPermissions', 'user-1', loader), [])).toBe(true);
+    expect(await load((loader) => cache.remember('apiKey', 'hash-1', loader), null)).toBe(true);
+  });
+
+  it('forgets a company with its tenants but not other companies', async () => {
+    await company('acme');
+    await company('globex');
+    await tenant('tenant-1', 'acme');
+    await tenant('tenant-2', 'globex');
+
+    cache.forgetCompany('acme');
+
+    expect(await company('acme')).toBe(true);
+    expect(await tenant('tenant-1', 'acme')).toBe(true);
+    expect(await company('globex')).toBe(false);
+    expect(await tenant('tenant-2', 'globex')).toBe(false);
+  });
+
+  it('forgets a tenant with the users in it or in a break-glass session for it', async () => {
+    await tenant('tenant-1', 'acme');
+    await user('member', cachedUser('member', { user: { id: 'member', tenant_id: 'tenant-1' } as User }));
+    await user('responder', cachedUser('responder', { breakGlass: { tenant_id: 'tenant-1' } as BreakGlassSession }));
+    await user('outsider');
+
+    cache.forgetTenant('tenant-1');
+
+    expect(await tenant('tenant-1', 'acme')).toBe(true);
+    expect(await user('member')).toBe(true);
+    expect(await user('responder')).toBe(true);
+    expect(await user('outsider')).toBe(false);
+  });
+
+  it('forgets the users holding a role', async () => {
+    await user('holder', cachedUser('holder', { roleIds: ['role-1', 'role-2'] }));
+    await user('other', cachedUser('other', { roleIds: ['role-2'] }));
+
+    cache.forgetRole('role-1');
+
+    expect(await user('holder')).toBe(true);
+    expect(await user('other')).toBe(false);
+  });
+});
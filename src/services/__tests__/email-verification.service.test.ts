@@ -0,0 +1,72 @@
+import { supabaseAdmin } from '../../config/database';
+import type { FakeSupabase } from '../../config/__mocks__/database';
+import { config } from '../../config';
+import { emailVerificationService } from '../email-verification.service';
+import { contextCacheService } from '../context-cache.service';
+
+jest.mock('../../config/database');
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+const expired = new Date(Date.now() - (config.emailVerification.signupTtlHours + 1) * 60 * 60 * 1000).toISOString();
+
+describe('EmailVerificationService.purgeExpiredSignups', () => {
+  const required = config.emailVerification.required;
+
+  beforeEach(() => {
+    db.reset();
+    config.emailVerification.required = true;
+    db.table('companies').push({ id: 'acme' });
+  });
+
+  afterAll(() => {
+    config.emailVerification.required = required;
+  });
+
+  it('deletes an expired signup together with its provisional company', async () => {
+    const forget = jest.spyOn(contextCacheService, 'forgetCompany');
+    db.table('users').push({ id: 'user-1', company_id: 'acme', email_verified: false, last_login: null, created_at: expired });
+
+    const removed = await emailVerificationService.purgeExpiredSignups();
+
+    expect(removed).toEqual({ users: 0, companies: 1 });
+    expect(db.table('companies')).toHaveLength(0);
+    expect(forget).toHaveBeenCalledWith('acme');
+  });
+
+  it('only deletes the unverified user when someone else in the company is verified', async () => {
+    db.table('users').push(
+      { id: 'user-1', company_id: 'acme', email_verified: false, last_login: null, created_at: expired },
+      { id: 'user-2', company_id: 'acme', email_verified: true, last_login: null, created_at: expired }
+    );
+
+    const removed = await emailVerificationService.purgeExpiredSignups();
+
+    expect(removed).toEqual({ users: 1, companies: 0 });
+    expect(db.table('users').map((user) => user.id)).toEqual(['user-2']);
+    expect(db.table('companies')).toHaveLength(1);
+  });
+
+  it('keeps companies where someone has signed in', async () => {
+    db.table('users').push(
+      { id: 'user-1', company_id: 'acme', email_verified: false, last_login: null, created_at: expired },
+      { id: 'user-2', company_id: 'acme', email_verified: false, last_login: expired, created_at: expired }
+    );
+
+    const removed = await emailVerificationService.purgeExpiredSignups();
+
+    expect(removed).toEqual({ users: 1, companies: 0 });
+    expect(db.table('users').map((user) => user.id)).toEqual(['user-2']);
+    expect(db.table('companies')).toHaveLength(1);
+  });
+
+  it('does nothing while verification is not required', async () => {
+    config.emailVerification.required = false;
+    db.table('users').push({ id: 'user-1', company_id: 'acme', email_verified: false, last_login: null, created_at: expired });
+
+    const removed = await emailVerificationService.purgeExpiredSignups();
+
+    expect(removed).toEqual({ users: 0, companies: 0 });
+    expect(db.table('users')).toHaveLength(1);
+    expect(db.queries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,84 @@
+import { supabaseAdmin } from '../../config/database';
+import type { FakeSupabase } from '../../config/__mocks__/database';
+import { config } from '../../config';
+import { lockoutService } from '../lockout.service';
+
+jest.mock('../../config/database');
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+const { maxAttempts, baseDurationMinutes, maxDurationMinutes } = config.lockout;
+
+async function failTimes(count: number): Promise<{ failedAttempts: number; lockedUntil?: Date }> {
+  let failure = { failedAttempts: 0 } as { failedAttempts: number; lockedUntil?: Date };
+  for (let attempt = 0; attempt < count; attempt++) {
+    failure = await lockoutService.recordFailure('user-1', { ipAddress: '203.0.113.7', userAgent: 'jest' });
+  }
+  return failure;
+}
+
+function lockMinutes(lockedUntil: Date): number {
+  return Math.round((lockedUntil.getTime() - Date.now()) / 60000);
+}
+
+describe('LockoutService', () => {
+  beforeEach(() => {
+    db.reset();
+    db.table('users').push({ id: 'user-1', company_id: 'acme', failed_login_attempts: 0, locked_until: null });
+  });
+
+  it('does not lock before the maximum number of failures', async () => {
+    const failure = await failTimes(maxAttempts - 1);
+
+    expect(failure).toEqual({ failedAttempts: maxAttempts - 1, lockedUntil: undefined });
+    expect(lockoutService.isLocked(db.table('users')[0])).toBe(false);
+    expect(db.table('audit_logs')).toHaveLength(0);
+  });
+
+  it('locks for the base duration at the maximum number of failures and audits it', async () => {
+    const failure = await failTimes(maxAttempts);
+
+    expect(lockMinutes(failure.lockedUntil!)).toBe(baseDurationMinutes);
+    expect(lockoutService.isLocked(db.table('users')[0])).toBe(true);
+    expect(db.table('audit_logs')).toEqual([
+      expect.objectContaining({
+        action: 'user.lockout',
+        user_id: 'user-1',
+        company_id: 'acme',
+        resource_id: 'user-1',
+        tenant_id: null,
+        break_glass_session_id: null,
+        ip_address: '203.0.113.7',
+        user_agent: 'jest',
+        changes: { failedAttempts: maxAttempts, lockedUntil: failure.lockedUntil!.toISOString() },
+      }),
+    ]);
+  });
+
+  it('doubles the lock with every further failure, up to the maximum', async () => {
+    await failTimes(maxAttempts);
+
+    expect(lockMinutes((await failTimes(1)).lockedUntil!)).toBe(Math.min(baseDurationMinutes * 2, maxDurationMinutes));
+    expect(lockMinutes((await failTimes(1)).lockedUntil!)).toBe(Math.min(baseDurationMinutes * 4, maxDurationMinutes));
+    expect(lockMinutes((await failTimes(20)).lockedUntil!)).toBe(maxDurationMinutes);
+  });
+
+  it('counts concurrent failures', async () => {
+    await Promise.all([failTimes(1), failTimes(1), failTimes(1)]);
+
+    expect(db.table('users')[0].failed_login_attempts).toBe(3);
+  });
+
+  it('clears the count and the lock on reset', async () => {
+    await failTimes(maxAttempts);
+
+    await lockoutService.reset('user-1');
+
+    expect(db.table('users')[0]).toMatchObject({ failed_login_attempts: 0, locked_until: null });
+    expect(lockoutService.isLocked(db.table('users')[0])).toBe(false);
+  });
+
+  it('treats a lock in the past as expired', () => {
+    expect(lockoutService.isLocked({ locked_until: new Date(Date.now() - 1000) })).toBe(false);
+    expect(lockoutService.isLocked({ locked_until: null })).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import jwt from 'jsonwebtoken';
+import { supabaseAdmin } from '../../config/database';
+import type { FakeSupabase } from '../../config/__mocks__/database';
+import { config } from '../../config';
+import { mfaService } from '../mfa.service';
+import { authService } from '../auth.service';
+import { currentTotpStep, generateTotp, generateTotpSecret } from '../../utils/totp';
+import { deriveKey, encrypt } from '../../utils/encryption';
+
+jest.mock('../../config/database');
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+const secret = generateTotpSecret();
+
+function mfaToken(): string {
+  return jwt.sign(
+    { userId: 'user-1', purpose: 'mfa_challenge', enrollmentRequired: false, jti: `challenge-${Math.random()}` },
+    config.jwt.secret,
+    { algorithm: 'HS256', expiresIn: '5m' }
+  );
+}
+
+describe('MfaService.verifyCode', () => {
+  beforeEach(() => {
+    db.reset();
+    db.table('users').push({
+      id: 'user-1',
+      mfa_enabled: true,
+      mfa_secret: encrypt(secret, deriveKey(config.mfa.encryptionKey)),
+      mfa_last_used_step: null,
+    });
+  });
+
+  it('accepts a current code once', async () => {
+    const code = generateTotp(secret, currentTotpStep());
+
+    expect(await mfaService.verifyCode('user-1', code)).toBe(true);
+    expect(await mfaService.verifyCode('user-1', code)).toBe(false);
+  });
+
+  it('lets only one of two concurrent requests with the same code through', async () => {
+    const code = generateTotp(secret, currentTotpStep());
+
+    const results = await Promise.all([
+      mfaService.verifyCode('user-1', code),
+      mfaService.verifyCode('user-1', code),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('rejects a code older than the last one used', async () => {
+    const step = currentTotpStep();
+    expect(await mfaService.verifyCode('user-1', generateTotp(secret, step))).toBe(true);
+
+    expect(await mfaService.verifyCode('user-1', generateTotp(secret, step - 1))).toBe(false);
+  });
+
+  it('rejects wrong codes and users without MFA', async () => {
+    expect(await mfaService.verifyCode('user-1', '000000')).toBe(false);
+
+    db.table('users')[0].mfa_enabled = false;
+    expect(await mfaService.verifyCode('user-1', generateTotp(secret, currentTotpStep()))).toBe(false);
+  });
+});
+
+describe('AuthService.completeMfaLogin', () => {
+  beforeEach(() => {
+    db.reset();
+    db.table('users').push({
+      id: 'user-1',
+      mfa_enabled: true,
+      mfa_secret: encrypt(secret, deriveKey(config.mfa.encryptionKey)),
+      mfa_last_used_step: null,
+    });
+  });
+
+  it('gives up on a challenge after too many wrong codes', async () => {
+    const token = mfaToken();
+
+    for (let attempt = 0; attempt < config.mfa.challengeMaxAttempts; attempt++) {
+      expect(await authService.completeMfaLogin(token, { code: '000000' })).toEqual({
+        success: false,
+        error: 'Invalid verification code',
+      });
+    }
+
+    const result = await authService.completeMfaLogin(token, {
+      code: generateTotp(secret, currentTotpStep()),
+    });
+
+    expect(result).toEqual({ success: false, error: 'Too many incorrect codes. Please sign in again.' });
+    expect(db.table('users')[0].mfa_last_used_step).toBeNull();
+  });
+
+  it('rejects challenges without an ID', async () => {
+    const token = jwt.sign(
+      { userId: 'user-1', purpose: 'mfa_challenge', enrollmentRequired: false },
+      config.jwt.secret,
+      { algorithm: 'HS256', expiresIn: '5m' }
+    );
+
+    expect(await authService.completeMfaLogin(token, { code: '000000' })).toEqual({
+      success: false,
+      error: 'Invalid or expired MFA challenge',
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import bcrypt from 'bcrypt';
+import { supabaseAdmin } from '../../config/database';
+import type { FakeSupabase } from '../../config/__mocks__/database';
+import { passwordPolicyService } from '../password-policy.service';
+import { contextCacheService } from '../context-cache.service';
+
+jest.mock('../../config/database');
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+const codes = (violations: { code: string }[]): string[] => violations.map((violation) => violation.code);
+
+describe('PasswordPolicyService', () => {
+  beforeEach(() => {
+    db.reset();
+    db.table('companies').push({ id: 'acme', password_policy: null });
+  });
+
+  describe('checkPassword', () => {
+    it('accepts a password meeting the default policy', async () => {
+      expect(await passwordPolicyService.checkPassword('Correct-Horse-9', { email: 'ada@acme.com' })).toEqual([]);
+    });
+
+    it('reports every default rule a password breaks', async () => {
+      const violations = await passwordPolicyService.checkPassword('short', { email: 'ada@acme.com' });
+
+      expect(codes(violations)).toEqual(['min_length', 'uppercase', 'number']);
+      expect(violations.every((violation) => violation.field === 'password')).toBe(true);
+    });
+
+    it('rejects passwords containing the email local part', async () => {
+      const violations = await passwordPolicyService.checkPassword('MyNameIsAda2024', {
+        email: 'ada@acme.com',
+      });
+
+      expect(codes(violations)).toEqual(['contains_email']);
+    });
+
+    it('rejects passwords bcrypt would truncate', async () => {
+      const violations = await passwordPolicyService.checkPassword(`Aa1${'x'.repeat(80)}`, {
+        email: 'ada@acme.com',
+      });
+
+      expect(codes(violations)).toEqual(['max_length']);
+    });
+
+    it('measures the bcrypt limit in bytes, not characters', async () => {
+      // 40 characters, 76 UTF-8 bytes
+      const password = `Aa1${'é'.repeat(37)}`;
+      const violations = await passwordPolicyService.checkPassword(password, { email: 'ada@acme.com' });
+
+      expect(codes(violations)).toEqual(['max_length']);
+      expect(violations[0].message).toMatch(/72 bytes/);
+    });
+
+    it('applies company overrides', async () => {
+      db.table('companies')[0].password_policy = { min_length: 20, require_symbol: true };
+
+      const violations = await passwordPolicyService.checkPassword('Correct-Horse-9', {
+        email: 'ada@acme.com',
+        companyId: 'acme',
+      });
+
+      expect(codes(violations)).toEqual(['min_length']);
+    });
+
+    it('rejects the current and recent passwords but not older ones', async () => {
+      db.table('companies')[0].password_policy = { history_depth: 1 };
+      db.table('users').push({ id: 'user-1', password_hash: await bcrypt.hash('Current-Pass-1', 4) });
+      db.table('password_history').push(
+        { user_id: 'user-1', password_hash: await bcrypt.hash('Recent-Pass-22', 4), created_at: '2026-02-01' },
+        { user_id: 'user-1', password_hash: await bcrypt.hash('Ancient-Pass-333', 4), created_at: '2026-01-01' }
+      );
+      const check = (password: string) =>
+        passwordPolicyService.checkPassword(password, { email: 'ada@acme.com', companyId: 'acme', userId: 'user-1' });
+
+      expect(codes(await check('Current-Pass-1'))).toEqual(['reused']);
+      expect(codes(await check('Recent-Pass-22'))).toEqual(['reused']);
+      expect(await check('Ancient-Pass-333')).toEqual([]);
+    });
+  });
+
+  describe('updatePolicy', () => {
+    it('stores only the overridden settings and returns the effective policy', async () => {
+      const result = await passwordPolicyService.updatePolicy('acme', { min_length: 16 });
+
+      expect(result.success).toBe(true);
+      expect(result.policy).toMatchObject({ min_length: 16, history_depth: 5 });
+      expect(db.table('companies')[0].password_policy).toEqual({ min_length: 16 });
+    });
+
+    it('drops the cached company so the new policy applies straight away', async () => {
+      const forget = jest.spyOn(contextCacheService, 'forgetCompany');
+
+      await passwordPolicyService.updatePolicy('acme', { min_length: 16 });
+
+      expect(forget).toHaveBeenCalledWith('acme');
+    });
+
+    it.each([
+      [{ min_length: 6 }, 'min_length must be an integer between 8 and 72'],
+      [{ history_depth: 25 }, 'history_depth must be an integer between 0 and 24'],
+      [{ max_age_days: -1 }, 'max_age_days must be a non-negative integer (0 disables expiry)'],
+      [{ require_symbol: 'yes' }, 'require_symbol must be a boolean'],
+      [{ colour: 'blue' }, 'Unknown password policy setting: colour'],
+    ])('rejects %j', async (updates, error) => {
+      expect(await passwordPolicyService.updatePolicy('acme', updates as never)).toEqual({
+        success: false,
+        error,
+      });
+    });
+  });
+
+  describe('isPasswordExpired', () => {
+    it('expires passwords older than max_age_days', async () => {
+      db.table('companies')[0].password_policy = { max_age_days: 30 };
+      const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+      expect(await passwordPolicyService.isPasswordExpired({ company_id: 'acme', password_changed_at: daysAgo(31) })).toBe(true);
+      expect(await passwordPolicyService.isPasswordExpired({ company_id: 'acme', password_changed_at: daysAgo(29) })).toBe(false);
+    });
+
+    it('never expires passwords by default', async () => {
+      expect(
+        await passwordPolicyService.isPasswordExpired({ company_id: 'acme', password_changed_at: new Date(0) })
+      ).toBe(false);
+    });
+  });
+});
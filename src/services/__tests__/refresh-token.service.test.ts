@@ -0,0 +1,60 @@
+import { supabaseAdmin } from '../../config/database';
+import type { FakeSupabase } from '../../config/__mocks__/database';
+import { refreshTokenService } from '../refresh-token.service';
+import { sessionService } from '../session.service';
+import { User } from '../../types';
+
+jest.mock('../../config/database');
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+const user = { id: 'user-1', company_id: 'company-1' } as User;
+
+describe('RefreshTokenService', () => {
+  beforeEach(() => db.reset());
+
+  it('rotates a token into a new one of the same family', async () => {
+    const session = await sessionService.createSession(user);
+    const issued = await refreshTokenService.issueToken(user.id, session.id);
+
+    const rotation = await refreshTokenService.rotateToken(issued.token);
+
+    expect(rotation.success).toBe(true);
+    expect(rotation.userId).toBe(user.id);
+    expect(rotation.familyId).toBe(session.id);
+    expect(rotation.refreshToken).not.toBe(issued.token);
+    expect((await refreshTokenService.rotateToken(rotation.refreshToken!)).success).toBe(true);
+  });
+
+  it('rejects unknown tokens', async () => {
+    expect(await refreshTokenService.rotateToken('nope')).toEqual({
+      success: false,
+      error: 'Invalid refresh token',
+    });
+  });
+
+  it('revokes the family and its session when a rotated token is presented again', async () => {
+    const session = await sessionService.createSession(user);
+    const issued = await refreshTokenService.issueToken(user.id, session.id);
+    const rotation = await refreshTokenService.rotateToken(issued.token);
+
+    const replay = await refreshTokenService.rotateToken(issued.token);
+
+    expect(replay).toMatchObject({ success: false, reuseDetected: true });
+    expect(db.table('refresh_tokens').every((token) => token.revoked_at)).toBe(true);
+    expect(db.table('sessions')[0]).toMatchObject({ revoked_reason: 'refresh_token_reuse' });
+    expect(await sessionService.isSessionActive(session.id)).toBe(false);
+
+    // The legitimate holder's newer token is dead too
+    expect((await refreshTokenService.rotateToken(rotation.refreshToken!)).success).toBe(false);
+  });
+
+  it('rejects expired tokens', async () => {
+    const issued = await refreshTokenService.issueToken(user.id);
+    db.table('refresh_tokens')[0].expires_at = new Date(Date.now() - 1000).toISOString();
+
+    expect(await refreshTokenService.rotateToken(issued.token)).toEqual({
+      success: false,
+      error: 'Refresh token has expired',
+    });
+  });
+});
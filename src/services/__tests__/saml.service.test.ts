@@ -0,0 +1,88 @@
+import type { Profile } from '@node-saml/node-saml';
+import { supabaseAdmin } from '../../config/database';
+import type { FakeSupabase } from '../../config/__mocks__/database';
+import { samlService } from '../saml.service';
+
+jest.mock('../../config/database');
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+/**
+ * Have node-saml accept the posted response as the given (already validated) profile
+ */
+function assertProfile(profile: Partial<Profile>): void {
+  const saml = {
+    validatePostResponseAsync: async () => ({
+      profile: {
+        issuer: 'https://idp.acme.com',
+        getAssertion: () => ({ Assertion: { $: { ID: `assertion-${Math.random()}` } } }),
+        getAssertionXml: () => '',
+        getSamlResponseXml: () => '',
+        ...profile,
+      },
+      loggedOut: false,
+    }),
+  };
+  jest.spyOn(samlService as unknown as { createSaml: () => unknown }, 'createSaml').mockReturnValue(saml);
+}
+
+describe('SamlService.handleAssertion', () => {
+  beforeEach(() => {
+    db.reset();
+    db.table('companies').push({ id: 'acme', domain: 'acme.com' }, { id: 'other', domain: 'other.com' });
+    db.table('saml_providers').push({
+      id: 'provider-1',
+      company_id: 'acme',
+      attribute_mappings: {},
+      group_role_mappings: {},
+      jit_provisioning: true,
+      allow_idp_initiated: true,
+      enabled: true,
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('provisions a user on the company domain and returns a login code', async () => {
+    assertProfile({
+      nameID: 'ada@acme.com',
+      nameIDFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress',
+    });
+
+    const result = await samlService.handleAssertion('acme', { SAMLResponse: 'response' });
+
+    expect(result.success).toBe(true);
+    expect(result.code).toEqual(expect.any(String));
+    expect(db.table('users')[0]).toMatchObject({ email: 'ada@acme.com', company_id: 'acme' });
+  });
+
+  it("refuses an assertion for another company's domain", async () => {
+    assertProfile({ nameID: 'opaque-id', attributes: { email: 'eve@other.com' } });
+
+    const result = await samlService.handleAssertion('acme', { SAMLResponse: 'response' });
+
+    expect(result).toEqual({ success: false, error: 'Email domain does not belong to this company' });
+    expect(db.table('users')).toHaveLength(0);
+    expect(db.table('saml_login_codes')).toHaveLength(0);
+  });
+
+  it('refuses an assertion without an email', async () => {
+    assertProfile({ nameID: 'opaque-id', nameIDFormat: 'urn:oasis:names:tc:SAML:2.0:nameid-format:persistent' });
+
+    const result = await samlService.handleAssertion('acme', { SAMLResponse: 'response' });
+
+    expect(result).toEqual({
+      success: false,
+      error: 'The identity provider did not return an email address',
+    });
+  });
+
+  it('refuses assertions for companies without SAML enabled', async () => {
+    db.table('saml_providers')[0].enabled = false;
+
+    expect(await samlService.handleAssertion('acme', { SAMLResponse: 'response' })).toEqual({
+      success: false,
+      error: 'SAML is not enabled for this company',
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { supabaseAdmin } from '../../config/database';
+import type { FakeSupabase } from '../../config/__mocks__/database';
+import { SsoProvisioningOptions, ssoProvisioningService } from '../sso-provisioning.service';
+
+jest.mock('../../config/database');
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+// OIDC and SAML logins both end up here, after claim or attribute mapping
+const options: SsoProvisioningOptions = {
+  companyId: 'acme',
+  jitProvisioning: true,
+  groupRoleMappings: { clinicians: 'Clinician' },
+};
+
+describe('SsoProvisioningService.resolveUser', () => {
+  beforeEach(() => {
+    db.reset();
+    db.table('companies').push(
+      { id: 'acme', domain: 'acme.com' },
+      { id: 'other', domain: 'other.com' }
+    );
+    db.table('roles').push({ id: 'role-clinician', company_id: 'acme', name: 'Clinician' });
+  });
+
+  it('provisions an unknown user on the company domain with their mapped roles', async () => {
+    const result = await ssoProvisioningService.resolveUser(
+      { email: 'Ada@Acme.com', name: 'Ada', groups: ['clinicians'] },
+      options
+    );
+
+    expect(result).toMatchObject({ success: true, provisioned: true });
+    expect(db.table('users')[0]).toMatchObject({ email: 'ada@acme.com', company_id: 'acme' });
+    expect(db.table('user_roles')).toEqual([
+      expect.objectContaining({ user_id: result.userId, role_id: 'role-clinician' }),
+    ]);
+  });
+
+  it('refuses emails on another company domain', async () => {
+    const result = await ssoProvisioningService.resolveUser(
+      { email: 'eve@other.com', groups: [] },
+      options
+    );
+
+    expect(result).toEqual({ success: false, error: 'Email domain does not belong to this company' });
+    expect(db.table('users')).toHaveLength(0);
+  });
+
+  it('refuses emails on a domain no company owns', async () => {
+    const result = await ssoProvisioningService.resolveUser(
+      { email: 'eve@gmail.com', groups: [] },
+      options
+    );
+
+    expect(result.success).toBe(false);
+    expect(db.table('users')).toHaveLength(0);
+  });
+
+  it('refuses an existing user of another company even on this domain', async () => {
+    db.table('users').push({ id: 'user-1', email: 'ada@acme.com', company_id: 'other' });
+
+    const result = await ssoProvisioningService.resolveUser({ email: 'ada@acme.com', groups: [] }, options);
+
+    expect(result).toEqual({ success: false, error: 'User belongs to a different company' });
+  });
+
+  it('refuses emails the IdP has not verified', async () => {
+    const result = await ssoProvisioningService.resolveUser(
+      { email: 'ada@acme.com', groups: [], emailVerified: false },
+      options
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: 'The identity provider has not verified this email address',
+    });
+  });
+
+  it('does not provision when just-in-time provisioning is off', async () => {
+    const result = await ssoProvisioningService.resolveUser(
+      { email: 'ada@acme.com', groups: [] },
+      { ...options, jitProvisioning: false }
+    );
+
+    expect(result).toEqual({ success: false, error: 'No account exists for this user' });
+  });
+
+  it('removes mapped roles the user lost at the IdP and keeps the others', async () => {
+    db.table('roles').push({ id: 'role-manual', company_id: 'acme', name: 'Manual' });
+    db.table('users').push({ id: 'user-1', email: 'ada@acme.com', company_id: 'acme' });
+    db.table('user_roles').push(
+      { user_id: 'user-1', role_id: 'role-clinician' },
+      { user_id: 'user-1', role_id: 'role-manual' }
+    );
+
+    const result = await ssoProvisioningService.resolveUser({ email: 'ada@acme.com', groups: [] }, options);
+
+    expect(result).toEqual({ success: true, userId: 'user-1', provisioned: false });
+    expect(db.table('user_roles')).toEqual([{ user_id: 'user-1', role_id: 'role-manual' }]);
+  });
+});
@@ -0,0 +1,38 @@
+import { supabaseAdmin } from '../../config/database';
+import type { FakeSupabase } from '../../config/__mocks__/database';
+import { mailService } from '../mail.service';
+import { userService } from '../user.service';
+
+jest.mock('../../config/database');
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+describe('UserService', () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('creates an admin-provisioned user without a usable password and emails a setup link', async () => {
+    const send = jest.spyOn(mailService, 'sendAccountCreated').mockResolvedValue();
+
+    const created = await userService.createUser({ email: 'ada@acme.com', fullName: 'Ada', companyId: 'acme' });
+    await userService.sendSetupLink({ id: created.userId!, email: 'ada@acme.com', fullName: 'Ada' }, 'Acme');
+
+    expect(created.success).toBe(true);
+    expect(db.table('password_history')).toHaveLength(0);
+    expect(db.table('password_reset_tokens')).toEqual([expect.objectContaining({ user_id: created.userId })]);
+    expect(send).toHaveBeenCalledWith('ada@acme.com', 'Ada', 'Acme', expect.stringContaining('/reset-password?token='));
+  });
+
+  it('logs instead of failing when the setup email cannot be sent', async () => {
+    jest.spyOn(mailService, 'sendAccountCreated').mockRejectedValue(new Error('SMTP down'));
+
+    await expect(
+      userService.sendSetupLink({ id: 'user-1', email: 'ada@acme.com', fullName: 'Ada' }, 'Acme')
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/types';
+import { supabaseAdmin } from '../../config/database';
+import type { FakeSupabase } from '../../config/__mocks__/database';
+import { config } from '../../config';
+import { User } from '../../types';
+import { webauthnService } from '../webauthn.service';
+
+jest.mock('../../config/database');
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+function cborText(text: string): Buffer {
+  return Buffer.concat([Buffer.from([0x60 + text.length]), Buffer.from(text)]);
+}
+
+function uint16(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16BE(value);
+  return buffer;
+}
+
+/**
+ * Minimal software authenticator: one P-256 credential, "none" attestation,
+ * user presence and user verification always asserted
+ */
+class SoftwareAuthenticator {
+  readonly credentialId = crypto.randomBytes(16);
+  counter = 0;
+  private readonly privateKey: crypto.KeyObject;
+  private readonly publicJwk: crypto.JsonWebKey;
+
+  constructor() {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    this.privateKey = privateKey;
+    this.publicJwk = publicKey.export({ format: 'jwk' });
+  }
+
+  createCredential(options: PublicKeyCredentialCreationOptionsJSON): RegistrationResponseJSON {
+    const clientDataJSON = this.clientData('webauthn.create', options.challenge);
+
+    // COSE_Key {1: 2 (EC2), 3: -7 (ES256), -1: 1 (P-256), -2: x, -3: y}
+    const coseKey = Buffer.concat([
+      Buffer.from([0xa5, 0x01, 0x02, 0x03, 0x26, 0x20, 0x01, 0x21, 0x58, 0x20]),
+      Buffer.from(this.publicJwk.x!, 'base64url'),
+      Buffer.from([0x22, 0x58, 0x20]),
+      Buffer.from(this.publicJwk.y!, 'base64url'),
+    ]);
+
+    const authData = Buffer.concat([
+      this.authDataHeader(0x45), // UP | UV | AT
+      Buffer.alloc(16), // AAGUID
+      uint16(this.credentialId.length),
+      this.credentialId,
+      coseKey,
+    ]);
+
+    // {"fmt": "none", "attStmt": {}, "authData": <bytes>}
+    const attestationObject = Buffer.concat([
+      Buffer.from([0xa3]),
+      cborText('fmt'),
+      cborText('none'),
+      cborText('attStmt'),
+      Buffer.from([0xa0]),
+      cborText('authData'),
+      Buffer.from([0x59]),
+      uint16(authData.length),
+      authData,
+    ]);
+
+    return {
+      id: this.credentialId.toString('base64url'),
+      rawId: this.credentialId.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        attestationObject: attestationObject.toString('base64url'),
+        transports: ['internal'],
+      },
+      clientExtensionResults: {},
+    };
+  }
+
+  getAssertion(options: PublicKeyCredentialRequestOptionsJSON, { reuseCounter = false } = {}): AuthenticationResponseJSON {
+    if (!reuseCounter) {
+      this.counter += 1;
+    }
+
+    const clientDataJSON = this.clientData('webauthn.get', options.challenge);
+    const authenticatorData = this.authDataHeader(0x05); // UP | UV
+    const clientDataHash = crypto.createHash('sha256').update(clientDataJSON).digest();
+    const signature = crypto.sign('sha256', Buffer.concat([authenticatorData, clientDataHash]), this.privateKey);
+
+    return {
+      id: this.credentialId.toString('base64url'),
+      rawId: this.credentialId.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        authenticatorData: authenticatorData.toString('base64url'),
+        signature: signature.toString('base64url'),
+      },
+      clientExtensionResults: {},
+    };
+  }
+
+  private clientData(type: string, challenge: string): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin: config.webauthn.origins[0], crossOrigin: false }));
+  }
+
+  private authDataHeader(flags: number): Buffer {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.counter);
+
+    return Buffer.concat([crypto.createHash('sha256').update(config.webauthn.rpId).digest(), Buffer.from([flags]), counter]);
+  }
+}
+
+const user = { id: 'user-1', email: 'nurse@acme.test', full_name: 'Ward Nurse' } as User;
+
+async function register(authenticator: SoftwareAuthenticator): Promise<{ success: boolean; error?: string }> {
+  const { challengeId, options } = await webauthnService.generateRegistrationOptions(user);
+  return webauthnService.verifyRegistration(user.id, challengeId, authenticator.createCredential(options), 'Laptop');
+}
+
+async function signIn(
+  authenticator: SoftwareAuthenticator,
+  assertion: { reuseCounter?: boolean } = {}
+): Promise<{ success: boolean; userId?: string; error?: string }> {
+  const { challengeId, options } = await webauthnService.generateAuthenticationOptions(user.email);
+  return webauthnService.verifyAuthentication(challengeId, authenticator.getAssertion(options, assertion));
+}
+
+describe('WebAuthnService', () => {
+  let authenticator: SoftwareAuthenticator;
+
+  beforeEach(() => {
+    db.reset();
+    db.table('users').push({ id: user.id, email: user.email });
+    authenticator = new SoftwareAuthenticator();
+  });
+
+  it('registers a passkey and signs in with it', async () => {
+    expect(await register(authenticator)).toMatchObject({ success: true });
+    expect(db.table('webauthn_credentials')).toHaveLength(1);
+
+    expect(await signIn(authenticator)).toEqual({ success: true, userId: user.id });
+    expect(await signIn(authenticator)).toEqual({ success: true, userId: user.id });
+    expect(db.table('webauthn_credentials')[0].counter).toBe(2);
+  });
+
+  it('refuses to answer a registration challenge twice', async () => {
+    const { challengeId, options } = await webauthnService.generateRegistrationOptions(user);
+    const response = authenticator.createCredential(options);
+
+    expect(await webauthnService.verifyRegistration(user.id, challengeId, response)).toMatchObject({ success: true });
+    expect(await webauthnService.verifyRegistration(user.id, challengeId, response)).toEqual({
+      success: false,
+      error: 'Invalid or expired challenge',
+    });
+  });
+
+  it('rejects an assertion whose sign counter did not increase', async () => {
+    await register(authenticator);
+    await signIn(authenticator);
+
+    const replayed = await signIn(authenticator, { reuseCounter: true });
+
+    expect(replayed.success).toBe(false);
+    expect(replayed.error).toMatch(/counter/i);
+    expect(db.table('webauthn_credentials')[0].counter).toBe(1);
+  });
+
+  it('rejects an assertion with a lower sign counter than the stored one', async () => {
+    await register(authenticator);
+    db.table('webauthn_credentials')[0].counter = 10;
+
+    const cloned = await signIn(authenticator);
+
+    expect(cloned.success).toBe(false);
+    expect(cloned.error).toMatch(/counter/i);
+  });
+
+  it('rejects an assertion signed by another key', async () => {
+    await register(authenticator);
+    const impostor = new SoftwareAuthenticator();
+    Object.assign(impostor, { credentialId: authenticator.credentialId });
+
+    expect((await signIn(impostor)).success).toBe(false);
+  });
+});
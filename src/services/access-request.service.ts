@@ -0,0 +1,329 @@
+/**
+ * @file Company access request service
+ * @module services/access-request
+ *
+ * Lets people ask to join their company's account; org admins approve or deny
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { AccessRequest } from '../types';
+import { logger } from '../utils/logger';
+import { companyService } from './company.service';
+import { userService } from './user.service';
+import { rbacService } from './rbac.service';
+import { invitationService } from './invitation.service';
+import { passwordResetService } from './password-reset.service';
+import { mailService } from './mail.service';
+
+/**
+ * Access Request Service
+ * Approving a request provisions the user through `userService.createUser` without a
+ * password; the requester is emailed a password reset link to choose one.
+ */
+export class AccessRequestService {
+  /**
+   * Record a request to join the company that owns the email's domain
+   * Requests for emails that already have an account, or that already have a pending
+   * request, succeed without creating anything so the response does not reveal either.
+   *
+   * @param data - Requester email and name, an optional note and the company they expect
+   * @returns The new request, if one was created
+   */
+  async submitRequest(data: {
+    email: string;
+    fullName: string;
+    message?: string;
+    companyId?: string;
+  }): Promise<{ success: boolean; request?: AccessRequest; error?: string }> {
+    const email = data.email.trim().toLowerCase();
+
+    const domain = await companyService.validateDomain(email);
+    if (!domain.exists || (data.companyId && domain.company!.id !== data.companyId)) {
+      return { success: false, error: 'No company found for this email domain' };
+    }
+
+    const companyId = domain.company!.id;
+
+    const { data: existingUser } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .eq('email', email)
+      .single();
+
+    if (existingUser) {
+      return { success: true };
+    }
+
+    const { data: pending } = await supabaseAdmin
+      .from('access_requests')
+      .select('id')
+      .eq('company_id', companyId)
+      .eq('email', email)
+      .eq('status', 'pending');
+
+    if (pending && pending.length > 0) {
+      return { success: true };
+    }
+
+    const { data: request, error } = await supabaseAdmin
+      .from('access_requests')
+      .insert({
+        id: uuidv4(),
+        company_id: companyId,
+        email,
+        full_name: data.fullName.trim(),
+        message: data.message?.trim() || null,
+        status: 'pending',
+      })
+      .select()
+      .single();
+
+    if (error || !request) {
+      return { success: false, error: error?.message || 'Failed to submit access request' };
+    }
+
+    await this.notifyAdmins(request as AccessRequest, domain.company!.name);
+
+    return { success: true, request: request as AccessRequest };
+  }
+
+  /**
+   * List a company's access requests, newest first
+   *
+   * @param companyId - Company ID
+   * @param status - Only return requests in this state
+   */
+  async listRequests(companyId: string, status?: AccessRequest['status']): Promise<AccessRequest[]> {
+    let query = supabaseAdmin.from('access_requests').select('*').eq('company_id', companyId);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Approve a pending request: create the user in the chosen tenant with the chosen
+   * roles and email them a link to set their password
+   *
+   * @param companyId - Company ID
+   * @param id - Access request ID
+   * @param data - Tenant and role IDs for the new user
+   * @param reviewerId - Admin approving the request
+   */
+  async approveRequest(
+    companyId: string,
+    id: string,
+    data: { tenantId?: string; roleIds?: string[] },
+    reviewerId: string
+  ): Promise<{ success: boolean; request?: AccessRequest; error?: string }> {
+    const roleIds = Array.from(new Set(data.roleIds || []));
+
+    const request = await this.findPending(companyId, id);
+    if (!request) {
+      return { success: false, error: 'Access request not found' };
+    }
+
+    if (data.tenantId) {
+      const { data: tenant } = await supabaseAdmin
+        .from('tenants')
+        .select('id')
+        .eq('id', data.tenantId)
+        .eq('parent_company_id', companyId)
+        .single();
+
+      if (!tenant) {
+        return { success: false, error: 'Tenant not found' };
+      }
+    }
+
+    if (roleIds.length > 0) {
+      const { data: roles } = await supabaseAdmin
+        .from('roles')
+        .select('id')
+        .eq('company_id', companyId)
+        .in('id', roleIds);
+
+      if (!roles || roles.length !== roleIds.length) {
+        return { success: false, error: 'One or more roles were not found' };
+      }
+    }
+
+    if (!(await invitationService.hasFreeSeat(companyId, true))) {
+      return { success: false, error: 'The license user limit has been reached' };
+    }
+
+    // Claim the request in the same statement that checks it, so it is only decided once
+    const { data: claimed } = await supabaseAdmin
+      .from('access_requests')
+      .update({
+        status: 'approved',
+        tenant_id: data.tenantId || null,
+        role_ids: roleIds,
+        reviewed_by: reviewerId,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      return { success: false, error: 'Access request not found' };
+    }
+
+    const result = await userService.createUser({
+      email: request.email,
+      fullName: request.full_name,
+      companyId,
+      tenantId: data.tenantId,
+    });
+
+    if (!result.success) {
+      // Put the request back so the admin can try again
+      await supabaseAdmin
+        .from('access_requests')
+        .update({ status: 'pending', tenant_id: null, role_ids: [], reviewed_by: null, reviewed_at: null })
+        .eq('id', id);
+      return { success: false, error: result.error };
+    }
+
+    for (const roleId of roleIds) {
+      await rbacService.assignRoleToUser(result.userId!, roleId, reviewerId);
+    }
+
+    const { data: approved } = await supabaseAdmin
+      .from('access_requests')
+      .update({ user_id: result.userId })
+      .eq('id', id)
+      .select()
+      .single();
+
+    await this.notifyApproved(request, result.userId!);
+
+    return { success: true, request: approved as AccessRequest };
+  }
+
+  /**
+   * Deny a pending request and tell the requester why
+   *
+   * @param companyId - Company ID
+   * @param id - Access request ID
+   * @param reason - Reason shown to the requester
+   * @param reviewerId - Admin denying the request
+   */
+  async denyRequest(
+    companyId: string,
+    id: string,
+    reason: string,
+    reviewerId: string
+  ): Promise<{ success: boolean; request?: AccessRequest; error?: string }> {
+    const { data: denied, error } = await supabaseAdmin
+      .from('access_requests')
+      .update({
+        status: 'denied',
+        decision_reason: reason,
+        reviewed_by: reviewerId,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('company_id', companyId)
+      .eq('status', 'pending')
+      .select()
+      .single();
+
+    if (error || !denied) {
+      return { success: false, error: 'Access request not found' };
+    }
+
+    try {
+      const company = await companyService.getCompanyById(companyId);
+      await mailService.sendAccessRequestDenied(denied.email, denied.full_name, company?.name || 'the company', reason);
+    } catch (error) {
+      logger.error('Access request denial email failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+
+    return { success: true, request: denied as AccessRequest };
+  }
+
+  /**
+   * Find a company's pending request by ID
+   */
+  private async findPending(companyId: string, id: string): Promise<AccessRequest | null> {
+    const { data } = await supabaseAdmin
+      .from('access_requests')
+      .select('*')
+      .eq('id', id)
+      .eq('company_id', companyId)
+      .eq('status', 'pending')
+      .single();
+
+    return (data as AccessRequest) || null;
+  }
+
+  /**
+   * Email the company's org admins about a new request
+   * Failures are logged; the request still shows on the dashboard.
+   */
+  private async notifyAdmins(request: AccessRequest, companyName: string): Promise<void> {
+    try {
+      const { data: admins } = await supabaseAdmin
+        .from('users')
+        .select('email')
+        .eq('company_id', request.company_id)
+        .eq('is_org_admin', true)
+        .eq('is_active', true)
+        .eq('is_service_account', false);
+
+      const reviewUrl = `${config.web.url}/dashboard/access-requests`;
+
+      for (const admin of admins || []) {
+        await mailService.sendAccessRequestReceived(
+          admin.email,
+          { fullName: request.full_name, email: request.email },
+          companyName,
+          reviewUrl
+        );
+      }
+    } catch (error) {
+      logger.error('Access request notification failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  /**
+   * Email an approved requester a link to choose their password
+   * Failures are logged; the user can still use "Forgot password".
+   */
+  private async notifyApproved(request: AccessRequest, userId: string): Promise<void> {
+    try {
+      const company = await companyService.getCompanyById(request.company_id);
+      const { token } = await passwordResetService.createToken(userId);
+      const setupUrl = `${config.web.url}/reset-password?token=${encodeURIComponent(token)}`;
+
+      await mailService.sendAccessRequestApproved(
+        request.email,
+        request.full_name,
+        company?.name || 'the company',
+        setupUrl
+      );
+    } catch (error) {
+      logger.error('Access request approval email failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+}
+
+export const accessRequestService = new AccessRequestService();
@@ -6,77 +6,160 @@
  */
 
 import bcrypt from 'bcrypt';
+import NodeCache from 'node-cache';
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/types';
 import { supabase, supabaseAdmin } from '../config/database';
 import { config } from '../config';
-import { User, JwtPayload } from '../types';
+import {
+  ClientInfo,
+  DeviceApproval,
+  JwtPayload,
+  KnownDevice,
+  MfaChallengePayload,
+  PasswordPolicyViolation,
+  User,
+} from '../types';
+import { logger } from '../utils/logger';
+import { refreshTokenService } from './refresh-token.service';
+import { sessionService } from './session.service';
+import { mfaService } from './mfa.service';
+import { webauthnService } from './webauthn.service';
+import { passwordResetService } from './password-reset.service';
+import { mailService } from './mail.service';
+import { passwordPolicyService } from './password-policy.service';
+import { lockoutService } from './lockout.service';
+import { oidcService } from './oidc.service';
+import { samlService } from './saml.service';
+import { signingKeyService } from './signing-key.service';
+import { deviceService } from './device.service';
+import { magicLinkService } from './magic-link.service';
 
 const SALT_ROUNDS = 12;
 
+/**
+ * Outcome of a login step
+ */
+export interface LoginResult {
+  success: boolean;
+  token?: string;
+  refreshToken?: string;
+  user?: User;
+  mfaRequired?: boolean;
+  mfaEnrollmentRequired?: boolean;
+  mfaToken?: string;
+  passwordExpired?: boolean;
+  emailUnverified?: boolean;
+  passwordChangeRequired?: boolean;
+  deviceApprovalRequired?: boolean;
+  deviceApproval?: DeviceApproval;
+  newDevice?: KnownDevice;
+  lockout?: { lockedUntil: Date };
+  provisioned?: boolean;
+  sessionId?: string;
+  error?: string;
+}
+
 /**
  * Authentication Service
  * Provides secure authentication with bcrypt password hashing and JWT tokens
  */
 export class AuthService {
+  // Wrong second factors entered per MFA challenge (by `jti`), kept until it expires
+  private readonly mfaChallengeFailures = new NodeCache({ useClones: false });
+
   /**
-   * Initialize super user (one-time setup)
-   * This should only be called during initial system setup
+   * Whether the super user has been created
+   */
+  async hasSuperUser(): Promise<boolean> {
+    const { count, error } = await supabaseAdmin
+      .from('users')
+      .select('id', { count: 'exact', head: true })
+      .eq('is_super_user', true);
+
+    if (error) {
+      throw new Error(`Failed to look up super user: ${error.message}`);
+    }
+
+    return (count || 0) > 0;
+  }
+
+  /**
+   * Create the super user (one-time bootstrap, run from the `super-user:create` command)
+   * The account is flagged so its first login must choose a new password.
+   *
+   * @param email - Super user email
+   * @param password - Password chosen by the operator running the bootstrap
+   * @param fullName - Display name
    */
-  async initializeSuperUser(): Promise<{ success: boolean; message: string }> {
+  async bootstrapSuperUser(
+    email: string,
+    password: string,
+    fullName: string = 'System Administrator'
+  ): Promise<{ success: boolean; userId?: string; error?: string; violations?: PasswordPolicyViolation[] }> {
     try {
-      // Check if super user already exists
-      const { data: existingSuperUser } = await supabaseAdmin
-        .from('users')
+      if (await this.hasSuperUser()) {
+        return { success: false, error: 'A super user already exists' };
+      }
+
+      const violations = await passwordPolicyService.checkPassword(password, { email });
+      if (violations.length > 0) {
+        return { success: false, error: 'Password does not meet the password policy', violations };
+      }
+
+      // The system company may be left over from an interrupted bootstrap
+      const { data: existingCompany } = await supabaseAdmin
+        .from('companies')
         .select('id')
-        .eq('is_super_user', true)
+        .eq('domain', 'neemify.system')
         .single();
 
-      if (existingSuperUser) {
-        return { success: false, message: 'Super user already exists' };
-      }
+      let superCompanyId = existingCompany?.id;
 
-      // Create a special company for the super user
-      const superCompanyId = uuidv4();
-      const { error: companyError } = await supabaseAdmin.from('companies').insert({
-        id: superCompanyId,
-        name: 'NEEMIFY System',
-        domain: 'neemify.system',
-        license_key: 'SYSTEM-LICENSE',
-        license_status: 'active',
-      });
+      if (!superCompanyId) {
+        superCompanyId = uuidv4();
+        const { error: companyError } = await supabaseAdmin.from('companies').insert({
+          id: superCompanyId,
+          name: 'NEEMIFY System',
+          domain: 'neemify.system',
+          license_key: 'SYSTEM-LICENSE',
+          license_status: 'active',
+        });
 
-      if (companyError) {
-        throw new Error(`Failed to create system company: ${companyError.message}`);
+        if (companyError) {
+          return { success: false, error: `Failed to create system company: ${companyError.message}` };
+        }
       }
 
       // Hash password
-      const passwordHash = await bcrypt.hash(config.superUser.password, SALT_ROUNDS);
+      const passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
 
       // Create super user
       const superUserId = uuidv4();
       const { error: userError } = await supabaseAdmin.from('users').insert({
         id: superUserId,
-        email: config.superUser.email,
-        full_name: 'System Administrator',
+        email,
+        full_name: fullName,
         password_hash: passwordHash,
+        password_changed_at: new Date().toISOString(),
         company_id: superCompanyId,
         is_super_user: true,
         is_org_admin: true,
+        must_change_password: true,
       });
 
       if (userError) {
-        throw new Error(`Failed to create super user: ${userError.message}`);
+        return { success: false, error: `Failed to create super user: ${userError.message}` };
       }
 
-      return {
-        success: true,
-        message: 'Super user created successfully. Please change the password immediately.',
-      };
+      await passwordPolicyService.recordPassword(superUserId, passwordHash);
+
+      return { success: true, userId: superUserId };
     } catch (error) {
       return {
         success: false,
-        message: `Super user initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error: error instanceof Error ? error.message : 'Super user bootstrap failed',
       };
     }
   }
@@ -89,15 +172,27 @@ export class AuthService {
    * @param fullName - User's full name
    * @param companyId - Company ID (must be set after domain validation)
    * @param isOrgAdmin - Whether user is organization admin (first user in company)
+   * @param emailVerified - False for self-service signups, which must verify their email
    */
   async register(
     email: string,
     password: string,
     fullName: string,
     companyId: string,
-    isOrgAdmin: boolean = false
-  ): Promise<{ success: boolean; userId?: string; error?: string }> {
+    isOrgAdmin: boolean = false,
+    emailVerified: boolean = true
+  ): Promise<{
+    success: boolean;
+    userId?: string;
+    error?: string;
+    violations?: PasswordPolicyViolation[];
+  }> {
     try {
+      const violations = await passwordPolicyService.checkPassword(password, { email, companyId });
+      if (violations.length > 0) {
+        return { success: false, error: 'Password does not meet the password policy', violations };
+      }
+
       // Hash password
       const passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
 
@@ -108,15 +203,19 @@ export class AuthService {
         email,
         full_name: fullName,
         password_hash: passwordHash,
+        password_changed_at: new Date().toISOString(),
         company_id: companyId,
         is_super_user: false,
         is_org_admin: isOrgAdmin,
+        email_verified: emailVerified,
       });
 
       if (error) {
         return { success: false, error: error.message };
       }
 
+      await passwordPolicyService.recordPassword(userId, passwordHash);
+
       return { success: true, userId };
     } catch (error) {
       return {
@@ -128,14 +227,15 @@ export class AuthService {
 
   /**
    * Authenticate user and generate JWT token
+   * When a second factor is required, no session is started; instead a short-lived
+   * MFA challenge token is returned for use with `completeMfaLogin`. Logins from an
+   * unknown device need a second factor too when the company's device policy says so.
    *
    * @param email - User email
    * @param password - User password
+   * @param client - IP address and User-Agent of the login, to recognise the device
    */
-  async login(
-    email: string,
-    password: string
-  ): Promise<{ success: boolean; token?: string; user?: User; error?: string }> {
+  async login(email: string, password: string, client?: ClientInfo): Promise<LoginResult> {
     try {
       // Get user from database
       const { data: user, error } = await supabaseAdmin
@@ -144,61 +244,663 @@ export class AuthService {
         .eq('email', email)
         .single();
 
-      if (error || !user) {
+      // Service accounts authenticate with API keys only
+      if (error || !user || user.is_service_account) {
         return { success: false, error: 'Invalid credentials' };
       }
 
+      // Locked accounts are refused before the password is even checked
+      if (lockoutService.isLocked(user)) {
+        return {
+          success: false,
+          lockout: { lockedUntil: new Date(user.locked_until) },
+          error: 'Account is temporarily locked due to too many failed login attempts',
+        };
+      }
+
       // Verify password
       const passwordValid = await bcrypt.compare(password, user.password_hash);
       if (!passwordValid) {
+        const failure = await lockoutService.recordFailure(user.id, client);
+        if (failure.lockedUntil) {
+          return {
+            success: false,
+            lockout: { lockedUntil: failure.lockedUntil },
+            error: 'Account is temporarily locked due to too many failed login attempts',
+          };
+        }
+
         return { success: false, error: 'Invalid credentials' };
       }
 
-      // Get user permissions
-      const permissions = await this.getUserPermissions(user.id);
+      if (user.failed_login_attempts > 0) {
+        await lockoutService.reset(user.id);
+      }
 
-      // Generate JWT token
-      const payload: JwtPayload = {
-        userId: user.id,
-        email: user.email,
-        companyId: user.company_id,
-        tenantId: user.tenant_id,
-        isSuperUser: user.is_super_user,
-        isOrgAdmin: user.is_org_admin,
-        permissions,
+      if (user.is_active === false) {
+        return { success: false, error: 'Account is deactivated' };
+      }
+
+      if (this.isBlockedUnverified(user as User)) {
+        return { success: false, emailUnverified: true, error: 'Verify your email address to continue' };
+      }
+
+      // Expired passwords must be replaced through a password reset
+      if (await passwordPolicyService.isPasswordExpired(user)) {
+        return {
+          success: false,
+          passwordExpired: true,
+          error: 'Your password has expired. Reset it to continue.',
+        };
+      }
+
+      // Flagged accounts (such as the bootstrapped super user) choose a new password first
+      if (user.must_change_password) {
+        return {
+          success: false,
+          passwordChangeRequired: true,
+          error: 'Choose a new password to continue',
+        };
+      }
+
+      return this.requireSecondFactor(user as User, client);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Login failed',
       };
+    }
+  }
 
-      const token = jwt.sign(payload, config.jwt.secret, {
-        expiresIn: config.jwt.expiresIn as string,
-      } as any);
+  /**
+   * Email a single-use sign-in link bound to the requesting browser
+   * Resolves the same way whether or not a link was sent (unknown account, service
+   * account, deactivated or locked user, or magic links disabled for the company),
+   * so callers cannot use it to discover registered emails.
+   *
+   * @param email - Email the link was requested for
+   * @returns The key the browser must present together with the link
+   */
+  async requestMagicLink(email: string): Promise<{ browserKey: string }> {
+    const browserKey = magicLinkService.createBrowserKey();
 
-      // Update last login
-      await supabaseAdmin
+    try {
+      const { data: user } = await supabaseAdmin
         .from('users')
-        .update({ last_login: new Date().toISOString() })
-        .eq('id', user.id);
+        .select('id, email, full_name, company_id, is_active, is_service_account, locked_until')
+        .eq('email', email)
+        .single();
+
+      if (!user || user.is_service_account || user.is_active === false || lockoutService.isLocked(user)) {
+        return { browserKey };
+      }
+
+      // Not awaited, like password resets: the company check, token and mail would
+      // make requests for real accounts measurably slower
+      this.sendMagicLink(user, browserKey);
+    } catch (error) {
+      logger.error('Magic link request failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+
+    return { browserKey };
+  }
+
+  /**
+   * Issue a magic-link token and email its link if the user's company allows it;
+   * failures are logged
+   */
+  private async sendMagicLink(
+    user: { id: string; email: string; full_name: string; company_id: string },
+    browserKey: string
+  ): Promise<void> {
+    try {
+      if (!(await magicLinkService.isEnabled(user.company_id))) {
+        return;
+      }
+
+      const { token } = await magicLinkService.createToken(user.id, browserKey);
+      const loginUrl = `${config.web.url}/login?magicLink=${encodeURIComponent(token)}`;
+
+      await mailService.sendMagicLink(user.email, user.full_name, loginUrl);
+    } catch (error) {
+      logger.error('Magic link request failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  /**
+   * Log in with an emailed magic link, opened in the browser that requested it
+   * The link replaces the password only: a second factor is still asked for
+   * exactly as after a password login.
+   *
+   * @param token - Token from the emailed link
+   * @param browserKey - Key returned to the browser by `requestMagicLink`
+   * @param client - IP address and User-Agent of the login
+   */
+  async loginWithMagicLink(token: string, browserKey: string, client?: ClientInfo): Promise<LoginResult> {
+    try {
+      const userId = await magicLinkService.consumeToken(token, browserKey);
+      if (!userId) {
+        return {
+          success: false,
+          error: 'Invalid or expired sign-in link. Open it in the browser you requested it from.',
+        };
+      }
+
+      const user = await this.getUserById(userId);
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
 
-      return { success: true, token, user };
+      // The company may have turned magic links off since the link was sent
+      if (!(await magicLinkService.isEnabled(user.company_id))) {
+        return { success: false, error: 'Magic-link sign-in is disabled for your company' };
+      }
+
+      if (lockoutService.isLocked(user)) {
+        return {
+          success: false,
+          lockout: { lockedUntil: new Date(user.locked_until!) },
+          error: 'Account is temporarily locked due to too many failed login attempts',
+        };
+      }
+
+      return this.requireSecondFactor(user, client);
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Login failed',
+        error: error instanceof Error ? error.message : 'Magic link login failed',
       };
     }
   }
 
   /**
-   * Verify JWT token
+   * Finish a two-step login with a TOTP code or a recovery code
    *
-   * @param token - JWT token
+   * @param mfaToken - Challenge token returned by `login`
+   * @param secondFactor - Either a TOTP code or a recovery code
+   * @param client - IP address and User-Agent of the login
    */
-  verifyToken(token: string): JwtPayload | null {
+  async completeMfaLogin(
+    mfaToken: string,
+    secondFactor: { code?: string; recoveryCode?: string },
+    client?: ClientInfo
+  ): Promise<LoginResult> {
     try {
-      const decoded = jwt.verify(token, config.jwt.secret) as JwtPayload;
-      return decoded;
+      const challenge = this.verifyMfaChallenge(mfaToken);
+      if (!challenge || challenge.enrollmentRequired) {
+        return { success: false, error: 'Invalid or expired MFA challenge' };
+      }
+
+      const failures = this.mfaChallengeFailures.get<number>(challenge.jti) || 0;
+      if (failures >= config.mfa.challengeMaxAttempts) {
+        return { success: false, error: 'Too many incorrect codes. Please sign in again.' };
+      }
+
+      let verified = false;
+      if (secondFactor.code) {
+        verified = await mfaService.verifyCode(challenge.userId, secondFactor.code);
+      } else if (secondFactor.recoveryCode) {
+        verified = await mfaService.useRecoveryCode(challenge.userId, secondFactor.recoveryCode);
+      }
+
+      if (!verified) {
+        // The challenge dies with it, so the counter only has to outlive the token
+        this.mfaChallengeFailures.set(
+          challenge.jti,
+          failures + 1,
+          Math.max(challenge.exp! - Math.floor(Date.now() / 1000), 1)
+        );
+        return { success: false, error: 'Invalid verification code' };
+      }
+
+      const user = await this.getUserById(challenge.userId);
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      return this.completeLogin(user, client);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'MFA verification failed',
+      };
+    }
+  }
+
+  /**
+   * Confirm a forced MFA enrollment and finish the login it interrupted
+   *
+   * @param mfaToken - Challenge token returned by `login` (with enrollment required)
+   * @param code - First TOTP code from the newly enrolled authenticator
+   * @param client - IP address and User-Agent of the login
+   */
+  async completeMfaEnrollmentLogin(
+    mfaToken: string,
+    code: string,
+    client?: ClientInfo
+  ): Promise<LoginResult & { recoveryCodes?: string[] }> {
+    try {
+      const challenge = this.verifyMfaChallenge(mfaToken);
+      if (!challenge || !challenge.enrollmentRequired) {
+        return { success: false, error: 'Invalid or expired MFA challenge' };
+      }
+
+      const enrollment = await mfaService.confirmEnrollment(challenge.userId, code);
+      if (!enrollment.success) {
+        return { success: false, error: enrollment.error };
+      }
+
+      const user = await this.getUserById(challenge.userId);
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      const result = await this.completeLogin(user, client);
+
+      return { ...result, recoveryCodes: enrollment.recoveryCodes };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'MFA enrollment failed',
+      };
+    }
+  }
+
+  /**
+   * Log in with a passkey
+   * The assertion requires user verification, so it satisfies MFA on its own.
+   *
+   * @param challengeId - ID returned with the authentication options
+   * @param response - Response from navigator.credentials.get()
+   * @param client - IP address and User-Agent of the login
+   */
+  async loginWithPasskey(
+    challengeId: string,
+    response: AuthenticationResponseJSON,
+    client?: ClientInfo
+  ): Promise<LoginResult> {
+    try {
+      const verification = await webauthnService.verifyAuthentication(challengeId, response);
+      if (!verification.success) {
+        return { success: false, error: verification.error };
+      }
+
+      const user = await this.getUserById(verification.userId!);
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      return this.completeLogin(user, client);
     } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Passkey login failed',
+      };
+    }
+  }
+
+  /**
+   * Log in with the company's OpenID Connect provider
+   * The IdP is responsible for MFA, so no second factor is asked for here.
+   *
+   * @param state - `state` returned by the IdP redirect
+   * @param code - Authorization code returned by the IdP redirect
+   * @param client - IP address and User-Agent of the login
+   */
+  async loginWithOidc(state: string, code: string, client?: ClientInfo): Promise<LoginResult> {
+    try {
+      const result = await oidcService.completeLogin(state, code);
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      const user = await this.getUserById(result.userId!);
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      return { ...(await this.completeLogin(user, client)), provisioned: result.provisioned };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'SSO login failed',
+      };
+    }
+  }
+
+  /**
+   * Log in with a code issued by the SAML assertion consumer service
+   * The session is linked to the IdP session so single logout can end it.
+   *
+   * @param code - Single-use code from the ACS redirect
+   * @param client - IP address and User-Agent of the login
+   */
+  async loginWithSaml(code: string, client?: ClientInfo): Promise<LoginResult> {
+    try {
+      const login = await samlService.consumeLoginCode(code);
+      if (!login) {
+        return { success: false, error: 'Invalid or expired SSO login code' };
+      }
+
+      const user = await this.getUserById(login.userId);
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      const result = await this.completeLogin(user, client);
+      if (!result.success) {
+        return result;
+      }
+
+      await samlService.bindSession(result.sessionId!, login);
+
+      return { ...result, provisioned: login.provisioned };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'SSO login failed',
+      };
+    }
+  }
+
+  /**
+   * Verify an MFA challenge token
+   * Challenge tokens are only ever read by this server, so they stay HS256 with the
+   * server secret; services verifying access tokens against the JWKS cannot accept them.
+   *
+   * @param token - Challenge token
+   */
+  verifyMfaChallenge(token: string): MfaChallengePayload | null {
+    try {
+      const decoded = jwt.verify(token, config.jwt.secret, {
+        algorithms: ['HS256'],
+      }) as MfaChallengePayload;
+      return decoded.purpose === 'mfa_challenge' && decoded.jti ? decoded : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Sign a short-lived MFA challenge token
+   *
+   * @param userId - User who passed the password step
+   * @param enrollmentRequired - Whether the user must enroll before completing login
+   */
+  private signMfaChallenge(userId: string, enrollmentRequired: boolean): string {
+    const payload: MfaChallengePayload = {
+      userId,
+      purpose: 'mfa_challenge',
+      enrollmentRequired,
+      jti: uuidv4(),
+    };
+
+    return jwt.sign(payload, config.jwt.secret, {
+      algorithm: 'HS256',
+      expiresIn: config.mfa.challengeExpiresIn as string,
+    } as jwt.SignOptions);
+  }
+
+  /**
+   * Ask for a second factor when the user, their company or, for an unknown device,
+   * its device policy requires one; otherwise start the session
+   *
+   * @param user - User who passed the first factor
+   * @param client - IP address and User-Agent of the login
+   */
+  private async requireSecondFactor(user: User, client?: ClientInfo): Promise<LoginResult> {
+    const deviceNeedsMfa =
+      !!client &&
+      (await deviceService.isUnfamiliar(user.id, client)) &&
+      (await deviceService.getPolicy(user.company_id)) === 'require_mfa';
+    const enrollmentRequired =
+      !user.mfa_enabled &&
+      (deviceNeedsMfa || (await mfaService.isRequiredByCompany(user.company_id)));
+    if (user.mfa_enabled || enrollmentRequired) {
+      return {
+        success: true,
+        mfaRequired: true,
+        mfaEnrollmentRequired: enrollmentRequired,
+        mfaToken: this.signMfaChallenge(user.id, enrollmentRequired),
+      };
+    }
+
+    return this.completeLogin(user, client);
+  }
+
+  /**
+   * Start a session for a fully authenticated user and record the login
+   * With the client known, the login's device is recorded; an unknown device is held
+   * for an org admin's approval instead when the company's device policy says so.
+   *
+   * @param user - Authenticated user
+   * @param client - IP address and User-Agent of the login
+   */
+  private async completeLogin(user: User, client?: ClientInfo): Promise<LoginResult> {
+    // Deprovisioned users keep their record but may not sign in by any method
+    if (user.is_active === false) {
+      return { success: false, error: 'Account is deactivated' };
+    }
+
+    if (user.is_service_account) {
+      return { success: false, error: 'Service accounts cannot sign in' };
+    }
+
+    if (this.isBlockedUnverified(user)) {
+      return { success: false, emailUnverified: true, error: 'Verify your email address to continue' };
+    }
+
+    if (user.must_change_password) {
+      return {
+        success: false,
+        passwordChangeRequired: true,
+        error: 'Sign in with your password to choose a new one',
+      };
+    }
+
+    let newDevice: KnownDevice | null = null;
+    if (client) {
+      if (
+        (await deviceService.isUnfamiliar(user.id, client)) &&
+        (await deviceService.getPolicy(user.company_id)) === 'require_approval'
+      ) {
+        const request = await deviceService.requestApproval(user, client);
+        if (!request.success) {
+          return { success: false, error: request.error };
+        }
+
+        return {
+          success: false,
+          user,
+          deviceApprovalRequired: true,
+          deviceApproval: request.created ? request.approval : undefined,
+          error:
+            "This device needs an org admin's approval. Your admins have been asked; sign in again once it is approved.",
+        };
+      }
+
+      newDevice = await deviceService.recordLogin(user, client);
+    }
+
+    // Issue access and refresh tokens
+    const { token, refreshToken, sessionId } = await this.issueTokens(user);
+
+    // Update last login
+    await supabaseAdmin
+      .from('users')
+      .update({ last_login: new Date().toISOString() })
+      .eq('id', user.id);
+
+    return { success: true, token, refreshToken, user, sessionId, newDevice: newDevice || undefined };
+  }
+
+  /**
+   * Whether an unverified signup must verify its email before signing in
+   *
+   * @param user - User signing in
+   */
+  private isBlockedUnverified(user: User): boolean {
+    return user.email_verified === false && config.emailVerification.required;
+  }
+
+  /**
+   * Load a full user record
+   *
+   * @param userId - User ID
+   */
+  private async getUserById(userId: string): Promise<User | null> {
+    const { data: user, error } = await supabaseAdmin
+      .from('users')
+      .select('*')
+      .eq('id', userId)
+      .single();
+
+    if (error || !user) {
       return null;
     }
+
+    return user as User;
+  }
+
+  /**
+   * Exchange a refresh token for a new access token
+   * The refresh token is rotated; reusing an old one revokes its whole family.
+   *
+   * @param refreshToken - Refresh token issued at login or by a previous refresh
+   */
+  async refresh(refreshToken: string): Promise<{
+    success: boolean;
+    token?: string;
+    refreshToken?: string;
+    error?: string;
+  }> {
+    try {
+      const rotation = await refreshTokenService.rotateToken(refreshToken);
+      if (!rotation.success) {
+        return { success: false, error: rotation.error };
+      }
+
+      const user = await this.getUserById(rotation.userId!);
+      if (!user) {
+        await refreshTokenService.revokeFamily(rotation.familyId!);
+        return { success: false, error: 'User not found' };
+      }
+
+      const sessionId = rotation.familyId!;
+      if (!(await sessionService.isSessionActive(sessionId))) {
+        await refreshTokenService.revokeFamily(sessionId);
+        return { success: false, error: 'Session has been revoked' };
+      }
+
+      await sessionService.extendSession(sessionId, rotation.expiresAt!);
+      const token = await this.signAccessToken(user, sessionId);
+
+      return { success: true, token, refreshToken: rotation.refreshToken };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Token refresh failed',
+      };
+    }
+  }
+
+  /**
+   * Let a super user act as another user
+   * The token is time-boxed, comes without a refresh token and carries `impersonatorId`,
+   * so every request made with it is audited against the super user.
+   *
+   * @param impersonator - Super user starting the impersonation
+   * @param userId - User to impersonate
+   * @param reason - Why the super user needs to act as this user
+   */
+  async impersonate(
+    impersonator: User,
+    userId: string,
+    reason: string
+  ): Promise<{ success: boolean; token?: string; expiresAt?: Date; user?: User; sessionId?: string; error?: string }> {
+    const user = await this.getUserById(userId);
+
+    if (!user || user.is_service_account) {
+      return { success: false, error: 'User not found' };
+    }
+
+    if (user.id === impersonator.id || user.is_super_user) {
+      return { success: false, error: 'Super users cannot be impersonated' };
+    }
+
+    if (user.is_active === false) {
+      return { success: false, error: 'Account is deactivated' };
+    }
+
+    const expiresAt = new Date(Date.now() + config.impersonation.ttlMinutes * 60 * 1000);
+    const session = await sessionService.createSession(user, expiresAt);
+    const token = await this.signAccessToken(user, session.id, {
+      impersonatorId: impersonator.id,
+      impersonationReason: reason,
+    });
+
+    return { success: true, token, expiresAt, user, sessionId: session.id };
+  }
+
+  /**
+   * Start a session and issue its access token and first refresh token
+   *
+   * @param user - Authenticated user
+   */
+  private async issueTokens(
+    user: User
+  ): Promise<{ token: string; refreshToken: string; sessionId: string }> {
+    const session = await sessionService.createSession(user);
+    const token = await this.signAccessToken(user, session.id);
+    const { token: refreshToken } = await refreshTokenService.issueToken(user.id, session.id);
+
+    return { token, refreshToken, sessionId: session.id };
+  }
+
+  /**
+   * Sign a short-lived access token carrying the user's current permissions
+   *
+   * @param user - User the token is issued to
+   * @param sessionId - Session the token belongs to (becomes the `jti` claim)
+   * @param impersonation - Impersonator claims; the token then lives as long as the impersonation
+   */
+  private async signAccessToken(
+    user: User,
+    sessionId: string,
+    impersonation?: Pick<JwtPayload, 'impersonatorId' | 'impersonationReason'>
+  ): Promise<string> {
+    const permissions = await this.getUserPermissions(user.id);
+
+    const payload: JwtPayload = {
+      userId: user.id,
+      email: user.email,
+      companyId: user.company_id,
+      tenantId: user.tenant_id,
+      isSuperUser: user.is_super_user,
+      isOrgAdmin: user.is_org_admin,
+      permissions,
+      ...impersonation,
+    };
+
+    return signingKeyService.sign(payload, {
+      expiresIn: impersonation ? `${config.impersonation.ttlMinutes}m` : config.jwt.expiresIn,
+      jwtid: sessionId,
+    });
+  }
+
+  /**
+   * Verify an access token
+   * The key is chosen by the token's `kid`, so tokens signed before a key rotation
+   * stay valid until they expire.
+   *
+   * @param token - JWT token
+   */
+  async verifyToken(token: string): Promise<JwtPayload | null> {
+    return signingKeyService.verify<JwtPayload>(token);
   }
 
   /**
@@ -242,6 +944,64 @@ export class AuthService {
     return Array.from(permissions);
   }
 
+  /**
+   * Confirm a signed-in user's identity again before a sensitive operation
+   * Accepts the password, or a TOTP or recovery code when MFA is enabled. Wrong
+   * passwords count towards the account lockout like failed logins.
+   *
+   * @param userId - User ID
+   * @param proof - Password, TOTP code or recovery code
+   */
+  async reauthenticate(
+    userId: string,
+    proof: { password?: string; code?: string; recoveryCode?: string },
+    client?: ClientInfo
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: user, error } = await supabaseAdmin
+        .from('users')
+        .select('id, password_hash, mfa_enabled, failed_login_attempts, locked_until')
+        .eq('id', userId)
+        .single();
+
+      if (error || !user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      if (lockoutService.isLocked(user)) {
+        return {
+          success: false,
+          error: 'Account is temporarily locked due to too many failed login attempts',
+        };
+      }
+
+      let verified = false;
+      if (proof.password) {
+        verified = !!user.password_hash && (await bcrypt.compare(proof.password, user.password_hash));
+        if (!verified) {
+          await lockoutService.recordFailure(user.id, client);
+        } else if (user.failed_login_attempts > 0) {
+          await lockoutService.reset(user.id);
+        }
+      } else if (user.mfa_enabled && proof.code) {
+        verified = await mfaService.verifyCode(user.id, proof.code);
+      } else if (user.mfa_enabled && proof.recoveryCode) {
+        verified = await mfaService.useRecoveryCode(user.id, proof.recoveryCode);
+      }
+
+      if (!verified) {
+        return { success: false, error: 'Incorrect password or verification code' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Re-authentication failed',
+      };
+    }
+  }
+
   /**
    * Change user password
    *
@@ -253,12 +1013,12 @@ export class AuthService {
     userId: string,
     oldPassword: string,
     newPassword: string
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<{ success: boolean; error?: string; violations?: PasswordPolicyViolation[] }> {
     try {
       // Get current user
       const { data: user, error } = await supabaseAdmin
         .from('users')
-        .select('password_hash')
+        .select('email, company_id, password_hash')
         .eq('id', userId)
         .single();
 
@@ -272,15 +1032,33 @@ export class AuthService {
         return { success: false, error: 'Current password is incorrect' };
       }
 
+      const violations = await passwordPolicyService.checkPassword(newPassword, {
+        email: user.email,
+        companyId: user.company_id,
+        userId,
+      });
+      if (violations.length > 0) {
+        return { success: false, error: 'Password does not meet the password policy', violations };
+      }
+
       // Hash new password
       const newPasswordHash = await bcrypt.hash(newPassword, SALT_ROUNDS);
 
       // Update password
       await supabaseAdmin
         .from('users')
-        .update({ password_hash: newPasswordHash })
+        .update({
+          password_hash: newPasswordHash,
+          password_changed_at: new Date().toISOString(),
+          must_change_password: false,
+        })
         .eq('id', userId);
 
+      await passwordPolicyService.recordPassword(userId, newPasswordHash);
+
+      // Sessions opened with the old password must not outlive it
+      await sessionService.revokeAllForUser(userId, 'password_changed');
+
       return { success: true };
     } catch (error) {
       return {
@@ -289,6 +1067,180 @@ export class AuthService {
       };
     }
   }
+
+  /**
+   * Email a password reset link
+   * Resolves the same way, and as quickly, whether or not the account exists, so
+   * callers cannot use it to discover registered emails. Inactive users and service
+   * accounts get no link.
+   *
+   * @param email - Email the reset was requested for
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    try {
+      const { data: user } = await supabaseAdmin
+        .from('users')
+        .select('id, email, full_name, is_active, is_service_account')
+        .eq('email', email)
+        .single();
+
+      if (!user || user.is_service_account || user.is_active === false) {
+        return;
+      }
+
+      // Not awaited: issuing the token and delivering the mail would make requests
+      // for real accounts measurably slower
+      this.sendPasswordReset(user);
+    } catch (error) {
+      logger.error('Password reset request failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  /**
+   * Issue a reset token and email its link; failures are logged
+   */
+  private async sendPasswordReset(user: { id: string; email: string; full_name: string }): Promise<void> {
+    try {
+      const { token } = await passwordResetService.createToken(user.id);
+      const resetUrl = `${config.web.url}/reset-password?token=${encodeURIComponent(token)}`;
+
+      await mailService.sendPasswordReset(user.email, user.full_name, resetUrl);
+    } catch (error) {
+      logger.error('Password reset request failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  /**
+   * Replace the password of an account that must change it before signing in
+   * Called from the login screen, so the current password is checked under the same
+   * lockout rules as a login.
+   *
+   * @param email - Account email
+   * @param currentPassword - Password the user just signed in with
+   * @param newPassword - New password
+   */
+  async changeRequiredPassword(
+    email: string,
+    currentPassword: string,
+    newPassword: string,
+    client?: ClientInfo
+  ): Promise<{
+    success: boolean;
+    userId?: string;
+    companyId?: string;
+    error?: string;
+    violations?: PasswordPolicyViolation[];
+  }> {
+    const { data: user } = await supabaseAdmin
+      .from('users')
+      .select('*')
+      .eq('email', email)
+      .single();
+
+    if (!user || user.is_service_account) {
+      return { success: false, error: 'Invalid credentials' };
+    }
+
+    if (lockoutService.isLocked(user)) {
+      return { success: false, error: 'Account is temporarily locked due to too many failed login attempts' };
+    }
+
+    if (!(await bcrypt.compare(currentPassword, user.password_hash))) {
+      await lockoutService.recordFailure(user.id, client);
+      return { success: false, error: 'Invalid credentials' };
+    }
+
+    if (!user.must_change_password) {
+      return { success: false, error: 'This account does not need a password change' };
+    }
+
+    if (newPassword === currentPassword) {
+      return { success: false, error: 'Choose a password different from the current one' };
+    }
+
+    const result = await this.changePassword(user.id, currentPassword, newPassword);
+    if (!result.success) {
+      return result;
+    }
+
+    return { success: true, userId: user.id, companyId: user.company_id };
+  }
+
+  /**
+   * Set a new password using a reset token
+   *
+   * @param token - Reset token from the emailed link
+   * @param newPassword - New password
+   */
+  async resetPassword(
+    token: string,
+    newPassword: string
+  ): Promise<{
+    success: boolean;
+    userId?: string;
+    companyId?: string;
+    error?: string;
+    violations?: PasswordPolicyViolation[];
+  }> {
+    try {
+      // Check the policy before consuming the token so the user can try again
+      const pendingUserId = await passwordResetService.findTokenUser(token);
+      const pendingUser = pendingUserId ? await this.getUserById(pendingUserId) : null;
+      if (!pendingUser || pendingUser.is_service_account || pendingUser.is_active === false) {
+        return { success: false, error: 'Invalid or expired reset link' };
+      }
+
+      const violations = await passwordPolicyService.checkPassword(newPassword, {
+        email: pendingUser.email,
+        companyId: pendingUser.company_id,
+        userId: pendingUser.id,
+      });
+      if (violations.length > 0) {
+        return { success: false, error: 'Password does not meet the password policy', violations };
+      }
+
+      const userId = await passwordResetService.consumeToken(token);
+      if (!userId) {
+        return { success: false, error: 'Invalid or expired reset link' };
+      }
+
+      const newPasswordHash = await bcrypt.hash(newPassword, SALT_ROUNDS);
+
+      const { data: user, error } = await supabaseAdmin
+        .from('users')
+        .update({
+          password_hash: newPasswordHash,
+          password_changed_at: new Date().toISOString(),
+          must_change_password: false,
+        })
+        .eq('id', userId)
+        .select('id, company_id')
+        .single();
+
+      if (error || !user) {
+        return { success: false, error: error?.message || 'User not found' };
+      }
+
+      await passwordPolicyService.recordPassword(userId, newPasswordHash);
+
+      // Whoever knew the old password may still be signed in
+      await sessionService.revokeAllForUser(userId, 'password_reset');
+
+      // Proving control of the mailbox also lifts any lockout
+      await lockoutService.reset(userId);
+
+      return { success: true, userId: user.id, companyId: user.company_id };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Password reset failed',
+      };
+    }
+  }
 }
 
 export const authService = new AuthService();
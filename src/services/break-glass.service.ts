@@ -0,0 +1,342 @@
+/**
+ * @file Break-glass emergency access service
+ * @module services/break-glass
+ *
+ * Time-limited elevated access in a chosen tenant, flagged in the audit log and
+ * reviewed by an org admin afterwards
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { AuditLog, BreakGlassSession, User } from '../types';
+import { logger } from '../utils/logger';
+import { mailService } from './mail.service';
+import { contextCacheService } from './context-cache.service';
+
+/**
+ * Break-Glass Service
+ * While a session is open, `authenticate` switches the user into its tenant, adds its
+ * permissions to their own and tags every audit entry with the session ID. Org admins
+ * are emailed when a session opens and again when it ends, asking for a review.
+ */
+export class BreakGlassService {
+  /**
+   * Open a break-glass session for a user
+   *
+   * @param user - User declaring the emergency
+   * @param data - Tenant to access, what the emergency is and why access is needed
+   */
+  async declareEmergency(
+    user: User,
+    data: { tenantId: string; emergency: string; justification: string }
+  ): Promise<{ success: boolean; session?: BreakGlassSession; error?: string }> {
+    if (user.is_service_account) {
+      return { success: false, error: 'Service accounts cannot use break-glass access' };
+    }
+
+    if (user.is_super_user) {
+      return { success: false, error: 'Super users do not need break-glass access' };
+    }
+
+    const { data: tenant } = await supabaseAdmin
+      .from('tenants')
+      .select('id, name')
+      .eq('id', data.tenantId)
+      .eq('parent_company_id', user.company_id)
+      .single();
+
+    if (!tenant) {
+      return { success: false, error: 'Tenant not found' };
+    }
+
+    if (await this.getActiveSession(user.id)) {
+      return { success: false, error: 'A break-glass session is already open' };
+    }
+
+    const now = new Date();
+    const { data: session, error } = await supabaseAdmin
+      .from('break_glass_sessions')
+      .insert({
+        id: uuidv4(),
+        user_id: user.id,
+        company_id: user.company_id,
+        tenant_id: tenant.id,
+        emergency: data.emergency.trim(),
+        justification: data.justification.trim(),
+        permissions: config.breakGlass.permissions,
+        started_at: now.toISOString(),
+        expires_at: new Date(
+          now.getTime() + config.breakGlass.ttlMinutes * 60 * 1000
+        ).toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error || !session) {
+      return { success: false, error: error?.message || 'Failed to open break-glass session' };
+    }
+
+    contextCacheService.forgetUser(user.id);
+
+    await this.notifyAdmins(session as BreakGlassSession, (to, details, reviewUrl) =>
+      mailService.sendBreakGlassStarted(
+        to,
+        {
+          ...details,
+          emergency: session.emergency,
+          justification: session.justification,
+          expiresAt: new Date(session.expires_at),
+        },
+        reviewUrl
+      )
+    );
+
+    return { success: true, session: session as BreakGlassSession };
+  }
+
+  /**
+   * Get the user's open break-glass session, if any
+   *
+   * @param userId - User ID
+   */
+  async getActiveSession(userId: string): Promise<BreakGlassSession | null> {
+    const { data } = await supabaseAdmin
+      .from('break_glass_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .is('ended_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('started_at', { ascending: false })
+      .limit(1);
+
+    return (data?.[0] as BreakGlassSession) || null;
+  }
+
+  /**
+   * Close the user's open session early and ask for its review
+   *
+   * @param userId - User ID
+   */
+  async endSession(
+    userId: string
+  ): Promise<{ success: boolean; session?: BreakGlassSession; error?: string }> {
+    const now = new Date().toISOString();
+
+    const { data: ended } = await supabaseAdmin
+      .from('break_glass_sessions')
+      .update({ ended_at: now, review_requested_at: now })
+      .eq('user_id', userId)
+      .is('ended_at', null)
+      .gt('expires_at', now)
+      .select();
+
+    const session = ended?.[0] as BreakGlassSession | undefined;
+    if (!session) {
+      return { success: false, error: 'No break-glass session is open' };
+    }
+
+    contextCacheService.forgetUser(userId);
+
+    await this.notifyAdmins(session, mailService.sendBreakGlassReviewRequested.bind(mailService));
+
+    return { success: true, session };
+  }
+
+  /**
+   * List a company's break-glass sessions, newest first, with the user and tenant names
+   *
+   * @param companyId - Company ID
+   * @param pendingReview - Only return sessions that have ended and still need a review
+   */
+  async listSessions(companyId: string, pendingReview = false): Promise<BreakGlassSession[]> {
+    let query = supabaseAdmin
+      .from('break_glass_sessions')
+      .select(
+        `
+        *,
+        user:users!break_glass_sessions_user_id_fkey (
+          id,
+          email,
+          full_name
+        ),
+        tenant:tenants (
+          id,
+          name
+        )
+      `
+      )
+      .eq('company_id', companyId);
+
+    if (pendingReview) {
+      query = query.is('review_outcome', null).not('review_requested_at', 'is', null);
+    }
+
+    const { data, error } = await query.order('started_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get a company's session together with the audit entries flagged with it
+   *
+   * @param companyId - Company ID
+   * @param id - Break-glass session ID
+   */
+  async getSession(
+    companyId: string,
+    id: string
+  ): Promise<{ session: BreakGlassSession; activity: AuditLog[] } | null> {
+    const { data: session } = await supabaseAdmin
+      .from('break_glass_sessions')
+      .select('*')
+      .eq('id', id)
+      .eq('company_id', companyId)
+      .single();
+
+    if (!session) {
+      return null;
+    }
+
+    const { data: activity } = await supabaseAdmin
+      .from('audit_logs')
+      .select('*')
+      .eq('break_glass_session_id', id)
+      .order('timestamp', { ascending: true });
+
+    return { session: session as BreakGlassSession, activity: activity || [] };
+  }
+
+  /**
+   * Record an org admin's review of a session that has ended
+   * Nobody reviews their own session.
+   *
+   * @param companyId - Company ID
+   * @param id - Break-glass session ID
+   * @param review - Whether the access was justified, with optional notes
+   * @param reviewerId - Admin reviewing the session
+   */
+  async reviewSession(
+    companyId: string,
+    id: string,
+    review: { outcome: 'justified' | 'unjustified'; notes?: string },
+    reviewerId: string
+  ): Promise<{ success: boolean; session?: BreakGlassSession; error?: string }> {
+    const { data: session } = await supabaseAdmin
+      .from('break_glass_sessions')
+      .select('*')
+      .eq('id', id)
+      .eq('company_id', companyId)
+      .single();
+
+    if (!session) {
+      return { success: false, error: 'Break-glass session not found' };
+    }
+
+    if (session.user_id === reviewerId) {
+      return { success: false, error: 'Another admin must review your break-glass session' };
+    }
+
+    if (!session.ended_at && new Date(session.expires_at) > new Date()) {
+      return { success: false, error: 'The break-glass session is still open' };
+    }
+
+    // Record the review in the same statement that checks it, so it is only reviewed once
+    const { data: reviewed } = await supabaseAdmin
+      .from('break_glass_sessions')
+      .update({
+        review_outcome: review.outcome,
+        review_notes: review.notes?.trim() || null,
+        reviewed_by: reviewerId,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .is('review_outcome', null)
+      .select();
+
+    if (!reviewed || reviewed.length === 0) {
+      return { success: false, error: 'The break-glass session has already been reviewed' };
+    }
+
+    return { success: true, session: reviewed[0] as BreakGlassSession };
+  }
+
+  /**
+   * Ask for reviews of sessions that expired since the last sweep
+   *
+   * @returns Number of sessions sent for review
+   */
+  async requestPendingReviews(): Promise<number> {
+    const now = new Date().toISOString();
+
+    const { data: expired, error } = await supabaseAdmin
+      .from('break_glass_sessions')
+      .update({ review_requested_at: now })
+      .is('review_requested_at', null)
+      .lte('expires_at', now)
+      .select();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    for (const session of expired || []) {
+      await this.notifyAdmins(
+        session as BreakGlassSession,
+        mailService.sendBreakGlassReviewRequested.bind(mailService)
+      );
+    }
+
+    return expired?.length || 0;
+  }
+
+  /**
+   * Email the session's company org admins (other than the session's user)
+   * Failures are logged; sessions still show on the dashboard.
+   */
+  private async notifyAdmins(
+    session: BreakGlassSession,
+    send: (
+      to: string,
+      details: { fullName: string; email: string; tenantName: string },
+      reviewUrl: string
+    ) => Promise<void>
+  ): Promise<void> {
+    try {
+      const [{ data: user }, { data: tenant }, { data: admins }] = await Promise.all([
+        supabaseAdmin.from('users').select('email, full_name').eq('id', session.user_id).single(),
+        supabaseAdmin.from('tenants').select('name').eq('id', session.tenant_id).single(),
+        supabaseAdmin
+          .from('users')
+          .select('id, email')
+          .eq('company_id', session.company_id)
+          .eq('is_org_admin', true)
+          .eq('is_active', true)
+          .eq('is_service_account', false),
+      ]);
+
+      const details = {
+        fullName: user?.full_name || 'A user',
+        email: user?.email || '',
+        tenantName: tenant?.name || 'a tenant',
+      };
+      const reviewUrl = `${config.web.url}/dashboard/break-glass`;
+
+      for (const admin of admins || []) {
+        if (admin.id !== session.user_id) {
+          await send(admin.email, details, reviewUrl);
+        }
+      }
+    } catch (error) {
+      logger.error('Break-glass notification failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+}
+
+export const breakGlassService = new BreakGlassService();
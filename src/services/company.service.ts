@@ -11,6 +11,7 @@ import { promises as dns } from 'dns';
 import { supabaseAdmin } from '../config/database';
 import { Company, DomainValidationResult, LicenseFeatures } from '../types';
 import { licensingService } from './licensing.service';
+import { contextCacheService } from './context-cache.service';
 
 /**
  * Company Service
@@ -186,6 +187,8 @@ export class CompanyService {
         return { success: false, error: error.message };
       }
 
+      contextCacheService.forgetCompany(companyId);
+
       return { success: true };
     } catch (error) {
       return {
@@ -234,35 +237,6 @@ export class CompanyService {
     return admin;
   }
 
-  /**
-   * Request access to join an existing company
-   * (In a real implementation, this would create a pending request)
-   *
-   * @param companyId - Company ID to join
-   * @param userEmail - Requesting user's email
-   */
-  async requestCompanyAccess(
-    companyId: string,
-    userEmail: string
-  ): Promise<{ success: boolean; message: string; adminEmail?: string }> {
-    const admin = await this.getOrgAdmin(companyId);
-
-    if (!admin) {
-      return {
-        success: false,
-        message: 'No organization admin found for this company',
-      };
-    }
-
-    // In a real implementation, send email notification to admin
-    // For now, just return admin contact info
-    return {
-      success: true,
-      message: 'Access request submitted. Please contact your organization admin.',
-      adminEmail: admin.email,
-    };
-  }
-
   /**
    * Verify domain ownership via DNS TXT record
    *
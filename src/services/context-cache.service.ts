@@ -0,0 +1,169 @@
+/**
+ * @file Request context cache
+ * @module services/context-cache
+ *
+ * Keeps what `authenticate` loads for every request in memory for a short time
+ */
+
+import NodeCache from 'node-cache';
+import { config } from '../config';
+import { BreakGlassSession, Company, License, Session, SmartApp, Tenant, User } from '../types';
+
+/**
+ * What authenticating a request needs to know about a user, whatever the credential
+ */
+export interface CachedUser {
+  user: User;
+  roleIds: string[];
+  permissions: string[];
+  // Open break-glass session; check `expires_at` before use
+  breakGlass: BreakGlassSession | null;
+}
+
+/**
+ * A company and the validation of its license
+ */
+export interface CachedCompany {
+  company: Company;
+  license: { valid: boolean; license?: License; reason?: string };
+}
+
+/**
+ * A verified service account API key
+ */
+export interface CachedApiKey {
+  userId: string;
+  apiKeyId: string;
+  permissions: string[];
+  expiresAt: Date;
+  lastUsedAt: number;
+  lastUsedIp: string | null;
+}
+
+interface CacheEntries {
+  session: Session;
+  user: CachedUser;
+  company: CachedCompany;
+  tenant: Tenant;
+  apiKey: CachedApiKey;
+  serviceAccountPermissions: string[];
+  smartApp: SmartApp;
+}
+
+type CacheKind = keyof CacheEntries;
+
+/**
+ * Context Cache Service
+ * Entries live for `CONTEXT_CACHE_TTL_SECONDS` and are dropped as soon as this
+ * instance changes what they were loaded from (users, roles, licenses, companies,
+ * tenants, sessions, break-glass sessions, API keys, service account permissions and
+ * SMART apps). Changes made by another instance show up once the entry expires.
+ * Lookups that find nothing are not cached.
+ */
+export class ContextCacheService {
+  private readonly cache = new NodeCache({
+    stdTTL: config.contextCache.ttlSeconds,
+    checkperiod: Math.max(config.contextCache.ttlSeconds * 2, 60),
+    useClones: false,
+  });
+
+  /**
+   * Get a cached entry, loading and caching it on a miss
+   *
+   * @param kind - Kind of entry
+   * @param id - Entry ID (session, user, company or tenant ID, API key hash or SMART client ID)
+   * @param load - Loads the entry; null when it does not exist
+   */
+  async remember<K extends CacheKind>(
+    kind: K,
+    id: string,
+    load: () => Promise<CacheEntries[K] | null>
+  ): Promise<CacheEntries[K] | null> {
+    if (config.contextCache.ttlSeconds <= 0) {
+      return load();
+    }
+
+    const key = `${kind}:${id}`;
+    const cached = this.cache.get<CacheEntries[K]>(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const loaded = await load();
+    if (loaded) {
+      this.cache.set(key, loaded);
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Drop single entries
+   *
+   * @param kind - Kind of entry
+   * @param ids - Entry IDs
+   */
+  forget(kind: CacheKind, ...ids: string[]): void {
+    this.cache.del(ids.map((id) => `${kind}:${id}`));
+  }
+
+  /**
+   * Drop what is cached about a user, including their API keys and, for a service
+   * account, its permissions
+   *
+   * @param userId - User ID
+   */
+  forgetUser(userId: string): void {
+    this.forget('user', userId);
+    this.forget('serviceAccountPermissions', userId);
+    this.forgetWhere('apiKey', (apiKey) => apiKey.userId === userId);
+  }
+
+  /**
+   * Drop a company, its license and its tenants
+   *
+   * @param companyId - Company ID
+   */
+  forgetCompany(companyId: string): void {
+    this.forget('company', companyId);
+    this.forgetWhere('tenant', (tenant) => tenant.parent_company_id === companyId);
+  }
+
+  /**
+   * Drop a tenant and the users in it (or in a break-glass session for it)
+   *
+   * @param tenantId - Tenant ID
+   */
+  forgetTenant(tenantId: string): void {
+    this.forget('tenant', tenantId);
+    this.forgetWhere(
+      'user',
+      (cached) => cached.user.tenant_id === tenantId || cached.breakGlass?.tenant_id === tenantId
+    );
+  }
+
+  /**
+   * Drop the users holding a role, after its permissions or members changed
+   *
+   * @param roleId - Role ID
+   */
+  forgetRole(roleId: string): void {
+    this.forgetWhere('user', (cached) => cached.roleIds.includes(roleId));
+  }
+
+  /**
+   * Drop every entry of a kind matching a predicate
+   */
+  private forgetWhere<K extends CacheKind>(kind: K, matches: (entry: CacheEntries[K]) => boolean): void {
+    const prefix = `${kind}:`;
+
+    for (const key of this.cache.keys()) {
+      const entry = key.startsWith(prefix) ? this.cache.get<CacheEntries[K]>(key) : undefined;
+      if (entry && matches(entry)) {
+        this.cache.del(key);
+      }
+    }
+  }
+}
+
+export const contextCacheService = new ContextCacheService();
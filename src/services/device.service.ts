@@ -0,0 +1,458 @@
+/**
+ * @file Known device service
+ * @module services/device
+ *
+ * Recognises the devices users sign in from and flags logins from new ones
+ */
+
+import { isIPv4, isIPv6 } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { ClientInfo, DeviceApproval, KnownDevice, NewDevicePolicy, User } from '../types';
+import { logger } from '../utils/logger';
+import { describeDevice } from '../utils/user-agent';
+import { mailService } from './mail.service';
+
+/**
+ * Network a login came from: the /24 of an IPv4 address or the /48 of an IPv6 one,
+ * so a new address from the same provider block is not a new device
+ *
+ * @param ipAddress - Client IP address
+ */
+function ipPrefix(ipAddress: string | null | undefined): string {
+  const address = (ipAddress || '').replace(/^::ffff:/i, '').replace(/%.*$/, '');
+
+  if (isIPv4(address)) {
+    return `${address.split('.').slice(0, 3).join('.')}.0/24`;
+  }
+
+  if (isIPv6(address)) {
+    const [head, tail] = address.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const groups =
+      tail === undefined
+        ? headGroups
+        : [
+            ...headGroups,
+            ...Array(8 - headGroups.length - tailGroups.length).fill('0'),
+            ...tailGroups,
+          ];
+
+    return `${groups
+      .slice(0, 3)
+      .map((group) => parseInt(group, 16).toString(16))
+      .join(':')}::/48`;
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Fingerprint a login by browser/platform family and network
+ *
+ * @param client - IP address and User-Agent of the login
+ */
+function fingerprint(client: ClientInfo): { user_agent_family: string; ip_prefix: string } {
+  return {
+    user_agent_family: describeDevice(client.userAgent),
+    ip_prefix: ipPrefix(client.ipAddress),
+  };
+}
+
+/**
+ * Device Service
+ * A device is known once a login from it completes (or an org admin approves it). The
+ * first device a user signs in from is recorded silently; after that, logins from
+ * unknown devices alert the user and their org admins and are subject to the
+ * company's `new_device_policy`.
+ */
+export class DeviceService {
+  /**
+   * Whether a login comes from a device the user has not signed in from before
+   * Always false for users without any known device yet.
+   *
+   * @param userId - User ID
+   * @param client - IP address and User-Agent of the login
+   */
+  async isUnfamiliar(userId: string, client: ClientInfo): Promise<boolean> {
+    const devices = await this.listDevices(userId);
+    const device = fingerprint(client);
+
+    return (
+      devices.length > 0 &&
+      !devices.some(
+        (known) =>
+          known.user_agent_family === device.user_agent_family &&
+          known.ip_prefix === device.ip_prefix
+      )
+    );
+  }
+
+  /**
+   * Get what a company requires for logins from unknown devices
+   *
+   * @param companyId - Company ID
+   */
+  async getPolicy(companyId: string): Promise<NewDevicePolicy> {
+    const { data: company } = await supabaseAdmin
+      .from('companies')
+      .select('new_device_policy')
+      .eq('id', companyId)
+      .single();
+
+    return company?.new_device_policy || 'notify';
+  }
+
+  /**
+   * Record a completed login as a known device of the user
+   * Logins from a new device (other than the user's first) alert the user and their
+   * org admins.
+   *
+   * @param user - User who signed in
+   * @param client - IP address and User-Agent of the login
+   * @returns The new device, when the login came from one
+   */
+  async recordLogin(user: User, client: ClientInfo): Promise<KnownDevice | null> {
+    const devices = await this.listDevices(user.id);
+    const device = fingerprint(client);
+    const now = new Date().toISOString();
+
+    const known = devices.find(
+      (existing) =>
+        existing.user_agent_family === device.user_agent_family &&
+        existing.ip_prefix === device.ip_prefix
+    );
+
+    if (known) {
+      await supabaseAdmin
+        .from('known_devices')
+        .update({
+          last_ip_address: client.ipAddress || null,
+          last_user_agent: client.userAgent || null,
+          last_seen_at: now,
+        })
+        .eq('id', known.id);
+
+      return null;
+    }
+
+    const { data: created, error } = await supabaseAdmin
+      .from('known_devices')
+      .insert({
+        id: uuidv4(),
+        user_id: user.id,
+        ...device,
+        last_ip_address: client.ipAddress || null,
+        last_user_agent: client.userAgent || null,
+        first_seen_at: now,
+        last_seen_at: now,
+      })
+      .select()
+      .single();
+
+    if (error || !created) {
+      logger.error('Failed to record known device', { error: error?.message });
+      return null;
+    }
+
+    // The first device a user signs in from is their baseline, not a new device
+    if (devices.length === 0) {
+      return null;
+    }
+
+    await this.notifyNewDevice(user, created as KnownDevice);
+
+    return created as KnownDevice;
+  }
+
+  /**
+   * Hold a login from an unknown device until an org admin approves the device
+   * Repeated attempts from the same device reuse its pending request.
+   *
+   * @param user - User signing in
+   * @param client - IP address and User-Agent of the login
+   */
+  async requestApproval(
+    user: User,
+    client: ClientInfo
+  ): Promise<{ success: boolean; approval?: DeviceApproval; created?: boolean; error?: string }> {
+    const device = fingerprint(client);
+
+    const { data: pending } = await supabaseAdmin
+      .from('device_approvals')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('user_agent_family', device.user_agent_family)
+      .eq('ip_prefix', device.ip_prefix)
+      .eq('status', 'pending');
+
+    if (pending && pending.length > 0) {
+      return { success: true, approval: pending[0] as DeviceApproval, created: false };
+    }
+
+    const { data: approval, error } = await supabaseAdmin
+      .from('device_approvals')
+      .insert({
+        id: uuidv4(),
+        user_id: user.id,
+        company_id: user.company_id,
+        ...device,
+        ip_address: client.ipAddress || null,
+        user_agent: client.userAgent || null,
+        status: 'pending',
+      })
+      .select()
+      .single();
+
+    if (error || !approval) {
+      return { success: false, error: error?.message || 'Failed to request device approval' };
+    }
+
+    await this.notifyApprovers(user, approval as DeviceApproval);
+
+    return { success: true, approval: approval as DeviceApproval, created: true };
+  }
+
+  /**
+   * List a company's device approval requests, newest first, with the user's name
+   *
+   * @param companyId - Company ID
+   * @param status - Only return requests in this state
+   */
+  async listApprovals(
+    companyId: string,
+    status?: DeviceApproval['status']
+  ): Promise<DeviceApproval[]> {
+    let query = supabaseAdmin
+      .from('device_approvals')
+      .select(
+        `
+        *,
+        user:users!device_approvals_user_id_fkey (
+          id,
+          email,
+          full_name
+        )
+      `
+      )
+      .eq('company_id', companyId);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Approve a pending request, making its device a known device of the user
+   * Nobody approves their own device.
+   *
+   * @param companyId - Company ID
+   * @param id - Device approval ID
+   * @param reviewerId - Admin approving the device
+   */
+  async approveRequest(
+    companyId: string,
+    id: string,
+    reviewerId: string
+  ): Promise<{ success: boolean; approval?: DeviceApproval; error?: string }> {
+    const result = await this.decide(companyId, id, 'approved', reviewerId);
+    if (!result.success) {
+      return result;
+    }
+
+    const approval = result.approval!;
+    const now = new Date().toISOString();
+
+    const { error } = await supabaseAdmin.from('known_devices').insert({
+      id: uuidv4(),
+      user_id: approval.user_id,
+      user_agent_family: approval.user_agent_family,
+      ip_prefix: approval.ip_prefix,
+      last_ip_address: approval.ip_address || null,
+      last_user_agent: approval.user_agent || null,
+      first_seen_at: now,
+      last_seen_at: now,
+    });
+
+    // A duplicate means the device became known in the meantime
+    if (error && error.code !== '23505') {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, approval };
+  }
+
+  /**
+   * Deny a pending request; the user stays unable to sign in from that device
+   *
+   * @param companyId - Company ID
+   * @param id - Device approval ID
+   * @param reviewerId - Admin denying the device
+   */
+  async denyRequest(
+    companyId: string,
+    id: string,
+    reviewerId: string
+  ): Promise<{ success: boolean; approval?: DeviceApproval; error?: string }> {
+    return this.decide(companyId, id, 'denied', reviewerId);
+  }
+
+  /**
+   * List a user's known devices, most recently used first
+   *
+   * @param userId - User ID
+   */
+  async listDevices(userId: string): Promise<KnownDevice[]> {
+    const { data, error } = await supabaseAdmin
+      .from('known_devices')
+      .select('*')
+      .eq('user_id', userId)
+      .order('last_seen_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Forget one of a user's known devices, so the next login from it counts as new
+   *
+   * @param userId - User ID
+   * @param id - Known device ID
+   * @returns Whether the device was found
+   */
+  async forgetDevice(userId: string, id: string): Promise<boolean> {
+    const { data } = await supabaseAdmin
+      .from('known_devices')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select();
+
+    return !!data && data.length > 0;
+  }
+
+  /**
+   * Record an admin's decision on a pending request of their company
+   */
+  private async decide(
+    companyId: string,
+    id: string,
+    status: 'approved' | 'denied',
+    reviewerId: string
+  ): Promise<{ success: boolean; approval?: DeviceApproval; error?: string }> {
+    const { data: approval } = await supabaseAdmin
+      .from('device_approvals')
+      .select('*')
+      .eq('id', id)
+      .eq('company_id', companyId)
+      .eq('status', 'pending')
+      .single();
+
+    if (!approval) {
+      return { success: false, error: 'Device approval request not found' };
+    }
+
+    if (approval.user_id === reviewerId) {
+      return { success: false, error: 'Another admin must review your device' };
+    }
+
+    const { data: decided } = await supabaseAdmin
+      .from('device_approvals')
+      .update({ status, reviewed_by: reviewerId, reviewed_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select();
+
+    if (!decided || decided.length === 0) {
+      return { success: false, error: 'Device approval request not found' };
+    }
+
+    return { success: true, approval: decided[0] as DeviceApproval };
+  }
+
+  /**
+   * Email the user and their company's org admins about a login from a new device
+   * Failures are logged; the login is still audited.
+   */
+  private async notifyNewDevice(user: User, device: KnownDevice): Promise<void> {
+    try {
+      const details = {
+        description: device.user_agent_family,
+        ipAddress: device.last_ip_address || 'unknown',
+        signedInAt: new Date(device.first_seen_at),
+      };
+
+      await mailService.sendNewDeviceLogin(
+        user.email,
+        user.full_name,
+        details,
+        `${config.web.url}/dashboard/settings`
+      );
+
+      for (const admin of await this.getOrgAdmins(user)) {
+        await mailService.sendNewDeviceLoginAdmin(
+          admin.email,
+          { fullName: user.full_name, email: user.email },
+          details
+        );
+      }
+    } catch (error) {
+      logger.error('New device notification failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  /**
+   * Email the user's company org admins about a device waiting for approval
+   * Failures are logged; the request still shows on the dashboard.
+   */
+  private async notifyApprovers(user: User, approval: DeviceApproval): Promise<void> {
+    try {
+      const reviewUrl = `${config.web.url}/dashboard/device-approvals`;
+
+      for (const admin of await this.getOrgAdmins(user)) {
+        await mailService.sendDeviceApprovalRequested(
+          admin.email,
+          { fullName: user.full_name, email: user.email },
+          { description: approval.user_agent_family, ipAddress: approval.ip_address || 'unknown' },
+          reviewUrl
+        );
+      }
+    } catch (error) {
+      logger.error('Device approval notification failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  /**
+   * Active org admins of the user's company, other than the user
+   */
+  private async getOrgAdmins(user: User): Promise<{ id: string; email: string }[]> {
+    const { data: admins } = await supabaseAdmin
+      .from('users')
+      .select('id, email')
+      .eq('company_id', user.company_id)
+      .eq('is_org_admin', true)
+      .eq('is_active', true)
+      .eq('is_service_account', false);
+
+    return (admins || []).filter((admin) => admin.id !== user.id);
+  }
+}
+
+export const deviceService = new DeviceService();
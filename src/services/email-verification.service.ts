@@ -0,0 +1,198 @@
+/**
+ * @file Email verification service
+ * @module services/email-verification
+ *
+ * Proves that a self-service signup controls its email address
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { mailService } from './mail.service';
+import { contextCacheService } from './context-cache.service';
+
+/**
+ * Email Verification Service
+ * Tokens are opaque, single-use and stored as SHA-256 hashes; sending a new link
+ * invalidates the previous one. A signup's company stays provisional until someone
+ * in it is verified, and is deleted with the signup once `signupTtlHours` pass.
+ */
+export class EmailVerificationService {
+  /**
+   * Hash a verification token for storage and lookup
+   *
+   * @param token - Plain verification token
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Email a verification link to an unverified user
+   * Failures are logged; the user can ask for a new link from the login page.
+   *
+   * @param user - User to verify
+   */
+  async sendVerification(user: { id: string; email: string; full_name: string }): Promise<void> {
+    try {
+      const now = new Date();
+
+      // Invalidate earlier links
+      await supabaseAdmin
+        .from('email_verification_tokens')
+        .update({ used_at: now.toISOString() })
+        .eq('user_id', user.id)
+        .is('used_at', null);
+
+      const token = crypto.randomBytes(32).toString('base64url');
+
+      const { error } = await supabaseAdmin.from('email_verification_tokens').insert({
+        id: uuidv4(),
+        user_id: user.id,
+        token_hash: this.hashToken(token),
+        expires_at: new Date(now.getTime() + config.emailVerification.tokenTtlHours * 60 * 60 * 1000).toISOString(),
+      });
+
+      if (error) {
+        throw new Error(`Failed to issue email verification token: ${error.message}`);
+      }
+
+      const verifyUrl = `${config.web.url}/verify-email?token=${encodeURIComponent(token)}`;
+      await mailService.sendEmailVerification(user.email, user.full_name, verifyUrl);
+    } catch (error) {
+      logger.error('Email verification email failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  /**
+   * Send a new link to an unverified account
+   * Does nothing for unknown or already verified addresses, so callers can answer
+   * the same way either way.
+   *
+   * @param email - Account email
+   */
+  async resendVerification(email: string): Promise<void> {
+    const { data: user } = await supabaseAdmin
+      .from('users')
+      .select('id, email, full_name, email_verified')
+      .eq('email', email)
+      .single();
+
+    if (!user || user.email_verified !== false) {
+      return;
+    }
+
+    await this.sendVerification(user);
+  }
+
+  /**
+   * Verify an email address with the token from a verification link
+   * The token is consumed in the same statement that checks it.
+   *
+   * @param token - Plain verification token
+   */
+  async verifyEmail(token: string): Promise<{ success: boolean; userId?: string; companyId?: string; error?: string }> {
+    const now = new Date().toISOString();
+
+    const { data: consumed } = await supabaseAdmin
+      .from('email_verification_tokens')
+      .update({ used_at: now })
+      .eq('token_hash', this.hashToken(token))
+      .is('used_at', null)
+      .gt('expires_at', now)
+      .select('user_id');
+
+    const userId = consumed?.[0]?.user_id;
+    if (!userId) {
+      return { success: false, error: 'Invalid or expired verification link' };
+    }
+
+    const { data: user, error } = await supabaseAdmin
+      .from('users')
+      .update({ email_verified: true })
+      .eq('id', userId)
+      .select('id, company_id')
+      .single();
+
+    if (error || !user) {
+      return { success: false, error: 'Invalid or expired verification link' };
+    }
+
+    return { success: true, userId: user.id, companyId: user.company_id };
+  }
+
+  /**
+   * Delete signups that were not verified in time
+   * Only runs while verification is required, and never touches a user who has signed
+   * in. A company where nobody is verified or has signed in is provisional and is
+   * deleted with them (its license, tenants and roles go with it).
+   *
+   * @returns Number of unverified users removed on their own, and of provisional companies
+   */
+  async purgeExpiredSignups(): Promise<{ users: number; companies: number }> {
+    const removed = { users: 0, companies: 0 };
+    if (!config.emailVerification.required || config.emailVerification.signupTtlHours <= 0) {
+      return removed;
+    }
+
+    const cutoff = new Date(Date.now() - config.emailVerification.signupTtlHours * 60 * 60 * 1000);
+
+    const { data: users, error } = await supabaseAdmin
+      .from('users')
+      .select('id, company_id')
+      .eq('email_verified', false)
+      .is('last_login', null)
+      .lt('created_at', cutoff.toISOString());
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const purgedCompanies = new Set<string>();
+
+    for (const user of users || []) {
+      if (purgedCompanies.has(user.company_id)) {
+        continue;
+      }
+
+      const { count: verified } = await supabaseAdmin
+        .from('users')
+        .select('id', { count: 'exact', head: true })
+        .eq('company_id', user.company_id)
+        .eq('email_verified', true);
+
+      const { count: signedIn } = await supabaseAdmin
+        .from('users')
+        .select('id', { count: 'exact', head: true })
+        .eq('company_id', user.company_id)
+        .not('last_login', 'is', null);
+
+      if (!verified && !signedIn) {
+        const { error: companyError } = await supabaseAdmin.from('companies').delete().eq('id', user.company_id);
+        if (!companyError) {
+          contextCacheService.forgetCompany(user.company_id);
+          purgedCompanies.add(user.company_id);
+          removed.companies++;
+          continue;
+        }
+      }
+
+      const { error: userError } = await supabaseAdmin.from('users').delete().eq('id', user.id);
+      if (!userError) {
+        removed.users++;
+      }
+    }
+
+    if (removed.users > 0 || removed.companies > 0) {
+      logger.info('Removed unverified signups', removed);
+    }
+
+    return removed;
+  }
+}
+
+export const emailVerificationService = new EmailVerificationService();
@@ -0,0 +1,424 @@
+/**
+ * @file User invitation service
+ * @module services/invitation
+ *
+ * Invites users by email; invitees set their own password when they accept
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { Invitation, PasswordPolicyViolation } from '../types';
+import { logger } from '../utils/logger';
+import { companyService } from './company.service';
+import { licensingService } from './licensing.service';
+import { userService } from './user.service';
+import { rbacService } from './rbac.service';
+import { mailService } from './mail.service';
+
+// Invitation columns returned to callers (never the token hash)
+const INVITATION_COLUMNS =
+  'id, company_id, tenant_id, email, role_ids, invited_by, expires_at, sent_at, accepted_at, accepted_user_id, cancelled_at, created_at';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'cancelled' | 'expired';
+
+type PublicInvitation = Omit<Invitation, 'token_hash'> & { status: InvitationStatus };
+
+/**
+ * Invitation Service
+ * Tokens are opaque, single-use and stored as SHA-256 hashes. Pending invitations
+ * hold a seat, so a company cannot invite past its license's `max_users`.
+ */
+export class InvitationService {
+  /**
+   * Hash an invitation token for storage and lookup
+   *
+   * @param token - Plain invitation token
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Invite a user to a company and email them the link
+   *
+   * @param companyId - Company the user joins
+   * @param data - Invitee email, optional tenant and role IDs
+   * @param invitedBy - Admin sending the invitation
+   */
+  async createInvitation(
+    companyId: string,
+    data: { email: string; tenantId?: string; roleIds?: string[] },
+    invitedBy: { id: string; full_name: string }
+  ): Promise<{ success: boolean; invitation?: PublicInvitation; error?: string }> {
+    const email = data.email.trim().toLowerCase();
+    const roleIds = Array.from(new Set(data.roleIds || []));
+
+    // Invitees must belong to the company's verified domain
+    const domain = await companyService.validateDomain(email);
+    if (!domain.exists || domain.company!.id !== companyId) {
+      return { success: false, error: 'Email domain does not match the company domain' };
+    }
+
+    const { data: existingUser } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .eq('email', email)
+      .single();
+
+    if (existingUser) {
+      return { success: false, error: 'A user with this email already exists' };
+    }
+
+    const { data: pending } = await supabaseAdmin
+      .from('invitations')
+      .select('id')
+      .eq('company_id', companyId)
+      .eq('email', email)
+      .is('accepted_at', null)
+      .is('cancelled_at', null)
+      .gt('expires_at', new Date().toISOString());
+
+    if (pending && pending.length > 0) {
+      return { success: false, error: 'An invitation is already pending for this email; resend it instead' };
+    }
+
+    if (data.tenantId) {
+      const { data: tenant } = await supabaseAdmin
+        .from('tenants')
+        .select('id')
+        .eq('id', data.tenantId)
+        .eq('parent_company_id', companyId)
+        .single();
+
+      if (!tenant) {
+        return { success: false, error: 'Tenant not found' };
+      }
+    }
+
+    if (roleIds.length > 0) {
+      const { data: roles } = await supabaseAdmin
+        .from('roles')
+        .select('id')
+        .eq('company_id', companyId)
+        .in('id', roleIds);
+
+      if (!roles || roles.length !== roleIds.length) {
+        return { success: false, error: 'One or more roles were not found' };
+      }
+    }
+
+    if (!(await this.hasFreeSeat(companyId, true))) {
+      return { success: false, error: 'The license user limit has been reached' };
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    const { data: invitation, error } = await supabaseAdmin
+      .from('invitations')
+      .insert({
+        id: uuidv4(),
+        company_id: companyId,
+        tenant_id: data.tenantId || null,
+        email,
+        role_ids: roleIds,
+        token_hash: this.hashToken(token),
+        invited_by: invitedBy.id,
+        expires_at: this.expiresAt().toISOString(),
+      })
+      .select(INVITATION_COLUMNS)
+      .single();
+
+    if (error || !invitation) {
+      return { success: false, error: error?.message || 'Failed to create invitation' };
+    }
+
+    await this.sendEmail(companyId, email, invitedBy.full_name, token);
+
+    return { success: true, invitation: this.withStatus(invitation) };
+  }
+
+  /**
+   * List a company's invitations, newest first
+   *
+   * @param companyId - Company ID
+   */
+  async listInvitations(companyId: string): Promise<PublicInvitation[]> {
+    const { data, error } = await supabaseAdmin
+      .from('invitations')
+      .select(INVITATION_COLUMNS)
+      .eq('company_id', companyId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map((invitation: Omit<Invitation, 'token_hash'>) => this.withStatus(invitation));
+  }
+
+  /**
+   * Send a fresh link for an invitation that has not been accepted or cancelled
+   * The previous link stops working and the expiry starts over.
+   *
+   * @param companyId - Company ID
+   * @param id - Invitation ID
+   * @param resentBy - Admin resending the invitation
+   */
+  async resendInvitation(
+    companyId: string,
+    id: string,
+    resentBy: { id: string; full_name: string }
+  ): Promise<{ success: boolean; invitation?: PublicInvitation; error?: string }> {
+    const { data: current } = await supabaseAdmin
+      .from('invitations')
+      .select(INVITATION_COLUMNS)
+      .eq('id', id)
+      .eq('company_id', companyId)
+      .is('accepted_at', null)
+      .is('cancelled_at', null)
+      .single();
+
+    if (!current) {
+      return { success: false, error: 'Invitation not found' };
+    }
+
+    // An expired invitation gave up its seat, so it needs one again
+    if (new Date(current.expires_at).getTime() <= Date.now() && !(await this.hasFreeSeat(companyId, true))) {
+      return { success: false, error: 'The license user limit has been reached' };
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    const { data: invitation, error } = await supabaseAdmin
+      .from('invitations')
+      .update({
+        token_hash: this.hashToken(token),
+        expires_at: this.expiresAt().toISOString(),
+        sent_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .is('accepted_at', null)
+      .is('cancelled_at', null)
+      .select(INVITATION_COLUMNS)
+      .single();
+
+    if (error || !invitation) {
+      return { success: false, error: error?.message || 'Invitation not found' };
+    }
+
+    await this.sendEmail(companyId, invitation.email, resentBy.full_name, token);
+
+    return { success: true, invitation: this.withStatus(invitation) };
+  }
+
+  /**
+   * Cancel an invitation; its link stops working immediately
+   *
+   * @param companyId - Company ID
+   * @param id - Invitation ID
+   */
+  async cancelInvitation(companyId: string, id: string): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await supabaseAdmin
+      .from('invitations')
+      .update({ cancelled_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('company_id', companyId)
+      .is('accepted_at', null)
+      .is('cancelled_at', null)
+      .select('id');
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Invitation not found' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Describe a pending invitation for the accept form without consuming it
+   *
+   * @param token - Plain invitation token from the emailed link
+   * @returns The invitee email and company name, or null if the token is not usable
+   */
+  async lookupInvitation(
+    token: string
+  ): Promise<{ email: string; companyName: string; expiresAt: Date } | null> {
+    const invitation = await this.findPending(token);
+    if (!invitation) {
+      return null;
+    }
+
+    const company = await companyService.getCompanyById(invitation.company_id);
+
+    return {
+      email: invitation.email,
+      companyName: company?.name || '',
+      expiresAt: invitation.expires_at,
+    };
+  }
+
+  /**
+   * Accept an invitation: create the user with their own password, then apply
+   * the invited tenant and roles
+   *
+   * @param token - Plain invitation token from the emailed link
+   * @param data - Invitee name and chosen password
+   */
+  async acceptInvitation(
+    token: string,
+    data: { fullName: string; password: string }
+  ): Promise<{
+    success: boolean;
+    userId?: string;
+    companyId?: string;
+    invitationId?: string;
+    error?: string;
+    violations?: PasswordPolicyViolation[];
+  }> {
+    const invitation = await this.findPending(token);
+    if (!invitation) {
+      return { success: false, error: 'Invalid or expired invitation' };
+    }
+
+    // The invitation held a seat, but direct user creation may have used it since
+    if (!(await this.hasFreeSeat(invitation.company_id, false))) {
+      return { success: false, error: 'The license user limit has been reached' };
+    }
+
+    // Claim the invitation in the same statement that checks it, so it is only used once
+    const { data: claimed } = await supabaseAdmin
+      .from('invitations')
+      .update({ accepted_at: new Date().toISOString() })
+      .eq('id', invitation.id)
+      .is('accepted_at', null)
+      .is('cancelled_at', null)
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      return { success: false, error: 'Invalid or expired invitation' };
+    }
+
+    const result = await userService.createUser({
+      email: invitation.email,
+      password: data.password,
+      fullName: data.fullName,
+      companyId: invitation.company_id,
+      tenantId: invitation.tenant_id || undefined,
+    });
+
+    if (!result.success) {
+      // Release the invitation so the invitee can try again
+      await supabaseAdmin.from('invitations').update({ accepted_at: null }).eq('id', invitation.id);
+      return { success: false, error: result.error, violations: result.violations };
+    }
+
+    for (const roleId of invitation.role_ids || []) {
+      await rbacService.assignRoleToUser(result.userId!, roleId, invitation.invited_by || result.userId!);
+    }
+
+    await supabaseAdmin
+      .from('invitations')
+      .update({ accepted_user_id: result.userId })
+      .eq('id', invitation.id);
+
+    return {
+      success: true,
+      userId: result.userId,
+      companyId: invitation.company_id,
+      invitationId: invitation.id,
+    };
+  }
+
+  /**
+   * Find a pending, unexpired invitation by its token
+   */
+  private async findPending(token: string): Promise<Invitation | null> {
+    const { data } = await supabaseAdmin
+      .from('invitations')
+      .select('*')
+      .eq('token_hash', this.hashToken(token))
+      .is('accepted_at', null)
+      .is('cancelled_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .single();
+
+    return (data as Invitation) || null;
+  }
+
+  /**
+   * Check the company's license has room for one more user
+   * Also used when approving access requests, which must not take seats held by invitations.
+   *
+   * @param companyId - Company ID
+   * @param countPending - Whether pending invitations hold seats (true when adding a new user)
+   */
+  async hasFreeSeat(companyId: string, countPending: boolean): Promise<boolean> {
+    const license = await licensingService.getLicenseByCompany(companyId);
+    const maxUsers = license?.features?.max_users;
+    if (!maxUsers) {
+      return true;
+    }
+
+    let seats = await userService.getUserCountByCompany(companyId);
+
+    if (countPending) {
+      const { count } = await supabaseAdmin
+        .from('invitations')
+        .select('id', { count: 'exact', head: true })
+        .eq('company_id', companyId)
+        .is('accepted_at', null)
+        .is('cancelled_at', null)
+        .gt('expires_at', new Date().toISOString());
+      seats += count || 0;
+    }
+
+    return seats < maxUsers;
+  }
+
+  /**
+   * Email the invitation link
+   * Failures are logged; the admin can resend.
+   */
+  private async sendEmail(companyId: string, email: string, inviterName: string, token: string): Promise<void> {
+    try {
+      const company = await companyService.getCompanyById(companyId);
+      const acceptUrl = `${config.web.url}/accept-invite?token=${encodeURIComponent(token)}`;
+
+      await mailService.sendInvitation(email, company?.name || 'your company', inviterName, acceptUrl);
+    } catch (error) {
+      logger.error('Invitation email failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  /**
+   * Expiry for a newly sent link
+   */
+  private expiresAt(): Date {
+    return new Date(Date.now() + config.invitations.ttlDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Add the derived status to an invitation
+   */
+  private withStatus(invitation: Omit<Invitation, 'token_hash'>): PublicInvitation {
+    let status: InvitationStatus = 'pending';
+    if (invitation.accepted_at) {
+      status = 'accepted';
+    } else if (invitation.cancelled_at) {
+      status = 'cancelled';
+    } else if (new Date(invitation.expires_at).getTime() <= Date.now()) {
+      status = 'expired';
+    }
+
+    return { ...invitation, status };
+  }
+}
+
+export const invitationService = new InvitationService();
@@ -11,6 +11,8 @@ import { config } from '../config';
 import { supabaseAdmin } from '../config/database';
 import { License, LicenseStatus, LicenseFeatures, Company } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { contextCacheService } from './context-cache.service';
+import { decrypt, deriveKey, encrypt } from '../utils/encryption';
 
 /**
  * License payload structure before encryption
@@ -29,16 +31,12 @@ interface LicensePayload {
  * Handles cryptographically secure license generation, validation, and revocation
  */
 export class LicensingService {
-  private readonly algorithm = 'aes-256-gcm';
   private readonly encryptionKey: Buffer;
   private readonly signingKey: Buffer;
 
   constructor() {
     // Derive 32-byte encryption key from config
-    this.encryptionKey = crypto
-      .createHash('sha256')
-      .update(config.license.encryptionKey)
-      .digest();
+    this.encryptionKey = deriveKey(config.license.encryptionKey);
 
     // Derive signing key
     this.signingKey = crypto
@@ -181,6 +179,8 @@ export class LicensingService {
         .from('companies')
         .update({ license_status: LicenseStatus.REVOKED })
         .eq('id', license.company_id);
+
+      contextCacheService.forgetCompany(license.company_id);
     }
   }
 
@@ -226,39 +226,14 @@ export class LicensingService {
    * Encrypt license payload using AES-256-GCM
    */
   private encryptPayload(payload: LicensePayload): string {
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv(this.algorithm, this.encryptionKey, iv);
-
-    const payloadJson = JSON.stringify(payload);
-    let encrypted = cipher.update(payloadJson, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-
-    const authTag = cipher.getAuthTag();
-
-    // Combine IV + encrypted data + auth tag
-    return `${iv.toString('hex')}.${encrypted}.${authTag.toString('hex')}`;
+    return encrypt(JSON.stringify(payload), this.encryptionKey);
   }
 
   /**
    * Decrypt license payload
    */
   private decryptPayload(encrypted: string): LicensePayload {
-    const parts = encrypted.split('.');
-    if (parts.length !== 3) {
-      throw new Error('Invalid encrypted payload format');
-    }
-
-    const [ivHex, encryptedData, authTagHex] = parts;
-    const iv = Buffer.from(ivHex, 'hex');
-    const authTag = Buffer.from(authTagHex, 'hex');
-
-    const decipher = crypto.createDecipheriv(this.algorithm, this.encryptionKey, iv);
-    decipher.setAuthTag(authTag);
-
-    let decrypted = decipher.update(encryptedData, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-
-    return JSON.parse(decrypted);
+    return JSON.parse(decrypt(encrypted, this.encryptionKey));
   }
 
   /**
@@ -308,6 +283,8 @@ export class LicensingService {
         license_status: LicenseStatus.ACTIVE,
       })
       .eq('id', companyId);
+
+    contextCacheService.forgetCompany(companyId);
   }
 
   /**
@@ -328,6 +305,8 @@ export class LicensingService {
         .from('companies')
         .update({ license_status: status })
         .eq('id', license.company_id);
+
+      contextCacheService.forgetCompany(license.company_id);
     }
   }
 }
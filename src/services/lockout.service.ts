@@ -0,0 +1,116 @@
+/**
+ * @file Account lockout service
+ * @module services/lockout
+ *
+ * Locks an account after repeated failed logins, whatever IP they come from
+ */
+
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { ClientInfo } from '../types';
+import { createClientAuditLogEntry } from '../middleware/audit.middleware';
+
+/**
+ * Lockout Service
+ * After `LOCKOUT_MAX_ATTEMPTS` consecutive failures the account is locked for
+ * `LOCKOUT_BASE_DURATION_MINUTES`. Every further failure doubles the lock, up to
+ * `LOCKOUT_MAX_DURATION_MINUTES`. Every lock is audited as `user.lockout`, whichever
+ * password check triggered it.
+ */
+export class LockoutService {
+  /**
+   * Check whether an account is currently locked
+   *
+   * @param user - User with `locked_until`
+   */
+  isLocked(user: { locked_until?: Date | string | null }): boolean {
+    return !!user.locked_until && new Date(user.locked_until).getTime() > Date.now();
+  }
+
+  /**
+   * Record a failed password attempt
+   *
+   * @param userId - User ID
+   * @param client - IP address and User-Agent of the attempt, for the audit entry
+   * @returns The new failure count and, if this failure locked the account, until when
+   */
+  async recordFailure(
+    userId: string,
+    client?: ClientInfo
+  ): Promise<{ failedAttempts: number; lockedUntil?: Date }> {
+    // Compare-and-set so that concurrent failures are all counted
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const { data: user } = await supabaseAdmin
+        .from('users')
+        .select('failed_login_attempts, company_id')
+        .eq('id', userId)
+        .single();
+
+      const previous = Number(user?.failed_login_attempts || 0);
+      const failedAttempts = previous + 1;
+      const lockedUntil = this.lockUntil(failedAttempts);
+
+      const { data: updated } = await supabaseAdmin
+        .from('users')
+        .update({
+          failed_login_attempts: failedAttempts,
+          ...(lockedUntil && { locked_until: lockedUntil.toISOString() }),
+        })
+        .eq('id', userId)
+        .eq('failed_login_attempts', previous)
+        .select('id');
+
+      if (updated && updated.length > 0) {
+        if (lockedUntil) {
+          // Audit log
+          await createClientAuditLogEntry(
+            userId,
+            user?.company_id,
+            'user.lockout',
+            'user',
+            userId,
+            { failedAttempts, lockedUntil: lockedUntil.toISOString() },
+            client
+          );
+        }
+        return { failedAttempts, lockedUntil };
+      }
+    }
+
+    throw new Error('Failed to record failed login');
+  }
+
+  /**
+   * Clear the failure count and any lock
+   *
+   * @param userId - User ID
+   */
+  async reset(userId: string): Promise<void> {
+    await supabaseAdmin
+      .from('users')
+      .update({ failed_login_attempts: 0, locked_until: null })
+      .eq('id', userId);
+  }
+
+  /**
+   * Work out when a lock triggered by the given failure count should end
+   *
+   * @param failedAttempts - Consecutive failures including this one
+   * @returns The lock expiry, or undefined if the account should not be locked
+   */
+  private lockUntil(failedAttempts: number): Date | undefined {
+    const { maxAttempts, baseDurationMinutes, maxDurationMinutes } = config.lockout;
+    if (failedAttempts < maxAttempts) {
+      return undefined;
+    }
+
+    const minutes = Math.min(
+      baseDurationMinutes * 2 ** (failedAttempts - maxAttempts),
+      maxDurationMinutes
+    );
+
+    return new Date(Date.now() + minutes * 60 * 1000);
+  }
+}
+
+export const lockoutService = new LockoutService();
@@ -0,0 +1,112 @@
+/**
+ * @file Magic link token service
+ * @module services/magic-link
+ *
+ * Issues and consumes single-use, short-lived sign-in links bound to a browser
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+
+/**
+ * Magic Link Service
+ * Tokens and browser keys are opaque and stored as SHA-256 hashes. The browser that
+ * asks for a link keeps the browser key; the emailed token only works together with
+ * it, so a link forwarded or opened elsewhere is useless. Requesting a new link
+ * invalidates any outstanding one.
+ */
+export class MagicLinkService {
+  /**
+   * Hash a token or browser key for storage and lookup
+   *
+   * @param value - Plain token or browser key
+   */
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  /**
+   * Generate the key a browser keeps while it waits for its link
+   */
+  createBrowserKey(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  /**
+   * Whether a company lets its users sign in with magic links (off unless turned on)
+   *
+   * @param companyId - Company ID
+   */
+  async isEnabled(companyId: string): Promise<boolean> {
+    const { data: company } = await supabaseAdmin
+      .from('companies')
+      .select('magic_link_enabled')
+      .eq('id', companyId)
+      .single();
+
+    return company?.magic_link_enabled === true;
+  }
+
+  /**
+   * Issue a sign-in token for a user, bound to a browser
+   *
+   * @param userId - User ID
+   * @param browserKey - Key held by the browser that asked for the link
+   */
+  async createToken(userId: string, browserKey: string): Promise<{ token: string; expiresAt: Date }> {
+    const now = new Date();
+
+    // Invalidate earlier links
+    await supabaseAdmin
+      .from('magic_link_tokens')
+      .update({ used_at: now.toISOString() })
+      .eq('user_id', userId)
+      .is('used_at', null);
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(now.getTime() + config.magicLink.tokenTtlMinutes * 60 * 1000);
+
+    const { error } = await supabaseAdmin.from('magic_link_tokens').insert({
+      id: uuidv4(),
+      user_id: userId,
+      token_hash: this.hash(token),
+      browser_key_hash: this.hash(browserKey),
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to issue magic link token: ${error.message}`);
+    }
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Consume a sign-in token presented by the browser it was issued to
+   * The token is marked used in the same statement that checks it, so two
+   * concurrent requests cannot both succeed. A token presented with the wrong
+   * browser key is left untouched.
+   *
+   * @param token - Plain token from the emailed link
+   * @param browserKey - Key held by the browser opening the link
+   * @returns The ID of the user the token was issued to, or null if invalid
+   */
+  async consumeToken(token: string, browserKey: string): Promise<string | null> {
+    const now = new Date().toISOString();
+
+    const { data: consumed } = await supabaseAdmin
+      .from('magic_link_tokens')
+      .update({ used_at: now })
+      .eq('token_hash', this.hash(token))
+      .eq('browser_key_hash', this.hash(browserKey))
+      .is('used_at', null)
+      .gt('expires_at', now)
+      .select('user_id');
+
+    return consumed?.[0]?.user_id || null;
+  }
+}
+
+export const magicLinkService = new MagicLinkService();
@@ -0,0 +1,459 @@
+/**
+ * @file Outbound email service
+ * @module services/mail
+ *
+ * Renders transactional emails and hands them to a pluggable transport
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * A rendered email
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers rendered emails (SMTP, a provider API, a local outbox...)
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Writes each message to a JSON file instead of sending it
+ * Stand-in for local development and testing.
+ */
+export class OutboxMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${uuidv4()}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+
+    logger.info('Email written to outbox', { to: message.to, subject: message.subject, fileName });
+  }
+}
+
+/**
+ * Only logs the recipient and subject (for environments without mail delivery)
+ */
+export class LogMailTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    logger.info('Email not delivered (log transport)', { to: message.to, subject: message.subject });
+  }
+}
+
+/**
+ * Create the transport selected by `MAIL_TRANSPORT`
+ */
+function createTransport(): MailTransport {
+  switch (config.mail.transport) {
+    case 'outbox':
+      return new OutboxMailTransport(config.mail.outboxDir);
+    case 'log':
+      return new LogMailTransport();
+    default:
+      throw new Error(`Unknown mail transport: ${config.mail.transport}`);
+  }
+}
+
+/**
+ * Mail Service
+ * Production deployments plug in their own transport with `setTransport`.
+ */
+export class MailService {
+  private transport: MailTransport = createTransport();
+
+  /**
+   * Replace the transport used for all outgoing mail
+   *
+   * @param transport - Transport implementation
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send an email
+   *
+   * @param message - Rendered message
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: config.mail.from });
+  }
+
+  /**
+   * Send a password reset link
+   *
+   * @param to - Recipient email
+   * @param fullName - Recipient name
+   * @param resetUrl - Link to the reset form, including the token
+   */
+  async sendPasswordReset(to: string, fullName: string, resetUrl: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Reset your NEEMIFY password',
+      text: [
+        `Hello ${fullName},`,
+        '',
+        'We received a request to reset the password for your NEEMIFY account.',
+        `Use the link below within ${config.passwordReset.tokenTtlMinutes} minutes to choose a new password:`,
+        '',
+        resetUrl,
+        '',
+        'If you did not request this, you can ignore this email. Your password will not change.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Send an invitation to join a company
+   *
+   * @param to - Invitee email
+   * @param companyName - Company the invitee is joining
+   * @param inviterName - Admin who sent the invitation
+   * @param acceptUrl - Link to the accept form, including the token
+   */
+  async sendInvitation(to: string, companyName: string, inviterName: string, acceptUrl: string): Promise<void> {
+    await this.send({
+      to,
+      subject: `You have been invited to ${companyName} on NEEMIFY`,
+      text: [
+        'Hello,',
+        '',
+        `${inviterName} has invited you to join ${companyName} on NEEMIFY.`,
+        `Use the link below within ${config.invitations.ttlDays} days to choose your password and activate your account:`,
+        '',
+        acceptUrl,
+        '',
+        'If you were not expecting this invitation, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Tell an org admin that someone asked to join their company
+   *
+   * @param to - Admin email
+   * @param requester - Name and email of the person asking for access
+   * @param companyName - Company they want to join
+   * @param reviewUrl - Dashboard page listing pending requests
+   */
+  async sendAccessRequestReceived(
+    to: string,
+    requester: { fullName: string; email: string },
+    companyName: string,
+    reviewUrl: string
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: `${requester.fullName} asked to join ${companyName} on NEEMIFY`,
+      text: [
+        'Hello,',
+        '',
+        `${requester.fullName} (${requester.email}) has asked for access to ${companyName} on NEEMIFY.`,
+        'Review the request here:',
+        '',
+        reviewUrl,
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Tell a requester their access request was approved
+   *
+   * @param to - Requester email
+   * @param fullName - Requester name
+   * @param companyName - Company they joined
+   * @param setupUrl - Link to the password form, including a reset token
+   */
+  async sendAccessRequestApproved(to: string, fullName: string, companyName: string, setupUrl: string): Promise<void> {
+    await this.send({
+      to,
+      subject: `Your request to join ${companyName} on NEEMIFY was approved`,
+      text: [
+        `Hello ${fullName},`,
+        '',
+        `Your request to join ${companyName} on NEEMIFY has been approved.`,
+        `Use the link below within ${config.passwordReset.tokenTtlMinutes} minutes to choose your password:`,
+        '',
+        setupUrl,
+        '',
+        'If the link has expired, use "Forgot password" on the login page to get a new one.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Tell a user an admin created their account
+   *
+   * @param to - User email
+   * @param fullName - User name
+   * @param companyName - Company the account belongs to
+   * @param setupUrl - Link to the password form, including a reset token
+   */
+  async sendAccountCreated(to: string, fullName: string, companyName: string, setupUrl: string): Promise<void> {
+    await this.send({
+      to,
+      subject: `Your ${companyName} account on NEEMIFY`,
+      text: [
+        `Hello ${fullName},`,
+        '',
+        `An administrator created an account for you at ${companyName} on NEEMIFY.`,
+        `Use the link below within ${config.passwordReset.tokenTtlMinutes} minutes to choose your password:`,
+        '',
+        setupUrl,
+        '',
+        'If the link has expired, use "Forgot password" on the login page to get a new one.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Tell a requester their access request was denied
+   *
+   * @param to - Requester email
+   * @param fullName - Requester name
+   * @param companyName - Company they asked to join
+   * @param reason - Reason given by the admin
+   */
+  async sendAccessRequestDenied(to: string, fullName: string, companyName: string, reason: string): Promise<void> {
+    await this.send({
+      to,
+      subject: `Your request to join ${companyName} on NEEMIFY was declined`,
+      text: [
+        `Hello ${fullName},`,
+        '',
+        `Your request to join ${companyName} on NEEMIFY has been declined for the following reason:`,
+        '',
+        reason,
+        '',
+        'Contact your organization admin if you have questions.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Send a link confirming the recipient controls their email address
+   *
+   * @param to - Recipient email
+   * @param fullName - Recipient name
+   * @param verifyUrl - Link to the verification page, including the token
+   */
+  async sendEmailVerification(to: string, fullName: string, verifyUrl: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Verify your NEEMIFY email address',
+      text: [
+        `Hello ${fullName},`,
+        '',
+        'Thanks for signing up for NEEMIFY. Confirm your email address with the link below',
+        `within ${config.emailVerification.tokenTtlHours} hours:`,
+        '',
+        verifyUrl,
+        '',
+        'If you did not sign up, you can ignore this email and the account will be removed.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Send a single-use sign-in link
+   *
+   * @param to - Recipient email
+   * @param fullName - Recipient name
+   * @param loginUrl - Link to the login page, including the token
+   */
+  async sendMagicLink(to: string, fullName: string, loginUrl: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your NEEMIFY sign-in link',
+      text: [
+        `Hello ${fullName},`,
+        '',
+        'Use the link below to sign in to NEEMIFY. It works once, only in the browser you',
+        `requested it from, and expires in ${config.magicLink.tokenTtlMinutes} minutes:`,
+        '',
+        loginUrl,
+        '',
+        'If you did not ask to sign in, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Alert an org admin that someone opened a break-glass session
+   *
+   * @param to - Admin email
+   * @param session - Who declared the emergency, where, why and until when
+   * @param reviewUrl - Dashboard page listing break-glass sessions
+   */
+  async sendBreakGlassStarted(
+    to: string,
+    session: {
+      fullName: string;
+      email: string;
+      tenantName: string;
+      emergency: string;
+      justification: string;
+      expiresAt: Date;
+    },
+    reviewUrl: string
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: `Break-glass access opened by ${session.fullName} in ${session.tenantName}`,
+      text: [
+        'Hello,',
+        '',
+        `${session.fullName} (${session.email}) declared an emergency and has elevated access to ${session.tenantName}`,
+        `until ${session.expiresAt.toISOString()}.`,
+        '',
+        `Emergency: ${session.emergency}`,
+        `Justification: ${session.justification}`,
+        '',
+        'Every action taken during the session is flagged in the audit log. You will be asked to',
+        'review the session once it ends:',
+        '',
+        reviewUrl,
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Ask an org admin to review a break-glass session that has ended
+   *
+   * @param to - Admin email
+   * @param session - Who had access and where
+   * @param reviewUrl - Dashboard page listing break-glass sessions
+   */
+  async sendBreakGlassReviewRequested(
+    to: string,
+    session: { fullName: string; email: string; tenantName: string },
+    reviewUrl: string
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: `Review needed: break-glass access by ${session.fullName}`,
+      text: [
+        'Hello,',
+        '',
+        `The break-glass session of ${session.fullName} (${session.email}) in ${session.tenantName} has ended.`,
+        'Review what was done during it and record whether the access was justified:',
+        '',
+        reviewUrl,
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Tell a user their account was signed in to from a device it had not used before
+   *
+   * @param to - User email
+   * @param fullName - User name
+   * @param device - Browser and platform, IP address and time of the login
+   * @param settingsUrl - Settings page where sessions can be signed out
+   */
+  async sendNewDeviceLogin(
+    to: string,
+    fullName: string,
+    device: { description: string; ipAddress: string; signedInAt: Date },
+    settingsUrl: string
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: 'New sign-in to your NEEMIFY account',
+      text: [
+        `Hello ${fullName},`,
+        '',
+        'Your account was just signed in to from a device or network it has not used before:',
+        '',
+        `Device: ${device.description}`,
+        `IP address: ${device.ipAddress}`,
+        `Time: ${device.signedInAt.toISOString()}`,
+        '',
+        'If this was you, there is nothing to do. Otherwise, change your password and sign out',
+        'the session here:',
+        '',
+        settingsUrl,
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Tell an org admin one of their users signed in from a new device
+   *
+   * @param to - Admin email
+   * @param user - Name and email of the user who signed in
+   * @param device - Browser and platform, IP address and time of the login
+   */
+  async sendNewDeviceLoginAdmin(
+    to: string,
+    user: { fullName: string; email: string },
+    device: { description: string; ipAddress: string; signedInAt: Date }
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: `New device sign-in by ${user.fullName}`,
+      text: [
+        'Hello,',
+        '',
+        `${user.fullName} (${user.email}) signed in to NEEMIFY from a device or network they have not used before:`,
+        '',
+        `Device: ${device.description}`,
+        `IP address: ${device.ipAddress}`,
+        `Time: ${device.signedInAt.toISOString()}`,
+        '',
+        'The sign-in is recorded in the audit log.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Ask an org admin to approve a login from a device a user has not used before
+   *
+   * @param to - Admin email
+   * @param user - Name and email of the user signing in
+   * @param device - Browser and platform and IP address of the login
+   * @param reviewUrl - Dashboard page listing pending device approvals
+   */
+  async sendDeviceApprovalRequested(
+    to: string,
+    user: { fullName: string; email: string },
+    device: { description: string; ipAddress: string },
+    reviewUrl: string
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: `Approve new device for ${user.fullName}`,
+      text: [
+        'Hello,',
+        '',
+        `${user.fullName} (${user.email}) is trying to sign in to NEEMIFY from a new device:`,
+        '',
+        `Device: ${device.description}`,
+        `IP address: ${device.ipAddress}`,
+        '',
+        'They cannot sign in from it until an org admin approves it. Review the request here:',
+        '',
+        reviewUrl,
+      ].join('\n'),
+    });
+  }
+}
+
+export const mailService = new MailService();
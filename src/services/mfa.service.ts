@@ -0,0 +1,274 @@
+/**
+ * @file Multi-factor authentication service
+ * @module services/mfa
+ *
+ * TOTP enrollment and verification plus single-use recovery codes
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from '../utils/totp';
+import { decrypt, deriveKey, encrypt } from '../utils/encryption';
+import { contextCacheService } from './context-cache.service';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * MFA Service
+ * TOTP secrets are encrypted at rest with AES-256-GCM. Recovery codes are only
+ * shown once and stored as SHA-256 hashes.
+ */
+export class MfaService {
+  private readonly encryptionKey: Buffer;
+
+  constructor() {
+    // Derive 32-byte encryption key from config
+    this.encryptionKey = deriveKey(config.mfa.encryptionKey);
+  }
+
+  /**
+   * Start TOTP enrollment
+   * Stores a new (not yet active) secret and returns it with its provisioning URI.
+   *
+   * @param userId - User ID
+   * @param email - User email, used as the account label
+   */
+  async startEnrollment(
+    userId: string,
+    email: string
+  ): Promise<{ success: boolean; secret?: string; otpauthUrl?: string; error?: string }> {
+    try {
+      const { data: user } = await supabaseAdmin
+        .from('users')
+        .select('mfa_enabled')
+        .eq('id', userId)
+        .single();
+
+      if (user?.mfa_enabled) {
+        return { success: false, error: 'MFA is already enabled' };
+      }
+
+      const secret = generateTotpSecret();
+
+      const { error } = await supabaseAdmin
+        .from('users')
+        .update({ mfa_secret: encrypt(secret, this.encryptionKey), mfa_last_used_step: null })
+        .eq('id', userId);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return {
+        success: true,
+        secret,
+        otpauthUrl: buildOtpauthUrl(secret, email, config.mfa.issuer),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start MFA enrollment',
+      };
+    }
+  }
+
+  /**
+   * Confirm TOTP enrollment with a code from the authenticator app
+   * Activates MFA and returns a fresh set of recovery codes.
+   *
+   * @param userId - User ID
+   * @param code - Current TOTP code
+   */
+  async confirmEnrollment(
+    userId: string,
+    code: string
+  ): Promise<{ success: boolean; recoveryCodes?: string[]; error?: string }> {
+    try {
+      const { data: user, error } = await supabaseAdmin
+        .from('users')
+        .select('mfa_enabled, mfa_secret')
+        .eq('id', userId)
+        .single();
+
+      if (error || !user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      if (user.mfa_enabled) {
+        return { success: false, error: 'MFA is already enabled' };
+      }
+
+      if (!user.mfa_secret) {
+        return { success: false, error: 'MFA enrollment has not been started' };
+      }
+
+      const step = verifyTotp(decrypt(user.mfa_secret, this.encryptionKey), code);
+      if (step === null) {
+        return { success: false, error: 'Invalid verification code' };
+      }
+
+      await supabaseAdmin
+        .from('users')
+        .update({
+          mfa_enabled: true,
+          mfa_last_used_step: step,
+          mfa_enrolled_at: new Date().toISOString(),
+        })
+        .eq('id', userId);
+
+      contextCacheService.forgetUser(userId);
+
+      const recoveryCodes = await this.generateRecoveryCodes(userId);
+
+      return { success: true, recoveryCodes };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to confirm MFA enrollment',
+      };
+    }
+  }
+
+  /**
+   * Verify a TOTP code for a user with MFA enabled
+   * Each code is accepted only once, even within its validity window.
+   *
+   * @param userId - User ID
+   * @param code - TOTP code
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const { data: user } = await supabaseAdmin
+      .from('users')
+      .select('mfa_enabled, mfa_secret, mfa_last_used_step')
+      .eq('id', userId)
+      .single();
+
+    if (!user?.mfa_enabled || !user.mfa_secret) {
+      return false;
+    }
+
+    const step = verifyTotp(decrypt(user.mfa_secret, this.encryptionKey), code);
+    if (step === null) {
+      return false;
+    }
+
+    // Claim the step; a replay of this code (or an older one) matches no row, so of
+    // concurrent requests with the same code only one gets through
+    const { data: claimed } = await supabaseAdmin
+      .from('users')
+      .update({ mfa_last_used_step: step })
+      .eq('id', userId)
+      .or(`mfa_last_used_step.is.null,mfa_last_used_step.lt.${step}`)
+      .select('id');
+
+    return !!claimed && claimed.length > 0;
+  }
+
+  /**
+   * Consume a recovery code
+   *
+   * @param userId - User ID
+   * @param code - Recovery code as entered by the user
+   */
+  async useRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const { data: consumed } = await supabaseAdmin
+      .from('mfa_recovery_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('code_hash', this.hashRecoveryCode(code))
+      .is('used_at', null)
+      .select('id');
+
+    return !!consumed && consumed.length > 0;
+  }
+
+  /**
+   * Replace a user's recovery codes with a new set
+   *
+   * @param userId - User ID
+   * @returns The new codes in plain text (shown to the user once)
+   */
+  async generateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await supabaseAdmin.from('mfa_recovery_codes').delete().eq('user_id', userId);
+
+    const { error } = await supabaseAdmin.from('mfa_recovery_codes').insert(
+      codes.map((code) => ({
+        id: uuidv4(),
+        user_id: userId,
+        code_hash: this.hashRecoveryCode(code),
+      }))
+    );
+
+    if (error) {
+      throw new Error(`Failed to store recovery codes: ${error.message}`);
+    }
+
+    return codes;
+  }
+
+  /**
+   * Disable MFA and delete the secret and recovery codes
+   *
+   * @param userId - User ID
+   */
+  async disable(userId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabaseAdmin
+        .from('users')
+        .update({
+          mfa_enabled: false,
+          mfa_secret: null,
+          mfa_last_used_step: null,
+          mfa_enrolled_at: null,
+        })
+        .eq('id', userId);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      contextCacheService.forgetUser(userId);
+
+      await supabaseAdmin.from('mfa_recovery_codes').delete().eq('user_id', userId);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to disable MFA',
+      };
+    }
+  }
+
+  /**
+   * Check whether a company requires MFA for all of its users
+   *
+   * @param companyId - Company ID
+   */
+  async isRequiredByCompany(companyId: string): Promise<boolean> {
+    const { data: company } = await supabaseAdmin
+      .from('companies')
+      .select('require_mfa')
+      .eq('id', companyId)
+      .single();
+
+    return !!company?.require_mfa;
+  }
+
+  /**
+   * Hash a recovery code (case, spaces and dashes are ignored)
+   */
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+}
+
+export const mfaService = new MfaService();
@@ -0,0 +1,336 @@
+/**
+ * @file OAuth 2.0 client credentials service
+ * @module services/oauth
+ *
+ * Standard token endpoint for partner integrations (RFC 6749 section 4.4), with
+ * token introspection (RFC 7662) and revocation (RFC 7009)
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { JwtPayload, OAuthClient, User } from '../types';
+import { serviceAccountService } from './service-account.service';
+import { sessionService } from './session.service';
+import { signingKeyService } from './signing-key.service';
+
+// Client columns returned to callers (never the secret hash)
+const CLIENT_COLUMNS = 'id, company_id, service_account_id, name, client_id, created_by, last_used_at, revoked_at, created_at';
+
+type PublicOAuthClient = Omit<OAuthClient, 'client_secret_hash'>;
+
+/**
+ * Token endpoint response (RFC 6749 section 5.1) or error code (section 5.2)
+ */
+export interface OAuthTokenResult {
+  success: boolean;
+  accessToken?: string;
+  expiresIn?: number;
+  scope?: string;
+  error?: 'invalid_scope' | 'unauthorized_client';
+  errorDescription?: string;
+}
+
+/**
+ * Introspection response (RFC 7662 section 2.2)
+ */
+export interface OAuthIntrospection {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  token_type?: string;
+  exp?: number;
+  iat?: number;
+  sub?: string;
+  jti?: string;
+}
+
+/**
+ * OAuth Service
+ * Clients are registered per company and act as their own service account; the
+ * account's permission names are the scopes a client may request. Every issued
+ * token gets a session (its `jti`), so `authenticate` rejects revoked tokens.
+ */
+export class OAuthService {
+  /**
+   * Hash a client secret for storage and comparison
+   *
+   * @param secret - Plain client secret
+   */
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  /**
+   * Register a client for a company
+   * The plain secret is only returned here.
+   *
+   * @param companyId - Company ID
+   * @param data - Client name, allowed scopes (permission names) and optional tenant
+   * @param createdBy - Admin registering the client
+   * @param grantable - Permissions the admin holds and may pass on (null for super users)
+   */
+  async createClient(
+    companyId: string,
+    data: { name: string; scopes: string[]; tenantId?: string },
+    createdBy: string,
+    grantable: Set<string> | null
+  ): Promise<{ success: boolean; client?: PublicOAuthClient; clientSecret?: string; error?: string }> {
+    const serviceAccount = await serviceAccountService.createServiceAccount(
+      companyId,
+      {
+        name: data.name,
+        description: 'OAuth 2.0 client',
+        tenantId: data.tenantId,
+        permissions: data.scopes,
+      },
+      createdBy,
+      grantable
+    );
+
+    if (!serviceAccount.success) {
+      return { success: false, error: serviceAccount.error };
+    }
+
+    const clientSecret = crypto.randomBytes(32).toString('base64url');
+
+    const { data: client, error } = await supabaseAdmin
+      .from('oauth_clients')
+      .insert({
+        id: uuidv4(),
+        company_id: companyId,
+        service_account_id: serviceAccount.serviceAccount!.user_id,
+        name: data.name,
+        client_id: `client_${crypto.randomBytes(16).toString('hex')}`,
+        client_secret_hash: this.hashSecret(clientSecret),
+        created_by: createdBy,
+      })
+      .select(CLIENT_COLUMNS)
+      .single();
+
+    if (error) {
+      await serviceAccountService.deactivateServiceAccount(companyId, serviceAccount.serviceAccount!.user_id);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, client, clientSecret };
+  }
+
+  /**
+   * List a company's clients with their allowed scopes
+   *
+   * @param companyId - Company ID
+   */
+  async listClients(companyId: string): Promise<(PublicOAuthClient & { scopes: string[] })[]> {
+    const { data: clients, error } = await supabaseAdmin
+      .from('oauth_clients')
+      .select(CLIENT_COLUMNS)
+      .eq('company_id', companyId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return Promise.all(
+      (clients || []).map(async (client: PublicOAuthClient) => ({
+        ...client,
+        scopes: await serviceAccountService.getPermissions(client.service_account_id),
+      }))
+    );
+  }
+
+  /**
+   * Replace a client's secret; the old secret stops working immediately
+   *
+   * @param companyId - Company ID
+   * @param id - Client record ID
+   */
+  async rotateSecret(
+    companyId: string,
+    id: string
+  ): Promise<{ success: boolean; clientSecret?: string; error?: string }> {
+    const clientSecret = crypto.randomBytes(32).toString('base64url');
+
+    const { data, error } = await supabaseAdmin
+      .from('oauth_clients')
+      .update({ client_secret_hash: this.hashSecret(clientSecret) })
+      .eq('id', id)
+      .eq('company_id', companyId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Client not found' };
+    }
+
+    return { success: true, clientSecret };
+  }
+
+  /**
+   * Revoke a client, its service account and every token issued to it
+   *
+   * @param companyId - Company ID
+   * @param id - Client record ID
+   */
+  async revokeClient(companyId: string, id: string): Promise<{ success: boolean; error?: string }> {
+    const { data: client } = await supabaseAdmin
+      .from('oauth_clients')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('company_id', companyId)
+      .is('revoked_at', null)
+      .select('service_account_id')
+      .single();
+
+    if (!client) {
+      return { success: false, error: 'Client not found' };
+    }
+
+    // Deactivating the account also ends the sessions behind its tokens
+    return serviceAccountService.deactivateServiceAccount(companyId, client.service_account_id);
+  }
+
+  /**
+   * Authenticate a client by its credentials
+   *
+   * @param clientId - Public client identifier
+   * @param clientSecret - Plain client secret
+   * @returns The client, or null if the credentials are wrong or the client is revoked
+   */
+  async authenticateClient(clientId: string, clientSecret: string): Promise<OAuthClient | null> {
+    const { data: client } = await supabaseAdmin
+      .from('oauth_clients')
+      .select('*')
+      .eq('client_id', clientId)
+      .is('revoked_at', null)
+      .single();
+
+    if (!client) {
+      return null;
+    }
+
+    const expected = Buffer.from(client.client_secret_hash, 'hex');
+    const actual = Buffer.from(this.hashSecret(clientSecret), 'hex');
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    return client as OAuthClient;
+  }
+
+  /**
+   * Issue an access token for the client credentials grant
+   *
+   * @param client - Authenticated client
+   * @param requestedScope - Space-separated scopes; defaults to every scope the client holds
+   */
+  async issueToken(client: OAuthClient, requestedScope?: string): Promise<OAuthTokenResult> {
+    const { data: user } = await supabaseAdmin
+      .from('users')
+      .select('*')
+      .eq('id', client.service_account_id)
+      .single();
+
+    if (!user || user.is_active === false) {
+      return { success: false, error: 'unauthorized_client', errorDescription: 'Client is deactivated' };
+    }
+
+    const allowed = await serviceAccountService.getPermissions(client.service_account_id);
+    const scopes = requestedScope ? Array.from(new Set(requestedScope.split(' ').filter(Boolean))) : allowed;
+
+    const notAllowed = scopes.filter((scope) => !allowed.includes(scope));
+    if (notAllowed.length > 0) {
+      return {
+        success: false,
+        error: 'invalid_scope',
+        errorDescription: `Scopes not granted to this client: ${notAllowed.join(' ')}`,
+      };
+    }
+
+    const expiresIn = config.oauth.accessTokenTtlSeconds;
+    const session = await sessionService.createSession(user as User, new Date(Date.now() + expiresIn * 1000));
+
+    const payload: JwtPayload = {
+      userId: user.id,
+      email: user.email,
+      companyId: user.company_id,
+      tenantId: user.tenant_id || undefined,
+      isSuperUser: false,
+      isOrgAdmin: false,
+      permissions: scopes,
+      sub: user.id,
+      client_id: client.client_id,
+      scope: scopes.join(' '),
+    };
+
+    const accessToken = await signingKeyService.sign(payload, {
+      expiresIn: `${expiresIn}s`,
+      jwtid: session.id,
+    });
+
+    await supabaseAdmin
+      .from('oauth_clients')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', client.id);
+
+    return { success: true, accessToken, expiresIn, scope: payload.scope };
+  }
+
+  /**
+   * Describe a token issued to the calling client (RFC 7662)
+   * Tokens that are invalid, expired, revoked or were issued to anyone else (other
+   * clients, SMART apps, users) are reported as inactive.
+   *
+   * @param client - Authenticated client asking
+   * @param token - Access token to inspect
+   */
+  async introspect(client: OAuthClient, token: string): Promise<OAuthIntrospection> {
+    const payload = await signingKeyService.verify<JwtPayload>(token);
+
+    if (
+      !payload ||
+      !payload.jti ||
+      payload.client_id !== client.client_id ||
+      payload.companyId !== client.company_id ||
+      !(await sessionService.isSessionActive(payload.jti))
+    ) {
+      return { active: false };
+    }
+
+    return {
+      active: true,
+      scope: payload.scope,
+      client_id: payload.client_id,
+      token_type: 'Bearer',
+      exp: payload.exp,
+      iat: payload.iat,
+      sub: payload.sub,
+      jti: payload.jti,
+    };
+  }
+
+  /**
+   * Revoke a token issued to the client (RFC 7009)
+   * Unknown tokens and tokens of other clients are ignored, as the RFC requires.
+   *
+   * @param client - Authenticated client
+   * @param token - Access token to revoke
+   * @returns Whether a token was revoked
+   */
+  async revokeToken(client: OAuthClient, token: string): Promise<boolean> {
+    const payload = await signingKeyService.verify<JwtPayload>(token);
+
+    if (!payload || !payload.jti || payload.client_id !== client.client_id) {
+      return false;
+    }
+
+    return (await sessionService.revokeSession(payload.jti, 'oauth_revoked')) > 0;
+  }
+}
+
+export const oauthService = new OAuthService();
@@ -0,0 +1,326 @@
+/**
+ * @file OpenID Connect single sign-on service
+ * @module services/oidc
+ *
+ * Company-scoped OIDC login (authorization code flow with PKCE) and
+ * just-in-time user provisioning
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { BaseClient, Issuer, generators } from 'openid-client';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { OidcClaimMappings, OidcProvider } from '../types';
+import { decrypt, deriveKey, encrypt } from '../utils/encryption';
+import { companyService } from './company.service';
+import { ssoProvisioningService } from './sso-provisioning.service';
+
+/**
+ * Provider settings an org admin can submit
+ */
+export interface OidcProviderInput {
+  issuer?: string;
+  clientId?: string;
+  clientSecret?: string;
+  scopes?: string;
+  claimMappings?: OidcClaimMappings;
+  groupRoleMappings?: Record<string, string>;
+  jitProvisioning?: boolean;
+  enabled?: boolean;
+}
+
+/**
+ * OIDC Service
+ * Each company can register one identity provider. Login is routed by the email
+ * domain; users are provisioned by the SSO provisioning service.
+ */
+export class OidcService {
+  private readonly encryptionKey: Buffer;
+  private readonly issuers = new Map<string, Issuer<BaseClient>>();
+
+  constructor() {
+    // Derive 32-byte encryption key from config
+    this.encryptionKey = deriveKey(config.sso.encryptionKey);
+  }
+
+  /**
+   * Get a company's provider (the client secret stays encrypted)
+   *
+   * @param companyId - Company ID
+   */
+  async getProvider(companyId: string): Promise<OidcProvider | null> {
+    const { data: provider, error } = await supabaseAdmin
+      .from('oidc_providers')
+      .select('*')
+      .eq('company_id', companyId)
+      .single();
+
+    if (error || !provider) {
+      return null;
+    }
+
+    return provider as OidcProvider;
+  }
+
+  /**
+   * Create or update a company's provider
+   * The issuer's discovery document is fetched to make sure it is reachable.
+   *
+   * @param companyId - Company ID
+   * @param input - Provider settings (the secret may be omitted when updating)
+   */
+  async saveProvider(
+    companyId: string,
+    input: OidcProviderInput
+  ): Promise<{ success: boolean; provider?: OidcProvider; error?: string }> {
+    try {
+      const existing = await this.getProvider(companyId);
+      const issuer = input.issuer ?? existing?.issuer;
+
+      if (!issuer || !(input.clientId ?? existing?.client_id)) {
+        return { success: false, error: 'issuer and clientId are required' };
+      }
+      if (!existing && !input.clientSecret) {
+        return { success: false, error: 'clientSecret is required' };
+      }
+
+      try {
+        await this.discover(issuer);
+      } catch (error) {
+        return {
+          success: false,
+          error: `Could not load the issuer's discovery document: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        };
+      }
+
+      const record = {
+        company_id: companyId,
+        issuer,
+        client_id: input.clientId ?? existing?.client_id,
+        client_secret: input.clientSecret
+          ? encrypt(input.clientSecret, this.encryptionKey)
+          : existing!.client_secret,
+        scopes: input.scopes ?? existing?.scopes ?? 'openid email profile',
+        claim_mappings: input.claimMappings ?? existing?.claim_mappings ?? {},
+        group_role_mappings: input.groupRoleMappings ?? existing?.group_role_mappings ?? {},
+        jit_provisioning: input.jitProvisioning ?? existing?.jit_provisioning ?? true,
+        enabled: input.enabled ?? existing?.enabled ?? true,
+        updated_at: new Date().toISOString(),
+      };
+
+      const { data: provider, error } = existing
+        ? await supabaseAdmin
+            .from('oidc_providers')
+            .update(record)
+            .eq('id', existing.id)
+            .select()
+            .single()
+        : await supabaseAdmin
+            .from('oidc_providers')
+            .insert({ id: uuidv4(), ...record })
+            .select()
+            .single();
+
+      if (error || !provider) {
+        return { success: false, error: error?.message || 'Failed to save provider' };
+      }
+
+      return { success: true, provider: provider as OidcProvider };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save provider',
+      };
+    }
+  }
+
+  /**
+   * Remove a company's provider
+   *
+   * @param companyId - Company ID
+   */
+  async deleteProvider(companyId: string): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await supabaseAdmin
+      .from('oidc_providers')
+      .delete()
+      .eq('company_id', companyId)
+      .select('id');
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'No OIDC provider configured' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Start an SSO login for an email address
+   *
+   * @param email - Email the user typed on the login page
+   * @returns The IdP URL to send the browser to, or sso: false if the company has no provider
+   */
+  async startLogin(email: string): Promise<{ sso: boolean; authorizationUrl?: string }> {
+    if (!email.includes('@')) {
+      return { sso: false };
+    }
+
+    const { company } = await companyService.validateDomain(email);
+    const provider = company ? await this.getProvider(company.id) : null;
+
+    if (!provider || !provider.enabled) {
+      return { sso: false };
+    }
+
+    const client = await this.getClient(provider);
+    const nonce = generators.nonce();
+    const codeVerifier = generators.codeVerifier();
+    const state = uuidv4();
+
+    const { error } = await supabaseAdmin.from('oidc_login_states').insert({
+      id: state,
+      provider_id: provider.id,
+      nonce,
+      code_verifier: codeVerifier,
+      expires_at: new Date(Date.now() + config.sso.stateTtlSeconds * 1000).toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to store login state: ${error.message}`);
+    }
+
+    const authorizationUrl = client.authorizationUrl({
+      scope: provider.scopes,
+      state,
+      nonce,
+      code_challenge: generators.codeChallenge(codeVerifier),
+      code_challenge_method: 'S256',
+      login_hint: email,
+    });
+
+    return { sso: true, authorizationUrl };
+  }
+
+  /**
+   * Finish an SSO login after the IdP redirected back
+   *
+   * @param state - `state` query parameter from the redirect
+   * @param code - `code` query parameter from the redirect
+   * @returns The signed-in user's ID and whether the account was just created
+   */
+  async completeLogin(
+    state: string,
+    code: string
+  ): Promise<{ success: boolean; userId?: string; provisioned?: boolean; error?: string }> {
+    try {
+      const { data: consumed } = await supabaseAdmin
+        .from('oidc_login_states')
+        .delete()
+        .eq('id', state)
+        .select('provider_id, nonce, code_verifier, expires_at');
+
+      const loginState = consumed?.[0];
+      if (!loginState || new Date(loginState.expires_at).getTime() < Date.now()) {
+        return { success: false, error: 'Invalid or expired login state' };
+      }
+
+      const { data: provider } = await supabaseAdmin
+        .from('oidc_providers')
+        .select('*')
+        .eq('id', loginState.provider_id)
+        .single();
+
+      if (!provider || !provider.enabled) {
+        return { success: false, error: 'SSO is not enabled for this company' };
+      }
+
+      // Exchanges the code and validates the ID token (signature, issuer, audience, nonce)
+      const client = await this.getClient(provider as OidcProvider);
+      const tokenSet = await client.callback(
+        config.sso.redirectUri,
+        { code, state },
+        { state, nonce: loginState.nonce, code_verifier: loginState.code_verifier }
+      );
+
+      let claims: Record<string, unknown> = { ...tokenSet.claims() };
+      if (client.issuer.metadata.userinfo_endpoint && tokenSet.access_token) {
+        claims = { ...(await client.userinfo(tokenSet.access_token)), ...claims };
+      }
+
+      return await this.resolveUser(provider as OidcProvider, claims);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'SSO login failed',
+      };
+    }
+  }
+
+  /**
+   * Hide the client secret from API responses
+   *
+   * @param provider - Stored provider
+   */
+  toPublic(provider: OidcProvider): Omit<OidcProvider, 'client_secret'> & { has_client_secret: boolean } {
+    const { client_secret, ...rest } = provider;
+    return { ...rest, has_client_secret: !!client_secret };
+  }
+
+  /**
+   * Map the IdP claims onto an identity and find or provision the user
+   */
+  private async resolveUser(
+    provider: OidcProvider,
+    claims: Record<string, unknown>
+  ): Promise<{ success: boolean; userId?: string; provisioned?: boolean; error?: string }> {
+    const mappings = provider.claim_mappings || {};
+    const email = String(claims[mappings.email || 'email'] || '');
+    const rawGroups = claims[mappings.groups || 'groups'];
+
+    return ssoProvisioningService.resolveUser(
+      {
+        email,
+        name: String(claims[mappings.name || 'name'] || email),
+        groups: Array.isArray(rawGroups) ? rawGroups.map(String) : [],
+        emailVerified: claims.email_verified === false ? false : undefined,
+      },
+      {
+        companyId: provider.company_id,
+        jitProvisioning: provider.jit_provisioning,
+        groupRoleMappings: provider.group_role_mappings,
+      }
+    );
+  }
+
+  /**
+   * Build an OIDC client for a provider
+   */
+  private async getClient(provider: OidcProvider): Promise<BaseClient> {
+    const issuer = await this.discover(provider.issuer);
+
+    return new issuer.Client({
+      client_id: provider.client_id,
+      client_secret: decrypt(provider.client_secret, this.encryptionKey),
+      redirect_uris: [config.sso.redirectUri],
+      response_types: ['code'],
+    });
+  }
+
+  /**
+   * Fetch (and cache) an issuer's discovery document
+   */
+  private async discover(issuerUrl: string): Promise<Issuer<BaseClient>> {
+    let issuer = this.issuers.get(issuerUrl);
+    if (!issuer) {
+      issuer = await Issuer.discover(issuerUrl);
+      this.issuers.set(issuerUrl, issuer);
+    }
+
+    return issuer;
+  }
+}
+
+export const oidcService = new OidcService();
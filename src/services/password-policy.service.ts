@@ -0,0 +1,303 @@
+/**
+ * @file Password policy service
+ * @module services/password-policy
+ *
+ * Per-company password rules: complexity, history, maximum age
+ */
+
+import bcrypt from 'bcrypt';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { PasswordPolicy, PasswordPolicyViolation } from '../types';
+import { contextCacheService } from './context-cache.service';
+
+/**
+ * Policy applied when a company has not overridden a setting
+ */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  min_length: 12,
+  require_uppercase: true,
+  require_lowercase: true,
+  require_number: true,
+  require_symbol: false,
+  history_depth: 5,
+  max_age_days: 0, // 0 = passwords never expire
+  disallow_email_local_part: true,
+};
+
+// Every history entry costs a bcrypt comparison, so depth is capped
+const MAX_HISTORY_DEPTH = 24;
+const MAX_PASSWORD_BYTES = 72; // bcrypt ignores anything past 72 UTF-8 bytes
+
+/**
+ * Password Policy Service
+ * Companies store only the settings they override in `companies.password_policy`.
+ */
+export class PasswordPolicyService {
+  /**
+   * Get the effective policy for a company
+   *
+   * @param companyId - Company ID (omit for the default policy, e.g. during signup)
+   */
+  async getPolicy(companyId?: string): Promise<PasswordPolicy> {
+    if (!companyId) {
+      return { ...DEFAULT_PASSWORD_POLICY };
+    }
+
+    const { data: company } = await supabaseAdmin
+      .from('companies')
+      .select('password_policy')
+      .eq('id', companyId)
+      .single();
+
+    return { ...DEFAULT_PASSWORD_POLICY, ...(company?.password_policy || {}) };
+  }
+
+  /**
+   * Update a company's policy
+   *
+   * @param companyId - Company ID
+   * @param updates - Settings to override
+   */
+  async updatePolicy(
+    companyId: string,
+    updates: Partial<PasswordPolicy>
+  ): Promise<{ success: boolean; policy?: PasswordPolicy; error?: string }> {
+    const invalid = this.validateSettings(updates);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const { data: company, error: fetchError } = await supabaseAdmin
+      .from('companies')
+      .select('password_policy')
+      .eq('id', companyId)
+      .single();
+
+    if (fetchError || !company) {
+      return { success: false, error: 'Company not found' };
+    }
+
+    const overrides = { ...(company.password_policy || {}), ...updates };
+
+    const { error } = await supabaseAdmin
+      .from('companies')
+      .update({ password_policy: overrides })
+      .eq('id', companyId);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    contextCacheService.forgetCompany(companyId);
+
+    return { success: true, policy: { ...DEFAULT_PASSWORD_POLICY, ...overrides } };
+  }
+
+  /**
+   * Check a candidate password against a company's policy
+   *
+   * @param password - Candidate password
+   * @param options.email - Email of the account (for the local-part rule)
+   * @param options.companyId - Company whose policy applies
+   * @param options.userId - Existing user (enables the history check)
+   * @returns Every rule the password breaks (empty if it is acceptable)
+   */
+  async checkPassword(
+    password: string,
+    options: { email: string; companyId?: string; userId?: string }
+  ): Promise<PasswordPolicyViolation[]> {
+    const policy = await this.getPolicy(options.companyId);
+    const violations = this.checkRules(password, options.email, policy);
+
+    if (violations.length === 0 && options.userId && policy.history_depth > 0) {
+      if (await this.isInHistory(options.userId, password, policy.history_depth)) {
+        violations.push({
+          field: 'password',
+          code: 'reused',
+          message: `Password must not match any of your last ${policy.history_depth} passwords`,
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Record a newly set password hash in the user's history
+   *
+   * @param userId - User ID
+   * @param passwordHash - bcrypt hash of the new password
+   */
+  async recordPassword(userId: string, passwordHash: string): Promise<void> {
+    await supabaseAdmin.from('password_history').insert({
+      id: uuidv4(),
+      user_id: userId,
+      password_hash: passwordHash,
+    });
+
+    // Trim entries no policy can reach
+    const { data: stale } = await supabaseAdmin
+      .from('password_history')
+      .select('id')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(MAX_HISTORY_DEPTH, MAX_HISTORY_DEPTH + 100);
+
+    if (stale && stale.length > 0) {
+      await supabaseAdmin
+        .from('password_history')
+        .delete()
+        .in(
+          'id',
+          stale.map((entry: { id: string }) => entry.id)
+        );
+    }
+  }
+
+  /**
+   * Check whether a user's password is older than their company allows
+   *
+   * @param user - User with `company_id` and `password_changed_at`
+   */
+  async isPasswordExpired(user: {
+    company_id: string;
+    password_changed_at?: Date | string | null;
+  }): Promise<boolean> {
+    const policy = await this.getPolicy(user.company_id);
+    if (!policy.max_age_days || !user.password_changed_at) {
+      return false;
+    }
+
+    const age = Date.now() - new Date(user.password_changed_at).getTime();
+    return age > policy.max_age_days * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Apply the complexity rules of a policy
+   */
+  private checkRules(
+    password: string,
+    email: string,
+    policy: PasswordPolicy
+  ): PasswordPolicyViolation[] {
+    const violations: PasswordPolicyViolation[] = [];
+    const violation = (code: string, message: string) =>
+      violations.push({ field: 'password', code, message });
+
+    if (password.length < policy.min_length) {
+      violation('min_length', `Password must be at least ${policy.min_length} characters`);
+    }
+    if (Buffer.byteLength(password, 'utf8') > MAX_PASSWORD_BYTES) {
+      violation(
+        'max_length',
+        `Password must be at most ${MAX_PASSWORD_BYTES} bytes (accented and other non-ASCII characters count as more than one)`
+      );
+    }
+    if (policy.require_uppercase && !/[A-Z]/.test(password)) {
+      violation('uppercase', 'Password must contain an uppercase letter');
+    }
+    if (policy.require_lowercase && !/[a-z]/.test(password)) {
+      violation('lowercase', 'Password must contain a lowercase letter');
+    }
+    if (policy.require_number && !/[0-9]/.test(password)) {
+      violation('number', 'Password must contain a number');
+    }
+    if (policy.require_symbol && !/[^A-Za-z0-9]/.test(password)) {
+      violation('symbol', 'Password must contain a symbol');
+    }
+
+    const localPart = email.split('@')[0].toLowerCase();
+    if (
+      policy.disallow_email_local_part &&
+      localPart.length >= 3 &&
+      password.toLowerCase().includes(localPart)
+    ) {
+      violation('contains_email', 'Password must not contain your email address');
+    }
+
+    return violations;
+  }
+
+  /**
+   * Compare a password with the user's current and most recent previous passwords
+   */
+  private async isInHistory(userId: string, password: string, depth: number): Promise<boolean> {
+    const [{ data: user }, { data: history }] = await Promise.all([
+      supabaseAdmin.from('users').select('password_hash').eq('id', userId).single(),
+      supabaseAdmin
+        .from('password_history')
+        .select('password_hash')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(depth),
+    ]);
+
+    const hashes = new Set<string>(
+      (history || []).map((entry: { password_hash: string }) => entry.password_hash)
+    );
+    if (user?.password_hash) {
+      hashes.add(user.password_hash);
+    }
+
+    for (const hash of hashes) {
+      if (await bcrypt.compare(password, hash)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Validate policy settings submitted by an admin
+   *
+   * @returns An error message, or null if the settings are valid
+   */
+  private validateSettings(updates: Partial<PasswordPolicy>): string | null {
+    const booleanKeys: (keyof PasswordPolicy)[] = [
+      'require_uppercase',
+      'require_lowercase',
+      'require_number',
+      'require_symbol',
+      'disallow_email_local_part',
+    ];
+    const allowedKeys = Object.keys(DEFAULT_PASSWORD_POLICY);
+
+    for (const [key, value] of Object.entries(updates)) {
+      if (!allowedKeys.includes(key)) {
+        return `Unknown password policy setting: ${key}`;
+      }
+      if (booleanKeys.includes(key as keyof PasswordPolicy) && typeof value !== 'boolean') {
+        return `${key} must be a boolean`;
+      }
+    }
+
+    if (
+      updates.min_length !== undefined &&
+      (!Number.isInteger(updates.min_length) ||
+        updates.min_length < 8 ||
+        updates.min_length > MAX_PASSWORD_BYTES)
+    ) {
+      return `min_length must be an integer between 8 and ${MAX_PASSWORD_BYTES}`;
+    }
+    if (
+      updates.history_depth !== undefined &&
+      (!Number.isInteger(updates.history_depth) ||
+        updates.history_depth < 0 ||
+        updates.history_depth > MAX_HISTORY_DEPTH)
+    ) {
+      return `history_depth must be an integer between 0 and ${MAX_HISTORY_DEPTH}`;
+    }
+    if (
+      updates.max_age_days !== undefined &&
+      (!Number.isInteger(updates.max_age_days) || updates.max_age_days < 0)
+    ) {
+      return 'max_age_days must be a non-negative integer (0 disables expiry)';
+    }
+
+    return null;
+  }
+}
+
+export const passwordPolicyService = new PasswordPolicyService();
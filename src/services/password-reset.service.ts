@@ -0,0 +1,101 @@
+/**
+ * @file Password reset token service
+ * @module services/password-reset
+ *
+ * Issues and consumes single-use, time-limited password reset tokens
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+
+/**
+ * Password Reset Service
+ * Tokens are opaque and stored as SHA-256 hashes. Requesting a new token
+ * invalidates any outstanding one, so only the latest emailed link works.
+ */
+export class PasswordResetService {
+  /**
+   * Hash a reset token for storage and lookup
+   *
+   * @param token - Plain reset token
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Issue a reset token for a user
+   *
+   * @param userId - User ID
+   */
+  async createToken(userId: string): Promise<{ token: string; expiresAt: Date }> {
+    const now = new Date();
+
+    // Invalidate earlier links
+    await supabaseAdmin
+      .from('password_reset_tokens')
+      .update({ used_at: now.toISOString() })
+      .eq('user_id', userId)
+      .is('used_at', null);
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(now.getTime() + config.passwordReset.tokenTtlMinutes * 60 * 1000);
+
+    const { error } = await supabaseAdmin.from('password_reset_tokens').insert({
+      id: uuidv4(),
+      user_id: userId,
+      token_hash: this.hashToken(token),
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to issue password reset token: ${error.message}`);
+    }
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Look up the user a reset token belongs to without consuming it
+   *
+   * @param token - Plain reset token from the emailed link
+   * @returns The user ID, or null if the token is unknown, used or expired
+   */
+  async findTokenUser(token: string): Promise<string | null> {
+    const { data: stored } = await supabaseAdmin
+      .from('password_reset_tokens')
+      .select('user_id')
+      .eq('token_hash', this.hashToken(token))
+      .is('used_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .single();
+
+    return stored?.user_id || null;
+  }
+
+  /**
+   * Consume a reset token
+   * The token is marked used in the same statement that checks it, so two
+   * concurrent requests cannot both succeed.
+   *
+   * @param token - Plain reset token from the emailed link
+   * @returns The ID of the user the token was issued to, or null if invalid
+   */
+  async consumeToken(token: string): Promise<string | null> {
+    const now = new Date().toISOString();
+
+    const { data: consumed } = await supabaseAdmin
+      .from('password_reset_tokens')
+      .update({ used_at: now })
+      .eq('token_hash', this.hashToken(token))
+      .is('used_at', null)
+      .gt('expires_at', now)
+      .select('user_id');
+
+    return consumed?.[0]?.user_id || null;
+  }
+}
+
+export const passwordResetService = new PasswordResetService();
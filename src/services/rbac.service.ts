@@ -8,6 +8,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import { supabaseAdmin } from '../config/database';
 import { Role, Permission, User } from '../types';
+import { contextCacheService } from './context-cache.service';
 
 /**
  * RBAC Service
@@ -82,6 +83,8 @@ export class RBACService {
 
       const { error } = await supabaseAdmin.from('role_permissions').insert(rolePermissions);
 
+      contextCacheService.forgetRole(roleId);
+
       if (error) {
         return { success: false, error: error.message };
       }
@@ -122,6 +125,8 @@ export class RBACService {
         return { success: false, error: error.message };
       }
 
+      contextCacheService.forgetUser(userId);
+
       return { success: true };
     } catch (error) {
       return {
@@ -152,6 +157,8 @@ export class RBACService {
         return { success: false, error: error.message };
       }
 
+      contextCacheService.forgetUser(userId);
+
       return { success: true };
     } catch (error) {
       return {
@@ -0,0 +1,171 @@
+/**
+ * @file Refresh token service
+ * @module services/refresh-token
+ *
+ * Issues opaque refresh tokens, rotates them on every use and detects reuse
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { RefreshToken } from '../types';
+import { sessionService } from './session.service';
+
+/**
+ * Refresh Token Service
+ * Tokens are stored as SHA-256 hashes and grouped into families. A family starts
+ * at login and every rotation adds a new member. Presenting an already-rotated
+ * token means it was copied, so the whole family is revoked.
+ */
+export class RefreshTokenService {
+  /**
+   * Generate a new opaque refresh token
+   */
+  private generateToken(): string {
+    return crypto.randomBytes(48).toString('base64url');
+  }
+
+  /**
+   * Hash a refresh token for storage and lookup
+   *
+   * @param token - Plain refresh token
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Issue a refresh token
+   *
+   * @param userId - User ID
+   * @param familyId - Token family to extend (a new family is started if omitted)
+   */
+  async issueToken(
+    userId: string,
+    familyId: string = uuidv4()
+  ): Promise<{ token: string; familyId: string; expiresAt: Date }> {
+    const token = this.generateToken();
+    const expiresAt = new Date(Date.now() + config.jwt.refreshExpiresInDays * 24 * 60 * 60 * 1000);
+
+    const { error } = await supabaseAdmin.from('refresh_tokens').insert({
+      id: uuidv4(),
+      user_id: userId,
+      family_id: familyId,
+      token_hash: this.hashToken(token),
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to issue refresh token: ${error.message}`);
+    }
+
+    return { token, familyId, expiresAt };
+  }
+
+  /**
+   * Rotate a refresh token
+   * The presented token is consumed and a new token in the same family is issued.
+   *
+   * @param token - Plain refresh token presented by the client
+   */
+  async rotateToken(token: string): Promise<{
+    success: boolean;
+    userId?: string;
+    familyId?: string;
+    refreshToken?: string;
+    expiresAt?: Date;
+    reuseDetected?: boolean;
+    error?: string;
+  }> {
+    const { data: stored, error } = await supabaseAdmin
+      .from('refresh_tokens')
+      .select('*')
+      .eq('token_hash', this.hashToken(token))
+      .single();
+
+    if (error || !stored) {
+      return { success: false, error: 'Invalid refresh token' };
+    }
+
+    const record = stored as RefreshToken;
+
+    if (record.revoked_at) {
+      return { success: false, error: 'Refresh token has been revoked' };
+    }
+
+    if (record.rotated_at) {
+      await this.revokeReusedFamily(record.family_id);
+      return { success: false, reuseDetected: true, error: 'Refresh token reuse detected' };
+    }
+
+    if (new Date(record.expires_at).getTime() < Date.now()) {
+      return { success: false, error: 'Refresh token has expired' };
+    }
+
+    // Consume the token; only one concurrent caller can win this update
+    const { data: consumed } = await supabaseAdmin
+      .from('refresh_tokens')
+      .update({ rotated_at: new Date().toISOString() })
+      .eq('id', record.id)
+      .is('rotated_at', null)
+      .select('id');
+
+    if (!consumed || consumed.length === 0) {
+      await this.revokeReusedFamily(record.family_id);
+      return { success: false, reuseDetected: true, error: 'Refresh token reuse detected' };
+    }
+
+    const issued = await this.issueToken(record.user_id, record.family_id);
+
+    return {
+      success: true,
+      userId: record.user_id,
+      familyId: record.family_id,
+      refreshToken: issued.token,
+      expiresAt: issued.expiresAt,
+    };
+  }
+
+  /**
+   * Revoke every token in a family
+   *
+   * @param familyId - Token family ID
+   */
+  async revokeFamily(familyId: string): Promise<void> {
+    await supabaseAdmin
+      .from('refresh_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('family_id', familyId)
+      .is('revoked_at', null);
+  }
+
+  /**
+   * Revoke every token in several families at once
+   *
+   * @param familyIds - Token family IDs
+   */
+  async revokeFamilies(familyIds: string[]): Promise<void> {
+    if (familyIds.length === 0) {
+      return;
+    }
+
+    await supabaseAdmin
+      .from('refresh_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .in('family_id', familyIds)
+      .is('revoked_at', null);
+  }
+
+  /**
+   * Revoke a family whose token was replayed, along with the session it belongs to
+   * (a family ID is its session's `jti`), so access tokens already issued from it
+   * stop working too
+   */
+  private async revokeReusedFamily(familyId: string): Promise<void> {
+    await this.revokeFamily(familyId);
+    await sessionService.revokeSession(familyId, 'refresh_token_reuse');
+  }
+}
+
+export const refreshTokenService = new RefreshTokenService();
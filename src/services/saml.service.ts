@@ -0,0 +1,696 @@
+/**
+ * @file SAML 2.0 service provider
+ * @module services/saml
+ *
+ * Company-scoped SAML login (SP- and IdP-initiated), SP metadata, IdP metadata
+ * import and single logout
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { DOMParser } from '@xmldom/xmldom';
+import {
+  CacheItem,
+  CacheProvider,
+  Profile,
+  SAML,
+  ValidateInResponseTo,
+  generateServiceProviderMetadata,
+} from '@node-saml/node-saml';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { SamlAttributeMappings, SamlProvider } from '../types';
+import { companyService } from './company.service';
+import { sessionService } from './session.service';
+import { SsoIdentity, ssoProvisioningService } from './sso-provisioning.service';
+
+const METADATA_NS = 'urn:oasis:names:tc:SAML:2.0:metadata';
+const DSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const REDIRECT_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect';
+
+// Attribute names tried when a provider has no explicit mapping
+const DEFAULT_ATTRIBUTES: Record<keyof SamlAttributeMappings, string[]> = {
+  email: [
+    'email',
+    'mail',
+    'urn:oid:0.9.2342.19200300.100.1.3',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+  ],
+  name: [
+    'displayName',
+    'name',
+    'urn:oid:2.16.840.1.113730.3.1.241',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name',
+  ],
+  groups: ['groups', 'memberOf', 'http://schemas.microsoft.com/ws/2008/06/identity/claims/groups'],
+};
+
+// The ACS hands the browser to the dashboard with a code that must be redeemed quickly
+const LOGIN_CODE_TTL_SECONDS = 60;
+
+/**
+ * Provider settings an org admin can submit
+ * Fields given explicitly override the ones read from `metadataXml`.
+ */
+export interface SamlProviderInput {
+  metadataXml?: string;
+  idpEntityId?: string;
+  idpSsoUrl?: string;
+  idpSloUrl?: string | null;
+  idpCertificates?: string[];
+  attributeMappings?: SamlAttributeMappings;
+  groupRoleMappings?: Record<string, string>;
+  jitProvisioning?: boolean;
+  allowIdpInitiated?: boolean;
+  enabled?: boolean;
+}
+
+/**
+ * SAML login waiting to be redeemed by the dashboard
+ */
+export interface SamlLogin {
+  userId: string;
+  provisioned: boolean;
+  providerId: string;
+  nameId: string;
+  nameIdFormat?: string | null;
+  sessionIndex?: string | null;
+}
+
+/**
+ * node-saml cache backed by `saml_request_cache`, so that any API instance can
+ * validate the InResponseTo of a request issued by another
+ */
+class SamlRequestCache implements CacheProvider {
+  async saveAsync(key: string, value: string): Promise<CacheItem | null> {
+    await this.prune();
+
+    const { error } = await supabaseAdmin
+      .from('saml_request_cache')
+      .upsert({ key: `request:${key}`, value, created_at: new Date().toISOString() });
+
+    return error ? null : { value, createdAt: Date.now() };
+  }
+
+  async getAsync(key: string): Promise<string | null> {
+    const { data } = await supabaseAdmin
+      .from('saml_request_cache')
+      .select('value')
+      .eq('key', `request:${key}`)
+      .gt('created_at', this.cutoff())
+      .single();
+
+    return data?.value ?? null;
+  }
+
+  async removeAsync(key: string | null): Promise<string | null> {
+    if (!key) {
+      return null;
+    }
+
+    const { data } = await supabaseAdmin
+      .from('saml_request_cache')
+      .delete()
+      .eq('key', `request:${key}`)
+      .select('value');
+
+    return data?.[0]?.value ?? null;
+  }
+
+  /**
+   * Record an assertion ID; returns false if it has been seen before
+   */
+  async markAssertionUsed(assertionId: string): Promise<boolean> {
+    const { error } = await supabaseAdmin
+      .from('saml_request_cache')
+      .insert({ key: `assertion:${assertionId}`, value: new Date().toISOString() });
+
+    return !error;
+  }
+
+  /**
+   * Drop entries that can no longer be used (assertions expire after the same TTL)
+   */
+  private async prune(): Promise<void> {
+    await supabaseAdmin.from('saml_request_cache').delete().lt('created_at', this.cutoff(2));
+  }
+
+  private cutoff(multiplier = 1): string {
+    return new Date(Date.now() - config.saml.requestTtlSeconds * 1000 * multiplier).toISOString();
+  }
+}
+
+/**
+ * SAML Service
+ * Each company gets its own SP entity (`{SAML_SP_BASE_URL}/{companyId}/metadata`)
+ * and can import one IdP. Assertions must be signed by an imported IdP certificate;
+ * users are provisioned by the SSO provisioning service.
+ */
+export class SamlService {
+  private readonly cache = new SamlRequestCache();
+
+  /**
+   * Get a company's provider
+   *
+   * @param companyId - Company ID
+   */
+  async getProvider(companyId: string): Promise<SamlProvider | null> {
+    const { data: provider, error } = await supabaseAdmin
+      .from('saml_providers')
+      .select('*')
+      .eq('company_id', companyId)
+      .single();
+
+    if (error || !provider) {
+      return null;
+    }
+
+    return provider as SamlProvider;
+  }
+
+  /**
+   * Create or update a company's provider
+   *
+   * @param companyId - Company ID
+   * @param input - IdP metadata and/or explicit settings
+   */
+  async saveProvider(
+    companyId: string,
+    input: SamlProviderInput
+  ): Promise<{ success: boolean; provider?: SamlProvider; error?: string }> {
+    try {
+      const existing = await this.getProvider(companyId);
+
+      let metadata: ReturnType<SamlService['parseIdpMetadata']> = {};
+      if (input.metadataXml) {
+        metadata = this.parseIdpMetadata(input.metadataXml);
+        if (metadata.error) {
+          return { success: false, error: metadata.error };
+        }
+      }
+
+      const record = {
+        company_id: companyId,
+        idp_entity_id: input.idpEntityId ?? metadata.entityId ?? existing?.idp_entity_id,
+        idp_sso_url: input.idpSsoUrl ?? metadata.ssoUrl ?? existing?.idp_sso_url,
+        idp_slo_url:
+          input.idpSloUrl !== undefined
+            ? input.idpSloUrl
+            : (metadata.sloUrl ?? existing?.idp_slo_url ?? null),
+        idp_certificates: (
+          input.idpCertificates ??
+          metadata.certificates ??
+          existing?.idp_certificates ??
+          []
+        ).map((certificate) => this.normalizeCertificate(certificate)),
+        attribute_mappings: input.attributeMappings ?? existing?.attribute_mappings ?? {},
+        group_role_mappings: input.groupRoleMappings ?? existing?.group_role_mappings ?? {},
+        jit_provisioning: input.jitProvisioning ?? existing?.jit_provisioning ?? true,
+        allow_idp_initiated: input.allowIdpInitiated ?? existing?.allow_idp_initiated ?? true,
+        enabled: input.enabled ?? existing?.enabled ?? true,
+        updated_at: new Date().toISOString(),
+      };
+
+      if (!record.idp_entity_id || !record.idp_sso_url || record.idp_certificates.length === 0) {
+        return {
+          success: false,
+          error: 'IdP entity ID, SSO URL and at least one signing certificate are required',
+        };
+      }
+
+      for (const certificate of record.idp_certificates) {
+        try {
+          new crypto.X509Certificate(this.toPem(certificate));
+        } catch (error) {
+          return { success: false, error: 'Invalid IdP signing certificate' };
+        }
+      }
+
+      const { data: provider, error } = existing
+        ? await supabaseAdmin
+            .from('saml_providers')
+            .update(record)
+            .eq('id', existing.id)
+            .select()
+            .single()
+        : await supabaseAdmin
+            .from('saml_providers')
+            .insert({ id: uuidv4(), ...record })
+            .select()
+            .single();
+
+      if (error || !provider) {
+        return { success: false, error: error?.message || 'Failed to save provider' };
+      }
+
+      return { success: true, provider: provider as SamlProvider };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save provider',
+      };
+    }
+  }
+
+  /**
+   * Remove a company's provider
+   *
+   * @param companyId - Company ID
+   */
+  async deleteProvider(companyId: string): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await supabaseAdmin
+      .from('saml_providers')
+      .delete()
+      .eq('company_id', companyId)
+      .select('id');
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'No SAML provider configured' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Generate the SP metadata a company hands to its IdP
+   *
+   * @param companyId - Company ID
+   * @returns Metadata XML, or null if the company does not exist
+   */
+  async getServiceProviderMetadata(companyId: string): Promise<string | null> {
+    const company = await companyService.getCompanyById(companyId);
+    if (!company) {
+      return null;
+    }
+
+    const urls = this.serviceProviderUrls(companyId);
+
+    return generateServiceProviderMetadata({
+      issuer: urls.entityId,
+      callbackUrl: urls.acs,
+      logoutCallbackUrl: urls.slo,
+      wantAssertionsSigned: true,
+      publicCerts: config.saml.certificate || null,
+    });
+  }
+
+  /**
+   * Start an SP-initiated login for an email address
+   *
+   * @param email - Email the user typed on the login page
+   * @returns The IdP URL to send the browser to, or sso: false if the company has no provider
+   */
+  async startLogin(email: string): Promise<{ sso: boolean; authorizationUrl?: string }> {
+    if (!email.includes('@')) {
+      return { sso: false };
+    }
+
+    const { company } = await companyService.validateDomain(email);
+    const provider = company ? await this.getProvider(company.id) : null;
+
+    if (!provider || !provider.enabled) {
+      return { sso: false };
+    }
+
+    const authorizationUrl = await this.createSaml(provider).getAuthorizeUrlAsync('', undefined, {
+      additionalParams: { login_hint: email },
+    });
+
+    return { sso: true, authorizationUrl };
+  }
+
+  /**
+   * Validate a SAML response posted to a company's ACS and stage the login
+   * Works for both SP-initiated and IdP-initiated (unsolicited) responses.
+   *
+   * @param companyId - Company the ACS URL belongs to
+   * @param body - Form fields posted by the browser (SAMLResponse, RelayState)
+   * @returns A single-use code the dashboard exchanges for tokens
+   */
+  async handleAssertion(
+    companyId: string,
+    body: Record<string, string>
+  ): Promise<{ success: boolean; code?: string; error?: string }> {
+    try {
+      const provider = await this.getProvider(companyId);
+      if (!provider || !provider.enabled) {
+        return { success: false, error: 'SAML is not enabled for this company' };
+      }
+
+      // Checks signatures, issuer, audience, timestamps and InResponseTo
+      const { profile } = await this.createSaml(provider).validatePostResponseAsync(body);
+      if (!profile) {
+        return { success: false, error: 'The SAML response contains no assertion' };
+      }
+
+      // Each AuthnRequest may be answered once
+      if (profile.inResponseTo) {
+        await this.cache.removeAsync(profile.inResponseTo as string);
+      }
+
+      const assertion = profile.getAssertion?.() as { Assertion?: { $?: { ID?: string } } };
+      const assertionId = assertion?.Assertion?.$?.ID;
+      if (!assertionId || !(await this.cache.markAssertionUsed(assertionId))) {
+        return { success: false, error: 'This SAML assertion has already been used' };
+      }
+
+      const result = await ssoProvisioningService.resolveUser(this.mapProfile(provider, profile), {
+        companyId: provider.company_id,
+        jitProvisioning: provider.jit_provisioning,
+        groupRoleMappings: provider.group_role_mappings,
+      });
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      const code = crypto.randomBytes(32).toString('base64url');
+      const { error } = await supabaseAdmin.from('saml_login_codes').insert({
+        id: uuidv4(),
+        code_hash: this.hashCode(code),
+        provider_id: provider.id,
+        user_id: result.userId,
+        provisioned: result.provisioned,
+        name_id: profile.nameID,
+        name_id_format: profile.nameIDFormat || null,
+        session_index: profile.sessionIndex || null,
+        expires_at: new Date(Date.now() + LOGIN_CODE_TTL_SECONDS * 1000).toISOString(),
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, code };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'SAML login failed',
+      };
+    }
+  }
+
+  /**
+   * Redeem a login code issued by the ACS
+   * The code is marked used in the same statement that checks it.
+   *
+   * @param code - Code from the dashboard redirect
+   */
+  async consumeLoginCode(code: string): Promise<SamlLogin | null> {
+    const now = new Date().toISOString();
+
+    const { data: consumed } = await supabaseAdmin
+      .from('saml_login_codes')
+      .update({ used_at: now })
+      .eq('code_hash', this.hashCode(code))
+      .is('used_at', null)
+      .gt('expires_at', now)
+      .select('user_id, provisioned, provider_id, name_id, name_id_format, session_index');
+
+    const login = consumed?.[0];
+    if (!login) {
+      return null;
+    }
+
+    return {
+      userId: login.user_id,
+      provisioned: login.provisioned,
+      providerId: login.provider_id,
+      nameId: login.name_id,
+      nameIdFormat: login.name_id_format,
+      sessionIndex: login.session_index,
+    };
+  }
+
+  /**
+   * Remember the IdP session behind a NEEMIFY session, for single logout
+   *
+   * @param sessionId - Session created for the SAML login
+   * @param login - Redeemed SAML login
+   */
+  async bindSession(sessionId: string, login: SamlLogin): Promise<void> {
+    await supabaseAdmin.from('saml_sessions').insert({
+      session_id: sessionId,
+      provider_id: login.providerId,
+      name_id: login.nameId,
+      name_id_format: login.nameIdFormat,
+      session_index: login.sessionIndex,
+    });
+  }
+
+  /**
+   * Build the IdP logout URL for a session that started with SAML
+   *
+   * @param sessionId - Session being logged out
+   * @returns The URL to send the browser to, or null if the IdP need not be told
+   */
+  async getLogoutUrl(sessionId: string): Promise<string | null> {
+    const { data: samlSession } = await supabaseAdmin
+      .from('saml_sessions')
+      .select('*, saml_providers(*)')
+      .eq('session_id', sessionId)
+      .single();
+
+    const provider = samlSession?.saml_providers as SamlProvider | undefined;
+    if (!samlSession || !provider?.enabled || !provider.idp_slo_url) {
+      return null;
+    }
+
+    return this.createSaml(provider).getLogoutUrlAsync(
+      {
+        issuer: provider.idp_entity_id,
+        nameID: samlSession.name_id,
+        nameIDFormat: samlSession.name_id_format,
+        sessionIndex: samlSession.session_index || undefined,
+      },
+      '',
+      {}
+    );
+  }
+
+  /**
+   * Handle a message sent to a company's single logout endpoint
+   * A LogoutRequest from the IdP ends the matching sessions; a LogoutResponse
+   * completes a logout we started.
+   *
+   * @param companyId - Company the SLO URL belongs to
+   * @param message - Query (redirect binding) or form fields (POST binding)
+   * @param originalQuery - Raw query string, needed to check redirect-binding signatures
+   * @returns Where to send the browser next
+   */
+  async handleLogout(
+    companyId: string,
+    message: Record<string, string>,
+    originalQuery?: string
+  ): Promise<{ success: boolean; redirectUrl?: string; revokedSessions?: number; error?: string }> {
+    try {
+      const provider = await this.getProvider(companyId);
+      if (!provider) {
+        return { success: false, error: 'No SAML provider configured' };
+      }
+
+      const saml = this.createSaml(provider);
+      const isRequest = !!message.SAMLRequest;
+
+      // node-saml accepts unsigned redirect-binding requests; an unsigned request
+      // would let anyone end another user's sessions
+      if (isRequest && originalQuery !== undefined && !message.Signature) {
+        return { success: false, error: 'Logout requests must be signed' };
+      }
+
+      let profile: Profile | null;
+      if (originalQuery !== undefined) {
+        ({ profile } = await saml.validateRedirectAsync(message, originalQuery));
+      } else if (isRequest) {
+        ({ profile } = await saml.validatePostRequestAsync(message));
+      } else {
+        ({ profile } = await saml.validatePostResponseAsync(message));
+      }
+
+      if (!isRequest || !profile) {
+        return { success: true, redirectUrl: `${config.web.url}/login` };
+      }
+
+      const revokedSessions = await this.revokeIdpSessions(provider, profile);
+      const redirectUrl = await saml.getLogoutResponseUrlAsync(
+        profile,
+        message.RelayState || '',
+        {},
+        true
+      );
+
+      return { success: true, redirectUrl, revokedSessions };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'SAML logout failed',
+      };
+    }
+  }
+
+  /**
+   * Public URLs of a company's SP endpoints
+   *
+   * @param companyId - Company ID
+   */
+  serviceProviderUrls(companyId: string): { entityId: string; acs: string; slo: string } {
+    const base = `${config.saml.baseUrl}/${companyId}`;
+    return { entityId: `${base}/metadata`, acs: `${base}/acs`, slo: `${base}/slo` };
+  }
+
+  /**
+   * End the NEEMIFY sessions opened through the IdP session named in a LogoutRequest
+   */
+  private async revokeIdpSessions(provider: SamlProvider, profile: Profile): Promise<number> {
+    let query = supabaseAdmin
+      .from('saml_sessions')
+      .select('session_id')
+      .eq('provider_id', provider.id)
+      .eq('name_id', profile.nameID);
+
+    if (profile.sessionIndex) {
+      query = query.eq('session_index', profile.sessionIndex);
+    }
+
+    const { data: samlSessions } = await query;
+
+    let revoked = 0;
+    for (const samlSession of samlSessions || []) {
+      revoked += await sessionService.revokeSession(samlSession.session_id, 'saml_logout');
+    }
+
+    return revoked;
+  }
+
+  /**
+   * Map assertion attributes onto an SSO identity
+   */
+  private mapProfile(provider: SamlProvider, profile: Profile): SsoIdentity {
+    const attributes = (profile.attributes || {}) as Record<string, unknown>;
+    const mappings = provider.attribute_mappings || {};
+
+    const lookup = (field: keyof SamlAttributeMappings): unknown => {
+      const names = mappings[field] ? [mappings[field]!] : DEFAULT_ATTRIBUTES[field];
+      const name = names.find((candidate) => attributes[candidate] !== undefined);
+      return name ? attributes[name] : undefined;
+    };
+    const first = (value: unknown): string | undefined =>
+      Array.isArray(value) ? value[0] : (value as string | undefined);
+
+    // Fall back to the NameID when the IdP identifies users by email address
+    const email =
+      first(lookup('email')) || (profile.nameIDFormat?.endsWith(':emailAddress') ? profile.nameID : '');
+    const groups = lookup('groups');
+
+    return {
+      email: email || '',
+      name: first(lookup('name')),
+      groups: Array.isArray(groups) ? groups.map(String) : groups ? [String(groups)] : [],
+    };
+  }
+
+  /**
+   * Configure node-saml for a company's provider
+   */
+  private createSaml(provider: SamlProvider): SAML {
+    const urls = this.serviceProviderUrls(provider.company_id);
+
+    return new SAML({
+      issuer: urls.entityId,
+      audience: urls.entityId,
+      callbackUrl: urls.acs,
+      logoutCallbackUrl: urls.slo,
+      entryPoint: provider.idp_sso_url,
+      logoutUrl: provider.idp_slo_url || undefined,
+      idpIssuer: provider.idp_entity_id,
+      idpCert: provider.idp_certificates,
+      privateKey: config.saml.privateKey || undefined,
+      publicCert: config.saml.certificate || undefined,
+      signatureAlgorithm: 'sha256',
+      wantAssertionsSigned: true,
+      wantAuthnResponseSigned: false,
+      validateInResponseTo: provider.allow_idp_initiated
+        ? ValidateInResponseTo.ifPresent
+        : ValidateInResponseTo.always,
+      requestIdExpirationPeriodMs: config.saml.requestTtlSeconds * 1000,
+      maxAssertionAgeMs: config.saml.requestTtlSeconds * 1000,
+      acceptedClockSkewMs: 30 * 1000,
+      cacheProvider: this.cache,
+    });
+  }
+
+  /**
+   * Read the entity ID, endpoints and signing certificates from IdP metadata
+   */
+  private parseIdpMetadata(xml: string): {
+    entityId?: string;
+    ssoUrl?: string;
+    sloUrl?: string;
+    certificates?: string[];
+    error?: string;
+  } {
+    let parseError: string | undefined;
+    const doc = new DOMParser({
+      errorHandler: {
+        warning: () => undefined,
+        error: (message: string) => (parseError = message),
+        fatalError: (message: string) => (parseError = message),
+      },
+    }).parseFromString(xml, 'text/xml');
+
+    if (parseError || !doc) {
+      return { error: 'IdP metadata is not valid XML' };
+    }
+
+    const entity = doc.getElementsByTagNameNS(METADATA_NS, 'EntityDescriptor')[0];
+    const idp = entity?.getElementsByTagNameNS(METADATA_NS, 'IDPSSODescriptor')[0];
+    if (!idp) {
+      return { error: 'IdP metadata has no IDPSSODescriptor' };
+    }
+
+    const redirectLocation = (tag: string): string | undefined =>
+      Array.from(idp.getElementsByTagNameNS(METADATA_NS, tag))
+        .find((endpoint) => endpoint.getAttribute('Binding') === REDIRECT_BINDING)
+        ?.getAttribute('Location') || undefined;
+
+    const certificates = Array.from(idp.getElementsByTagNameNS(METADATA_NS, 'KeyDescriptor'))
+      .filter((key) => !key.getAttribute('use') || key.getAttribute('use') === 'signing')
+      .flatMap((key) => Array.from(key.getElementsByTagNameNS(DSIG_NS, 'X509Certificate')))
+      .map((certificate) => (certificate.textContent || '').replace(/\s+/g, ''))
+      .filter(Boolean);
+
+    const ssoUrl = redirectLocation('SingleSignOnService');
+    if (!ssoUrl) {
+      return { error: 'IdP metadata has no HTTP-Redirect SingleSignOnService' };
+    }
+
+    return {
+      entityId: entity.getAttribute('entityID') || undefined,
+      ssoUrl,
+      sloUrl: redirectLocation('SingleLogoutService'),
+      certificates,
+    };
+  }
+
+  /**
+   * Store certificates as bare base64 (no PEM armour or whitespace)
+   */
+  private normalizeCertificate(certificate: string): string {
+    return certificate.replace(/-----(BEGIN|END) CERTIFICATE-----/g, '').replace(/\s+/g, '');
+  }
+
+  private toPem(certificate: string): string {
+    const body = certificate.match(/.{1,64}/g)?.join('\n');
+    return `-----BEGIN CERTIFICATE-----\n${body}\n-----END CERTIFICATE-----\n`;
+  }
+
+  private hashCode(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+  }
+}
+
+export const samlService = new SamlService();
@@ -0,0 +1,908 @@
+/**
+ * @file SCIM 2.0 provisioning service
+ * @module services/scim
+ *
+ * Lets a company's IdP manage its users and groups (RFC 7643/7644). Users map onto
+ * NEEMIFY users of that company and groups onto its RBAC roles.
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { Company, Role, ScimToken, User } from '../types';
+import { userService } from './user.service';
+import { rbacService } from './rbac.service';
+import { companyService } from './company.service';
+import { contextCacheService } from './context-cache.service';
+import {
+  applyPatch,
+  getAttribute,
+  matchesFilter,
+  parseFilter,
+  projectAttributes,
+  ScimFilter,
+  ScimPatchOperation,
+  ScimResource,
+  SCIM_SCHEMAS,
+} from '../utils/scim';
+
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * List query parameters (RFC 7644 section 3.4.2)
+ */
+export interface ScimListQuery {
+  filter?: string;
+  startIndex?: number;
+  count?: number;
+  attributes?: string;
+  excludedAttributes?: string;
+}
+
+/**
+ * Outcome of a SCIM operation; failures carry the HTTP status and SCIM error type
+ */
+export interface ScimResult {
+  success: boolean;
+  resource?: ScimResource;
+  status?: number;
+  scimType?: string;
+  error?: string;
+}
+
+/**
+ * User attributes read from a SCIM User resource
+ */
+interface ScimUserChanges {
+  email?: string;
+  fullName?: string;
+  externalId?: string | null;
+  active?: boolean;
+  password?: string;
+}
+
+type ScimUserRecord = Pick<User, 'id' | 'email' | 'full_name' | 'company_id' | 'is_super_user' | 'created_at'> & {
+  is_active?: boolean;
+  is_service_account?: boolean;
+  scim_external_id?: string | null;
+};
+
+type ScimRole = Role & { scim_external_id?: string | null };
+
+/**
+ * SCIM Service
+ * Deprovisioning deactivates users instead of deleting them. Super users and service
+ * accounts are never visible to SCIM clients. Filters are evaluated in memory over
+ * the company's users and roles.
+ */
+export class ScimService {
+  /**
+   * Hash a provisioning token for storage and lookup
+   *
+   * @param token - Plain bearer token
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Issue a provisioning token for a company
+   * The plain token is only returned here.
+   *
+   * @param companyId - Company ID
+   * @param name - Label for the token, e.g. the IdP it is configured in
+   * @param createdBy - Admin creating the token
+   */
+  async createToken(
+    companyId: string,
+    name: string,
+    createdBy: string
+  ): Promise<{ success: boolean; token?: string; scimToken?: Omit<ScimToken, 'token_hash'>; error?: string }> {
+    const token = `scim_${crypto.randomBytes(32).toString('base64url')}`;
+
+    const { data, error } = await supabaseAdmin
+      .from('scim_tokens')
+      .insert({
+        id: uuidv4(),
+        company_id: companyId,
+        name,
+        token_hash: this.hashToken(token),
+        created_by: createdBy,
+      })
+      .select('id, company_id, name, created_by, last_used_at, revoked_at, created_at')
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, token, scimToken: data };
+  }
+
+  /**
+   * List a company's provisioning tokens (without their hashes)
+   *
+   * @param companyId - Company ID
+   */
+  async listTokens(companyId: string): Promise<Omit<ScimToken, 'token_hash'>[]> {
+    const { data, error } = await supabaseAdmin
+      .from('scim_tokens')
+      .select('id, company_id, name, created_by, last_used_at, revoked_at, created_at')
+      .eq('company_id', companyId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Revoke a provisioning token
+   *
+   * @param companyId - Company the token belongs to
+   * @param tokenId - Token ID
+   */
+  async revokeToken(companyId: string, tokenId: string): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await supabaseAdmin
+      .from('scim_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', tokenId)
+      .eq('company_id', companyId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Token not found' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Resolve a bearer token to its company
+   *
+   * @param token - Plain bearer token
+   */
+  async verifyToken(token: string): Promise<{ company: Company; tokenId: string } | null> {
+    const { data: scimToken } = await supabaseAdmin
+      .from('scim_tokens')
+      .select('id, company_id')
+      .eq('token_hash', this.hashToken(token))
+      .is('revoked_at', null)
+      .single();
+
+    if (!scimToken) {
+      return null;
+    }
+
+    const company = await companyService.getCompanyById(scimToken.company_id);
+    if (!company) {
+      return null;
+    }
+
+    await supabaseAdmin
+      .from('scim_tokens')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', scimToken.id);
+
+    return { company, tokenId: scimToken.id };
+  }
+
+  /**
+   * List the company's users
+   *
+   * @param company - Company the token belongs to
+   * @param query - Filter, pagination and attribute selection
+   */
+  async listUsers(company: Company, query: ScimListQuery): Promise<ScimResult> {
+    const users = (await userService.getAllUsers({ companyId: company.id })).filter(
+      (user) => !user.is_super_user
+    ) as ScimUserRecord[];
+    const groups = await this.getGroupsByUser(company.id);
+
+    return this.toListResponse(
+      users.map((user) => this.toScimUser(user, groups.get(user.id) || [])),
+      query
+    );
+  }
+
+  /**
+   * Get one of the company's users
+   *
+   * @param company - Company the token belongs to
+   * @param userId - User ID
+   */
+  async getUser(company: Company, userId: string): Promise<ScimResult> {
+    const user = await this.findUser(company, userId);
+    if (!user) {
+      return this.notFound('User', userId);
+    }
+
+    const groups = await this.getGroupsByUser(company.id, userId);
+    return { success: true, resource: this.toScimUser(user, groups.get(user.id) || []) };
+  }
+
+  /**
+   * Provision a user
+   * Without a password the user can only sign in through SSO or a password reset.
+   *
+   * @param company - Company the token belongs to
+   * @param resource - SCIM User resource
+   */
+  async createUser(company: Company, resource: ScimResource): Promise<ScimResult> {
+    const changes = this.readUser(resource);
+
+    if (!changes.email) {
+      return this.invalidValue('userName is required');
+    }
+
+    const emailError = await this.checkEmail(company, changes.email);
+    if (emailError) {
+      return emailError;
+    }
+
+    const result = await userService.createUser({
+      email: changes.email,
+      password: changes.password,
+      fullName: changes.fullName || changes.email,
+      companyId: company.id,
+      scimExternalId: changes.externalId || undefined,
+    });
+
+    if (!result.success) {
+      return this.invalidValue(result.error || 'Failed to create user');
+    }
+
+    if (changes.active === false) {
+      await userService.setUserActive(result.userId!, false);
+    }
+
+    return this.getUser(company, result.userId!);
+  }
+
+  /**
+   * Replace a user's attributes (PUT)
+   *
+   * @param company - Company the token belongs to
+   * @param userId - User ID
+   * @param resource - Full SCIM User resource
+   */
+  async replaceUser(company: Company, userId: string, resource: ScimResource): Promise<ScimResult> {
+    const user = await this.findUser(company, userId);
+    if (!user) {
+      return this.notFound('User', userId);
+    }
+
+    const changes = this.readUser(resource);
+    if (!changes.email) {
+      return this.invalidValue('userName is required');
+    }
+
+    return this.saveUser(company, user, { ...changes, externalId: changes.externalId ?? null });
+  }
+
+  /**
+   * Apply PATCH operations to a user
+   *
+   * @param company - Company the token belongs to
+   * @param userId - User ID
+   * @param operations - PatchOp operations
+   */
+  async patchUser(company: Company, userId: string, operations: ScimPatchOperation[]): Promise<ScimResult> {
+    const current = await this.getUser(company, userId);
+    if (!current.success) {
+      return current;
+    }
+
+    const patched = applyPatch(current.resource!, operations);
+    if (!patched.success) {
+      return { success: false, status: 400, scimType: patched.scimType, error: patched.error };
+    }
+
+    const user = (await this.findUser(company, userId))!;
+    return this.saveUser(company, user, this.readUser(patched.resource!, current.resource));
+  }
+
+  /**
+   * Deprovision a user (DELETE); the account is deactivated, not deleted
+   *
+   * @param company - Company the token belongs to
+   * @param userId - User ID
+   */
+  async deactivateUser(company: Company, userId: string): Promise<ScimResult> {
+    const user = await this.findUser(company, userId);
+    if (!user) {
+      return this.notFound('User', userId);
+    }
+
+    const result = await userService.setUserActive(user.id, false);
+    if (!result.success) {
+      return this.invalidValue(result.error || 'Failed to deactivate user');
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * List the company's groups (roles)
+   *
+   * @param company - Company the token belongs to
+   * @param query - Filter, pagination and attribute selection
+   */
+  async listGroups(company: Company, query: ScimListQuery): Promise<ScimResult> {
+    const roles = (await rbacService.getCompanyRoles(company.id)) as ScimRole[];
+    const members = await this.getMembersByRole(company.id);
+
+    return this.toListResponse(
+      roles.map((role) => this.toScimGroup(role, members.get(role.id) || [])),
+      query
+    );
+  }
+
+  /**
+   * Get one of the company's groups
+   *
+   * @param company - Company the token belongs to
+   * @param groupId - Role ID
+   */
+  async getGroup(company: Company, groupId: string): Promise<ScimResult> {
+    const role = await this.findRole(company, groupId);
+    if (!role) {
+      return this.notFound('Group', groupId);
+    }
+
+    const members = await this.getMembersByRole(company.id, role.id);
+    return { success: true, resource: this.toScimGroup(role, members.get(role.id) || []) };
+  }
+
+  /**
+   * Create a group as a new role without permissions
+   *
+   * @param company - Company the token belongs to
+   * @param resource - SCIM Group resource
+   */
+  async createGroup(company: Company, resource: ScimResource): Promise<ScimResult> {
+    const changes = this.readGroup(resource);
+    if (!changes.displayName) {
+      return this.invalidValue('displayName is required');
+    }
+
+    const roles = await rbacService.getCompanyRoles(company.id);
+    if (roles.some((role) => role.name.toLowerCase() === changes.displayName!.toLowerCase())) {
+      return { success: false, status: 409, scimType: 'uniqueness', error: 'A group with this displayName already exists' };
+    }
+
+    const memberError = await this.checkMembers(company, changes.memberIds);
+    if (memberError) {
+      return memberError;
+    }
+
+    const result = await rbacService.createRole(company.id, changes.displayName, 'Provisioned via SCIM');
+    if (!result.success) {
+      return this.invalidValue(result.error || 'Failed to create group');
+    }
+
+    if (changes.externalId) {
+      await supabaseAdmin
+        .from('roles')
+        .update({ scim_external_id: changes.externalId })
+        .eq('id', result.role!.id);
+    }
+
+    await this.syncMembers(result.role!.id, [], changes.memberIds);
+
+    return this.getGroup(company, result.role!.id);
+  }
+
+  /**
+   * Replace a group's name and members (PUT)
+   *
+   * @param company - Company the token belongs to
+   * @param groupId - Role ID
+   * @param resource - Full SCIM Group resource
+   */
+  async replaceGroup(company: Company, groupId: string, resource: ScimResource): Promise<ScimResult> {
+    const current = await this.getGroup(company, groupId);
+    if (!current.success) {
+      return current;
+    }
+
+    const changes = this.readGroup(resource);
+    if (!changes.displayName) {
+      return this.invalidValue('displayName is required');
+    }
+
+    return this.saveGroup(company, current.resource!, { ...changes, externalId: changes.externalId ?? null });
+  }
+
+  /**
+   * Apply PATCH operations to a group, typically adding or removing members
+   *
+   * @param company - Company the token belongs to
+   * @param groupId - Role ID
+   * @param operations - PatchOp operations
+   */
+  async patchGroup(company: Company, groupId: string, operations: ScimPatchOperation[]): Promise<ScimResult> {
+    const current = await this.getGroup(company, groupId);
+    if (!current.success) {
+      return current;
+    }
+
+    const patched = applyPatch(current.resource!, operations);
+    if (!patched.success) {
+      return { success: false, status: 400, scimType: patched.scimType, error: patched.error };
+    }
+
+    return this.saveGroup(company, current.resource!, this.readGroup(patched.resource!));
+  }
+
+  /**
+   * Delete a group; its role is removed from all members and then deleted
+   *
+   * @param company - Company the token belongs to
+   * @param groupId - Role ID
+   */
+  async deleteGroup(company: Company, groupId: string): Promise<ScimResult> {
+    const role = await this.findRole(company, groupId);
+    if (!role) {
+      return this.notFound('Group', groupId);
+    }
+
+    await supabaseAdmin.from('user_roles').delete().eq('role_id', role.id);
+    contextCacheService.forgetRole(role.id);
+
+    const result = await rbacService.deleteRole(role.id);
+    if (!result.success) {
+      return this.invalidValue(result.error || 'Failed to delete group');
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Describe the supported protocol features
+   */
+  getServiceProviderConfig(): ScimResource {
+    return {
+      schemas: [SCIM_SCHEMAS.serviceProviderConfig],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [
+        {
+          type: 'oauthbearertoken',
+          name: 'Bearer Token',
+          description: 'Per-company provisioning token issued by an organization admin',
+          primary: true,
+        },
+      ],
+      meta: { resourceType: 'ServiceProviderConfig', location: `${config.scim.baseUrl}/ServiceProviderConfig` },
+    };
+  }
+
+  /**
+   * Describe the supported resource types
+   */
+  getResourceTypes(): ScimResource[] {
+    return [
+      { name: 'User', endpoint: '/Users', schema: SCIM_SCHEMAS.user },
+      { name: 'Group', endpoint: '/Groups', schema: SCIM_SCHEMAS.group },
+    ].map((type) => ({
+      schemas: [SCIM_SCHEMAS.resourceType],
+      id: type.name,
+      ...type,
+      meta: { resourceType: 'ResourceType', location: `${config.scim.baseUrl}/ResourceTypes/${type.name}` },
+    }));
+  }
+
+  /**
+   * Write changed user attributes back
+   */
+  private async saveUser(company: Company, user: ScimUserRecord, changes: ScimUserChanges): Promise<ScimResult> {
+    const email = changes.email?.toLowerCase();
+
+    if (email && email !== user.email.toLowerCase()) {
+      const emailError = await this.checkEmail(company, email);
+      if (emailError) {
+        return emailError;
+      }
+    }
+
+    const result = await userService.updateUser(user.id, {
+      email: email !== user.email ? email : undefined,
+      fullName: changes.fullName,
+      scimExternalId: changes.externalId,
+    });
+    if (!result.success) {
+      return this.invalidValue(result.error || 'Failed to update user');
+    }
+
+    if (changes.active !== undefined && changes.active !== (user.is_active !== false)) {
+      const activation = await userService.setUserActive(user.id, changes.active);
+      if (!activation.success) {
+        return this.invalidValue(activation.error || 'Failed to update user');
+      }
+    }
+
+    return this.getUser(company, user.id);
+  }
+
+  /**
+   * Write a changed group name, external ID and member list back
+   */
+  private async saveGroup(
+    company: Company,
+    current: ScimResource,
+    changes: { displayName?: string; externalId?: string | null; memberIds: string[] }
+  ): Promise<ScimResult> {
+    const groupId = current.id as string;
+
+    const memberError = await this.checkMembers(company, changes.memberIds);
+    if (memberError) {
+      return memberError;
+    }
+
+    if (changes.displayName && changes.displayName !== current.displayName) {
+      const result = await rbacService.updateRole(groupId, { name: changes.displayName });
+      if (!result.success) {
+        return { success: false, status: 409, scimType: 'uniqueness', error: result.error };
+      }
+    }
+
+    if (changes.externalId !== undefined && changes.externalId !== (current.externalId ?? null)) {
+      await supabaseAdmin
+        .from('roles')
+        .update({ scim_external_id: changes.externalId })
+        .eq('id', groupId);
+    }
+
+    const currentIds = ((current.members as ScimResource[]) || []).map((member) => member.value as string);
+    await this.syncMembers(groupId, currentIds, changes.memberIds);
+
+    return this.getGroup(company, groupId);
+  }
+
+  /**
+   * Grant and revoke a role so its members match the given list
+   */
+  private async syncMembers(roleId: string, currentIds: string[], memberIds: string[]): Promise<void> {
+    const current = new Set(currentIds);
+    const wanted = new Set(memberIds);
+
+    for (const userId of wanted) {
+      if (!current.has(userId)) {
+        await supabaseAdmin.from('user_roles').insert({ user_id: userId, role_id: roleId });
+        contextCacheService.forgetUser(userId);
+      }
+    }
+
+    for (const userId of current) {
+      if (!wanted.has(userId)) {
+        await rbacService.removeRoleFromUser(userId, roleId);
+      }
+    }
+  }
+
+  /**
+   * Read the attributes NEEMIFY stores from a User resource
+   * For PATCH the previous representation is passed, so that only a name form
+   * the client actually changed (formatted, given/family or displayName) is used.
+   */
+  private readUser(resource: ScimResource, previous?: ScimResource): ScimUserChanges {
+    const emails = getAttribute(resource, 'emails');
+    const emailList = Array.isArray(emails) ? (emails as ScimResource[]) : [];
+    const primaryEmail =
+      emailList.find((email) => this.toBoolean(getAttribute(email, 'primary'))) || emailList[0];
+
+    const userName = getAttribute(resource, 'userName');
+    const email = typeof userName === 'string' && userName
+      ? userName
+      : (primaryEmail && (getAttribute(primaryEmail, 'value') as string)) || undefined;
+
+    const names = this.nameCandidates(resource);
+    let fullName: string | undefined;
+    if (previous) {
+      const previousNames = this.nameCandidates(previous);
+      fullName = names.find((name, index) => name && name !== previousNames[index]);
+    } else {
+      fullName = names.find((name) => !!name);
+    }
+
+    const externalId = getAttribute(resource, 'externalId');
+    const password = getAttribute(resource, 'password');
+
+    return {
+      email: email?.trim().toLowerCase(),
+      fullName,
+      externalId: typeof externalId === 'string' ? externalId : previous ? null : undefined,
+      active: this.toBoolean(getAttribute(resource, 'active')),
+      password: typeof password === 'string' ? password : undefined,
+    };
+  }
+
+  /**
+   * The ways a User resource can carry a display name, in order of preference
+   */
+  private nameCandidates(resource: ScimResource): (string | undefined)[] {
+    const name = getAttribute(resource, 'name') as ScimResource | undefined;
+    const part = (key: string): string => {
+      const value = name && typeof name === 'object' ? getAttribute(name, key) : undefined;
+      return typeof value === 'string' ? value.trim() : '';
+    };
+    const displayName = getAttribute(resource, 'displayName');
+
+    return [
+      part('formatted') || undefined,
+      [part('givenName'), part('familyName')].filter(Boolean).join(' ') || undefined,
+      typeof displayName === 'string' ? displayName.trim() || undefined : undefined,
+    ];
+  }
+
+  /**
+   * Read the attributes NEEMIFY stores from a Group resource
+   */
+  private readGroup(resource: ScimResource): { displayName?: string; externalId?: string | null; memberIds: string[] } {
+    const displayName = getAttribute(resource, 'displayName');
+    const externalId = getAttribute(resource, 'externalId');
+    const members = getAttribute(resource, 'members');
+
+    return {
+      displayName: typeof displayName === 'string' ? displayName.trim() : undefined,
+      externalId: typeof externalId === 'string' ? externalId : null,
+      memberIds: Array.isArray(members)
+        ? members
+            .map((member) => (typeof member === 'object' && member ? getAttribute(member, 'value') : member))
+            .filter((value): value is string => typeof value === 'string')
+        : [],
+    };
+  }
+
+  /**
+   * Some IdPs send booleans as the strings "True" and "False"
+   */
+  private toBoolean(value: unknown): boolean | undefined {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'string' && ['true', 'false'].includes(value.toLowerCase())) {
+      return value.toLowerCase() === 'true';
+    }
+    return undefined;
+  }
+
+  /**
+   * Ensure an email is on the company's domain and not used by another account
+   */
+  private async checkEmail(company: Company, email: string): Promise<ScimResult | null> {
+    const { company: owner } = await companyService.validateDomain(email);
+    if (!owner || owner.id !== company.id) {
+      return this.invalidValue('Email domain does not belong to this company');
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .eq('email', email)
+      .single();
+
+    if (existing) {
+      return { success: false, status: 409, scimType: 'uniqueness', error: 'A user with this userName already exists' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Ensure every member is a (non super) user of the company
+   */
+  private async checkMembers(company: Company, memberIds: string[]): Promise<ScimResult | null> {
+    if (memberIds.length === 0) {
+      return null;
+    }
+
+    const { data: users } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .in('id', memberIds)
+      .eq('company_id', company.id)
+      .eq('is_super_user', false)
+      .eq('is_service_account', false);
+
+    const found = new Set((users || []).map((user: { id: string }) => user.id));
+    const unknown = memberIds.filter((id) => !found.has(id));
+    if (unknown.length > 0) {
+      return this.invalidValue(`Unknown members: ${unknown.join(', ')}`);
+    }
+
+    return null;
+  }
+
+  private async findUser(company: Company, userId: string): Promise<ScimUserRecord | null> {
+    const user = (await userService.getUserById(userId)) as ScimUserRecord | null;
+    if (!user || user.company_id !== company.id || user.is_super_user || user.is_service_account) {
+      return null;
+    }
+    return user;
+  }
+
+  private async findRole(company: Company, roleId: string): Promise<ScimRole | null> {
+    const { data: role } = await supabaseAdmin
+      .from('roles')
+      .select('*')
+      .eq('id', roleId)
+      .eq('company_id', company.id)
+      .single();
+
+    return (role as ScimRole) || null;
+  }
+
+  /**
+   * Map user IDs to the company roles they hold
+   */
+  private async getGroupsByUser(companyId: string, userId?: string): Promise<Map<string, Role[]>> {
+    const roles = await rbacService.getCompanyRoles(companyId);
+    const groups = new Map<string, Role[]>();
+    if (roles.length === 0) {
+      return groups;
+    }
+
+    const roleById = new Map(roles.map((role) => [role.id, role]));
+    let query = supabaseAdmin
+      .from('user_roles')
+      .select('user_id, role_id')
+      .in('role_id', roles.map((role) => role.id));
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data } = await query;
+    for (const row of (data || []) as { user_id: string; role_id: string }[]) {
+      groups.set(row.user_id, [...(groups.get(row.user_id) || []), roleById.get(row.role_id)!]);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Map role IDs to their members
+   */
+  private async getMembersByRole(
+    companyId: string,
+    roleId?: string
+  ): Promise<Map<string, { id: string; email: string }[]>> {
+    const { data: users } = await supabaseAdmin
+      .from('users')
+      .select('id, email')
+      .eq('company_id', companyId)
+      .eq('is_super_user', false)
+      .eq('is_service_account', false);
+
+    const members = new Map<string, { id: string; email: string }[]>();
+    const userById = new Map((users || []).map((user: { id: string; email: string }) => [user.id, user]));
+    if (userById.size === 0) {
+      return members;
+    }
+
+    let query = supabaseAdmin
+      .from('user_roles')
+      .select('user_id, role_id')
+      .in('user_id', Array.from(userById.keys()));
+    if (roleId) {
+      query = query.eq('role_id', roleId);
+    }
+
+    const { data } = await query;
+    for (const row of (data || []) as { user_id: string; role_id: string }[]) {
+      members.set(row.role_id, [...(members.get(row.role_id) || []), userById.get(row.user_id)!]);
+    }
+
+    return members;
+  }
+
+  private toScimUser(user: ScimUserRecord, groups: Role[]): ScimResource {
+    const [givenName, ...familyName] = (user.full_name || '').split(' ');
+
+    return {
+      schemas: [SCIM_SCHEMAS.user],
+      id: user.id,
+      ...(user.scim_external_id ? { externalId: user.scim_external_id } : {}),
+      userName: user.email,
+      name: {
+        formatted: user.full_name,
+        givenName,
+        ...(familyName.length > 0 ? { familyName: familyName.join(' ') } : {}),
+      },
+      displayName: user.full_name,
+      emails: [{ value: user.email, type: 'work', primary: true }],
+      active: user.is_active !== false,
+      groups: groups.map((role) => ({
+        value: role.id,
+        display: role.name,
+        $ref: `${config.scim.baseUrl}/Groups/${role.id}`,
+      })),
+      meta: {
+        resourceType: 'User',
+        created: user.created_at,
+        location: `${config.scim.baseUrl}/Users/${user.id}`,
+      },
+    };
+  }
+
+  private toScimGroup(role: ScimRole, members: { id: string; email: string }[]): ScimResource {
+    return {
+      schemas: [SCIM_SCHEMAS.group],
+      id: role.id,
+      ...(role.scim_external_id ? { externalId: role.scim_external_id } : {}),
+      displayName: role.name,
+      members: members.map((member) => ({
+        value: member.id,
+        display: member.email,
+        $ref: `${config.scim.baseUrl}/Users/${member.id}`,
+      })),
+      meta: {
+        resourceType: 'Group',
+        created: role.created_at,
+        lastModified: role.updated_at,
+        location: `${config.scim.baseUrl}/Groups/${role.id}`,
+      },
+    };
+  }
+
+  /**
+   * Filter, paginate (1-based startIndex) and project resources into a ListResponse
+   */
+  private toListResponse(resources: ScimResource[], query: ScimListQuery): ScimResult {
+    let filter: ScimFilter | undefined;
+    try {
+      filter = query.filter ? parseFilter(query.filter) : undefined;
+    } catch (error) {
+      return {
+        success: false,
+        status: 400,
+        scimType: 'invalidFilter',
+        error: error instanceof Error ? error.message : 'Invalid filter',
+      };
+    }
+
+    const matching = filter ? resources.filter((resource) => matchesFilter(resource, filter!)) : resources;
+    const startIndex = Math.max(1, query.startIndex || 1);
+    const count = Math.min(Math.max(0, query.count ?? MAX_PAGE_SIZE), MAX_PAGE_SIZE);
+    const page = matching.slice(startIndex - 1, startIndex - 1 + count);
+
+    try {
+      return {
+        success: true,
+        resource: {
+          schemas: [SCIM_SCHEMAS.listResponse],
+          totalResults: matching.length,
+          startIndex,
+          itemsPerPage: page.length,
+          Resources: page.map((resource) =>
+            projectAttributes(resource, query.attributes, query.excludedAttributes)
+          ),
+        },
+      };
+    } catch (error) {
+      return this.invalidValue(error instanceof Error ? error.message : 'Invalid attributes');
+    }
+  }
+
+  private notFound(resourceType: string, id: string): ScimResult {
+    return { success: false, status: 404, error: `${resourceType} ${id} not found` };
+  }
+
+  private invalidValue(error: string): ScimResult {
+    return { success: false, status: 400, scimType: 'invalidValue', error };
+  }
+}
+
+export const scimService = new ScimService();
@@ -0,0 +1,537 @@
+/**
+ * @file Service account service
+ * @module services/service-account
+ *
+ * Machine clients (HL7 interfaces, lab systems) call the API with API keys issued
+ * to a company's service accounts instead of signing in as a human user.
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { ApiKey, ServiceAccount } from '../types';
+import { userService } from './user.service';
+import { rbacService } from './rbac.service';
+import { contextCacheService } from './context-cache.service';
+
+/**
+ * Prefix of every API key; `authenticate` uses it to tell keys from JWTs
+ */
+export const API_KEY_PREFIX = 'nmfy_';
+
+// Leading characters of a key stored in clear so admins can tell keys apart
+const KEY_PREFIX_LENGTH = 12;
+
+// How stale `last_used_at` may get before a request updates it
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Key columns returned to callers (never the hash)
+const API_KEY_COLUMNS =
+  'id, service_account_id, company_id, name, key_prefix, expires_at, last_used_at, last_used_ip, revoked_at, replaced_by, created_by, created_at';
+
+type PublicApiKey = Omit<ApiKey, 'key_hash'>;
+
+/**
+ * Service account with its keys, as listed to org admins
+ */
+export interface ServiceAccountDetails extends ServiceAccount {
+  is_active: boolean;
+  api_keys: PublicApiKey[];
+}
+
+/**
+ * Service Account Service
+ * Each service account is backed by a users row (`is_service_account`) so usage and
+ * audit records reference it like any other principal. Its API keys carry only the
+ * account's scoped permissions; roles are not consulted.
+ */
+export class ServiceAccountService {
+  /**
+   * Hash an API key for storage and lookup
+   *
+   * @param key - Plain API key
+   */
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Check that every permission name exists
+   *
+   * @param permissions - Permission names
+   * @returns The unknown names
+   */
+  private async unknownPermissions(permissions: string[]): Promise<string[]> {
+    const known = new Set((await rbacService.getAllPermissions()).map((permission) => permission.name));
+    return permissions.filter((permission) => !known.has(permission));
+  }
+
+  /**
+   * Check that a set of permissions exists and that the admin granting it holds every one
+   *
+   * @param permissions - Permission names to grant
+   * @param grantable - Permissions of the granting admin (null for super users)
+   * @returns An error message, or null if the grant is allowed
+   */
+  private async checkGrant(permissions: string[], grantable: Set<string> | null): Promise<string | null> {
+    const unknown = await this.unknownPermissions(permissions);
+    if (unknown.length > 0) {
+      return `Unknown permissions: ${unknown.join(', ')}`;
+    }
+
+    const withheld = grantable ? permissions.filter((permission) => !grantable.has(permission)) : [];
+    if (withheld.length > 0) {
+      return `You cannot grant permissions you do not hold: ${withheld.join(', ')}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Create a service account for a company, optionally scoped to one of its tenants
+   *
+   * @param companyId - Company ID
+   * @param data - Name, description, tenant and permission names
+   * @param createdBy - Admin creating the account
+   * @param grantable - Permissions the admin holds and may pass on (null for super users)
+   */
+  async createServiceAccount(
+    companyId: string,
+    data: { name: string; description?: string; tenantId?: string; permissions: string[] },
+    createdBy: string,
+    grantable: Set<string> | null
+  ): Promise<{ success: boolean; serviceAccount?: ServiceAccount; error?: string }> {
+    const grantError = await this.checkGrant(data.permissions, grantable);
+    if (grantError) {
+      return { success: false, error: grantError };
+    }
+
+    if (data.tenantId) {
+      const { data: tenant } = await supabaseAdmin
+        .from('tenants')
+        .select('id')
+        .eq('id', data.tenantId)
+        .eq('parent_company_id', companyId)
+        .single();
+
+      if (!tenant) {
+        return { success: false, error: 'Tenant not found' };
+      }
+    }
+
+    // The reserved .invalid domain keeps the address from ever matching a mailbox or IdP
+    const user = await userService.createUser({
+      email: `svc-${uuidv4()}@service-accounts.invalid`,
+      fullName: data.name,
+      companyId,
+      tenantId: data.tenantId,
+      isServiceAccount: true,
+    });
+
+    if (!user.success) {
+      return { success: false, error: user.error };
+    }
+
+    const { data: serviceAccount, error } = await supabaseAdmin
+      .from('service_accounts')
+      .insert({
+        user_id: user.userId,
+        company_id: companyId,
+        tenant_id: data.tenantId || null,
+        name: data.name,
+        description: data.description || null,
+        permissions: data.permissions,
+        created_by: createdBy,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      await supabaseAdmin.from('users').delete().eq('id', user.userId);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, serviceAccount };
+  }
+
+  /**
+   * List a company's service accounts with their keys (without hashes)
+   *
+   * @param companyId - Company ID
+   */
+  async listServiceAccounts(companyId: string): Promise<ServiceAccountDetails[]> {
+    const { data: serviceAccounts, error } = await supabaseAdmin
+      .from('service_accounts')
+      .select('*')
+      .eq('company_id', companyId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (!serviceAccounts || serviceAccounts.length === 0) {
+      return [];
+    }
+
+    const { data: apiKeys } = await supabaseAdmin
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('company_id', companyId)
+      .order('created_at', { ascending: false });
+
+    const { data: users } = await supabaseAdmin
+      .from('users')
+      .select('id, is_active')
+      .in('id', serviceAccounts.map((account: ServiceAccount) => account.user_id));
+
+    const activeById = new Map(
+      (users || []).map((user: { id: string; is_active: boolean }) => [user.id, user.is_active !== false])
+    );
+
+    return serviceAccounts.map((account: ServiceAccount) => ({
+      ...account,
+      is_active: activeById.get(account.user_id) ?? false,
+      api_keys: (apiKeys || []).filter((key: PublicApiKey) => key.service_account_id === account.user_id),
+    }));
+  }
+
+  /**
+   * Get a company's service account
+   *
+   * @param companyId - Company ID
+   * @param serviceAccountId - Service account (user) ID
+   */
+  async getServiceAccount(companyId: string, serviceAccountId: string): Promise<ServiceAccount | null> {
+    const { data, error } = await supabaseAdmin
+      .from('service_accounts')
+      .select('*')
+      .eq('user_id', serviceAccountId)
+      .eq('company_id', companyId)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return data as ServiceAccount;
+  }
+
+  /**
+   * Get the permission names currently granted to a service account
+   *
+   * @param serviceAccountId - Service account (user) ID
+   */
+  async getPermissions(serviceAccountId: string): Promise<string[]> {
+    const { data } = await supabaseAdmin
+      .from('service_accounts')
+      .select('permissions')
+      .eq('user_id', serviceAccountId)
+      .single();
+
+    return data?.permissions || [];
+  }
+
+  /**
+   * Update a service account's name, description or permissions
+   * Permission changes apply to its existing keys on their next request.
+   *
+   * @param companyId - Company ID
+   * @param serviceAccountId - Service account (user) ID
+   * @param updates - Fields to change
+   * @param grantable - Permissions the admin holds and may pass on (null for super users)
+   */
+  async updateServiceAccount(
+    companyId: string,
+    serviceAccountId: string,
+    updates: { name?: string; description?: string | null; permissions?: string[] },
+    grantable: Set<string> | null
+  ): Promise<{ success: boolean; serviceAccount?: ServiceAccount; error?: string }> {
+    if (updates.permissions) {
+      const grantError = await this.checkGrant(updates.permissions, grantable);
+      if (grantError) {
+        return { success: false, error: grantError };
+      }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('service_accounts')
+      .update({
+        ...(updates.name !== undefined && { name: updates.name }),
+        ...(updates.description !== undefined && { description: updates.description }),
+        ...(updates.permissions !== undefined && { permissions: updates.permissions }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', serviceAccountId)
+      .eq('company_id', companyId)
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      return { success: false, error: 'Service account not found' };
+    }
+
+    if (updates.name !== undefined) {
+      await supabaseAdmin.from('users').update({ full_name: updates.name }).eq('id', serviceAccountId);
+    }
+
+    contextCacheService.forgetUser(serviceAccountId);
+
+    return { success: true, serviceAccount: data };
+  }
+
+  /**
+   * Deactivate a service account and revoke all of its keys
+   * The account is kept so its API usage and audit history stay attributable.
+   *
+   * @param companyId - Company ID
+   * @param serviceAccountId - Service account (user) ID
+   */
+  async deactivateServiceAccount(
+    companyId: string,
+    serviceAccountId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const serviceAccount = await this.getServiceAccount(companyId, serviceAccountId);
+    if (!serviceAccount) {
+      return { success: false, error: 'Service account not found' };
+    }
+
+    await supabaseAdmin
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('service_account_id', serviceAccountId)
+      .is('revoked_at', null);
+
+    return userService.setUserActive(serviceAccountId, false);
+  }
+
+  /**
+   * Issue an API key for a service account
+   * The plain key is only returned here.
+   *
+   * @param companyId - Company ID
+   * @param serviceAccountId - Service account (user) ID
+   * @param data - Key label and lifetime in days (defaults to `apiKeys.defaultExpiryDays`)
+   * @param createdBy - Admin creating the key
+   */
+  async createKey(
+    companyId: string,
+    serviceAccountId: string,
+    data: { name: string; expiresInDays?: number },
+    createdBy: string
+  ): Promise<{ success: boolean; key?: string; apiKey?: PublicApiKey; error?: string }> {
+    const expiresInDays = data.expiresInDays ?? config.apiKeys.defaultExpiryDays;
+    if (!Number.isFinite(expiresInDays) || expiresInDays <= 0 || expiresInDays > config.apiKeys.maxExpiryDays) {
+      return { success: false, error: `expiresInDays must be between 1 and ${config.apiKeys.maxExpiryDays}` };
+    }
+
+    const serviceAccount = await this.getServiceAccount(companyId, serviceAccountId);
+    if (!serviceAccount) {
+      return { success: false, error: 'Service account not found' };
+    }
+
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+    const { data: apiKey, error } = await supabaseAdmin
+      .from('api_keys')
+      .insert({
+        id: uuidv4(),
+        service_account_id: serviceAccountId,
+        company_id: companyId,
+        name: data.name,
+        key_prefix: key.substring(0, KEY_PREFIX_LENGTH),
+        key_hash: this.hashKey(key),
+        expires_at: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+        created_by: createdBy,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, key, apiKey };
+  }
+
+  /**
+   * Replace an API key with a new one of the same name and lifetime
+   * The old key keeps working for `gracePeriodHours` so clients can switch over.
+   *
+   * @param companyId - Company ID
+   * @param serviceAccountId - Service account (user) ID
+   * @param keyId - Key to rotate
+   * @param gracePeriodHours - How long the old key stays valid (0 revokes it now)
+   * @param rotatedBy - Admin rotating the key
+   */
+  async rotateKey(
+    companyId: string,
+    serviceAccountId: string,
+    keyId: string,
+    gracePeriodHours: number,
+    rotatedBy: string
+  ): Promise<{ success: boolean; key?: string; apiKey?: PublicApiKey; error?: string }> {
+    if (
+      !Number.isFinite(gracePeriodHours) ||
+      gracePeriodHours < 0 ||
+      gracePeriodHours > config.apiKeys.maxRotationGraceHours
+    ) {
+      return {
+        success: false,
+        error: `gracePeriodHours must be between 0 and ${config.apiKeys.maxRotationGraceHours}`,
+      };
+    }
+
+    const { data: current } = await supabaseAdmin
+      .from('api_keys')
+      .select('*')
+      .eq('id', keyId)
+      .eq('service_account_id', serviceAccountId)
+      .eq('company_id', companyId)
+      .is('revoked_at', null)
+      .single();
+
+    if (!current) {
+      return { success: false, error: 'API key not found' };
+    }
+
+    const lifetimeDays = Math.round(
+      (new Date(current.expires_at).getTime() - new Date(current.created_at).getTime()) / (24 * 60 * 60 * 1000)
+    );
+
+    const replacement = await this.createKey(
+      companyId,
+      serviceAccountId,
+      { name: current.name, expiresInDays: Math.min(Math.max(lifetimeDays, 1), config.apiKeys.maxExpiryDays) },
+      rotatedBy
+    );
+
+    if (!replacement.success) {
+      return replacement;
+    }
+
+    const now = Date.now();
+    const graceEnds = Math.min(now + gracePeriodHours * 60 * 60 * 1000, new Date(current.expires_at).getTime());
+
+    await supabaseAdmin
+      .from('api_keys')
+      .update({
+        replaced_by: replacement.apiKey!.id,
+        ...(gracePeriodHours === 0
+          ? { revoked_at: new Date(now).toISOString() }
+          : { expires_at: new Date(graceEnds).toISOString() }),
+      })
+      .eq('id', keyId);
+
+    contextCacheService.forgetUser(serviceAccountId);
+
+    return replacement;
+  }
+
+  /**
+   * Revoke an API key
+   *
+   * @param companyId - Company ID
+   * @param serviceAccountId - Service account (user) ID
+   * @param keyId - Key ID
+   */
+  async revokeKey(
+    companyId: string,
+    serviceAccountId: string,
+    keyId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await supabaseAdmin
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', keyId)
+      .eq('service_account_id', serviceAccountId)
+      .eq('company_id', companyId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'API key not found' };
+    }
+
+    contextCacheService.forgetUser(serviceAccountId);
+
+    return { success: true };
+  }
+
+  /**
+   * Resolve an API key to its service account and record its use
+   * Served from the context cache; `last_used_at` is written at most once a minute
+   * per key unless the client address changes.
+   *
+   * @param key - Plain API key
+   * @param ipAddress - Client address, kept as `last_used_ip`
+   * @returns The account's user ID, scoped permissions and key ID, or null if the key
+   * is unknown, revoked or expired
+   */
+  async verifyKey(
+    key: string,
+    ipAddress?: string
+  ): Promise<{ userId: string; permissions: string[]; apiKeyId: string } | null> {
+    const keyHash = this.hashKey(key);
+
+    const verified = await contextCacheService.remember('apiKey', keyHash, async () => {
+      const { data: apiKey } = await supabaseAdmin
+        .from('api_keys')
+        .select('id, service_account_id, expires_at, last_used_at, last_used_ip')
+        .eq('key_hash', keyHash)
+        .is('revoked_at', null)
+        .single();
+
+      if (!apiKey) {
+        return null;
+      }
+
+      const { data: serviceAccount } = await supabaseAdmin
+        .from('service_accounts')
+        .select('user_id, permissions')
+        .eq('user_id', apiKey.service_account_id)
+        .single();
+
+      if (!serviceAccount) {
+        return null;
+      }
+
+      return {
+        userId: serviceAccount.user_id,
+        apiKeyId: apiKey.id,
+        permissions: serviceAccount.permissions || [],
+        expiresAt: new Date(apiKey.expires_at),
+        lastUsedAt: apiKey.last_used_at ? new Date(apiKey.last_used_at).getTime() : 0,
+        lastUsedIp: apiKey.last_used_ip || null,
+      };
+    });
+
+    if (!verified || verified.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    const lastUsedIp = ipAddress || null;
+    if (verified.lastUsedIp !== lastUsedIp || Date.now() - verified.lastUsedAt >= LAST_USED_RESOLUTION_MS) {
+      await supabaseAdmin
+        .from('api_keys')
+        .update({ last_used_at: new Date().toISOString(), last_used_ip: lastUsedIp })
+        .eq('id', verified.apiKeyId);
+
+      // Keep the cached copy current, so the next requests compare against this write
+      verified.lastUsedAt = Date.now();
+      verified.lastUsedIp = lastUsedIp;
+    }
+
+    return {
+      userId: verified.userId,
+      permissions: verified.permissions,
+      apiKeyId: verified.apiKeyId,
+    };
+  }
+}
+
+export const serviceAccountService = new ServiceAccountService();
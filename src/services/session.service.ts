@@ -0,0 +1,277 @@
+/**
+ * @file Session registry service
+ * @module services/session
+ *
+ * Tracks every login server-side so that tokens can be revoked before they expire
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { ActiveSession, ClientInfo, Session, User } from '../types';
+import { describeDevice } from '../utils/user-agent';
+import { refreshTokenService } from './refresh-token.service';
+import { contextCacheService } from './context-cache.service';
+
+// How stale `last_seen_at` may get before a request updates it
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Session Service
+ * A session is created at login. Its ID is the `jti` claim of every access token
+ * issued for that login and the family ID of its refresh tokens, so revoking a
+ * session invalidates both.
+ */
+export class SessionService {
+  /**
+   * Create a session for a freshly authenticated user
+   *
+   * @param user - Authenticated user
+   * @param expiresAt - Session expiry (defaults to the refresh token lifetime)
+   */
+  async createSession(
+    user: User,
+    expiresAt = new Date(Date.now() + config.jwt.refreshExpiresInDays * 24 * 60 * 60 * 1000)
+  ): Promise<Session> {
+
+    const { data: session, error } = await supabaseAdmin
+      .from('sessions')
+      .insert({
+        id: uuidv4(),
+        user_id: user.id,
+        company_id: user.company_id,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error || !session) {
+      throw new Error(`Failed to create session: ${error?.message}`);
+    }
+
+    return session as Session;
+  }
+
+  /**
+   * Check whether a session exists, has not expired and has not been revoked
+   *
+   * @param sessionId - Session ID (JWT `jti`)
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    return (await this.getActiveSession(sessionId)) !== null;
+  }
+
+  /**
+   * Get a session if it exists, has not expired and has not been revoked
+   * Served from the context cache, which revoking or changing a session clears.
+   *
+   * @param sessionId - Session ID (JWT `jti`)
+   */
+  async getActiveSession(sessionId: string): Promise<Session | null> {
+    const session = await contextCacheService.remember('session', sessionId, async () => {
+      const { data, error } = await supabaseAdmin
+        .from('sessions')
+        .select('*')
+        .eq('id', sessionId)
+        .single();
+
+      return error || !data ? null : (data as Session);
+    });
+
+    if (!session) {
+      return null;
+    }
+
+    if (session.revoked_at || new Date(session.expires_at).getTime() <= Date.now()) {
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Remember where and when a session was last used
+   * Writes only when the client changed or `last_seen_at` is over a minute old.
+   *
+   * @param session - Active session
+   * @param client - IP address and User-Agent of the current request
+   */
+  async recordActivity(
+    session: Session,
+    client: ClientInfo
+  ): Promise<void> {
+    const ipAddress = client.ipAddress || null;
+    const userAgent = client.userAgent || null;
+    const lastSeen = session.last_seen_at ? new Date(session.last_seen_at).getTime() : 0;
+
+    if (
+      session.ip_address === ipAddress &&
+      session.user_agent === userAgent &&
+      Date.now() - lastSeen < LAST_SEEN_RESOLUTION_MS
+    ) {
+      return;
+    }
+
+    const lastSeenAt = new Date();
+
+    await supabaseAdmin
+      .from('sessions')
+      .update({ ip_address: ipAddress, user_agent: userAgent, last_seen_at: lastSeenAt.toISOString() })
+      .eq('id', session.id);
+
+    // Keep the cached copy current, so the next requests compare against this write
+    Object.assign(session, { ip_address: ipAddress, user_agent: userAgent, last_seen_at: lastSeenAt });
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   *
+   * @param userId - User ID
+   * @param currentSessionId - Session making the request, flagged as `current`
+   */
+  async listActiveSessions(userId: string, currentSessionId?: string): Promise<ActiveSession[]> {
+    const { data: sessions, error } = await supabaseAdmin
+      .from('sessions')
+      .select('id, ip_address, user_agent, created_at, last_seen_at, expires_at')
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString());
+
+    if (error) {
+      throw new Error(`Failed to list sessions: ${error.message}`);
+    }
+
+    const lastActive = (session: { created_at: Date; last_seen_at?: Date | null }) =>
+      new Date(session.last_seen_at || session.created_at).getTime();
+
+    return (sessions || [])
+      .sort((a, b) => lastActive(b) - lastActive(a))
+      .map((session) => ({
+        id: session.id,
+        device: describeDevice(session.user_agent),
+        ipAddress: session.ip_address || null,
+        userAgent: session.user_agent || null,
+        createdAt: session.created_at,
+        lastSeenAt: session.last_seen_at || null,
+        expiresAt: session.expires_at,
+        current: session.id === currentSessionId,
+      }));
+  }
+
+  /**
+   * Revoke one of a user's own sessions
+   *
+   * @param userId - User ID
+   * @param sessionId - Session ID
+   * @returns False if the user has no such active session
+   */
+  async revokeUserSession(userId: string, sessionId: string): Promise<boolean> {
+    const { data: session } = await supabaseAdmin
+      .from('sessions')
+      .select('id')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .single();
+
+    if (!session) {
+      return false;
+    }
+
+    return (await this.revokeSession(sessionId, 'user_revoked')) > 0;
+  }
+
+  /**
+   * Extend a session after its refresh token has been rotated
+   *
+   * @param sessionId - Session ID
+   * @param expiresAt - New expiry (matches the new refresh token)
+   */
+  async extendSession(sessionId: string, expiresAt: Date): Promise<void> {
+    await supabaseAdmin
+      .from('sessions')
+      .update({ expires_at: expiresAt.toISOString() })
+      .eq('id', sessionId);
+
+    contextCacheService.forget('session', sessionId);
+  }
+
+  /**
+   * Record that the session's user just proved their identity again
+   *
+   * @param sessionId - Session ID
+   * @returns When the re-authentication was recorded
+   */
+  async markReauthenticated(sessionId: string): Promise<Date> {
+    const now = new Date();
+
+    await supabaseAdmin
+      .from('sessions')
+      .update({ reauthenticated_at: now.toISOString() })
+      .eq('id', sessionId);
+
+    contextCacheService.forget('session', sessionId);
+
+    return now;
+  }
+
+  /**
+   * Revoke a single session
+   *
+   * @param sessionId - Session ID
+   * @param reason - Why the session was revoked
+   */
+  async revokeSession(sessionId: string, reason: string): Promise<number> {
+    return this.revokeWhere('id', sessionId, reason);
+  }
+
+  /**
+   * Revoke every session of a user
+   *
+   * @param userId - User ID
+   * @param reason - Why the sessions were revoked
+   */
+  async revokeAllForUser(userId: string, reason: string): Promise<number> {
+    return this.revokeWhere('user_id', userId, reason);
+  }
+
+  /**
+   * Revoke every session of every user in a company
+   *
+   * @param companyId - Company ID
+   * @param reason - Why the sessions were revoked
+   */
+  async revokeAllForCompany(companyId: string, reason: string): Promise<number> {
+    return this.revokeWhere('company_id', companyId, reason);
+  }
+
+  /**
+   * Revoke all active sessions matching a column and their refresh token families
+   *
+   * @returns Number of sessions revoked
+   */
+  private async revokeWhere(
+    column: 'id' | 'user_id' | 'company_id',
+    value: string,
+    reason: string
+  ): Promise<number> {
+    const { data: revoked, error } = await supabaseAdmin
+      .from('sessions')
+      .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+      .eq(column, value)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to revoke sessions: ${error.message}`);
+    }
+
+    const sessionIds = (revoked || []).map((session: { id: string }) => session.id);
+    contextCacheService.forget('session', ...sessionIds);
+    await refreshTokenService.revokeFamilies(sessionIds);
+
+    return sessionIds.length;
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,263 @@
+/**
+ * @file JWT signing key service
+ * @module services/signing-key
+ *
+ * Asymmetric (RS256 or EdDSA) access token signing with key rotation and a public JWKS
+ */
+
+import crypto from 'crypto';
+import { SignJWT, jwtVerify, decodeProtectedHeader, exportJWK, calculateJwkThumbprint, JWK } from 'jose';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { JwtSigningKey } from '../types';
+import { decrypt, deriveKey, encrypt } from '../utils/encryption';
+
+// How long loaded keys are trusted before re-reading them (picks up rotations by other instances)
+const CACHE_TTL_MS = 5 * 60 * 1000;
+// Unknown `kid`s trigger a reload at most this often
+const MIN_RELOAD_INTERVAL_MS = 30 * 1000;
+
+interface LoadedKey {
+  kid: string;
+  algorithm: JwtSigningKey['algorithm'];
+  status: JwtSigningKey['status'];
+  publicKey: crypto.KeyObject;
+  privateKey?: crypto.KeyObject;
+  createdAt: Date;
+  expiresAt: Date | null;
+}
+
+/**
+ * Signing Key Service
+ * Tokens are signed with the newest active key and carry its `kid`. Rotating retires
+ * the previous key, which keeps verifying (and stays in the JWKS) for
+ * `retiredKeyTtlHours`. Keys are rotated automatically after `keyRotationDays`.
+ */
+export class SigningKeyService {
+  private readonly encryptionKey: Buffer;
+  private keys = new Map<string, LoadedKey>();
+  private loadedAt = 0;
+  private pendingRotation?: Promise<unknown>;
+
+  constructor() {
+    // Derive 32-byte encryption key from config
+    this.encryptionKey = deriveKey(config.jwt.keyEncryptionKey);
+  }
+
+  /**
+   * Load the keys and create the first one if none exists
+   * Called once at server start.
+   */
+  async initialize(): Promise<{ kid: string; algorithm: string }> {
+    const key = await this.getSigningKey();
+    return { kid: key.kid, algorithm: key.algorithm };
+  }
+
+  /**
+   * Generate a new signing key and retire the current one
+   *
+   * @param algorithm - Algorithm of the new key (defaults to `config.jwt.algorithm`)
+   */
+  async rotateKey(
+    algorithm: JwtSigningKey['algorithm'] = config.jwt.algorithm
+  ): Promise<{ kid: string; algorithm: string; retired: string[] }> {
+    if (algorithm !== 'RS256' && algorithm !== 'EdDSA') {
+      throw new Error(`Unsupported signing algorithm: ${algorithm}`);
+    }
+
+    const { publicKey, privateKey } =
+      algorithm === 'EdDSA'
+        ? crypto.generateKeyPairSync('ed25519')
+        : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+    // The RFC 7638 thumbprint makes a stable, collision-free key ID
+    const kid = await calculateJwkThumbprint(await exportJWK(publicKey));
+
+    const { error } = await supabaseAdmin.from('jwt_signing_keys').insert({
+      kid,
+      algorithm,
+      public_key: publicKey.export({ type: 'spki', format: 'pem' }) as string,
+      private_key: encrypt(privateKey.export({ type: 'pkcs8', format: 'pem' }) as string, this.encryptionKey),
+      status: 'active',
+    });
+
+    if (error) {
+      throw new Error(`Failed to store signing key: ${error.message}`);
+    }
+
+    // Retire the previous keys only once the new one exists, so there is always an active key
+    const now = new Date();
+    const { data: retired } = await supabaseAdmin
+      .from('jwt_signing_keys')
+      .update({
+        status: 'retired',
+        retired_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + config.jwt.retiredKeyTtlHours * 60 * 60 * 1000).toISOString(),
+      })
+      .eq('status', 'active')
+      .neq('kid', kid)
+      .select('kid');
+
+    await this.loadKeys();
+
+    return { kid, algorithm, retired: (retired || []).map((key: { kid: string }) => key.kid) };
+  }
+
+  /**
+   * Sign a JWT with the active key
+   *
+   * @param payload - Claims
+   * @param options - Lifetime (e.g. `15m`) and optional `jti`
+   */
+  async sign(payload: object, options: { expiresIn: string; jwtid?: string }): Promise<string> {
+    const key = await this.getSigningKey();
+
+    const token = new SignJWT({ ...payload })
+      .setProtectedHeader({ alg: key.algorithm, kid: key.kid, typ: 'JWT' })
+      .setIssuedAt()
+      .setExpirationTime(options.expiresIn);
+
+    if (options.jwtid) {
+      token.setJti(options.jwtid);
+    }
+
+    return token.sign(key.privateKey!);
+  }
+
+  /**
+   * Verify a JWT with the key named by its `kid` header
+   *
+   * @param token - JWT
+   * @returns The claims, or null if the token is invalid, expired or signed by an unknown key
+   */
+  async verify<T>(token: string): Promise<T | null> {
+    try {
+      const { kid } = decodeProtectedHeader(token);
+      if (!kid) {
+        return null;
+      }
+
+      let key = this.keys.get(kid);
+      if (!key && Date.now() - this.loadedAt > MIN_RELOAD_INTERVAL_MS) {
+        await this.loadKeys();
+        key = this.keys.get(kid);
+      }
+
+      if (!key || (key.expiresAt && key.expiresAt.getTime() <= Date.now())) {
+        return null;
+      }
+
+      // Only the key's own algorithm is accepted, so `alg` in the header cannot downgrade it
+      const { payload } = await jwtVerify(token, key.publicKey, { algorithms: [key.algorithm] });
+
+      return payload as T;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Public keys for token verification (RFC 7517 JWK Set)
+   */
+  async getJwks(): Promise<{ keys: JWK[] }> {
+    await this.ensureFresh();
+
+    const keys: JWK[] = [];
+    for (const key of this.keys.values()) {
+      if (!key.expiresAt || key.expiresAt.getTime() > Date.now()) {
+        keys.push({ ...(await exportJWK(key.publicKey)), kid: key.kid, alg: key.algorithm, use: 'sig' });
+      }
+    }
+
+    return { keys };
+  }
+
+  /**
+   * List key metadata (no key material)
+   */
+  async listKeys(): Promise<Omit<JwtSigningKey, 'public_key' | 'private_key'>[]> {
+    const { data, error } = await supabaseAdmin
+      .from('jwt_signing_keys')
+      .select('kid, algorithm, status, created_at, retired_at, expires_at')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get the newest active key, creating or rotating it when needed
+   */
+  private async getSigningKey(): Promise<LoadedKey> {
+    await this.ensureFresh();
+
+    let key = this.newestActiveKey();
+    const maxAgeMs = config.jwt.keyRotationDays * 24 * 60 * 60 * 1000;
+
+    if (!key || (config.jwt.keyRotationDays > 0 && Date.now() - key.createdAt.getTime() > maxAgeMs)) {
+      // Concurrent requests share one rotation
+      this.pendingRotation ||= this.rotateKey().finally(() => {
+        this.pendingRotation = undefined;
+      });
+      await this.pendingRotation;
+      key = this.newestActiveKey();
+    }
+
+    if (!key) {
+      throw new Error('No active signing key');
+    }
+
+    return key;
+  }
+
+  private newestActiveKey(): LoadedKey | undefined {
+    return Array.from(this.keys.values())
+      .filter((key) => key.status === 'active')
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  }
+
+  private async ensureFresh(): Promise<void> {
+    if (Date.now() - this.loadedAt > CACHE_TTL_MS) {
+      await this.loadKeys();
+    }
+  }
+
+  /**
+   * Read active keys and retired keys that have not expired yet
+   */
+  private async loadKeys(): Promise<void> {
+    const { data, error } = await supabaseAdmin
+      .from('jwt_signing_keys')
+      .select('*')
+      .or(`status.eq.active,expires_at.gt.${new Date().toISOString()}`);
+
+    if (error) {
+      throw new Error(`Failed to load signing keys: ${error.message}`);
+    }
+
+    const keys = new Map<string, LoadedKey>();
+    for (const row of (data || []) as JwtSigningKey[]) {
+      keys.set(row.kid, {
+        kid: row.kid,
+        algorithm: row.algorithm,
+        status: row.status,
+        publicKey: crypto.createPublicKey(row.public_key),
+        // Retired keys are only used for verification
+        privateKey:
+          row.status === 'active'
+            ? crypto.createPrivateKey(decrypt(row.private_key, this.encryptionKey))
+            : undefined,
+        createdAt: new Date(row.created_at),
+        expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+      });
+    }
+
+    this.keys = keys;
+    this.loadedAt = Date.now();
+  }
+}
+
+export const signingKeyService = new SigningKeyService();
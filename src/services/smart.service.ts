@@ -0,0 +1,682 @@
+/**
+ * @file SMART on FHIR authorization service
+ * @module services/smart
+ *
+ * SMART App Launch (v1) for third-party clinical apps: authorization code flow with
+ * PKCE, user consent, EHR launch context and tenant-scoped access tokens
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { JwtPayload, SmartApp, SmartLaunchContext, Tenant, User } from '../types';
+import { rbacService } from './rbac.service';
+import { sessionService } from './session.service';
+import { signingKeyService } from './signing-key.service';
+import { contextCacheService } from './context-cache.service';
+import { describeScope, isValidScope, parseScopes, scopeCovers } from '../utils/smart';
+
+/**
+ * NEEMIFY permissions a SMART token may carry. Apps get clinical access through their
+ * SMART scopes; administrative permissions are never delegated to them.
+ */
+export const SMART_DELEGATED_PERMISSIONS = ['api.use'];
+
+// App columns returned to callers (never the secret hash)
+const APP_COLUMNS = 'id, company_id, name, client_id, redirect_uris, launch_uri, scopes, created_by, revoked_at, created_at';
+
+type PublicSmartApp = Omit<SmartApp, 'client_secret_hash'>;
+
+/**
+ * Authorization request parameters (SMART App Launch section 2.1.6)
+ */
+export interface SmartAuthorizationRequest {
+  response_type?: string;
+  client_id?: string;
+  redirect_uri?: string;
+  scope?: string;
+  state?: string;
+  aud?: string;
+  launch?: string;
+  code_challenge?: string;
+  code_challenge_method?: string;
+}
+
+/**
+ * Outcome of validating or answering an authorization request
+ * Without `redirectTo` the request could not be tied to a registered redirect URI,
+ * so the error must be shown to the user instead of sent to the app.
+ */
+export interface SmartAuthorizationResult {
+  success: boolean;
+  app?: SmartApp;
+  scopes?: string[];
+  redirectTo?: string;
+  error?: string;
+  errorDescription?: string;
+}
+
+/**
+ * Token endpoint response for the authorization code grant, with launch context
+ */
+export interface SmartTokenResult {
+  success: boolean;
+  accessToken?: string;
+  expiresIn?: number;
+  scope?: string;
+  tenant?: string;
+  patient?: string;
+  encounter?: string;
+  error?: 'invalid_grant';
+  errorDescription?: string;
+}
+
+/**
+ * SMART Service
+ * Apps are registered per company. The authorize endpoint validates a request and
+ * hands it to the web consent screen; approving it issues a single-use code bound to
+ * the app, redirect URI, PKCE challenge, tenant and launch context. Tokens act for
+ * the approving user in the launch tenant and are backed by a session.
+ */
+export class SmartService {
+  /**
+   * Hash a secret or code for storage and lookup
+   */
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  /**
+   * Register an app for a company
+   * Confidential apps get a secret, which is only returned here.
+   *
+   * @param companyId - Company ID
+   * @param data - Name, redirect URIs, optional EHR launch URI, allowed scopes and client type
+   * @param createdBy - Admin registering the app
+   */
+  async createApp(
+    companyId: string,
+    data: { name: string; redirectUris: string[]; launchUri?: string; scopes: string[]; confidential?: boolean },
+    createdBy: string
+  ): Promise<{ success: boolean; app?: PublicSmartApp; clientSecret?: string; error?: string }> {
+    for (const uri of [...data.redirectUris, ...(data.launchUri ? [data.launchUri] : [])]) {
+      if (!this.isAllowedAppUrl(uri)) {
+        return { success: false, error: `URLs must use https (or http on localhost): ${uri}` };
+      }
+    }
+
+    const invalid = data.scopes.filter((scope) => !isValidScope(scope));
+    if (invalid.length > 0) {
+      return { success: false, error: `Invalid SMART scopes: ${invalid.join(', ')}` };
+    }
+
+    const clientSecret = data.confidential ? crypto.randomBytes(32).toString('base64url') : undefined;
+
+    const { data: app, error } = await supabaseAdmin
+      .from('smart_apps')
+      .insert({
+        id: uuidv4(),
+        company_id: companyId,
+        name: data.name,
+        client_id: `smart_${crypto.randomBytes(16).toString('hex')}`,
+        client_secret_hash: clientSecret ? this.hash(clientSecret) : null,
+        redirect_uris: data.redirectUris,
+        launch_uri: data.launchUri || null,
+        scopes: data.scopes,
+        created_by: createdBy,
+      })
+      .select(APP_COLUMNS)
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, app, clientSecret };
+  }
+
+  /**
+   * List a company's apps
+   *
+   * @param companyId - Company ID
+   */
+  async listApps(companyId: string): Promise<PublicSmartApp[]> {
+    const { data, error } = await supabaseAdmin
+      .from('smart_apps')
+      .select(APP_COLUMNS)
+      .eq('company_id', companyId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Revoke an app; its tokens are refused from the next request
+   *
+   * @param companyId - Company ID
+   * @param id - App ID
+   */
+  async revokeApp(companyId: string, id: string): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await supabaseAdmin
+      .from('smart_apps')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('company_id', companyId)
+      .is('revoked_at', null)
+      .select('id, client_id');
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'App not found' };
+    }
+
+    contextCacheService.forget('smartApp', data[0].client_id);
+
+    return { success: true };
+  }
+
+  /**
+   * Get a registered, unrevoked app by client ID
+   *
+   * @param clientId - App client ID
+   */
+  async getApp(clientId: string): Promise<SmartApp | null> {
+    const { data } = await supabaseAdmin
+      .from('smart_apps')
+      .select('*')
+      .eq('client_id', clientId)
+      .is('revoked_at', null)
+      .single();
+
+    return (data as SmartApp) || null;
+  }
+
+  /**
+   * Authenticate an app at the token endpoint
+   * Public apps identify themselves by client ID only; confidential apps must send
+   * their secret.
+   *
+   * @param clientId - App client ID
+   * @param clientSecret - Plain secret, if sent
+   */
+  async authenticateApp(clientId: string, clientSecret?: string): Promise<SmartApp | null> {
+    const app = await this.getApp(clientId);
+    if (!app) {
+      return null;
+    }
+
+    if (!app.client_secret_hash) {
+      return clientSecret ? null : app;
+    }
+
+    if (!clientSecret) {
+      return null;
+    }
+
+    const expected = Buffer.from(app.client_secret_hash, 'hex');
+    const actual = Buffer.from(this.hash(clientSecret), 'hex');
+
+    return crypto.timingSafeEqual(expected, actual) ? app : null;
+  }
+
+  /**
+   * Start an EHR launch of an app for the current user
+   *
+   * @param user - User launching the app
+   * @param data - App, tenant and clinical context
+   * @returns The opaque launch ID and the app's launch URL carrying `iss` and `launch`
+   */
+  async createLaunch(
+    user: User,
+    data: { appId: string; tenantId: string } & SmartLaunchContext
+  ): Promise<{ success: boolean; launch?: string; launchUrl?: string; error?: string }> {
+    const { data: app } = await supabaseAdmin
+      .from('smart_apps')
+      .select('*')
+      .eq('id', data.appId)
+      .eq('company_id', user.company_id)
+      .is('revoked_at', null)
+      .single();
+
+    if (!app) {
+      return { success: false, error: 'App not found' };
+    }
+
+    if (!app.launch_uri) {
+      return { success: false, error: 'App does not support EHR launch' };
+    }
+
+    if (!(await this.getAccessibleTenant(user, data.tenantId))) {
+      return { success: false, error: 'Tenant not found' };
+    }
+
+    const context: SmartLaunchContext = {
+      ...(data.patient && { patient: data.patient }),
+      ...(data.encounter && { encounter: data.encounter }),
+    };
+
+    const launch = uuidv4();
+    const { error } = await supabaseAdmin.from('smart_launches').insert({
+      id: launch,
+      app_id: app.id,
+      user_id: user.id,
+      tenant_id: data.tenantId,
+      context,
+      expires_at: new Date(Date.now() + config.smart.launchTtlSeconds * 1000).toISOString(),
+    });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    const launchUrl = new URL(app.launch_uri);
+    launchUrl.searchParams.set('iss', config.smart.baseUrl);
+    launchUrl.searchParams.set('launch', launch);
+
+    return { success: true, launch, launchUrl: launchUrl.toString() };
+  }
+
+  /**
+   * Validate an authorization request before the user is asked for consent
+   *
+   * @param request - Authorization request parameters
+   */
+  async validateRequest(request: SmartAuthorizationRequest): Promise<SmartAuthorizationResult> {
+    const app = request.client_id ? await this.getApp(request.client_id) : null;
+    if (!app) {
+      return { success: false, error: 'invalid_client', errorDescription: 'Unknown client_id' };
+    }
+
+    // Until the redirect URI is known to be registered, errors must not be sent to it
+    if (!request.redirect_uri || !app.redirect_uris.includes(request.redirect_uri)) {
+      return { success: false, error: 'invalid_request', errorDescription: 'redirect_uri is not registered for this app' };
+    }
+
+    const fail = (error: string, errorDescription: string): SmartAuthorizationResult =>
+      this.errorResult(app, request, error, errorDescription);
+
+    if (request.response_type !== 'code') {
+      return fail('unsupported_response_type', 'Only response_type=code is supported');
+    }
+
+    if (!request.code_challenge || request.code_challenge_method !== 'S256') {
+      return fail('invalid_request', 'PKCE with code_challenge_method=S256 is required');
+    }
+
+    if (request.aud !== config.smart.baseUrl) {
+      return fail('invalid_request', `aud must be ${config.smart.baseUrl}`);
+    }
+
+    const scopes = parseScopes(request.scope);
+    if (scopes.length === 0) {
+      return fail('invalid_scope', 'scope is required');
+    }
+
+    const notAllowed = scopes.filter(
+      (scope) => !isValidScope(scope) || !app.scopes.some((registered: string) => scopeCovers(registered, scope))
+    );
+    if (notAllowed.length > 0) {
+      return fail('invalid_scope', `Scopes not allowed for this app: ${notAllowed.join(' ')}`);
+    }
+
+    if (scopes.includes('launch') && !request.launch) {
+      return fail('invalid_request', 'The launch scope requires a launch parameter');
+    }
+
+    return { success: true, app, scopes };
+  }
+
+  /**
+   * Describe a validated request for the consent screen
+   *
+   * @param user - Signed-in user
+   * @param request - Authorization request parameters
+   */
+  async getConsentDetails(
+    user: User,
+    request: SmartAuthorizationRequest
+  ): Promise<
+    SmartAuthorizationResult & {
+      details?: {
+        app: { name: string; clientId: string };
+        scopes: { scope: string; description: string }[];
+        tenant?: { id: string; name: string };
+        tenants: { id: string; name: string }[];
+        context: SmartLaunchContext;
+      };
+    }
+  > {
+    const validation = await this.validateRequest(request);
+    if (!validation.success) {
+      return validation;
+    }
+
+    let tenant: Tenant | null = null;
+    let context: SmartLaunchContext = {};
+
+    if (request.launch) {
+      const launch = await this.getLaunch(validation.app!, user, request.launch);
+      if (!launch) {
+        return this.errorResult(validation.app!, request, 'invalid_request', 'Unknown or expired launch');
+      }
+      tenant = await this.getAccessibleTenant(user, launch.tenant_id);
+      context = launch.context || {};
+    }
+
+    const tenants = tenant ? [tenant] : await this.getAccessibleTenants(user);
+
+    return {
+      ...validation,
+      details: {
+        app: { name: validation.app!.name, clientId: validation.app!.client_id },
+        scopes: validation.scopes!.map((scope) => ({ scope, description: describeScope(scope) })),
+        tenant: tenant ? { id: tenant.id, name: tenant.name } : undefined,
+        tenants: tenants.map((option) => ({ id: option.id, name: option.name })),
+        context,
+      },
+    };
+  }
+
+  /**
+   * Answer an authorization request with the user's decision
+   *
+   * @param user - Signed-in user
+   * @param request - Authorization request parameters
+   * @param decision - Whether the user approved, and the tenant chosen for a standalone launch
+   * @returns Where to send the browser: the app's redirect URI with a code or an error
+   */
+  async authorize(
+    user: User,
+    request: SmartAuthorizationRequest,
+    decision: { approve: boolean; tenantId?: string }
+  ): Promise<SmartAuthorizationResult> {
+    const validation = await this.validateRequest(request);
+    if (!validation.success) {
+      return validation;
+    }
+
+    const app = validation.app!;
+    const deny = (error: string, errorDescription: string): SmartAuthorizationResult =>
+      this.errorResult(app, request, error, errorDescription);
+
+    if (!decision.approve) {
+      return deny('access_denied', 'The user denied the request');
+    }
+
+    if (app.company_id !== user.company_id) {
+      return deny('access_denied', 'The app is not registered for your organization');
+    }
+
+    // EHR launches carry their tenant and context; standalone launches use the chosen tenant
+    let tenantId = decision.tenantId;
+    let context: SmartLaunchContext = {};
+
+    if (request.launch) {
+      const launch = await this.getLaunch(app, user, request.launch);
+      if (!launch) {
+        return deny('invalid_request', 'Unknown or expired launch');
+      }
+
+      await supabaseAdmin
+        .from('smart_launches')
+        .update({ used_at: new Date().toISOString() })
+        .eq('id', launch.id);
+
+      tenantId = launch.tenant_id;
+      context = launch.context || {};
+    }
+
+    if (!tenantId || !(await this.getAccessibleTenant(user, tenantId))) {
+      return deny('invalid_request', 'Choose a tenant you have access to');
+    }
+
+    // Context selection scopes are only granted when the context exists
+    const scopes = validation.scopes!.filter(
+      (scope) =>
+        (scope !== 'launch/patient' || context.patient) && (scope !== 'launch/encounter' || context.encounter)
+    );
+
+    const code = crypto.randomBytes(32).toString('base64url');
+    const { error } = await supabaseAdmin.from('smart_authorization_codes').insert({
+      id: uuidv4(),
+      code_hash: this.hash(code),
+      app_id: app.id,
+      user_id: user.id,
+      tenant_id: tenantId,
+      scope: scopes.join(' '),
+      redirect_uri: request.redirect_uri,
+      code_challenge: request.code_challenge,
+      context,
+      expires_at: new Date(Date.now() + config.smart.codeTtlSeconds * 1000).toISOString(),
+    });
+
+    if (error) {
+      return deny('server_error', error.message);
+    }
+
+    return {
+      success: true,
+      app,
+      scopes,
+      redirectTo: this.redirectWith(request.redirect_uri!, { code, state: request.state }),
+    };
+  }
+
+  /**
+   * Exchange an authorization code for an access token
+   *
+   * @param app - Authenticated app
+   * @param data - Code, redirect URI and PKCE code verifier from the token request
+   */
+  async exchangeCode(
+    app: SmartApp,
+    data: { code?: string; redirectUri?: string; codeVerifier?: string }
+  ): Promise<SmartTokenResult> {
+    const invalidGrant = (errorDescription: string): SmartTokenResult => ({
+      success: false,
+      error: 'invalid_grant',
+      errorDescription,
+    });
+
+    if (!data.code || !data.codeVerifier) {
+      return invalidGrant('code and code_verifier are required');
+    }
+
+    // Mark the code used first so that it can only ever be redeemed once
+    const { data: authorizationCode } = await supabaseAdmin
+      .from('smart_authorization_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('code_hash', this.hash(data.code))
+      .is('used_at', null)
+      .select('*')
+      .single();
+
+    if (
+      !authorizationCode ||
+      authorizationCode.app_id !== app.id ||
+      new Date(authorizationCode.expires_at).getTime() <= Date.now()
+    ) {
+      return invalidGrant('Invalid, expired or already used code');
+    }
+
+    if (authorizationCode.redirect_uri !== data.redirectUri) {
+      return invalidGrant('redirect_uri does not match the authorization request');
+    }
+
+    const challenge = crypto.createHash('sha256').update(data.codeVerifier).digest('base64url');
+    if (challenge !== authorizationCode.code_challenge) {
+      return invalidGrant('code_verifier does not match the code challenge');
+    }
+
+    const { data: user } = await supabaseAdmin
+      .from('users')
+      .select('*')
+      .eq('id', authorizationCode.user_id)
+      .single();
+
+    if (!user || user.is_active === false) {
+      return invalidGrant('The user is no longer active');
+    }
+
+    const { permissions } = await rbacService.getUserRolesAndPermissions(user.id);
+    const context: SmartLaunchContext = authorizationCode.context || {};
+    const expiresIn = config.oauth.accessTokenTtlSeconds;
+    const session = await sessionService.createSession(user as User, new Date(Date.now() + expiresIn * 1000));
+
+    const payload: JwtPayload = {
+      userId: user.id,
+      email: user.email,
+      companyId: user.company_id,
+      tenantId: authorizationCode.tenant_id,
+      isSuperUser: false,
+      isOrgAdmin: false,
+      permissions: permissions
+        .map((permission) => permission.name)
+        .filter((name) => SMART_DELEGATED_PERMISSIONS.includes(name)),
+      sub: user.id,
+      client_id: app.client_id,
+      scope: authorizationCode.scope,
+      smart: context,
+    };
+
+    const accessToken = await signingKeyService.sign(payload, {
+      expiresIn: `${expiresIn}s`,
+      jwtid: session.id,
+    });
+
+    return {
+      success: true,
+      accessToken,
+      expiresIn,
+      scope: authorizationCode.scope,
+      tenant: authorizationCode.tenant_id,
+      patient: context.patient,
+      encounter: context.encounter,
+    };
+  }
+
+  /**
+   * Get an unused, unexpired launch of this app by this user
+   */
+  private async getLaunch(
+    app: SmartApp,
+    user: User,
+    launchId: string
+  ): Promise<{ id: string; tenant_id: string; context: SmartLaunchContext } | null> {
+    const { data: launch } = await supabaseAdmin
+      .from('smart_launches')
+      .select('id, tenant_id, context, expires_at')
+      .eq('id', launchId)
+      .eq('app_id', app.id)
+      .eq('user_id', user.id)
+      .is('used_at', null)
+      .single();
+
+    if (!launch || new Date(launch.expires_at).getTime() <= Date.now()) {
+      return null;
+    }
+
+    return launch;
+  }
+
+  /**
+   * Build an error result that sends the browser back to the app's redirect URI
+   */
+  private errorResult(
+    app: SmartApp,
+    request: SmartAuthorizationRequest,
+    error: string,
+    errorDescription: string
+  ): SmartAuthorizationResult {
+    return {
+      success: false,
+      app,
+      error,
+      errorDescription,
+      redirectTo: this.redirectWith(request.redirect_uri!, {
+        error,
+        error_description: errorDescription,
+        state: request.state,
+      }),
+    };
+  }
+
+  /**
+   * Get a tenant of the user's company that the user may act in
+   * Tenant-scoped users may only use their own tenant.
+   */
+  private async getAccessibleTenant(user: User, tenantId: string): Promise<Tenant | null> {
+    if (user.tenant_id && user.tenant_id !== tenantId) {
+      return null;
+    }
+
+    const { data: tenant } = await supabaseAdmin
+      .from('tenants')
+      .select('*')
+      .eq('id', tenantId)
+      .eq('parent_company_id', user.company_id)
+      .single();
+
+    if (!tenant || tenant.is_active === false) {
+      return null;
+    }
+
+    return tenant as Tenant;
+  }
+
+  /**
+   * List the active tenants the user may pick for a standalone launch
+   */
+  private async getAccessibleTenants(user: User): Promise<Tenant[]> {
+    let query = supabaseAdmin
+      .from('tenants')
+      .select('*')
+      .eq('parent_company_id', user.company_id)
+      .eq('is_active', true)
+      .order('name', { ascending: true });
+
+    if (user.tenant_id) {
+      query = query.eq('id', user.tenant_id);
+    }
+
+    const { data } = await query;
+    return (data || []) as Tenant[];
+  }
+
+  /**
+   * Check that an app URL uses https, or http on localhost during development
+   */
+  private isAllowedAppUrl(value: string): boolean {
+    try {
+      const url = new URL(value);
+      return (
+        url.protocol === 'https:' ||
+        (url.protocol === 'http:' && ['localhost', '127.0.0.1'].includes(url.hostname))
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Append query parameters to a redirect URI, skipping undefined values
+   */
+  private redirectWith(uri: string, params: Record<string, string | undefined>): string {
+    const url = new URL(uri);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, value);
+      }
+    }
+    return url.toString();
+  }
+}
+
+export const smartService = new SmartService();
@@ -0,0 +1,163 @@
+/**
+ * @file SSO user provisioning service
+ * @module services/sso-provisioning
+ *
+ * Maps an identity asserted by a company's IdP (OIDC or SAML) onto a NEEMIFY user
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database';
+import { companyService } from './company.service';
+import { rbacService } from './rbac.service';
+import { contextCacheService } from './context-cache.service';
+
+const SALT_ROUNDS = 12;
+
+/**
+ * Identity asserted by an IdP, after claim/attribute mapping
+ */
+export interface SsoIdentity {
+  email: string;
+  name?: string;
+  groups: string[];
+  emailVerified?: boolean;
+}
+
+/**
+ * Provider settings that control provisioning
+ */
+export interface SsoProvisioningOptions {
+  companyId: string;
+  jitProvisioning: boolean;
+  groupRoleMappings: Record<string, string>;
+}
+
+/**
+ * SSO Provisioning Service
+ * An IdP may only sign in users on its own company's domain. Unknown users are
+ * created just in time when the provider allows it. Roles named in
+ * `groupRoleMappings` are kept in sync with the user's IdP groups on every login;
+ * other roles are left alone.
+ */
+export class SsoProvisioningService {
+  /**
+   * Find or provision the user for an asserted identity and sync their roles
+   *
+   * @param identity - Mapped IdP identity
+   * @param options - Settings of the provider that asserted it
+   * @returns The user's ID and whether the account was just created
+   */
+  async resolveUser(
+    identity: SsoIdentity,
+    options: SsoProvisioningOptions
+  ): Promise<{ success: boolean; userId?: string; provisioned?: boolean; error?: string }> {
+    const email = identity.email.toLowerCase();
+
+    if (!email || !email.includes('@')) {
+      return { success: false, error: 'The identity provider did not return an email address' };
+    }
+    if (identity.emailVerified === false) {
+      return { success: false, error: 'The identity provider has not verified this email address' };
+    }
+
+    const { company } = await companyService.validateDomain(email);
+    if (!company || company.id !== options.companyId) {
+      return { success: false, error: 'Email domain does not belong to this company' };
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from('users')
+      .select('id, company_id')
+      .eq('email', email)
+      .single();
+
+    let userId: string;
+    let provisioned = false;
+
+    if (existing) {
+      if (existing.company_id !== options.companyId) {
+        return { success: false, error: 'User belongs to a different company' };
+      }
+      userId = existing.id;
+    } else {
+      if (!options.jitProvisioning) {
+        return { success: false, error: 'No account exists for this user' };
+      }
+
+      // SSO users never sign in with a password, so store a random one
+      const passwordHash = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), SALT_ROUNDS);
+
+      userId = uuidv4();
+      const { error } = await supabaseAdmin.from('users').insert({
+        id: userId,
+        email,
+        full_name: identity.name || email,
+        password_hash: passwordHash,
+        company_id: options.companyId,
+        is_super_user: false,
+        is_org_admin: false,
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      provisioned = true;
+    }
+
+    await this.syncRoles(userId, options, identity.groups);
+
+    return { success: true, userId, provisioned };
+  }
+
+  /**
+   * Grant the roles mapped from the user's groups and remove mapped roles they lost
+   */
+  private async syncRoles(
+    userId: string,
+    options: SsoProvisioningOptions,
+    groups: string[]
+  ): Promise<void> {
+    const mappings = options.groupRoleMappings || {};
+    if (Object.keys(mappings).length === 0) {
+      return;
+    }
+
+    const roles = await rbacService.getCompanyRoles(options.companyId);
+    const roleIdByName = new Map(roles.map((role) => [role.name, role.id]));
+
+    const managedRoleIds = new Set(
+      Object.values(mappings)
+        .map((roleName) => roleIdByName.get(roleName))
+        .filter((roleId): roleId is string => !!roleId)
+    );
+    const grantedRoleIds = new Set(
+      groups
+        .map((group) => roleIdByName.get(mappings[group]))
+        .filter((roleId): roleId is string => !!roleId)
+    );
+
+    const { data: current } = await supabaseAdmin
+      .from('user_roles')
+      .select('role_id')
+      .eq('user_id', userId);
+    const currentRoleIds = new Set((current || []).map((row: { role_id: string }) => row.role_id));
+
+    for (const roleId of grantedRoleIds) {
+      if (!currentRoleIds.has(roleId)) {
+        await supabaseAdmin.from('user_roles').insert({ user_id: userId, role_id: roleId });
+        contextCacheService.forgetUser(userId);
+      }
+    }
+
+    for (const roleId of managedRoleIds) {
+      if (currentRoleIds.has(roleId) && !grantedRoleIds.has(roleId)) {
+        await rbacService.removeRoleFromUser(userId, roleId);
+      }
+    }
+  }
+}
+
+export const ssoProvisioningService = new SsoProvisioningService();
@@ -8,6 +8,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import { supabaseAdmin } from '../config/database';
 import { Tenant, Company } from '../types';
+import { contextCacheService } from './context-cache.service';
 
 /**
  * Tenant Service
@@ -143,6 +144,8 @@ export class TenantService {
         return { success: false, error: error.message };
       }
 
+      contextCacheService.forgetTenant(tenantId);
+
       return { success: true };
     } catch (error) {
       return {
@@ -184,6 +187,8 @@ export class TenantService {
         return { success: false, error: error.message };
       }
 
+      contextCacheService.forgetTenant(tenantId);
+
       return { success: true };
     } catch (error) {
       return {
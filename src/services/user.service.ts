@@ -3,9 +3,17 @@
  * @module services/user
  */
 
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcrypt';
 import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { passwordPolicyService } from './password-policy.service';
+import { passwordResetService } from './password-reset.service';
+import { mailService } from './mail.service';
+import { sessionService } from './session.service';
+import { contextCacheService } from './context-cache.service';
 
 const SALT_ROUNDS = 12;
 
@@ -24,7 +32,8 @@ export class UserService {
   }) {
     let query = supabaseAdmin
       .from('users')
-      .select('id, email, full_name, company_id, tenant_id, is_org_admin, is_super_user, created_at, last_login')
+      .select('id, email, full_name, company_id, tenant_id, is_org_admin, is_super_user, created_at, last_login, locked_until, is_active, deactivated_at, scim_external_id')
+      .eq('is_service_account', false)
       .order('created_at', { ascending: false });
 
     if (filters?.companyId) {
@@ -54,7 +63,7 @@ export class UserService {
   async getUserById(userId: string) {
     const { data, error } = await supabaseAdmin
       .from('users')
-      .select('id, email, full_name, company_id, tenant_id, is_org_admin, is_super_user, created_at, last_login')
+      .select('id, email, full_name, company_id, tenant_id, is_org_admin, is_super_user, created_at, last_login, locked_until, is_active, deactivated_at, scim_external_id, is_service_account')
       .eq('id', userId)
       .single();
 
@@ -67,18 +76,35 @@ export class UserService {
 
   /**
    * Create a new user
+   * Provisioned users may be created without a password; they get a random one
+   * and sign in through SSO or a password reset.
    */
   async createUser(data: {
     email: string;
-    password: string;
+    password?: string;
     fullName: string;
     companyId: string;
     tenantId?: string;
     isOrgAdmin?: boolean;
+    scimExternalId?: string;
+    isServiceAccount?: boolean;
   }) {
     try {
+      if (data.password) {
+        const violations = await passwordPolicyService.checkPassword(data.password, {
+          email: data.email,
+          companyId: data.companyId,
+        });
+        if (violations.length > 0) {
+          return { success: false, error: 'Password does not meet the password policy', violations };
+        }
+      }
+
       // Hash password
-      const passwordHash = await bcrypt.hash(data.password, SALT_ROUNDS);
+      const passwordHash = await bcrypt.hash(
+        data.password || crypto.randomBytes(32).toString('hex'),
+        SALT_ROUNDS
+      );
 
       const userId = uuidv4();
       const { error } = await supabaseAdmin.from('users').insert({
@@ -86,16 +112,23 @@ export class UserService {
         email: data.email,
         full_name: data.fullName,
         password_hash: passwordHash,
+        password_changed_at: new Date().toISOString(),
         company_id: data.companyId,
         tenant_id: data.tenantId || null,
         is_org_admin: data.isOrgAdmin || false,
         is_super_user: false,
+        scim_external_id: data.scimExternalId || null,
+        is_service_account: data.isServiceAccount || false,
       });
 
       if (error) {
         return { success: false, error: error.message };
       }
 
+      if (data.password) {
+        await passwordPolicyService.recordPassword(userId, passwordHash);
+      }
+
       return { success: true, userId };
     } catch (error) {
       return {
@@ -105,6 +138,26 @@ export class UserService {
     }
   }
 
+  /**
+   * Email a user created without a password a link to choose one
+   * Failures are logged; the user can still use "Forgot password".
+   *
+   * @param user - The new user's ID, email and name
+   * @param companyName - Company the account belongs to
+   */
+  async sendSetupLink(user: { id: string; email: string; fullName: string }, companyName: string): Promise<void> {
+    try {
+      const { token } = await passwordResetService.createToken(user.id);
+      const setupUrl = `${config.web.url}/reset-password?token=${encodeURIComponent(token)}`;
+
+      await mailService.sendAccountCreated(user.email, user.fullName, companyName, setupUrl);
+    } catch (error) {
+      logger.error('Account setup email failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
   /**
    * Update user details
    */
@@ -113,6 +166,7 @@ export class UserService {
     email?: string;
     tenantId?: string;
     isOrgAdmin?: boolean;
+    scimExternalId?: string | null;
   }) {
     try {
       const updateData: any = {};
@@ -121,6 +175,7 @@ export class UserService {
       if (updates.email) updateData.email = updates.email;
       if (updates.tenantId !== undefined) updateData.tenant_id = updates.tenantId;
       if (updates.isOrgAdmin !== undefined) updateData.is_org_admin = updates.isOrgAdmin;
+      if (updates.scimExternalId !== undefined) updateData.scim_external_id = updates.scimExternalId;
 
       const { error } = await supabaseAdmin
         .from('users')
@@ -131,6 +186,55 @@ export class UserService {
         return { success: false, error: error.message };
       }
 
+      contextCacheService.forgetUser(userId);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update user',
+      };
+    }
+  }
+
+  /**
+   * Activate or deactivate a user
+   * Deactivated users keep their data and roles but cannot sign in, and all of
+   * their sessions are revoked.
+   *
+   * @param userId - User ID
+   * @param active - Whether the user may sign in
+   */
+  async setUserActive(userId: string, active: boolean): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: user } = await supabaseAdmin
+        .from('users')
+        .select('is_super_user')
+        .eq('id', userId)
+        .single();
+
+      if (user?.is_super_user && !active) {
+        return { success: false, error: 'Cannot deactivate super user' };
+      }
+
+      const { error } = await supabaseAdmin
+        .from('users')
+        .update({
+          is_active: active,
+          deactivated_at: active ? null : new Date().toISOString(),
+        })
+        .eq('id', userId);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      contextCacheService.forgetUser(userId);
+
+      if (!active) {
+        await sessionService.revokeAllForUser(userId, 'deactivated');
+      }
+
       return { success: true };
     } catch (error) {
       return {
@@ -165,6 +269,8 @@ export class UserService {
         return { success: false, error: error.message };
       }
 
+      contextCacheService.forgetUser(userId);
+
       return { success: true };
     } catch (error) {
       return {
@@ -181,7 +287,8 @@ export class UserService {
     const { count } = await supabaseAdmin
       .from('users')
       .select('id', { count: 'exact', head: true })
-      .eq('company_id', companyId);
+      .eq('company_id', companyId)
+      .eq('is_service_account', false);
 
     return count || 0;
   }
@@ -192,7 +299,8 @@ export class UserService {
   async getTotalUserCount(): Promise<number> {
     const { count } = await supabaseAdmin
       .from('users')
-      .select('id', { count: 'exact', head: true });
+      .select('id', { count: 'exact', head: true })
+      .eq('is_service_account', false);
 
     return count || 0;
   }
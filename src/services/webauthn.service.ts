@@ -0,0 +1,325 @@
+/**
+ * @file WebAuthn (FIDO2 passkey) service
+ * @module services/webauthn
+ *
+ * Registration and authentication ceremonies for passkeys
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '@simplewebauthn/server';
+import { isoBase64URL } from '@simplewebauthn/server/helpers';
+import type {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/types';
+import { supabaseAdmin } from '../config/database';
+import { config } from '../config';
+import { User, WebAuthnCredential } from '../types';
+
+type Ceremony = 'registration' | 'authentication';
+
+/**
+ * WebAuthn Service
+ * Challenges are stored server-side and consumed on first use. User verification
+ * (PIN or biometric) is required so that a passkey login counts as multi-factor.
+ * Sign counters are checked on every assertion to detect cloned authenticators.
+ */
+export class WebAuthnService {
+  /**
+   * Generate options for navigator.credentials.create()
+   *
+   * @param user - User registering a passkey
+   */
+  async generateRegistrationOptions(
+    user: User
+  ): Promise<{ challengeId: string; options: PublicKeyCredentialCreationOptionsJSON }> {
+    const existing = await this.getUserCredentials(user.id);
+
+    const options = await generateRegistrationOptions({
+      rpName: config.webauthn.rpName,
+      rpID: config.webauthn.rpId,
+      userID: user.id,
+      userName: user.email,
+      userDisplayName: user.full_name,
+      attestationType: 'none',
+      excludeCredentials: existing.map((credential) => ({
+        id: isoBase64URL.toBuffer(credential.credential_id),
+        type: 'public-key' as const,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'required',
+      },
+    });
+
+    const challengeId = await this.storeChallenge('registration', options.challenge, user.id);
+
+    return { challengeId, options };
+  }
+
+  /**
+   * Verify a registration response and store the new credential
+   *
+   * @param userId - User registering the passkey
+   * @param challengeId - ID returned with the registration options
+   * @param response - Response from navigator.credentials.create()
+   * @param name - Optional label for the credential (e.g. "Ward 3 workstation")
+   */
+  async verifyRegistration(
+    userId: string,
+    challengeId: string,
+    response: RegistrationResponseJSON,
+    name?: string
+  ): Promise<{ success: boolean; credentialId?: string; error?: string }> {
+    try {
+      const challenge = await this.consumeChallenge(challengeId, 'registration');
+      if (!challenge || challenge.userId !== userId) {
+        return { success: false, error: 'Invalid or expired challenge' };
+      }
+
+      const verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge: challenge.challenge,
+        expectedOrigin: config.webauthn.origins,
+        expectedRPID: config.webauthn.rpId,
+        requireUserVerification: true,
+      });
+
+      if (!verification.verified || !verification.registrationInfo) {
+        return { success: false, error: 'Registration could not be verified' };
+      }
+
+      const info = verification.registrationInfo;
+      const credentialId = isoBase64URL.fromBuffer(info.credentialID);
+
+      const { error } = await supabaseAdmin.from('webauthn_credentials').insert({
+        id: uuidv4(),
+        user_id: userId,
+        credential_id: credentialId,
+        public_key: isoBase64URL.fromBuffer(info.credentialPublicKey),
+        counter: info.counter,
+        transports: response.response.transports || [],
+        device_type: info.credentialDeviceType,
+        backed_up: info.credentialBackedUp,
+        name: name || null,
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, credentialId };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Registration failed',
+      };
+    }
+  }
+
+  /**
+   * Generate options for navigator.credentials.get()
+   * Without an email the browser offers any discoverable passkey for this site.
+   *
+   * @param email - Optional email to restrict the allowed credentials
+   */
+  async generateAuthenticationOptions(
+    email?: string
+  ): Promise<{ challengeId: string; options: PublicKeyCredentialRequestOptionsJSON }> {
+    let allowCredentials: WebAuthnCredential[] = [];
+
+    if (email) {
+      const { data: user } = await supabaseAdmin
+        .from('users')
+        .select('id')
+        .eq('email', email)
+        .single();
+
+      if (user) {
+        allowCredentials = await this.getUserCredentials(user.id);
+      }
+    }
+
+    const options = await generateAuthenticationOptions({
+      rpID: config.webauthn.rpId,
+      userVerification: 'required',
+      allowCredentials: allowCredentials.map((credential) => ({
+        id: isoBase64URL.toBuffer(credential.credential_id),
+        type: 'public-key' as const,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      })),
+    });
+
+    const challengeId = await this.storeChallenge('authentication', options.challenge);
+
+    return { challengeId, options };
+  }
+
+  /**
+   * Verify an authentication response
+   *
+   * @param challengeId - ID returned with the authentication options
+   * @param response - Response from navigator.credentials.get()
+   * @returns The ID of the user who owns the credential
+   */
+  async verifyAuthentication(
+    challengeId: string,
+    response: AuthenticationResponseJSON
+  ): Promise<{ success: boolean; userId?: string; error?: string }> {
+    try {
+      const challenge = await this.consumeChallenge(challengeId, 'authentication');
+      if (!challenge) {
+        return { success: false, error: 'Invalid or expired challenge' };
+      }
+
+      const { data: stored } = await supabaseAdmin
+        .from('webauthn_credentials')
+        .select('*')
+        .eq('credential_id', response.id)
+        .single();
+
+      if (!stored) {
+        return { success: false, error: 'Unknown credential' };
+      }
+
+      const credential = stored as WebAuthnCredential;
+
+      // Throws if the signature is invalid or the sign counter went backwards
+      const verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge: challenge.challenge,
+        expectedOrigin: config.webauthn.origins,
+        expectedRPID: config.webauthn.rpId,
+        requireUserVerification: true,
+        authenticator: {
+          credentialID: isoBase64URL.toBuffer(credential.credential_id),
+          credentialPublicKey: isoBase64URL.toBuffer(credential.public_key),
+          counter: Number(credential.counter),
+          transports: credential.transports as AuthenticatorTransportFuture[],
+        },
+      });
+
+      if (!verification.verified) {
+        return { success: false, error: 'Authentication could not be verified' };
+      }
+
+      await supabaseAdmin
+        .from('webauthn_credentials')
+        .update({
+          counter: verification.authenticationInfo.newCounter,
+          last_used_at: new Date().toISOString(),
+        })
+        .eq('id', credential.id);
+
+      return { success: true, userId: credential.user_id };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Authentication failed',
+      };
+    }
+  }
+
+  /**
+   * List a user's registered passkeys
+   *
+   * @param userId - User ID
+   */
+  async getUserCredentials(userId: string): Promise<WebAuthnCredential[]> {
+    const { data: credentials, error } = await supabaseAdmin
+      .from('webauthn_credentials')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error || !credentials) {
+      return [];
+    }
+
+    return credentials as WebAuthnCredential[];
+  }
+
+  /**
+   * Remove one of a user's passkeys
+   *
+   * @param userId - Owner of the credential
+   * @param id - Credential record ID
+   */
+  async deleteCredential(userId: string, id: string): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await supabaseAdmin
+      .from('webauthn_credentials')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Credential not found' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Store a ceremony challenge
+   */
+  private async storeChallenge(
+    ceremony: Ceremony,
+    challenge: string,
+    userId?: string
+  ): Promise<string> {
+    const id = uuidv4();
+    const expiresAt = new Date(Date.now() + config.webauthn.challengeTtlSeconds * 1000);
+
+    const { error } = await supabaseAdmin.from('webauthn_challenges').insert({
+      id,
+      user_id: userId || null,
+      ceremony,
+      challenge,
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to store challenge: ${error.message}`);
+    }
+
+    return id;
+  }
+
+  /**
+   * Fetch and delete a challenge so it can only be answered once
+   */
+  private async consumeChallenge(
+    id: string,
+    ceremony: Ceremony
+  ): Promise<{ challenge: string; userId?: string } | null> {
+    const { data: consumed } = await supabaseAdmin
+      .from('webauthn_challenges')
+      .delete()
+      .eq('id', id)
+      .eq('ceremony', ceremony)
+      .select('challenge, user_id, expires_at');
+
+    const challenge = consumed?.[0];
+    if (!challenge || new Date(challenge.expires_at).getTime() < Date.now()) {
+      return null;
+    }
+
+    return { challenge: challenge.challenge, userId: challenge.user_id || undefined };
+  }
+}
+
+export const webauthnService = new WebAuthnService();
@@ -27,6 +27,16 @@ export interface User {
   tenant_id?: string;
   is_super_user: boolean;
   is_org_admin: boolean;
+  mfa_enabled?: boolean;
+  password_changed_at?: Date;
+  failed_login_attempts?: number;
+  locked_until?: Date;
+  is_active?: boolean;
+  deactivated_at?: Date;
+  scim_external_id?: string;
+  is_service_account?: boolean;
+  email_verified?: boolean;
+  must_change_password?: boolean;
   created_at: Date;
   updated_at: Date;
   last_login?: Date;
@@ -58,6 +68,10 @@ export interface Company {
   blocked_at?: Date;
   blocked_reason?: string;
   blocked_by_user_id?: string;
+  require_mfa?: boolean;
+  new_device_policy?: NewDevicePolicy;
+  magic_link_enabled?: boolean;
+  password_policy?: Partial<PasswordPolicy>;
   created_at: Date;
   updated_at: Date;
 }
@@ -112,6 +126,29 @@ export interface License {
   signature: string;
 }
 
+/**
+ * Company password policy
+ */
+export interface PasswordPolicy {
+  min_length: number;
+  require_uppercase: boolean;
+  require_lowercase: boolean;
+  require_number: boolean;
+  require_symbol: boolean;
+  history_depth: number;
+  max_age_days: number;
+  disallow_email_local_part: boolean;
+}
+
+/**
+ * A single password policy failure, reported per form field
+ */
+export interface PasswordPolicyViolation {
+  field: 'password';
+  code: string;
+  message: string;
+}
+
 /**
  * Permission entity
  */
@@ -143,7 +180,7 @@ export interface ApiUsage {
  */
 export interface AuditLog {
   id: string;
-  user_id: string;
+  user_id: string | null;
   company_id: string;
   tenant_id?: string;
   action: string;
@@ -152,6 +189,7 @@ export interface AuditLog {
   changes?: Record<string, unknown>;
   ip_address: string;
   user_agent: string;
+  break_glass_session_id?: string | null;
   timestamp: Date;
 }
 
@@ -166,10 +204,358 @@ export interface JwtPayload {
   isSuperUser: boolean;
   isOrgAdmin: boolean;
   permissions: string[];
+  // Set on OAuth tokens (client credentials and SMART app launches)
+  sub?: string;
+  client_id?: string;
+  scope?: string;
+  // Set on SMART app tokens only; `tenantId` is then the launch tenant
+  smart?: SmartLaunchContext;
+  // Set on impersonation tokens: the super user acting as this user, and why
+  impersonatorId?: string;
+  impersonationReason?: string;
+  jti?: string;
   iat?: number;
   exp?: number;
 }
 
+/**
+ * Short-lived token issued after the password step when a second factor is required
+ */
+export interface MfaChallengePayload {
+  userId: string;
+  purpose: 'mfa_challenge';
+  enrollmentRequired: boolean;
+  jti: string;
+  iat?: number;
+  exp?: number;
+}
+
+/**
+ * Registered WebAuthn (passkey) credential
+ */
+export interface WebAuthnCredential {
+  id: string;
+  user_id: string;
+  credential_id: string;
+  public_key: string;
+  counter: number;
+  transports: string[];
+  device_type?: string;
+  backed_up?: boolean;
+  name?: string;
+  created_at: Date;
+  last_used_at?: Date;
+}
+
+/**
+ * Which ID token / userinfo claims hold the user's details
+ */
+export interface OidcClaimMappings {
+  email?: string;
+  name?: string;
+  groups?: string;
+}
+
+/**
+ * Company OpenID Connect identity provider
+ */
+export interface OidcProvider {
+  id: string;
+  company_id: string;
+  issuer: string;
+  client_id: string;
+  client_secret: string;
+  scopes: string;
+  claim_mappings: OidcClaimMappings;
+  group_role_mappings: Record<string, string>;
+  jit_provisioning: boolean;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Which SAML attributes hold the user's details (defaults cover common IdPs)
+ */
+export interface SamlAttributeMappings {
+  email?: string;
+  name?: string;
+  groups?: string;
+}
+
+/**
+ * Company SAML 2.0 identity provider
+ */
+export interface SamlProvider {
+  id: string;
+  company_id: string;
+  idp_entity_id: string;
+  idp_sso_url: string;
+  idp_slo_url?: string | null;
+  idp_certificates: string[];
+  attribute_mappings: SamlAttributeMappings;
+  group_role_mappings: Record<string, string>;
+  jit_provisioning: boolean;
+  allow_idp_initiated: boolean;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Asymmetric JWT signing key (the private key is stored encrypted)
+ */
+export interface JwtSigningKey {
+  kid: string;
+  algorithm: 'RS256' | 'EdDSA';
+  public_key: string;
+  private_key: string;
+  status: 'active' | 'retired';
+  created_at: Date;
+  retired_at?: Date | null;
+  expires_at?: Date | null;
+}
+
+/**
+ * SCIM provisioning token (the token itself is never stored, only its hash)
+ */
+export interface ScimToken {
+  id: string;
+  company_id: string;
+  name: string;
+  token_hash: string;
+  created_by?: string | null;
+  last_used_at?: Date | null;
+  revoked_at?: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Service account (a machine principal backed by a users row)
+ */
+export interface ServiceAccount {
+  user_id: string;
+  company_id: string;
+  tenant_id?: string | null;
+  name: string;
+  description?: string | null;
+  permissions: string[];
+  created_by?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Service account API key (the key itself is never stored, only its hash)
+ */
+export interface ApiKey {
+  id: string;
+  service_account_id: string;
+  company_id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  expires_at: Date;
+  last_used_at?: Date | null;
+  last_used_ip?: string | null;
+  revoked_at?: Date | null;
+  replaced_by?: string | null;
+  created_by?: string | null;
+  created_at: Date;
+}
+
+/**
+ * OAuth 2.0 client registered by a company (the secret is never stored, only its hash)
+ * Each client acts as its own service account, whose permissions are the client's scopes.
+ */
+export interface OAuthClient {
+  id: string;
+  company_id: string;
+  service_account_id: string;
+  name: string;
+  client_id: string;
+  client_secret_hash: string;
+  created_by?: string | null;
+  last_used_at?: Date | null;
+  revoked_at?: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Invitation for a new company user (the token is never stored, only its hash)
+ */
+export interface Invitation {
+  id: string;
+  company_id: string;
+  tenant_id?: string | null;
+  email: string;
+  role_ids: string[];
+  token_hash: string;
+  invited_by?: string | null;
+  expires_at: Date;
+  sent_at: Date;
+  accepted_at?: Date | null;
+  accepted_user_id?: string | null;
+  cancelled_at?: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Request to join an existing company, reviewed by an org admin
+ */
+export interface AccessRequest {
+  id: string;
+  company_id: string;
+  email: string;
+  full_name: string;
+  message?: string | null;
+  status: 'pending' | 'approved' | 'denied';
+  tenant_id?: string | null;
+  role_ids: string[];
+  decision_reason?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: Date | null;
+  user_id?: string | null;
+  created_at: Date;
+}
+
+/**
+ * What a login from a device the user has not signed in from before needs
+ */
+export type NewDevicePolicy = 'notify' | 'require_mfa' | 'require_approval';
+
+/**
+ * Browser/platform family and IP prefix a user has completed a login from
+ */
+export interface KnownDevice {
+  id: string;
+  user_id: string;
+  user_agent_family: string;
+  ip_prefix: string;
+  last_ip_address?: string | null;
+  last_user_agent?: string | null;
+  first_seen_at: Date;
+  last_seen_at: Date;
+}
+
+/**
+ * Login from an unknown device held until an org admin approves the device
+ */
+export interface DeviceApproval {
+  id: string;
+  user_id: string;
+  company_id: string;
+  user_agent_family: string;
+  ip_prefix: string;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  status: 'pending' | 'approved' | 'denied';
+  reviewed_by?: string | null;
+  reviewed_at?: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Time-limited emergency access a user declared in a tenant, reviewed afterwards
+ */
+export interface BreakGlassSession {
+  id: string;
+  user_id: string;
+  company_id: string;
+  tenant_id: string;
+  emergency: string;
+  justification: string;
+  permissions: string[];
+  started_at: Date;
+  expires_at: Date;
+  ended_at?: Date | null;
+  review_requested_at?: Date | null;
+  review_outcome?: 'justified' | 'unjustified' | null;
+  review_notes?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: Date | null;
+  created_at: Date;
+}
+
+/**
+ * SMART on FHIR app registered by a company (the secret is never stored, only its hash)
+ * Public apps have no secret and rely on PKCE alone.
+ */
+export interface SmartApp {
+  id: string;
+  company_id: string;
+  name: string;
+  client_id: string;
+  client_secret_hash?: string | null;
+  redirect_uris: string[];
+  launch_uri?: string | null;
+  scopes: string[];
+  created_by?: string | null;
+  revoked_at?: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Clinical context an app is launched with
+ */
+export interface SmartLaunchContext {
+  patient?: string;
+  encounter?: string;
+}
+
+/**
+ * Refresh token record (the token itself is never stored, only its hash)
+ */
+export interface RefreshToken {
+  id: string;
+  user_id: string;
+  family_id: string;
+  token_hash: string;
+  expires_at: Date;
+  rotated_at?: Date;
+  revoked_at?: Date;
+  created_at: Date;
+}
+
+/**
+ * Server-side session (one per login, identified by the JWT `jti` claim)
+ */
+export interface Session {
+  id: string;
+  user_id: string;
+  company_id: string;
+  expires_at: Date;
+  revoked_at?: Date;
+  revoked_reason?: string;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  last_seen_at?: Date | null;
+  reauthenticated_at?: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Where a request came from
+ */
+export interface ClientInfo {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * A user's active session as shown to them
+ */
+export interface ActiveSession {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastSeenAt: Date | null;
+  expiresAt: Date;
+  current: boolean;
+}
+
 /**
  * API Request context
  */
@@ -179,6 +565,36 @@ export interface RequestContext {
   tenant?: Tenant;
   license: License;
   permissions: Set<string>;
+  sessionId?: string;
+  authenticatedAt?: Date;
+  apiKeyId?: string;
+  smart?: SmartContext;
+  impersonation?: ImpersonationContext;
+  breakGlass?: BreakGlassSession;
+}
+
+/**
+ * Impersonation request context (set from an impersonation token)
+ */
+export interface ImpersonationContext {
+  impersonatorId: string;
+  reason: string;
+}
+
+/**
+ * SMART app request context (set from a SMART access token)
+ */
+export interface SmartContext extends SmartLaunchContext {
+  clientId: string;
+  scopes: string[];
+}
+
+/**
+ * SCIM request context (set from the company's provisioning token)
+ */
+export interface ScimContext {
+  company: Company;
+  tokenId: string;
 }
 
 /**
@@ -0,0 +1,29 @@
+import { decrypt, deriveKey, encrypt } from '../encryption';
+
+describe('encryption', () => {
+  const key = deriveKey('test-secret');
+
+  it('round-trips a value with a fresh IV each time', () => {
+    const first = encrypt('totp secret', key);
+    const second = encrypt('totp secret', key);
+
+    expect(first).not.toBe(second);
+    expect(decrypt(first, key)).toBe('totp secret');
+    expect(decrypt(second, key)).toBe('totp secret');
+  });
+
+  it('refuses a value encrypted with another key', () => {
+    expect(() => decrypt(encrypt('secret', deriveKey('other')), key)).toThrow();
+  });
+
+  it('refuses a tampered value', () => {
+    const [iv, data, tag] = encrypt('secret', key).split('.');
+    const flipped = (parseInt(data[0], 16) ^ 1).toString(16) + data.slice(1);
+
+    expect(() => decrypt(`${iv}.${flipped}.${tag}`, key)).toThrow();
+  });
+
+  it('refuses malformed values', () => {
+    expect(() => decrypt('not-encrypted', key)).toThrow('Invalid encrypted payload format');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * @file Symmetric encryption of secrets at rest
+ * @module utils/encryption
+ *
+ * AES-256-GCM, serialized as hex `iv.ciphertext.authTag`
+ */
+
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+/**
+ * Derive a 32-byte encryption key from a configured secret
+ *
+ * @param secret - Secret from config
+ */
+export function deriveKey(secret: string): Buffer {
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a string
+ *
+ * @param plaintext - Text to encrypt
+ * @param key - 32-byte key from `deriveKey`
+ */
+export function encrypt(plaintext: string, key: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+
+  let encrypted = cipher.update(plaintext, 'utf8', 'hex');
+  encrypted += cipher.final('hex');
+
+  const authTag = cipher.getAuthTag();
+
+  // Combine IV + encrypted data + auth tag
+  return `${iv.toString('hex')}.${encrypted}.${authTag.toString('hex')}`;
+}
+
+/**
+ * Decrypt a string produced by `encrypt`
+ * Throws when the value is malformed or was not encrypted with this key.
+ *
+ * @param encrypted - Encrypted value
+ * @param key - 32-byte key from `deriveKey`
+ */
+export function decrypt(encrypted: string, key: Buffer): string {
+  const parts = encrypted.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Invalid encrypted payload format');
+  }
+
+  const [ivHex, encryptedData, authTagHex] = parts;
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(ivHex, 'hex'));
+  decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+
+  let decrypted = decipher.update(encryptedData, 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+
+  return decrypted;
+}
@@ -0,0 +1,592 @@
+/**
+ * @file SCIM 2.0 filters and PATCH operations (RFC 7644)
+ * @module utils/scim
+ *
+ * Works on plain SCIM resource objects. Attribute names are case-insensitive and
+ * may carry their schema URN prefix, as the RFC allows.
+ */
+
+export const SCIM_SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  serviceProviderConfig: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  resourceType: 'urn:ietf:params:scim:schemas:core:2.0:ResourceType',
+};
+
+export type ScimResource = Record<string, unknown>;
+
+type FilterValue = string | number | boolean | null;
+
+type CompareOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le';
+
+/**
+ * Parsed filter expression
+ */
+export type ScimFilter =
+  | { op: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+  | { op: 'not'; filter: ScimFilter }
+  | { op: 'pr'; path: string[] }
+  | { op: 'valuePath'; path: string[]; filter: ScimFilter }
+  | { op: CompareOperator; path: string[]; value: FilterValue };
+
+/**
+ * One entry of a PatchOp request's `Operations`
+ */
+export interface ScimPatchOperation {
+  op: string;
+  path?: string;
+  value?: unknown;
+}
+
+interface Token {
+  type: 'word' | 'string' | 'punct';
+  value: string;
+}
+
+const COMPARE_OPERATORS = new Set(['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le']);
+const ATTRIBUTE_NAME = /^[A-Za-z$][\w$-]*$/;
+// Identifiers are compared case-sensitively; every other string is not
+const CASE_EXACT_ATTRIBUTES = new Set(['id', 'externalid']);
+
+function isObject(value: unknown): value is ScimResource {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Strip a schema URN prefix and split an attribute path into at most two names
+ */
+function parseAttributePath(path: string): string[] {
+  const stripped = path.toLowerCase().startsWith('urn:')
+    ? path.slice(path.lastIndexOf(':') + 1)
+    : path;
+  const names = stripped.split('.');
+
+  if (names.length > 2 || !names.every((name) => ATTRIBUTE_NAME.test(name))) {
+    throw new Error(`Invalid attribute path "${path}"`);
+  }
+
+  return names;
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < input.length) {
+    const char = input[position];
+
+    if (/\s/.test(char)) {
+      position++;
+    } else if ('()[]'.includes(char)) {
+      tokens.push({ type: 'punct', value: char });
+      position++;
+    } else if (char === '"') {
+      let end = position + 1;
+      while (end < input.length && input[end] !== '"') {
+        end += input[end] === '\\' ? 2 : 1;
+      }
+      if (end >= input.length) {
+        throw new Error('Unterminated string in filter');
+      }
+      tokens.push({ type: 'string', value: JSON.parse(input.slice(position, end + 1)) });
+      position = end + 1;
+    } else {
+      const word = /^[^\s()[\]"]+/.exec(input.slice(position))![0];
+      tokens.push({ type: 'word', value: word });
+      position += word.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser; `not` binds tighter than `and`, which binds tighter than `or`
+ */
+class FilterParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ScimFilter {
+    const filter = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected "${this.tokens[this.position].value}" in filter`);
+    }
+    return filter;
+  }
+
+  private parseOr(): ScimFilter {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('or')) {
+      left = { op: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ScimFilter {
+    let left = this.parseUnary();
+    while (this.acceptKeyword('and')) {
+      left = { op: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ScimFilter {
+    if (this.acceptKeyword('not')) {
+      this.expect('(');
+      const filter = this.parseOr();
+      this.expect(')');
+      return { op: 'not', filter };
+    }
+
+    if (this.accept('(')) {
+      const filter = this.parseOr();
+      this.expect(')');
+      return filter;
+    }
+
+    return this.parseAttributeExpression();
+  }
+
+  private parseAttributeExpression(): ScimFilter {
+    const attribute = this.tokens[this.position++];
+    if (!attribute || attribute.type !== 'word') {
+      throw new Error('Expected an attribute name in filter');
+    }
+    const path = parseAttributePath(attribute.value);
+
+    if (this.accept('[')) {
+      const filter = this.parseOr();
+      this.expect(']');
+      return { op: 'valuePath', path, filter };
+    }
+
+    const operator = this.tokens[this.position++];
+    const op = operator?.type === 'word' ? operator.value.toLowerCase() : '';
+    if (op === 'pr') {
+      return { op: 'pr', path };
+    }
+    if (!COMPARE_OPERATORS.has(op)) {
+      throw new Error(`Expected a comparison operator after "${attribute.value}"`);
+    }
+
+    return { op: op as CompareOperator, path, value: this.parseValue() };
+  }
+
+  private parseValue(): FilterValue {
+    const token = this.tokens[this.position++];
+    if (!token || token.type === 'punct') {
+      throw new Error('Expected a comparison value in filter');
+    }
+    if (token.type === 'string') {
+      return token.value;
+    }
+
+    const word = token.value.toLowerCase();
+    if (word === 'true' || word === 'false') {
+      return word === 'true';
+    }
+    if (word === 'null') {
+      return null;
+    }
+    if (!isNaN(Number(token.value))) {
+      return Number(token.value);
+    }
+
+    throw new Error(`Invalid comparison value "${token.value}"`);
+  }
+
+  private accept(punct: string): boolean {
+    const token = this.tokens[this.position];
+    if (token?.type === 'punct' && token.value === punct) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.tokens[this.position];
+    if (token?.type === 'word' && token.value.toLowerCase() === keyword) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(punct: string): void {
+    if (!this.accept(punct)) {
+      throw new Error(`Expected "${punct}" in filter`);
+    }
+  }
+}
+
+/**
+ * Parse a SCIM filter expression
+ * Throws if the filter is not valid.
+ *
+ * @param filter - Filter string, e.g. `userName eq "a@b.com" and active eq true`
+ */
+export function parseFilter(filter: string): ScimFilter {
+  return new FilterParser(tokenize(filter)).parse();
+}
+
+/**
+ * Find the value of an attribute by case-insensitive name
+ *
+ * @param resource - SCIM resource or complex value
+ * @param name - Attribute name
+ */
+export function getAttribute(resource: ScimResource, name: string): unknown {
+  const key = findKey(resource, name);
+  return key === undefined ? undefined : resource[key];
+}
+
+function findKey(resource: ScimResource, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return Object.keys(resource).find((key) => key.toLowerCase() === lower);
+}
+
+function setAttribute(resource: ScimResource, name: string, value: unknown): void {
+  resource[findKey(resource, name) ?? name] = value;
+}
+
+function deleteAttribute(resource: ScimResource, name: string): void {
+  const key = findKey(resource, name);
+  if (key !== undefined) {
+    delete resource[key];
+  }
+}
+
+/**
+ * Collect every value at a path, flattening multi-valued attributes
+ */
+function resolveValues(resource: ScimResource, path: string[]): unknown[] {
+  let values: unknown[] = [resource];
+
+  for (const name of path) {
+    values = values.flatMap((value) => {
+      if (!isObject(value)) {
+        return [];
+      }
+      const child = getAttribute(value, name);
+      if (child === undefined || child === null) {
+        return [];
+      }
+      return Array.isArray(child) ? child : [child];
+    });
+  }
+
+  return values;
+}
+
+/**
+ * Compare a multi-valued attribute by its `value` sub-attribute
+ */
+function primitiveOf(value: unknown): unknown {
+  return isObject(value) ? getAttribute(value, 'value') : value;
+}
+
+function compare(
+  actual: unknown,
+  op: CompareOperator,
+  expected: FilterValue,
+  caseExact: boolean
+): boolean {
+  if (typeof actual === 'string' && typeof expected === 'string') {
+    const a = caseExact ? actual : actual.toLowerCase();
+    const b = caseExact ? expected : expected.toLowerCase();
+
+    switch (op) {
+      case 'eq': return a === b;
+      case 'ne': return a !== b;
+      case 'co': return a.includes(b);
+      case 'sw': return a.startsWith(b);
+      case 'ew': return a.endsWith(b);
+      case 'gt': return a > b;
+      case 'ge': return a >= b;
+      case 'lt': return a < b;
+      case 'le': return a <= b;
+    }
+  }
+
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    switch (op) {
+      case 'eq': return actual === expected;
+      case 'ne': return actual !== expected;
+      case 'gt': return actual > expected;
+      case 'ge': return actual >= expected;
+      case 'lt': return actual < expected;
+      case 'le': return actual <= expected;
+      default: return false;
+    }
+  }
+
+  if (op === 'eq') return actual === expected;
+  if (op === 'ne') return actual !== expected;
+  return false;
+}
+
+/**
+ * Test a resource against a parsed filter
+ * A multi-valued attribute matches when any of its values does.
+ *
+ * @param resource - SCIM resource
+ * @param filter - Parsed filter
+ */
+export function matchesFilter(resource: ScimResource, filter: ScimFilter): boolean {
+  switch (filter.op) {
+    case 'and':
+      return matchesFilter(resource, filter.left) && matchesFilter(resource, filter.right);
+    case 'or':
+      return matchesFilter(resource, filter.left) || matchesFilter(resource, filter.right);
+    case 'not':
+      return !matchesFilter(resource, filter.filter);
+    case 'pr':
+      return resolveValues(resource, filter.path).some((value) => value !== '');
+    case 'valuePath':
+      return resolveValues(resource, filter.path).some(
+        (value) => isObject(value) && matchesFilter(value, filter.filter)
+      );
+    default: {
+      const values = resolveValues(resource, filter.path).map(primitiveOf);
+      const caseExact = CASE_EXACT_ATTRIBUTES.has(filter.path[filter.path.length - 1].toLowerCase());
+
+      if (filter.op === 'ne') {
+        return !values.some((value) => compare(value, 'eq', filter.value, caseExact));
+      }
+      return values.some((value) => compare(value, filter.op, filter.value, caseExact));
+    }
+  }
+}
+
+/**
+ * Apply the `attributes` / `excludedAttributes` query parameters
+ * Only top-level attributes are selected; `schemas` and `id` are always returned.
+ *
+ * @param resource - SCIM resource
+ * @param attributes - Comma-separated attributes to return
+ * @param excludedAttributes - Comma-separated attributes to leave out
+ */
+export function projectAttributes(
+  resource: ScimResource,
+  attributes?: string,
+  excludedAttributes?: string
+): ScimResource {
+  const toNames = (list: string): Set<string> =>
+    new Set(list.split(',').map((path) => parseAttributePath(path.trim())[0].toLowerCase()));
+  const alwaysReturned = (key: string): boolean => key === 'schemas' || key === 'id';
+
+  if (attributes) {
+    const selected = toNames(attributes);
+    return Object.fromEntries(
+      Object.entries(resource).filter(([key]) => alwaysReturned(key) || selected.has(key.toLowerCase()))
+    );
+  }
+
+  if (excludedAttributes) {
+    const excluded = toNames(excludedAttributes);
+    return Object.fromEntries(
+      Object.entries(resource).filter(([key]) => alwaysReturned(key) || !excluded.has(key.toLowerCase()))
+    );
+  }
+
+  return resource;
+}
+
+type PatchResult = { success: boolean; error?: string; scimType?: string };
+
+function patchFailure(scimType: string, error: string): PatchResult {
+  return { success: false, error, scimType };
+}
+
+/**
+ * Split a PATCH path into attribute, optional value filter and optional sub-attribute
+ * e.g. `emails[type eq "work"].value`
+ */
+function parsePatchPath(path: string): { attribute: string; filter?: ScimFilter; subAttribute?: string } {
+  const bracket = path.indexOf('[');
+
+  if (bracket === -1) {
+    const [attribute, subAttribute] = parseAttributePath(path.trim());
+    return { attribute, subAttribute };
+  }
+
+  const [attribute] = parseAttributePath(path.slice(0, bracket).trim());
+  const match = /^\[(.*)\](?:\.([A-Za-z$][\w$-]*))?$/.exec(path.slice(bracket).trim());
+  if (!match) {
+    throw new Error(`Invalid path "${path}"`);
+  }
+
+  return { attribute, filter: parseFilter(match[1]), subAttribute: match[2] };
+}
+
+function applyOperation(
+  resource: ScimResource,
+  op: string,
+  path: string | undefined,
+  value: unknown
+): PatchResult {
+  // Without a path the value holds the attributes to add or replace
+  if (!path) {
+    if (op === 'remove') {
+      return patchFailure('noTarget', 'A remove operation requires a path');
+    }
+    if (!isObject(value)) {
+      return patchFailure('invalidValue', 'A value object is required when no path is given');
+    }
+
+    for (const [name, item] of Object.entries(value)) {
+      // Extension attributes are nested under their schema URN
+      const entries = name.toLowerCase().startsWith('urn:') && isObject(item)
+        ? Object.entries(item)
+        : [[name, item] as [string, unknown]];
+
+      for (const [entryPath, entryValue] of entries) {
+        const result = applyOperation(resource, op, entryPath, entryValue);
+        if (!result.success) {
+          return result;
+        }
+      }
+    }
+
+    return { success: true };
+  }
+
+  let target: ReturnType<typeof parsePatchPath>;
+  try {
+    target = parsePatchPath(path);
+  } catch (error) {
+    return patchFailure('invalidPath', error instanceof Error ? error.message : 'Invalid path');
+  }
+
+  const key = findKey(resource, target.attribute) ?? target.attribute;
+  const current = resource[key];
+
+  if (target.filter) {
+    const matches = Array.isArray(current)
+      ? current.filter((item) => isObject(item) && matchesFilter(item, target.filter!))
+      : [];
+
+    if (op === 'remove') {
+      if (target.subAttribute) {
+        matches.forEach((item) => deleteAttribute(item, target.subAttribute!));
+      } else if (Array.isArray(current)) {
+        resource[key] = current.filter((item) => !matches.includes(item));
+      }
+      return { success: true };
+    }
+
+    if (matches.length === 0) {
+      return patchFailure('noTarget', `No values match "${path}"`);
+    }
+
+    for (const item of matches) {
+      if (target.subAttribute) {
+        setAttribute(item, target.subAttribute, value);
+      } else if (isObject(value)) {
+        Object.entries(value).forEach(([name, subValue]) => setAttribute(item, name, subValue));
+      } else {
+        return patchFailure('invalidValue', `"${path}" requires a complex value`);
+      }
+    }
+
+    return { success: true };
+  }
+
+  if (target.subAttribute) {
+    const parents = Array.isArray(current) ? current.filter(isObject) : [isObject(current) ? current : {}];
+
+    for (const parent of parents) {
+      if (op === 'remove') {
+        deleteAttribute(parent, target.subAttribute);
+      } else {
+        setAttribute(parent, target.subAttribute, value);
+      }
+    }
+    if (!Array.isArray(current) && op !== 'remove') {
+      resource[key] = parents[0];
+    }
+
+    return { success: true };
+  }
+
+  if (op === 'remove') {
+    // Some clients name the values to remove instead of using a filter
+    if (Array.isArray(current) && Array.isArray(value)) {
+      const removed = new Set(value.map((item) => JSON.stringify(primitiveOf(item))));
+      resource[key] = current.filter((item) => !removed.has(JSON.stringify(primitiveOf(item))));
+    } else {
+      delete resource[key];
+    }
+    return { success: true };
+  }
+
+  // Adding to a multi-valued attribute appends values it does not already have
+  if (op === 'add' && Array.isArray(current)) {
+    const existing = new Set(current.map((item) => JSON.stringify(primitiveOf(item))));
+    const additions = (Array.isArray(value) ? value : [value]).filter(
+      (item) => !existing.has(JSON.stringify(primitiveOf(item)))
+    );
+    resource[key] = [...current, ...additions];
+    return { success: true };
+  }
+
+  // Complex values are merged; sub-attributes that are not given are left unchanged
+  if (isObject(current) && isObject(value)) {
+    Object.entries(value).forEach(([name, item]) => setAttribute(current, name, item));
+  } else {
+    resource[key] = value;
+  }
+
+  return { success: true };
+}
+
+/**
+ * Apply PATCH operations to a copy of a resource
+ * Operation names are case-insensitive, since several IdPs send `Replace` or `Add`.
+ *
+ * @param resource - Current SCIM representation
+ * @param operations - `Operations` from a PatchOp request
+ * @returns The patched copy, or the SCIM error type and detail
+ */
+export function applyPatch(
+  resource: ScimResource,
+  operations: ScimPatchOperation[]
+): { success: boolean; resource?: ScimResource; error?: string; scimType?: string } {
+  const patched = JSON.parse(JSON.stringify(resource)) as ScimResource;
+
+  for (const operation of operations) {
+    const op = String(operation?.op || '').toLowerCase();
+    if (op !== 'add' && op !== 'remove' && op !== 'replace') {
+      return { success: false, error: `Unsupported operation "${operation?.op}"`, scimType: 'invalidSyntax' };
+    }
+
+    const result = applyOperation(patched, op, operation.path, operation.value);
+    if (!result.success) {
+      return result;
+    }
+  }
+
+  return { success: true, resource: patched };
+}
+
+/**
+ * Build a SCIM error response body
+ *
+ * @param status - HTTP status code
+ * @param detail - Human-readable error message
+ * @param scimType - SCIM error type, e.g. `invalidFilter` or `uniqueness`
+ */
+export function scimError(status: number, detail: string, scimType?: string): ScimResource {
+  return {
+    schemas: [SCIM_SCHEMAS.error],
+    status: String(status),
+    ...(scimType ? { scimType } : {}),
+    detail,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * @file SMART on FHIR scope helpers
+ * @module utils/smart
+ *
+ * Parsing, matching and describing SMART App Launch v1 scopes
+ */
+
+/**
+ * Launch scopes: `launch` asks for the EHR launch context, `launch/patient` and
+ * `launch/encounter` ask for a patient or encounter to be selected
+ */
+export const LAUNCH_SCOPES = ['launch', 'launch/patient', 'launch/encounter'];
+
+// {patient|user}/{ResourceType|*}.{read|write|*}
+const RESOURCE_SCOPE = /^(patient|user)\/(\*|[A-Z][A-Za-z]+)\.(read|write|\*)$/;
+
+/**
+ * Scopes advertised in the SMART configuration
+ */
+export const SUPPORTED_SCOPES = [
+  ...LAUNCH_SCOPES,
+  'patient/*.read',
+  'patient/*.write',
+  'user/*.read',
+  'user/*.write',
+];
+
+/**
+ * Split a space-separated scope string into unique scopes
+ */
+export function parseScopes(scope: string | undefined): string[] {
+  return Array.from(new Set((scope || '').split(' ').filter(Boolean)));
+}
+
+/**
+ * Check that a scope is a launch scope or a well-formed resource scope
+ */
+export function isValidScope(scope: string): boolean {
+  return LAUNCH_SCOPES.includes(scope) || RESOURCE_SCOPE.test(scope);
+}
+
+/**
+ * Check whether a registered scope covers a requested one
+ * Wildcards in the registered scope cover any resource type or access level,
+ * e.g. `patient/*.*` covers `patient/Observation.read`.
+ *
+ * @param registered - Scope the app is allowed
+ * @param requested - Scope the app asks for
+ */
+export function scopeCovers(registered: string, requested: string): boolean {
+  if (registered === requested) {
+    return true;
+  }
+
+  const allowed = RESOURCE_SCOPE.exec(registered);
+  const wanted = RESOURCE_SCOPE.exec(requested);
+  if (!allowed || !wanted) {
+    return false;
+  }
+
+  return (
+    allowed[1] === wanted[1] &&
+    (allowed[2] === '*' || allowed[2] === wanted[2]) &&
+    (allowed[3] === '*' || allowed[3] === wanted[3])
+  );
+}
+
+/**
+ * Describe a scope for the consent screen
+ */
+export function describeScope(scope: string): string {
+  switch (scope) {
+    case 'launch':
+      return 'Open within your current session and its context';
+    case 'launch/patient':
+      return 'Know which patient is selected';
+    case 'launch/encounter':
+      return 'Know which encounter is selected';
+  }
+
+  const match = RESOURCE_SCOPE.exec(scope);
+  if (!match) {
+    return scope;
+  }
+
+  const [, compartment, resourceType, access] = match;
+  const verb = access === 'read' ? 'Read' : access === 'write' ? 'Create and change' : 'Read, create and change';
+  const data = resourceType === '*' ? 'all data' : `${resourceType} data`;
+
+  return compartment === 'patient'
+    ? `${verb} ${data} of the selected patient`
+    : `${verb} ${data} you have access to`;
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Shield, Loader2 } from 'lucide-react'
+import { api } from '@/lib/api'
+import { useToast } from '@/hooks/use-toast'
+
+function AcceptInviteForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+
+  const token = searchParams.get('token') || ''
+  const [invitation, setInvitation] = useState<{ email: string; companyName: string } | null>(null)
+  const [invalid, setInvalid] = useState(false)
+  const [fullName, setFullName] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [violations, setViolations] = useState<{ field: string; message: string }[]>([])
+
+  useEffect(() => {
+    if (!token) return
+
+    api
+      .lookupInvitation(token)
+      .then(setInvitation)
+      .catch(() => setInvalid(true))
+  }, [token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (password !== confirmPassword) {
+      toast({
+        title: 'Passwords do not match',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setLoading(true)
+    setViolations([])
+
+    try {
+      await api.acceptInvitation(token, fullName, password)
+
+      toast({
+        title: 'Account activated',
+        description: 'You can now log in with your new password',
+      })
+
+      router.push('/login')
+    } catch (error: any) {
+      if (error.response?.data?.violations) {
+        setViolations(error.response.data.violations)
+        return
+      }
+
+      toast({
+        title: 'Could not accept invitation',
+        description: error.response?.data?.error || 'Invalid or expired invitation',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!token || invalid) {
+    return (
+      <p className="text-sm text-muted-foreground text-center">
+        This invitation link is invalid or has expired. Ask your administrator to send a new one.
+      </p>
+    )
+  }
+
+  if (!invitation) {
+    return (
+      <div className="flex items-center justify-center text-sm text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Loading invitation...
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-muted-foreground text-center">
+        Join <span className="font-medium text-foreground">{invitation.companyName}</span> as{' '}
+        <span className="font-medium text-foreground">{invitation.email}</span>
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor="fullName">Full Name</Label>
+        <Input
+          id="fullName"
+          value={fullName}
+          onChange={(e) => setFullName(e.target.value)}
+          required
+          disabled={loading}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          disabled={loading}
+        />
+        {violations
+          .filter((violation) => violation.field === 'password')
+          .map((violation) => (
+            <p key={violation.message} className="text-sm text-destructive">
+              {violation.message}
+            </p>
+          ))}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirm">Confirm Password</Label>
+        <Input
+          id="confirm"
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          required
+          disabled={loading}
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Activating...
+          </>
+        ) : (
+          'Activate account'
+        )}
+      </Button>
+    </form>
+  )
+}
+
+export default function AcceptInvitePage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-background to-secondary p-4">
+      <div className="w-full max-w-md">
+        {/* Logo */}
+        <div className="flex justify-center mb-8">
+          <Link href="/" className="flex items-center space-x-2">
+            <Shield className="h-10 w-10 text-primary" />
+            <span className="text-3xl font-bold">NEEMIFY</span>
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">Accept Invitation</CardTitle>
+            <CardDescription className="text-center">Choose your password to activate your account</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {/* useSearchParams needs a Suspense boundary */}
+            <Suspense fallback={null}>
+              <AcceptInviteForm />
+            </Suspense>
+
+            <div className="mt-6 text-center text-sm text-muted-foreground">
+              <Link href="/login" className="text-primary hover:underline">
+                Back to login
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
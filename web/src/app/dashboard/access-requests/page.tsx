@@ -0,0 +1,339 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { UserPlus, Loader2, Check, X } from 'lucide-react'
+import { formatDateTime } from '@/lib/utils'
+import { api } from '@/lib/api'
+import { useToast } from '@/hooks/use-toast'
+import { useAuthStore } from '@/store/auth-store'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface AccessRequest {
+  id: string
+  email: string
+  full_name: string
+  message?: string
+  created_at: string
+}
+
+interface Tenant {
+  id: string
+  name: string
+}
+
+interface Role {
+  id: string
+  name: string
+  description?: string
+}
+
+export default function AccessRequestsPage() {
+  const { toast } = useToast()
+  const { user } = useAuthStore()
+  const [requests, setRequests] = useState<AccessRequest[]>([])
+  const [loading, setLoading] = useState(true)
+  const [tenants, setTenants] = useState<Tenant[]>([])
+  const [roles, setRoles] = useState<Role[]>([])
+  const [approveTarget, setApproveTarget] = useState<AccessRequest | null>(null)
+  const [approveTenantId, setApproveTenantId] = useState('')
+  const [approveRoleIds, setApproveRoleIds] = useState<string[]>([])
+  const [denyTarget, setDenyTarget] = useState<AccessRequest | null>(null)
+  const [denyReason, setDenyReason] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    fetchRequests()
+  }, [])
+
+  const fetchRequests = async () => {
+    try {
+      setLoading(true)
+      setRequests(await api.getAccessRequests('pending'))
+    } catch (error: any) {
+      console.error('Failed to fetch access requests:', error)
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to load access requests. Please try again.',
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openApproveDialog = async (request: AccessRequest) => {
+    setApproveTarget(request)
+    setApproveTenantId('')
+    setApproveRoleIds([])
+    try {
+      const [tenantData, roleData] = await Promise.all([
+        api.getTenants(),
+        user ? api.getCompanyRoles(user.companyId) : Promise.resolve([]),
+      ])
+      setTenants(tenantData)
+      setRoles(roleData)
+    } catch (error: any) {
+      console.error('Failed to fetch tenants and roles:', error)
+    }
+  }
+
+  const toggleRole = (roleId: string) => {
+    setApproveRoleIds((current) =>
+      current.includes(roleId) ? current.filter((id) => id !== roleId) : [...current, roleId]
+    )
+  }
+
+  const handleApprove = async () => {
+    if (!approveTarget) return
+
+    setSubmitting(true)
+    try {
+      await api.approveAccessRequest(approveTarget.id, {
+        tenantId: approveTenantId || undefined,
+        roleIds: approveRoleIds,
+      })
+      toast({
+        title: 'Request approved',
+        description: `${approveTarget.email} will receive a link to set their password.`
+      })
+      setApproveTarget(null)
+      fetchRequests()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to approve request',
+        variant: 'destructive'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleDeny = async () => {
+    if (!denyTarget) return
+
+    setSubmitting(true)
+    try {
+      await api.denyAccessRequest(denyTarget.id, denyReason)
+      toast({
+        title: 'Request denied',
+        description: `${denyTarget.email} has been told why.`
+      })
+      setDenyTarget(null)
+      setDenyReason('')
+      fetchRequests()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to deny request',
+        variant: 'destructive'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-primary" />
+          <p className="text-muted-foreground">Loading access requests...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Access Requests</h1>
+        <p className="text-muted-foreground">Review people asking to join your company</p>
+      </div>
+
+      {/* Requests Table */}
+      {requests.length > 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending Requests</CardTitle>
+            <CardDescription>
+              Approving a request creates the user and emails them a link to set their password
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Message</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map((request) => (
+                  <TableRow key={request.id}>
+                    <TableCell className="font-medium">{request.full_name}</TableCell>
+                    <TableCell className="text-muted-foreground">{request.email}</TableCell>
+                    <TableCell className="text-muted-foreground text-sm max-w-xs truncate" title={request.message}>
+                      {request.message || '-'}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-sm">
+                      {formatDateTime(request.created_at)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => openApproveDialog(request)}>
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setDenyTarget(request)}>
+                        <X className="h-4 w-4 mr-1" />
+                        Deny
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <UserPlus className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No Pending Requests</h3>
+            <p className="text-sm text-muted-foreground text-center max-w-md">
+              People with an email on your company domain can ask to join.
+              Their requests will appear here.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Approve Dialog */}
+      <Dialog
+        open={!!approveTarget}
+        onOpenChange={(open) => {
+          if (!open) setApproveTarget(null)
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Approve {approveTarget?.full_name}</DialogTitle>
+            <DialogDescription>
+              Choose where {approveTarget?.email} belongs and what they can do.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="approve-tenant">Tenant</Label>
+              <select
+                id="approve-tenant"
+                value={approveTenantId}
+                onChange={(e) => setApproveTenantId(e.target.value)}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="">Whole company</option>
+                {tenants.map((tenant) => (
+                  <option key={tenant.id} value={tenant.id}>
+                    {tenant.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Roles</Label>
+              {roles.length > 0 ? (
+                roles.map((role) => (
+                  <label key={role.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={approveRoleIds.includes(role.id)}
+                      onChange={() => toggleRole(role.id)}
+                    />
+                    {role.name}
+                    {role.description && (
+                      <span className="text-muted-foreground">- {role.description}</span>
+                    )}
+                  </label>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">No roles defined</p>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApproveTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleApprove} disabled={submitting}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Approve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Deny Dialog */}
+      <Dialog
+        open={!!denyTarget}
+        onOpenChange={(open) => {
+          if (!open) setDenyTarget(null)
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Deny {denyTarget?.full_name}</DialogTitle>
+            <DialogDescription>
+              The reason is emailed to {denyTarget?.email}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="deny-reason">Reason</Label>
+              <Input
+                id="deny-reason"
+                placeholder="e.g. Not a member of our staff"
+                value={denyReason}
+                onChange={(e) => setDenyReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDenyTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeny}
+              disabled={submitting || !denyReason.trim()}
+            >
+              Deny
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,397 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Siren, Loader2, ClipboardCheck } from 'lucide-react'
+import { formatDateTime } from '@/lib/utils'
+import { api } from '@/lib/api'
+import { useToast } from '@/hooks/use-toast'
+import { useAuthStore } from '@/store/auth-store'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface Tenant {
+  id: string
+  name: string
+}
+
+interface BreakGlassSession {
+  id: string
+  user_id: string
+  emergency: string
+  justification: string
+  started_at: string
+  expires_at: string
+  ended_at?: string | null
+  review_requested_at?: string | null
+  review_outcome?: 'justified' | 'unjustified' | null
+  review_notes?: string | null
+  user?: { email: string; full_name: string }
+  tenant?: { name: string }
+}
+
+interface ActivityEntry {
+  id: string
+  action: string
+  changes?: { method?: string; path?: string }
+  timestamp: string
+}
+
+export default function BreakGlassPage() {
+  const { toast } = useToast()
+  const { user, breakGlass, setBreakGlass } = useAuthStore()
+  const isAdmin = !!(user?.isOrgAdmin || user?.isSuperUser)
+
+  const [tenants, setTenants] = useState<Tenant[]>([])
+  const [tenantId, setTenantId] = useState('')
+  const [emergency, setEmergency] = useState('')
+  const [justification, setJustification] = useState('')
+  const [declaring, setDeclaring] = useState(false)
+
+  const [sessions, setSessions] = useState<BreakGlassSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [reviewTarget, setReviewTarget] = useState<BreakGlassSession | null>(null)
+  const [activity, setActivity] = useState<ActivityEntry[]>([])
+  const [reviewNotes, setReviewNotes] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    api
+      .getBreakGlassTenants()
+      .then(setTenants)
+      .catch((error: any) => console.error('Failed to fetch tenants:', error))
+
+    if (isAdmin) {
+      fetchSessions()
+    } else {
+      setLoading(false)
+    }
+  }, [isAdmin])
+
+  const fetchSessions = async () => {
+    try {
+      setLoading(true)
+      setSessions(await api.getBreakGlassSessions())
+    } catch (error: any) {
+      console.error('Failed to fetch break-glass sessions:', error)
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to load break-glass sessions. Please try again.',
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDeclare = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setDeclaring(true)
+
+    try {
+      const session = await api.declareBreakGlass({ tenantId, emergency, justification })
+      setBreakGlass({
+        id: session.id,
+        tenantName: tenants.find((tenant) => tenant.id === tenantId)?.name || 'the tenant',
+        expiresAt: session.expires_at,
+      })
+      toast({
+        title: 'Break-glass access opened',
+        description: `Elevated access ends ${formatDateTime(session.expires_at)}. Your organization admins have been alerted.`
+      })
+      setEmergency('')
+      setJustification('')
+      if (isAdmin) fetchSessions()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to open break-glass access',
+        variant: 'destructive'
+      })
+    } finally {
+      setDeclaring(false)
+    }
+  }
+
+  const openReviewDialog = async (session: BreakGlassSession) => {
+    setReviewTarget(session)
+    setReviewNotes('')
+    setActivity([])
+    try {
+      const data = await api.getBreakGlassSession(session.id)
+      setActivity(data.activity)
+    } catch (error: any) {
+      console.error('Failed to fetch break-glass activity:', error)
+    }
+  }
+
+  const handleReview = async (outcome: 'justified' | 'unjustified') => {
+    if (!reviewTarget) return
+
+    setSubmitting(true)
+    try {
+      await api.reviewBreakGlassSession(reviewTarget.id, outcome, reviewNotes || undefined)
+      toast({
+        title: 'Review recorded',
+        description: `The session was marked ${outcome}.`
+      })
+      setReviewTarget(null)
+      fetchSessions()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to record review',
+        variant: 'destructive'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const statusBadge = (session: BreakGlassSession) => {
+    if (session.review_outcome) {
+      return (
+        <Badge variant={session.review_outcome === 'justified' ? 'secondary' : 'destructive'}>
+          {session.review_outcome}
+        </Badge>
+      )
+    }
+    if (!session.ended_at && new Date(session.expires_at) > new Date()) {
+      return <Badge variant="destructive">open</Badge>
+    }
+    return <Badge>needs review</Badge>
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Break Glass</h1>
+        <p className="text-muted-foreground">Time-limited emergency access outside your normal tenant or role</p>
+      </div>
+
+      {/* Declare Emergency */}
+      {!user?.isSuperUser && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Siren className="h-5 w-5" />
+              Declare an Emergency
+            </CardTitle>
+            <CardDescription>
+              Only use this when patient care cannot wait. Everything you do is flagged in the
+              audit log and reviewed by your organization admins afterwards.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {breakGlass ? (
+              <p className="text-sm text-muted-foreground">
+                Break-glass access to {breakGlass.tenantName} is open until{' '}
+                {formatDateTime(breakGlass.expiresAt)}. End it from the banner as soon as you are done.
+              </p>
+            ) : (
+              <form onSubmit={handleDeclare} className="grid gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="break-glass-tenant">Tenant</Label>
+                  <select
+                    id="break-glass-tenant"
+                    value={tenantId}
+                    onChange={(e) => setTenantId(e.target.value)}
+                    required
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    <option value="" disabled>
+                      Choose a tenant
+                    </option>
+                    {tenants.map((tenant) => (
+                      <option key={tenant.id} value={tenant.id}>
+                        {tenant.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="break-glass-emergency">Emergency</Label>
+                  <Input
+                    id="break-glass-emergency"
+                    placeholder="e.g. Cardiac arrest, bed 12"
+                    value={emergency}
+                    onChange={(e) => setEmergency(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="break-glass-justification">Justification</Label>
+                  <textarea
+                    id="break-glass-justification"
+                    placeholder="Why you need access you do not normally have"
+                    value={justification}
+                    onChange={(e) => setJustification(e.target.value)}
+                    required
+                    rows={3}
+                    className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  />
+                </div>
+                <Button type="submit" variant="destructive" disabled={declaring}>
+                  {declaring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Open break-glass access
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Sessions Table */}
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Sessions</CardTitle>
+            <CardDescription>
+              Review each session once it ends and record whether the access was justified
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : sessions.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Tenant</TableHead>
+                    <TableHead>Emergency</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessions.map((session) => (
+                    <TableRow key={session.id}>
+                      <TableCell>
+                        <div className="font-medium">{session.user?.full_name}</div>
+                        <div className="text-sm text-muted-foreground">{session.user?.email}</div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{session.tenant?.name}</TableCell>
+                      <TableCell className="text-muted-foreground text-sm max-w-xs truncate" title={session.justification}>
+                        {session.emergency}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm">
+                        {formatDateTime(session.started_at)}
+                      </TableCell>
+                      <TableCell>{statusBadge(session)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => openReviewDialog(session)}>
+                          <ClipboardCheck className="h-4 w-4 mr-1" />
+                          {session.review_outcome ? 'View' : 'Review'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No one in your company has used break-glass access yet.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Review Dialog */}
+      <Dialog
+        open={!!reviewTarget}
+        onOpenChange={(open) => {
+          if (!open) setReviewTarget(null)
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Break-glass session of {reviewTarget?.user?.full_name}</DialogTitle>
+            <DialogDescription>
+              {reviewTarget?.tenant?.name}, {reviewTarget && formatDateTime(reviewTarget.started_at)} to{' '}
+              {reviewTarget && formatDateTime(reviewTarget.ended_at || reviewTarget.expires_at)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4 text-sm">
+            <div>
+              <span className="font-medium">Emergency:</span> {reviewTarget?.emergency}
+            </div>
+            <div>
+              <span className="font-medium">Justification:</span> {reviewTarget?.justification}
+            </div>
+            <div className="grid gap-2">
+              <span className="font-medium">Activity ({activity.length})</span>
+              <div className="max-h-48 overflow-y-auto rounded-md bg-muted p-3 font-mono text-xs">
+                {activity.length > 0 ? (
+                  activity.map((entry) => (
+                    <div key={entry.id}>
+                      {formatDateTime(entry.timestamp)} {entry.action}
+                      {entry.changes?.path && ` ${entry.changes.method} ${entry.changes.path}`}
+                    </div>
+                  ))
+                ) : (
+                  <div>No activity recorded</div>
+                )}
+              </div>
+            </div>
+            {reviewTarget?.review_outcome ? (
+              <div>
+                <span className="font-medium">Review:</span> {reviewTarget.review_outcome}
+                {reviewTarget.review_notes && ` - ${reviewTarget.review_notes}`}
+              </div>
+            ) : (
+              <div className="grid gap-2">
+                <Label htmlFor="review-notes">Notes</Label>
+                <Input
+                  id="review-notes"
+                  placeholder="Optional"
+                  value={reviewNotes}
+                  onChange={(e) => setReviewNotes(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewTarget(null)}>
+              Close
+            </Button>
+            {reviewTarget && !reviewTarget.review_outcome && (
+              <>
+                <Button variant="destructive" onClick={() => handleReview('unjustified')} disabled={submitting}>
+                  Unjustified
+                </Button>
+                <Button onClick={() => handleReview('justified')} disabled={submitting}>
+                  {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Justified
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
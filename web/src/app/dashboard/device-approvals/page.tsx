@@ -0,0 +1,184 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { MonitorSmartphone, Loader2, Check, X } from 'lucide-react'
+import { formatDateTime } from '@/lib/utils'
+import { api } from '@/lib/api'
+import { useToast } from '@/hooks/use-toast'
+import { useAuthStore } from '@/store/auth-store'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+interface DeviceApproval {
+  id: string
+  user_id: string
+  user_agent_family: string
+  ip_prefix: string
+  ip_address?: string
+  user_agent?: string
+  created_at: string
+  user?: { id: string; email: string; full_name: string }
+}
+
+export default function DeviceApprovalsPage() {
+  const { toast } = useToast()
+  const { user } = useAuthStore()
+  const [approvals, setApprovals] = useState<DeviceApproval[]>([])
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchApprovals()
+  }, [])
+
+  const fetchApprovals = async () => {
+    try {
+      setLoading(true)
+      setApprovals(await api.getDeviceApprovals('pending'))
+    } catch (error: any) {
+      console.error('Failed to fetch device approvals:', error)
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to load device approvals. Please try again.',
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDecision = async (approval: DeviceApproval, decision: 'approve' | 'deny') => {
+    setSubmitting(approval.id)
+    try {
+      if (decision === 'approve') {
+        await api.approveDevice(approval.id)
+      } else {
+        await api.denyDevice(approval.id)
+      }
+      toast({
+        title: decision === 'approve' ? 'Device approved' : 'Device denied',
+        description:
+          decision === 'approve'
+            ? `${approval.user?.full_name || 'The user'} can now sign in from ${approval.user_agent_family}.`
+            : `Sign-ins from ${approval.user_agent_family} stay blocked.`
+      })
+      fetchApprovals()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || `Failed to ${decision} device`,
+        variant: 'destructive'
+      })
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-primary" />
+          <p className="text-muted-foreground">Loading device approvals...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Device Approvals</h1>
+        <p className="text-muted-foreground">Review sign-ins from devices your users have not used before</p>
+      </div>
+
+      {/* Approvals Table */}
+      {approvals.length > 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending Devices</CardTitle>
+            <CardDescription>
+              Approving a device lets the user sign in from it; nobody can approve their own device
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Device</TableHead>
+                  <TableHead>IP Address</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {approvals.map((approval) => (
+                  <TableRow key={approval.id}>
+                    <TableCell>
+                      <div className="font-medium">{approval.user?.full_name || 'Unknown user'}</div>
+                      <div className="text-sm text-muted-foreground">{approval.user?.email}</div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground" title={approval.user_agent}>
+                      {approval.user_agent_family}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-sm">
+                      {approval.ip_address || approval.ip_prefix}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-sm">
+                      {formatDateTime(approval.created_at)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {approval.user_id !== user?.id && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={submitting === approval.id}
+                            onClick={() => handleDecision(approval, 'approve')}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Approve
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={submitting === approval.id}
+                            onClick={() => handleDecision(approval, 'deny')}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Deny
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <MonitorSmartphone className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No Pending Devices</h3>
+            <p className="text-sm text-muted-foreground text-center max-w-md">
+              When your company requires approval for new devices, sign-ins from them
+              will appear here.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
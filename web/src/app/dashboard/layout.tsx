@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Sidebar } from '@/components/dashboard/sidebar'
 import { Header } from '@/components/dashboard/header'
+import { ReauthDialog } from '@/components/dashboard/reauth-dialog'
 import { useAuthStore } from '@/store/auth-store'
 
 export default function DashboardLayout({
@@ -48,6 +49,9 @@ export default function DashboardLayout({
           {children}
         </main>
       </div>
+
+      {/* Step-up prompt for sensitive operations */}
+      <ReauthDialog />
     </div>
   )
 }
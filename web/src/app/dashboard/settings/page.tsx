@@ -1,14 +1,204 @@
 'use client'
 
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { startRegistration } from '@simplewebauthn/browser'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { Settings } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { KeyRound, Trash2, Monitor, MonitorSmartphone, Loader2 } from 'lucide-react'
+import { api } from '@/lib/api'
+import { formatDateTime } from '@/lib/utils'
 import { useAuthStore } from '@/store/auth-store'
+import { useToast } from '@/hooks/use-toast'
+
+interface Passkey {
+  id: string
+  name: string | null
+  deviceType: string | null
+  backedUp: boolean
+  createdAt: string
+  lastUsedAt: string | null
+}
+
+interface ActiveSession {
+  id: string
+  device: string
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: string
+  lastSeenAt: string | null
+  current: boolean
+}
+
+interface KnownDevice {
+  id: string
+  device: string
+  ipPrefix: string
+  lastIpAddress: string | null
+  firstSeenAt: string
+  lastSeenAt: string
+}
 
 export default function SettingsPage() {
-  const { user } = useAuthStore()
+  const router = useRouter()
+  const { user, clearAuth } = useAuthStore()
+  const { toast } = useToast()
+
+  const [passkeys, setPasskeys] = useState<Passkey[]>([])
+  const [passkeyName, setPasskeyName] = useState('')
+  const [registering, setRegistering] = useState(false)
+
+  const [sessions, setSessions] = useState<ActiveSession[]>([])
+  const [devices, setDevices] = useState<KnownDevice[]>([])
+
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [changingPassword, setChangingPassword] = useState(false)
+
+  useEffect(() => {
+    loadPasskeys()
+    loadSessions()
+    loadDevices()
+  }, [])
+
+  const signOutLocally = () => {
+    api.clearToken()
+    clearAuth()
+    router.push('/login')
+  }
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await api.getSessions())
+    } catch (error) {
+      console.error('Failed to load sessions:', error)
+    }
+  }
+
+  const loadDevices = async () => {
+    try {
+      setDevices(await api.getKnownDevices())
+    } catch (error) {
+      console.error('Failed to load devices:', error)
+    }
+  }
+
+  const handleForgetDevice = async (id: string) => {
+    try {
+      await api.forgetDevice(id)
+      toast({ title: 'Device forgotten', description: 'Your next sign-in from it will count as a new device.' })
+      loadDevices()
+    } catch (error: any) {
+      toast({
+        title: 'Failed to forget device',
+        description: error.response?.data?.error,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleRevokeSession = async (session: ActiveSession) => {
+    if (session.current && !confirm('This signs you out of this browser. Continue?')) return
+
+    try {
+      await api.revokeSession(session.id)
+      if (session.current) {
+        signOutLocally()
+        return
+      }
+      toast({ title: 'Session signed out' })
+      loadSessions()
+    } catch (error: any) {
+      toast({
+        title: 'Failed to sign out session',
+        description: error.response?.data?.error,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: 'Passwords do not match',
+        description: 'Enter the same new password twice',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setChangingPassword(true)
+
+    try {
+      const data = await api.changePassword(currentPassword, newPassword)
+      toast({ title: 'Password changed', description: data.message })
+      // Every session ends with the old password, including this one
+      signOutLocally()
+    } catch (error: any) {
+      const violations = error.response?.data?.violations
+      toast({
+        title: 'Password change failed',
+        description: violations?.length
+          ? violations.map((violation: any) => violation.message).join(' ')
+          : error.response?.data?.error || 'Could not change your password',
+        variant: 'destructive',
+      })
+    } finally {
+      setChangingPassword(false)
+    }
+  }
+
+  const loadPasskeys = async () => {
+    try {
+      setPasskeys(await api.getPasskeys())
+    } catch (error) {
+      console.error('Failed to load passkeys:', error)
+    }
+  }
+
+  const handleAddPasskey = async () => {
+    setRegistering(true)
+
+    try {
+      const { challengeId, options } = await api.getPasskeyRegistrationOptions()
+      const attestation = await startRegistration(options)
+      await api.registerPasskey(challengeId, attestation, passkeyName || undefined)
+
+      toast({ title: 'Passkey added' })
+      setPasskeyName('')
+      loadPasskeys()
+    } catch (error: any) {
+      toast({
+        title: 'Failed to add passkey',
+        description: error.response?.data?.error || error.message,
+        variant: 'destructive',
+      })
+    } finally {
+      setRegistering(false)
+    }
+  }
+
+  const handleRemovePasskey = async (id: string) => {
+    if (!confirm('Remove this passkey?')) return
+
+    try {
+      await api.deletePasskey(id)
+      toast({ title: 'Passkey removed' })
+      loadPasskeys()
+    } catch (error: any) {
+      toast({
+        title: 'Failed to remove passkey',
+        description: error.response?.data?.error,
+        variant: 'destructive',
+      })
+    }
+  }
 
   return (
     <div className="space-y-6">
@@ -46,23 +236,166 @@ export default function SettingsPage() {
           <CardTitle>Change Password</CardTitle>
           <CardDescription>Update your password</CardDescription>
         </CardHeader>
+        <CardContent>
+          <form onSubmit={handleChangePassword} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="current">Current Password</Label>
+              <Input
+                id="current"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                required
+                disabled={changingPassword}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new">New Password</Label>
+              <Input
+                id="new"
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+                disabled={changingPassword}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm">Confirm New Password</Label>
+              <Input
+                id="confirm"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                disabled={changingPassword}
+              />
+            </div>
+            <Button type="submit" disabled={changingPassword}>
+              {changingPassword && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Update Password
+            </Button>
+            <p className="text-sm text-muted-foreground">
+              Changing your password signs you out everywhere, including here.
+            </p>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Active Sessions</CardTitle>
+          <CardDescription>Where you are signed in. Sign out any session you do not recognise.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No active sessions.</p>
+          ) : (
+            sessions.map((session) => (
+              <div key={session.id} className="flex items-center justify-between rounded-md border p-3">
+                <div className="flex items-center gap-3">
+                  <Monitor className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <p className="text-sm font-medium" title={session.userAgent || undefined}>
+                      {session.device}
+                      {session.current && (
+                        <Badge variant="secondary" className="ml-2">
+                          This browser
+                        </Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {session.ipAddress || 'Unknown IP'} · Signed in {formatDateTime(session.createdAt)}
+                      {session.lastSeenAt && ` · Last seen ${formatDateTime(session.lastSeenAt)}`}
+                    </p>
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleRevokeSession(session)}>
+                  Sign out
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Known Devices</CardTitle>
+          <CardDescription>
+            Browsers and networks you have signed in from. Sign-ins from anywhere else are reported to you
+            and your admins.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {devices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No known devices yet.</p>
+          ) : (
+            devices.map((device) => (
+              <div key={device.id} className="flex items-center justify-between rounded-md border p-3">
+                <div className="flex items-center gap-3">
+                  <MonitorSmartphone className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <p className="text-sm font-medium">{device.device}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {device.lastIpAddress || device.ipPrefix} · First seen {formatDateTime(device.firstSeenAt)} ·
+                      Last seen {formatDateTime(device.lastSeenAt)}
+                    </p>
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleForgetDevice(device.id)}>
+                  Forget
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Passkeys</CardTitle>
+          <CardDescription>Sign in with your device&apos;s fingerprint, face or PIN instead of a password</CardDescription>
+        </CardHeader>
         <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="current">Current Password</Label>
-            <Input id="current" type="password" disabled />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="new">New Password</Label>
-            <Input id="new" type="password" disabled />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="confirm">Confirm New Password</Label>
-            <Input id="confirm" type="password" disabled />
+          {passkeys.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No passkeys registered.</p>
+          ) : (
+            <div className="space-y-2">
+              {passkeys.map((passkey) => (
+                <div key={passkey.id} className="flex items-center justify-between rounded-md border p-3">
+                  <div className="flex items-center gap-3">
+                    <KeyRound className="h-4 w-4 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium">{passkey.name || 'Passkey'}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Added {new Date(passkey.createdAt).toLocaleDateString()}
+                        {passkey.lastUsedAt &&
+                          ` · Last used ${new Date(passkey.lastUsedAt).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleRemovePasskey(passkey.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Input
+              placeholder="Name (e.g. Work laptop)"
+              value={passkeyName}
+              onChange={(e) => setPasskeyName(e.target.value)}
+              disabled={registering}
+            />
+            <Button onClick={handleAddPasskey} disabled={registering}>
+              {registering ? 'Waiting for device...' : 'Add passkey'}
+            </Button>
           </div>
-          <Button disabled>Update Password</Button>
-          <p className="text-sm text-muted-foreground">
-            Password change functionality requires backend implementation.
-          </p>
         </CardContent>
       </Card>
 
@@ -1,12 +1,14 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Users, Loader2, Shield, UserCog, Calendar } from 'lucide-react'
+import { Users, Loader2, Shield, UserCog, Calendar, Lock, UserX, Eye, Mail } from 'lucide-react'
 import { formatDateTime } from '@/lib/utils'
 import { api } from '@/lib/api'
 import { useToast } from '@/hooks/use-toast'
+import { useAuthStore } from '@/store/auth-store'
 import {
   Table,
   TableBody,
@@ -16,6 +18,16 @@ import {
   TableRow,
 } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
 
 interface User {
   id: string
@@ -27,17 +39,116 @@ interface User {
   is_super_user: boolean
   created_at: string
   last_login?: string
+  locked_until?: string
+  is_active?: boolean
+  deactivated_at?: string
+}
+
+interface Invitation {
+  id: string
+  email: string
+  tenant_id?: string
+  status: 'pending' | 'accepted' | 'cancelled' | 'expired'
+  sent_at: string
+  expires_at: string
+}
+
+interface Tenant {
+  id: string
+  name: string
 }
 
 export default function UsersPage() {
+  const router = useRouter()
   const { toast } = useToast()
+  const { user: currentUser, startImpersonation } = useAuthStore()
   const [users, setUsers] = useState<User[]>([])
   const [loading, setLoading] = useState(true)
+  const [impersonateTarget, setImpersonateTarget] = useState<User | null>(null)
+  const [impersonateReason, setImpersonateReason] = useState('')
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [tenants, setTenants] = useState<Tenant[]>([])
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false)
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteTenantId, setInviteTenantId] = useState('')
 
   useEffect(() => {
     fetchUsers()
+    fetchInvitations()
   }, [])
 
+  const fetchInvitations = async () => {
+    try {
+      const data = await api.getInvitations()
+      setInvitations(data.filter((invitation: Invitation) => invitation.status !== 'accepted'))
+    } catch (error: any) {
+      console.error('Failed to fetch invitations:', error)
+    }
+  }
+
+  const openInviteDialog = async () => {
+    setInviteDialogOpen(true)
+    try {
+      setTenants(await api.getTenants())
+    } catch (error: any) {
+      console.error('Failed to fetch tenants:', error)
+    }
+  }
+
+  const handleInvite = async () => {
+    try {
+      await api.inviteUser({ email: inviteEmail, tenantId: inviteTenantId || undefined })
+      toast({
+        title: 'Invitation sent',
+        description: `${inviteEmail} will receive a link to set their password.`
+      })
+      setInviteDialogOpen(false)
+      setInviteEmail('')
+      setInviteTenantId('')
+      fetchInvitations()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to send invitation',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleResendInvitation = async (invitation: Invitation) => {
+    try {
+      await api.resendInvitation(invitation.id)
+      toast({
+        title: 'Invitation resent',
+        description: `A new link was sent to ${invitation.email}.`
+      })
+      fetchInvitations()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to resend invitation',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleCancelInvitation = async (invitation: Invitation) => {
+    try {
+      await api.cancelInvitation(invitation.id)
+      toast({
+        title: 'Invitation cancelled',
+        description: `The link sent to ${invitation.email} no longer works.`
+      })
+      fetchInvitations()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to cancel invitation',
+        variant: 'destructive'
+      })
+    }
+  }
+
   const fetchUsers = async () => {
     try {
       setLoading(true)
@@ -55,6 +166,48 @@ export default function UsersPage() {
     }
   }
 
+  const handleUnlock = async (user: User) => {
+    try {
+      await api.unlockUser(user.id)
+      toast({
+        title: 'User unlocked',
+        description: `${user.full_name} can sign in again.`
+      })
+      fetchUsers()
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to unlock user',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleImpersonate = async () => {
+    if (!impersonateTarget) return
+
+    try {
+      const data = await api.impersonateUser(impersonateTarget.id, impersonateReason)
+      api.beginImpersonation(data.token)
+      startImpersonation(data.user, data.token, data.expiresAt)
+      setImpersonateTarget(null)
+      setImpersonateReason('')
+      router.push('/dashboard')
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to impersonate user',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const canImpersonate = (user: User) =>
+    !!currentUser?.isSuperUser && !user.is_super_user && user.is_active !== false
+
+  const isLocked = (user: User) =>
+    !!user.locked_until && new Date(user.locked_until).getTime() > Date.now()
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -78,9 +231,9 @@ export default function UsersPage() {
           <h1 className="text-3xl font-bold">Users</h1>
           <p className="text-muted-foreground">Manage system users and permissions</p>
         </div>
-        <Button disabled>
-          <Users className="mr-2 h-4 w-4" />
-          Add User
+        <Button onClick={openInviteDialog}>
+          <Mail className="mr-2 h-4 w-4" />
+          Invite User
         </Button>
       </div>
 
@@ -131,6 +284,61 @@ export default function UsersPage() {
         </Card>
       </div>
 
+      {/* Invitations Table */}
+      {invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invitations</CardTitle>
+            <CardDescription>
+              Invited users who have not joined yet
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map((invitation) => (
+                  <TableRow key={invitation.id}>
+                    <TableCell className="font-medium">{invitation.email}</TableCell>
+                    <TableCell>
+                      <Badge variant={invitation.status === 'pending' ? 'default' : 'secondary'}>
+                        {invitation.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-sm">
+                      {formatDateTime(invitation.sent_at)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-sm">
+                      {formatDateTime(invitation.expires_at)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {(invitation.status === 'pending' || invitation.status === 'expired') && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => handleResendInvitation(invitation)}>
+                            Resend
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleCancelInvitation(invitation)}>
+                            Cancel
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Users Table */}
       {users.length > 0 ? (
         <Card>
@@ -159,6 +367,21 @@ export default function UsersPage() {
                       <div className="flex items-center gap-2">
                         <Users className="h-4 w-4 text-muted-foreground" />
                         {user.full_name}
+                        {isLocked(user) && (
+                          <Badge variant="outline" title={`Locked until ${formatDateTime(user.locked_until!)}`}>
+                            <Lock className="h-3 w-3 mr-1" />
+                            Locked
+                          </Badge>
+                        )}
+                        {user.is_active === false && (
+                          <Badge
+                            variant="secondary"
+                            title={user.deactivated_at ? `Deactivated ${formatDateTime(user.deactivated_at)}` : undefined}
+                          >
+                            <UserX className="h-3 w-3 mr-1" />
+                            Inactive
+                          </Badge>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell className="text-muted-foreground">
@@ -188,6 +411,17 @@ export default function UsersPage() {
                       {user.last_login ? formatDateTime(user.last_login) : 'Never'}
                     </TableCell>
                     <TableCell className="text-right">
+                      {isLocked(user) && (
+                        <Button variant="ghost" size="sm" onClick={() => handleUnlock(user)}>
+                          Unlock
+                        </Button>
+                      )}
+                      {canImpersonate(user) && (
+                        <Button variant="ghost" size="sm" onClick={() => setImpersonateTarget(user)}>
+                          <Eye className="h-4 w-4 mr-1" />
+                          Impersonate
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="sm"
@@ -219,6 +453,96 @@ export default function UsersPage() {
           </CardContent>
         </Card>
       )}
+
+      {/* Invite User Dialog */}
+      <Dialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              The user receives an email link to choose their own password.
+              The email must use your company domain.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="name@company.com"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="invite-tenant">Tenant</Label>
+              <select
+                id="invite-tenant"
+                value={inviteTenantId}
+                onChange={(e) => setInviteTenantId(e.target.value)}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="">Whole company</option>
+                {tenants.map((tenant) => (
+                  <option key={tenant.id} value={tenant.id}>
+                    {tenant.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInviteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleInvite} disabled={!inviteEmail.trim()}>
+              Send Invitation
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Impersonate User Dialog */}
+      <Dialog
+        open={!!impersonateTarget}
+        onOpenChange={(open) => {
+          if (!open) setImpersonateTarget(null)
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Impersonate {impersonateTarget?.full_name}</DialogTitle>
+            <DialogDescription>
+              You will see the dashboard as this user until you exit or the session runs out.
+              Every request is recorded in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="impersonate-reason">Reason</Label>
+              <Input
+                id="impersonate-reason"
+                placeholder="e.g. Support ticket #1234"
+                value={impersonateReason}
+                onChange={(e) => setImpersonateReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImpersonateTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleImpersonate}
+              disabled={!impersonateReason.trim()}
+            >
+              Impersonate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
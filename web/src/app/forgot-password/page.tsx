@@ -0,0 +1,99 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Shield, Loader2 } from 'lucide-react'
+import { api } from '@/lib/api'
+import { useToast } from '@/hooks/use-toast'
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast()
+
+  const [email, setEmail] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [sent, setSent] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+
+    try {
+      await api.forgotPassword(email)
+      setSent(true)
+    } catch (error: any) {
+      toast({
+        title: 'Request failed',
+        description: error.response?.data?.error || 'Please try again later',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-background to-secondary p-4">
+      <div className="w-full max-w-md">
+        {/* Logo */}
+        <div className="flex justify-center mb-8">
+          <Link href="/" className="flex items-center space-x-2">
+            <Shield className="h-10 w-10 text-primary" />
+            <span className="text-3xl font-bold">NEEMIFY</span>
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">Forgot Password</CardTitle>
+            <CardDescription className="text-center">
+              We&apos;ll email you a link to choose a new password
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {sent ? (
+              <p className="text-sm text-muted-foreground text-center">
+                If an account exists for {email}, a password reset link is on its way. The link
+                can be used once and expires shortly.
+              </p>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="admin@neemify.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={loading}>
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Sending...
+                    </>
+                  ) : (
+                    'Send reset link'
+                  )}
+                </Button>
+              </form>
+            )}
+
+            <div className="mt-6 text-center text-sm text-muted-foreground">
+              <Link href="/login" className="text-primary hover:underline">
+                Back to login
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,14 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Shield, Loader2 } from 'lucide-react'
+import { Shield, Loader2, KeyRound, Building2, Mail } from 'lucide-react'
+import { startAuthentication } from '@simplewebauthn/browser'
 import { api } from '@/lib/api'
 import { useAuthStore } from '@/store/auth-store'
 import { useToast } from '@/hooks/use-toast'
@@ -20,31 +21,257 @@ export default function LoginPage() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [loading, setLoading] = useState(false)
+  const [emailUnverified, setEmailUnverified] = useState(false)
+  const [magicLinkSent, setMagicLinkSent] = useState(false)
+
+  // Second factor state
+  const [step, setStep] = useState<'credentials' | 'change-password' | 'mfa' | 'enroll' | 'recovery-codes'>('credentials')
+  const [mfaToken, setMfaToken] = useState('')
+  const [code, setCode] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
+
+  // Forced password change state (e.g. the bootstrapped super user's first login)
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+
+  // Pages that need a signed-in user (e.g. SMART consent) send the browser here with ?next=
+  const nextPath = () => {
+    const next = new URLSearchParams(window.location.search).get('next')
+    return next && next.startsWith('/') && !next.startsWith('//') ? next : '/dashboard'
+  }
+
+  const completeLogin = (data: any) => {
+    // Store auth data
+    api.setToken(data.token)
+    api.setRefreshToken(data.refreshToken)
+    setAuth(data.user, data.token)
+
+    toast({
+      title: 'Login successful',
+      description: `Welcome back, ${data.user.fullName}`,
+    })
+
+    // Redirect to dashboard (or back to the page that sent us here)
+    router.push(nextPath())
+  }
+
+  const showError = (title: string, error: any, fallback: string) => {
+    toast({
+      title,
+      description: error.response?.data?.error || fallback,
+      variant: 'destructive',
+    })
+  }
+
+  // Finish signing in, or move on to the second factor
+  const continueLogin = async (data: any) => {
+    if (!data.mfaRequired) {
+      completeLogin(data)
+      return
+    }
+
+    setMfaToken(data.mfaToken)
+    if (data.enrollmentRequired) {
+      setEnrollment(await api.startMfaEnrollment(data.mfaToken))
+      setStep('enroll')
+    } else {
+      setStep('mfa')
+    }
+  }
+
+  // Emailed sign-in links land here with ?magicLink=
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('magicLink')
+    if (!token) {
+      return
+    }
+
+    // Keep the single-use token out of the browser history
+    const params = new URLSearchParams(window.location.search)
+    params.delete('magicLink')
+    window.history.replaceState(null, '', `/login${params.toString() ? `?${params}` : ''}`)
+
+    setLoading(true)
+    api
+      .loginWithMagicLink(token)
+      .then(continueLogin)
+      .catch((error: any) => showError('Sign-in link failed', error, error.message || 'Invalid or expired sign-in link'))
+      .finally(() => setLoading(false))
+  }, [])
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
+    setEmailUnverified(false)
 
     try {
-      const data = await api.login(email, password)
+      await continueLogin(await api.login(email, password))
+    } catch (error: any) {
+      if (error.response?.data?.passwordChangeRequired) {
+        setStep('change-password')
+        return
+      }
+      showError('Login failed', error, 'Invalid credentials')
+      if (error.response?.data?.passwordExpired) {
+        router.push('/forgot-password')
+      }
+      if (error.response?.data?.emailUnverified) {
+        setEmailUnverified(true)
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
 
-      // Store auth data
-      api.setToken(data.token)
-      setAuth(data.user, data.token)
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: 'Passwords do not match',
+        description: 'Enter the same new password twice',
+        variant: 'destructive',
+      })
+      return
+    }
 
+    setLoading(true)
+
+    try {
+      await api.changeRequiredPassword(email, password, newPassword)
+      setPassword(newPassword)
+      await continueLogin(await api.login(email, newPassword))
+    } catch (error: any) {
+      const violations = error.response?.data?.violations
       toast({
-        title: 'Login successful',
-        description: `Welcome back, ${data.user.fullName}`,
+        title: 'Password change failed',
+        description: violations?.length
+          ? violations.map((violation: any) => violation.message).join(' ')
+          : error.response?.data?.error || 'Could not change your password',
+        variant: 'destructive',
       })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handlePasskeyLogin = async () => {
+    setLoading(true)
 
-      // Redirect to dashboard
-      router.push('/dashboard')
+    try {
+      const { challengeId, options } = await api.getPasskeyLoginOptions(email || undefined)
+      const assertion = await startAuthentication(options)
+      completeLogin(await api.loginWithPasskey(challengeId, assertion))
     } catch (error: any) {
+      showError('Passkey sign-in failed', error, error.message || 'Passkey sign-in was cancelled')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleMagicLink = async () => {
+    if (!email) {
       toast({
-        title: 'Login failed',
-        description: error.response?.data?.error || 'Invalid credentials',
+        title: 'Enter your email',
+        description: 'We will email a sign-in link to this address',
         variant: 'destructive',
       })
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const data = await api.requestMagicLink(email)
+      setMagicLinkSent(true)
+      toast({
+        title: 'Check your inbox',
+        description: data.message,
+      })
+    } catch (error: any) {
+      showError('Could not send sign-in link', error, 'Please try again later')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleResendVerification = async () => {
+    try {
+      const data = await api.resendVerificationEmail(email)
+      toast({
+        title: 'Verification email sent',
+        description: data.message,
+      })
+    } catch (error: any) {
+      showError('Could not send verification email', error, 'Please try again later')
+    }
+  }
+
+  const handleSsoLogin = async () => {
+    if (!email) {
+      toast({
+        title: 'Enter your email',
+        description: 'Your work email tells us which organization to sign you in with',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const data = await api.discoverSso(email)
+      if (data.sso) {
+        window.location.href = data.authorizationUrl
+        return
+      }
+
+      toast({
+        title: 'SSO not available',
+        description: 'Your organization has not set up single sign-on',
+        variant: 'destructive',
+      })
+    } catch (error: any) {
+      showError('SSO sign-in failed', error, 'Could not start single sign-on')
+    }
+
+    setLoading(false)
+  }
+
+  const handleVerifyMfa = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+
+    try {
+      const data = await api.verifyMfa(
+        mfaToken,
+        useRecoveryCode ? { recoveryCode: code } : { code }
+      )
+      completeLogin(data)
+    } catch (error: any) {
+      showError('Verification failed', error, 'Invalid verification code')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleConfirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+
+    try {
+      const data = await api.confirmMfaEnrollment(code, mfaToken)
+
+      api.setToken(data.token)
+      api.setRefreshToken(data.refreshToken)
+      setAuth(data.user, data.token)
+
+      setRecoveryCodes(data.recoveryCodes || [])
+      setStep('recovery-codes')
+    } catch (error: any) {
+      showError('Enrollment failed', error, 'Invalid verification code')
     } finally {
       setLoading(false)
     }
@@ -70,42 +297,230 @@ export default function LoginPage() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleLogin} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="admin@neemify.com"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
+            {step === 'credentials' && (
+              <form onSubmit={handleLogin} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="admin@neemify.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password">Password</Label>
+                    <Link href="/forgot-password" className="text-sm text-primary hover:underline">
+                      Forgot password?
+                    </Link>
+                  </div>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="••••••••"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                {emailUnverified && (
+                  <p className="text-sm text-muted-foreground">
+                    Check your inbox for the verification link.{' '}
+                    <button type="button" className="text-primary hover:underline" onClick={handleResendVerification}>
+                      Send a new link
+                    </button>
+                  </p>
+                )}
+                <Button type="submit" className="w-full" disabled={loading}>
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Signing in...
+                    </>
+                  ) : (
+                    'Sign In'
+                  )}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={handlePasskeyLogin}
                   disabled={loading}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="••••••••"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
+                >
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  Sign in with a passkey
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleSsoLogin}
                   disabled={loading}
-                />
-              </div>
-              <Button type="submit" className="w-full" disabled={loading}>
-                {loading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Signing in...
-                  </>
-                ) : (
-                  'Sign In'
+                >
+                  <Building2 className="mr-2 h-4 w-4" />
+                  Sign in with SSO
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleMagicLink}
+                  disabled={loading}
+                >
+                  <Mail className="mr-2 h-4 w-4" />
+                  Email me a sign-in link
+                </Button>
+                {magicLinkSent && (
+                  <p className="text-sm text-muted-foreground">
+                    Open the link from your email in this browser. It works once and expires in a few minutes.
+                  </p>
                 )}
-              </Button>
-            </form>
+              </form>
+            )}
+
+            {step === 'change-password' && (
+              <form onSubmit={handleChangePassword} className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  You must choose a new password before signing in for the first time.
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="new-password">New password</Label>
+                  <Input
+                    id="new-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-password">Confirm new password</Label>
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={loading}>
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    'Set password and sign in'
+                  )}
+                </Button>
+              </form>
+            )}
+
+            {step === 'mfa' && (
+              <form onSubmit={handleVerifyMfa} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="code">
+                    {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+                  </Label>
+                  <Input
+                    id="code"
+                    inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                    autoComplete="one-time-code"
+                    placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={loading}>
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    'Verify'
+                  )}
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="w-full"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode)
+                    setCode('')
+                  }}
+                >
+                  {useRecoveryCode ? 'Use authenticator app instead' : 'Use a recovery code instead'}
+                </Button>
+              </form>
+            )}
+
+            {step === 'enroll' && enrollment && (
+              <form onSubmit={handleConfirmEnrollment} className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Your organization requires multi-factor authentication. Add this key to your
+                  authenticator app, then enter the code it shows.
+                </p>
+                <div className="rounded-md bg-muted p-3 font-mono text-sm break-all">
+                  {enrollment.secret}
+                </div>
+                <a href={enrollment.otpauthUrl} className="block text-sm text-primary hover:underline">
+                  Open in authenticator app
+                </a>
+                <div className="space-y-2">
+                  <Label htmlFor="code">Authentication code</Label>
+                  <Input
+                    id="code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="123456"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={loading}>
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    'Enable MFA'
+                  )}
+                </Button>
+              </form>
+            )}
+
+            {step === 'recovery-codes' && (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Save these recovery codes somewhere safe. Each can be used once if you lose
+                  access to your authenticator app. They will not be shown again.
+                </p>
+                <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-3 font-mono text-sm">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <span key={recoveryCode}>{recoveryCode}</span>
+                  ))}
+                </div>
+                <Button className="w-full" onClick={() => router.push(nextPath())}>
+                  Continue to dashboard
+                </Button>
+              </div>
+            )}
 
             <div className="mt-6 text-center text-sm text-muted-foreground">
               <p>Super Admin Access Only</p>
@@ -0,0 +1,154 @@
+'use client'
+
+import { Suspense, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Shield, Loader2 } from 'lucide-react'
+import { api } from '@/lib/api'
+import { useToast } from '@/hooks/use-toast'
+
+function ResetPasswordForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+
+  const token = searchParams.get('token') || ''
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [violations, setViolations] = useState<{ field: string; message: string }[]>([])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (password !== confirmPassword) {
+      toast({
+        title: 'Passwords do not match',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setLoading(true)
+    setViolations([])
+
+    try {
+      await api.resetPassword(token, password)
+
+      toast({
+        title: 'Password reset',
+        description: 'You can now log in with your new password',
+      })
+
+      router.push('/login')
+    } catch (error: any) {
+      if (error.response?.data?.violations) {
+        setViolations(error.response.data.violations)
+        return
+      }
+
+      toast({
+        title: 'Reset failed',
+        description: error.response?.data?.error || 'Invalid or expired reset link',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!token) {
+    return (
+      <p className="text-sm text-muted-foreground text-center">
+        This reset link is incomplete. Request a new one from the{' '}
+        <Link href="/forgot-password" className="text-primary hover:underline">
+          forgot password
+        </Link>{' '}
+        page.
+      </p>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="password">New Password</Label>
+        <Input
+          id="password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          disabled={loading}
+        />
+        {violations
+          .filter((violation) => violation.field === 'password')
+          .map((violation) => (
+            <p key={violation.message} className="text-sm text-destructive">
+              {violation.message}
+            </p>
+          ))}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirm">Confirm New Password</Label>
+        <Input
+          id="confirm"
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          required
+          disabled={loading}
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          'Set new password'
+        )}
+      </Button>
+    </form>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-background to-secondary p-4">
+      <div className="w-full max-w-md">
+        {/* Logo */}
+        <div className="flex justify-center mb-8">
+          <Link href="/" className="flex items-center space-x-2">
+            <Shield className="h-10 w-10 text-primary" />
+            <span className="text-3xl font-bold">NEEMIFY</span>
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">Reset Password</CardTitle>
+            <CardDescription className="text-center">Choose a new password for your account</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {/* useSearchParams needs a Suspense boundary */}
+            <Suspense fallback={null}>
+              <ResetPasswordForm />
+            </Suspense>
+
+            <div className="mt-6 text-center text-sm text-muted-foreground">
+              <Link href="/login" className="text-primary hover:underline">
+                Back to login
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Shield, Loader2 } from 'lucide-react'
+import { api } from '@/lib/api'
+
+interface ConsentDetails {
+  app: { name: string; clientId: string }
+  scopes: { scope: string; description: string }[]
+  tenant?: { id: string; name: string }
+  tenants: { id: string; name: string }[]
+  context: { patient?: string; encounter?: string }
+}
+
+function SmartConsent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  const [details, setDetails] = useState<ConsentDetails | null>(null)
+  const [tenantId, setTenantId] = useState('')
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const params = Object.fromEntries(searchParams.entries())
+
+  useEffect(() => {
+    // Sign in first, then come back to this request
+    if (!localStorage.getItem('auth_token')) {
+      router.replace(`/login?next=${encodeURIComponent(`/smart/authorize?${searchParams.toString()}`)}`)
+      return
+    }
+
+    api
+      .getSmartAuthorizationDetails(Object.fromEntries(searchParams.entries()))
+      .then((data: ConsentDetails) => {
+        setDetails(data)
+        setTenantId(data.tenant?.id || data.tenants[0]?.id || '')
+      })
+      .catch((error: any) => {
+        setError(error.response?.data?.error || 'This authorization request is not valid')
+      })
+  }, [router, searchParams])
+
+  const answer = async (approve: boolean) => {
+    setSubmitting(true)
+    try {
+      const { redirectTo } = await api.answerSmartAuthorization(params, { approve, tenantId })
+      // Hand the browser back to the app with its code (or the denial)
+      window.location.href = redirectTo
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Could not answer the authorization request')
+      setSubmitting(false)
+    }
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive text-center">{error}</p>
+  }
+
+  if (!details) {
+    return (
+      <div className="flex items-center justify-center text-sm text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Loading request...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm">
+        <span className="font-semibold">{details.app.name}</span> would like to:
+      </p>
+      <ul className="list-disc space-y-1 pl-5 text-sm">
+        {details.scopes.map(({ scope, description }) => (
+          <li key={scope}>
+            {description} <span className="font-mono text-xs text-muted-foreground">({scope})</span>
+          </li>
+        ))}
+      </ul>
+
+      {(details.context.patient || details.context.encounter) && (
+        <div className="rounded-md bg-muted p-3 text-sm">
+          {details.context.patient && <p>Patient: {details.context.patient}</p>}
+          {details.context.encounter && <p>Encounter: {details.context.encounter}</p>}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="tenant">Tenant</Label>
+        {details.tenant ? (
+          <p id="tenant" className="text-sm">
+            {details.tenant.name}
+          </p>
+        ) : details.tenants.length > 0 ? (
+          <select
+            id="tenant"
+            value={tenantId}
+            onChange={(e) => setTenantId(e.target.value)}
+            disabled={submitting}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            {details.tenants.map((tenant) => (
+              <option key={tenant.id} value={tenant.id}>
+                {tenant.name}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <p id="tenant" className="text-sm text-destructive">
+            You do not have access to any tenant
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="w-full" disabled={submitting} onClick={() => answer(false)}>
+          Deny
+        </Button>
+        <Button className="w-full" disabled={submitting || !tenantId} onClick={() => answer(true)}>
+          {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Allow
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default function SmartAuthorizePage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-background to-secondary p-4">
+      <div className="w-full max-w-md">
+        {/* Logo */}
+        <div className="flex justify-center mb-8">
+          <Link href="/" className="flex items-center space-x-2">
+            <Shield className="h-10 w-10 text-primary" />
+            <span className="text-3xl font-bold">NEEMIFY</span>
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">Authorize App</CardTitle>
+            <CardDescription className="text-center">
+              A SMART on FHIR app is asking to act on your behalf
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {/* useSearchParams needs a Suspense boundary */}
+            <Suspense fallback={null}>
+              <SmartConsent />
+            </Suspense>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+'use client'
+
+import { Suspense, useEffect, useRef, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Shield, Loader2 } from 'lucide-react'
+import { api } from '@/lib/api'
+import { useAuthStore } from '@/store/auth-store'
+import { useToast } from '@/hooks/use-toast'
+
+function SsoCallback() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+  const { setAuth } = useAuthStore()
+
+  const [error, setError] = useState('')
+  // The authorization code is single-use, so only exchange it once
+  const exchanged = useRef(false)
+
+  useEffect(() => {
+    if (exchanged.current) return
+    exchanged.current = true
+
+    const code = searchParams.get('code')
+    const state = searchParams.get('state')
+    // SAML logins arrive from our own ACS with a login code and no state
+    const isSaml = searchParams.get('protocol') === 'saml'
+
+    if (!code || (!isSaml && !state)) {
+      setError(searchParams.get('error_description') || searchParams.get('error') || 'The sign-in response is incomplete')
+      return
+    }
+
+    const login = isSaml ? api.completeSamlLogin(code) : api.completeSsoLogin(code, state!)
+
+    login
+      .then((data) => {
+        api.setToken(data.token)
+        api.setRefreshToken(data.refreshToken)
+        setAuth(data.user, data.token)
+
+        toast({
+          title: 'Login successful',
+          description: `Welcome back, ${data.user.fullName}`,
+        })
+
+        router.push('/dashboard')
+      })
+      .catch((error: any) => {
+        setError(error.response?.data?.error || 'Single sign-on failed')
+      })
+  }, [router, searchParams, setAuth, toast])
+
+  if (error) {
+    return <p className="text-sm text-destructive text-center">{error}</p>
+  }
+
+  return (
+    <div className="flex items-center justify-center text-sm text-muted-foreground">
+      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      Signing you in...
+    </div>
+  )
+}
+
+export default function SsoCallbackPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-background to-secondary p-4">
+      <div className="w-full max-w-md">
+        {/* Logo */}
+        <div className="flex justify-center mb-8">
+          <Link href="/" className="flex items-center space-x-2">
+            <Shield className="h-10 w-10 text-primary" />
+            <span className="text-3xl font-bold">NEEMIFY</span>
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">Single Sign-On</CardTitle>
+            <CardDescription className="text-center">Completing sign-in with your organization</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {/* useSearchParams needs a Suspense boundary */}
+            <Suspense fallback={null}>
+              <SsoCallback />
+            </Suspense>
+
+            <div className="mt-6 text-center text-sm text-muted-foreground">
+              <Link href="/login" className="text-primary hover:underline">
+                Back to login
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
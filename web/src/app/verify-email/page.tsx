@@ -0,0 +1,93 @@
+'use client'
+
+import { Suspense, useEffect, useRef, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Shield, Loader2, CheckCircle2 } from 'lucide-react'
+import { api } from '@/lib/api'
+
+function VerifyEmail() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>(token ? 'verifying' : 'failed')
+  const [error, setError] = useState('')
+
+  // The token is single-use, so only send it once (effects run twice in development)
+  const sent = useRef(false)
+
+  useEffect(() => {
+    if (!token || sent.current) return
+    sent.current = true
+
+    api
+      .verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((error: any) => {
+        setError(error.response?.data?.error || 'Invalid or expired verification link')
+        setStatus('failed')
+      })
+  }, [token])
+
+  if (status === 'verifying') {
+    return (
+      <div className="flex items-center justify-center text-sm text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Verifying your email...
+      </div>
+    )
+  }
+
+  if (status === 'verified') {
+    return (
+      <div className="space-y-4 text-center">
+        <CheckCircle2 className="h-10 w-10 text-green-500 mx-auto" />
+        <p className="text-sm">Your email address has been verified.</p>
+        <Link href="/login">
+          <Button className="w-full">Continue to login</Button>
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <p className="text-sm text-muted-foreground text-center">
+      {error || 'This verification link is incomplete.'} You can request a new link from the{' '}
+      <Link href="/login" className="text-primary hover:underline">
+        login
+      </Link>{' '}
+      page.
+    </p>
+  )
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-background to-secondary p-4">
+      <div className="w-full max-w-md">
+        {/* Logo */}
+        <div className="flex justify-center mb-8">
+          <Link href="/" className="flex items-center space-x-2">
+            <Shield className="h-10 w-10 text-primary" />
+            <span className="text-3xl font-bold">NEEMIFY</span>
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">Verify Email</CardTitle>
+            <CardDescription className="text-center">Confirming that this address belongs to you</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {/* useSearchParams needs a Suspense boundary */}
+            <Suspense fallback={null}>
+              <VerifyEmail />
+            </Suspense>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
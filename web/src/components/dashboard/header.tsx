@@ -1,5 +1,6 @@
 'use client'
 
+import { useCallback, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import {
@@ -11,17 +12,73 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
-import { LogOut, User, Settings } from 'lucide-react'
+import { LogOut, User, Settings, Eye, Siren } from 'lucide-react'
 import { useAuthStore } from '@/store/auth-store'
 import { api } from '@/lib/api'
+import { formatDateTime } from '@/lib/utils'
 
 export function Header() {
   const router = useRouter()
-  const { user, clearAuth } = useAuthStore()
+  const { user, clearAuth, impersonation, endImpersonation, breakGlass, setBreakGlass } = useAuthStore()
+
+  const handleExitImpersonation = useCallback(async () => {
+    const token = await api.endImpersonation()
+    endImpersonation(token)
+    router.push('/dashboard/users')
+  }, [endImpersonation, router])
+
+  // Impersonation tokens cannot be refreshed, so hand back control when it runs out
+  useEffect(() => {
+    if (!impersonation) return
+    const timer = setTimeout(
+      handleExitImpersonation,
+      Math.max(new Date(impersonation.expiresAt).getTime() - Date.now(), 0)
+    )
+    return () => clearTimeout(timer)
+  }, [impersonation, handleExitImpersonation])
+
+  // Pick up a break-glass session opened in another tab or before a reload
+  useEffect(() => {
+    if (impersonation) return
+    api
+      .getActiveBreakGlass()
+      .then((session) =>
+        setBreakGlass(
+          session
+            ? { id: session.id, tenantName: session.tenant_name, expiresAt: session.expires_at }
+            : null
+        )
+      )
+      .catch(() => null)
+  }, [impersonation, setBreakGlass])
+
+  // The server stops applying the session when it expires; drop the banner with it
+  useEffect(() => {
+    if (!breakGlass) return
+    const timer = setTimeout(
+      () => setBreakGlass(null),
+      Math.max(new Date(breakGlass.expiresAt).getTime() - Date.now(), 0)
+    )
+    return () => clearTimeout(timer)
+  }, [breakGlass, setBreakGlass])
+
+  const handleEndBreakGlass = async () => {
+    await api.endBreakGlass().catch(() => null)
+    setBreakGlass(null)
+  }
+
+  const handleLogout = async () => {
+    // End the session server-side; SAML sessions also get logged out at the IdP
+    const { ssoLogoutUrl } = await api.logout().catch(() => ({}))
 
-  const handleLogout = () => {
     api.clearToken()
     clearAuth()
+
+    if (ssoLogoutUrl) {
+      window.location.href = ssoLogoutUrl
+      return
+    }
+
     router.push('/login')
   }
 
@@ -36,6 +93,36 @@ export function Header() {
 
   return (
     <header className="border-b bg-card">
+      {impersonation && (
+        <div className="flex items-center justify-between gap-4 bg-destructive px-6 py-2 text-destructive-foreground">
+          <div className="flex items-center gap-2 text-sm">
+            <Eye className="h-4 w-4" />
+            <span>
+              <span className="font-semibold">Impersonating {user?.fullName}</span> ({user?.email}) as{' '}
+              {impersonation.impersonator.fullName}. Every action is audited. Ends{' '}
+              {formatDateTime(impersonation.expiresAt)}.
+            </span>
+          </div>
+          <Button size="sm" variant="secondary" onClick={handleExitImpersonation}>
+            Exit impersonation
+          </Button>
+        </div>
+      )}
+      {breakGlass && (
+        <div className="flex items-center justify-between gap-4 bg-destructive px-6 py-2 text-destructive-foreground">
+          <div className="flex items-center gap-2 text-sm">
+            <Siren className="h-4 w-4" />
+            <span>
+              <span className="font-semibold">Break-glass access to {breakGlass.tenantName}</span>. Every
+              action is flagged for review by your organization admins. Ends{' '}
+              {formatDateTime(breakGlass.expiresAt)}.
+            </span>
+          </div>
+          <Button size="sm" variant="secondary" onClick={handleEndBreakGlass}>
+            End emergency access
+          </Button>
+        </div>
+      )}
       <div className="flex h-16 items-center justify-between px-6">
         <div>
           <h2 className="text-2xl font-bold tracking-tight">
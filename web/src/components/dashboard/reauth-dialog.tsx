@@ -0,0 +1,123 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Loader2 } from 'lucide-react'
+import { api } from '@/lib/api'
+
+// Asks for the password (or an authenticator code) when the API answers that an
+// operation needs a recent sign-in; the request is retried once this resolves
+export function ReauthDialog() {
+  const [open, setOpen] = useState(false)
+  const [useCode, setUseCode] = useState(false)
+  const [secret, setSecret] = useState('')
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  // Requests that hit the check while the dialog is open wait for the same answer
+  const pending = useRef<{ promise: Promise<boolean>; resolve: (ok: boolean) => void } | null>(null)
+
+  useEffect(() => {
+    api.setReauthenticationHandler(() => {
+      if (!pending.current) {
+        let resolve: (ok: boolean) => void = () => {}
+        const promise = new Promise<boolean>((r) => {
+          resolve = r
+        })
+        pending.current = { promise, resolve }
+        setSecret('')
+        setError('')
+        setOpen(true)
+      }
+      return pending.current.promise
+    })
+
+    return () => api.setReauthenticationHandler(null)
+  }, [])
+
+  const finish = (ok: boolean) => {
+    pending.current?.resolve(ok)
+    pending.current = null
+    setOpen(false)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError('')
+
+    try {
+      await api.reauthenticate(useCode ? { code: secret } : { password: secret })
+      finish(true)
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Could not confirm your identity')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) finish(false)
+      }}
+    >
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Confirm it&apos;s you</DialogTitle>
+            <DialogDescription>
+              This action needs a recent sign-in. Enter your {useCode ? 'authenticator code' : 'password'} to
+              continue.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="reauth-secret">{useCode ? 'Authenticator code' : 'Password'}</Label>
+            <Input
+              id="reauth-secret"
+              type={useCode ? 'text' : 'password'}
+              inputMode={useCode ? 'numeric' : undefined}
+              autoComplete={useCode ? 'one-time-code' : 'current-password'}
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              required
+              autoFocus
+              disabled={submitting}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <button
+              type="button"
+              className="text-left text-sm text-primary hover:underline"
+              onClick={() => {
+                setUseCode(!useCode)
+                setSecret('')
+              }}
+            >
+              {useCode ? 'Use your password instead' : 'Use an authenticator code instead'}
+            </button>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => finish(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting || !secret}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Continue
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
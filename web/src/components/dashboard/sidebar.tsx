@@ -9,12 +9,15 @@ import {
   LayoutDashboard,
   Building2,
   Users,
+  UserPlus,
   Key,
   Activity,
   FileText,
   Settings,
   Shield,
   Database,
+  Siren,
+  MonitorSmartphone,
 } from 'lucide-react'
 
 const navigation = [
@@ -38,6 +41,21 @@ const navigation = [
     href: '/dashboard/users',
     icon: Users,
   },
+  {
+    name: 'Access Requests',
+    href: '/dashboard/access-requests',
+    icon: UserPlus,
+  },
+  {
+    name: 'Device Approvals',
+    href: '/dashboard/device-approvals',
+    icon: MonitorSmartphone,
+  },
+  {
+    name: 'Break Glass',
+    href: '/dashboard/break-glass',
+    icon: Siren,
+  },
   {
     name: 'Licenses',
     href: '/dashboard/licenses',
@@ -1,9 +1,16 @@
-import axios, { AxiosInstance, AxiosError } from 'axios'
+import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios'
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000/api'
 
+// Endpoints that exchange credentials for tokens; a 401 from them is a wrong
+// credential, not an expired access token, so it is never retried after a refresh
+const CREDENTIAL_ENDPOINTS =
+  /^\/auth\/(login|refresh|signup|mfa\/verify|magic-link|forgot-password|reset-password|required-password-change|verify-email|invitations\/|webauthn\/authenticate\/|sso\/)/
+
 class ApiClient {
   private client: AxiosInstance
+  private refreshPromise: Promise<string | null> | null = null
+  private reauthenticationHandler: (() => Promise<boolean>) | null = null
 
   constructor() {
     this.client = axios.create({
@@ -22,10 +29,43 @@ class ApiClient {
       return config
     })
 
-    // Response interceptor for error handling
+    // Response interceptor: refresh the access token once on 401, then retry
     this.client.interceptors.response.use(
       (response) => response,
-      (error: AxiosError) => {
+      async (error: AxiosError) => {
+        const original = error.config as
+          | (InternalAxiosRequestConfig & { _retry?: boolean; _reauthenticated?: boolean })
+          | undefined
+
+        // Sensitive operations need a recent sign-in: ask the user to confirm it, then retry once
+        const data = error.response?.data as { reauthenticationRequired?: boolean } | undefined
+        if (
+          error.response?.status === 403 &&
+          data?.reauthenticationRequired &&
+          original &&
+          !original._reauthenticated &&
+          this.reauthenticationHandler
+        ) {
+          original._reauthenticated = true
+          if (await this.reauthenticationHandler()) {
+            return this.client(original)
+          }
+        }
+
+        if (
+          error.response?.status === 401 &&
+          original &&
+          !original._retry &&
+          !CREDENTIAL_ENDPOINTS.test(original.url || '')
+        ) {
+          original._retry = true
+          const token = await this.refreshAccessToken()
+          if (token) {
+            original.headers.Authorization = `Bearer ${token}`
+            return this.client(original)
+          }
+        }
+
         if (error.response?.status === 401) {
           this.clearToken()
           if (typeof window !== 'undefined') {
@@ -37,6 +77,37 @@ class ApiClient {
     )
   }
 
+  // Register the prompt shown when an operation needs a fresh sign-in; it resolves
+  // to true once the user has re-authenticated
+  public setReauthenticationHandler(handler: (() => Promise<boolean>) | null): void {
+    this.reauthenticationHandler = handler
+  }
+
+  // Exchange the stored refresh token for a new access token.
+  // Concurrent 401s share a single refresh request.
+  private refreshAccessToken(): Promise<string | null> {
+    const refreshToken = this.getRefreshToken()
+    if (!refreshToken) {
+      return Promise.resolve(null)
+    }
+
+    if (!this.refreshPromise) {
+      this.refreshPromise = axios
+        .post(`${API_URL}/auth/refresh`, { refreshToken })
+        .then((response) => {
+          this.setToken(response.data.token)
+          this.setRefreshToken(response.data.refreshToken)
+          return response.data.token as string
+        })
+        .catch(() => null)
+        .finally(() => {
+          this.refreshPromise = null
+        })
+    }
+
+    return this.refreshPromise
+  }
+
   private getToken(): string | null {
     if (typeof window !== 'undefined') {
       return localStorage.getItem('auth_token')
@@ -50,19 +121,241 @@ class ApiClient {
     }
   }
 
+  private getRefreshToken(): string | null {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('refresh_token')
+    }
+    return null
+  }
+
+  public setRefreshToken(token: string): void {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('refresh_token', token)
+    }
+  }
+
   public clearToken(): void {
     if (typeof window !== 'undefined') {
       localStorage.removeItem('auth_token')
+      localStorage.removeItem('refresh_token')
       localStorage.removeItem('user')
+      localStorage.removeItem('impersonator_token')
+      localStorage.removeItem('impersonator_refresh_token')
     }
   }
 
+  // Impersonation tokens have no refresh token; the super user's tokens are set
+  // aside until the impersonation ends.
+  public beginImpersonation(token: string): void {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('impersonator_token', this.getToken() || '')
+      localStorage.setItem('impersonator_refresh_token', this.getRefreshToken() || '')
+      localStorage.removeItem('refresh_token')
+      this.setToken(token)
+    }
+  }
+
+  private restoreImpersonator(): string | null {
+    if (typeof window === 'undefined') {
+      return null
+    }
+
+    const token = localStorage.getItem('impersonator_token')
+    const refreshToken = localStorage.getItem('impersonator_refresh_token')
+    localStorage.removeItem('impersonator_token')
+    localStorage.removeItem('impersonator_refresh_token')
+
+    if (token) this.setToken(token)
+    if (refreshToken) this.setRefreshToken(refreshToken)
+    return token
+  }
+
   // ========== Auth endpoints ==========
   async login(email: string, password: string) {
     const response = await this.client.post('/auth/login', { email, password })
     return response.data
   }
 
+  async verifyMfa(mfaToken: string, factor: { code?: string; recoveryCode?: string }) {
+    const response = await this.client.post('/auth/mfa/verify', { mfaToken, ...factor })
+    return response.data
+  }
+
+  async startMfaEnrollment(mfaToken?: string) {
+    const response = await this.client.post('/auth/mfa/enroll', { mfaToken })
+    return response.data
+  }
+
+  async confirmMfaEnrollment(code: string, mfaToken?: string) {
+    const response = await this.client.post('/auth/mfa/confirm', { code, mfaToken })
+    return response.data
+  }
+
+  async forgotPassword(email: string) {
+    const response = await this.client.post('/auth/forgot-password', { email })
+    return response.data
+  }
+
+  async resetPassword(token: string, password: string) {
+    const response = await this.client.post('/auth/reset-password', { token, password })
+    return response.data
+  }
+
+  async changeRequiredPassword(email: string, currentPassword: string, newPassword: string) {
+    const response = await this.client.post('/auth/required-password-change', { email, currentPassword, newPassword })
+    return response.data
+  }
+
+  async verifyEmail(token: string) {
+    const response = await this.client.post('/auth/verify-email', { token })
+    return response.data
+  }
+
+  async resendVerificationEmail(email: string) {
+    const response = await this.client.post('/auth/verify-email/resend', { email })
+    return response.data
+  }
+
+  async lookupInvitation(token: string) {
+    const response = await this.client.post('/auth/invitations/lookup', { token })
+    return response.data
+  }
+
+  async acceptInvitation(token: string, fullName: string, password: string) {
+    const response = await this.client.post('/auth/invitations/accept', { token, fullName, password })
+    return response.data
+  }
+
+  async getPasskeyLoginOptions(email?: string) {
+    const response = await this.client.post('/auth/webauthn/authenticate/options', { email })
+    return response.data
+  }
+
+  async loginWithPasskey(challengeId: string, response: unknown) {
+    const res = await this.client.post('/auth/webauthn/authenticate/verify', { challengeId, response })
+    return res.data
+  }
+
+  // The browser key ties an emailed sign-in link to this browser; it is kept until the link is used
+  async requestMagicLink(email: string) {
+    const response = await this.client.post('/auth/magic-link', { email })
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('magic_link_browser_key', response.data.browserKey)
+    }
+    return response.data
+  }
+
+  async loginWithMagicLink(token: string) {
+    const browserKey = typeof window !== 'undefined' ? localStorage.getItem('magic_link_browser_key') : null
+    if (!browserKey) {
+      throw new Error('Open the sign-in link in the browser you requested it from')
+    }
+
+    const response = await this.client.post('/auth/magic-link/verify', { token, browserKey })
+    localStorage.removeItem('magic_link_browser_key')
+    return response.data
+  }
+
+  async getPasskeyRegistrationOptions() {
+    const response = await this.client.post('/auth/webauthn/register/options')
+    return response.data
+  }
+
+  async registerPasskey(challengeId: string, response: unknown, name?: string) {
+    const res = await this.client.post('/auth/webauthn/register/verify', { challengeId, response, name })
+    return res.data
+  }
+
+  async getPasskeys() {
+    const response = await this.client.get('/auth/webauthn/credentials')
+    return response.data
+  }
+
+  async deletePasskey(id: string) {
+    const response = await this.client.delete(`/auth/webauthn/credentials/${id}`)
+    return response.data
+  }
+
+  async logout() {
+    const response = await this.client.post('/auth/logout')
+    return response.data
+  }
+
+  async reauthenticate(proof: { password?: string; code?: string; recoveryCode?: string }) {
+    const response = await this.client.post('/auth/reauthenticate', proof)
+    return response.data
+  }
+
+  async getSessions() {
+    const response = await this.client.get('/auth/sessions')
+    return response.data
+  }
+
+  async revokeSession(id: string) {
+    const response = await this.client.delete(`/auth/sessions/${id}`)
+    return response.data
+  }
+
+  async getKnownDevices() {
+    const response = await this.client.get('/auth/devices')
+    return response.data
+  }
+
+  async forgetDevice(id: string) {
+    const response = await this.client.delete(`/auth/devices/${id}`)
+    return response.data
+  }
+
+  async changePassword(currentPassword: string, newPassword: string) {
+    const response = await this.client.post('/auth/change-password', { currentPassword, newPassword })
+    return response.data
+  }
+
+  async impersonateUser(userId: string, reason: string) {
+    const response = await this.client.post(`/auth/impersonate/${userId}`, { reason })
+    return response.data
+  }
+
+  // Ends the impersonation and returns the super user's restored access token.
+  // Plain axios, so an expired impersonation token cannot sign the super user out.
+  async endImpersonation(): Promise<string | null> {
+    await axios
+      .delete(`${API_URL}/auth/impersonate`, {
+        headers: { Authorization: `Bearer ${this.getToken()}` },
+      })
+      .catch(() => null)
+
+    return this.restoreImpersonator()
+  }
+
+  async completeSamlLogin(code: string) {
+    const response = await this.client.post('/auth/sso/saml/callback', { code })
+    return response.data
+  }
+
+  async discoverSso(email: string) {
+    const response = await this.client.post('/auth/sso/discover', { email })
+    return response.data
+  }
+
+  async completeSsoLogin(code: string, state: string) {
+    const response = await this.client.post('/auth/sso/oidc/callback', { code, state })
+    return response.data
+  }
+
+  async getSmartAuthorizationDetails(params: Record<string, string>) {
+    const response = await this.client.get('/smart/authorize/details', { params })
+    return response.data
+  }
+
+  async answerSmartAuthorization(
+    params: Record<string, string>,
+    decision: { approve: boolean; tenantId?: string }
+  ) {
+    const response = await this.client.post('/smart/authorize', { ...params, ...decision })
+    return response.data
+  }
+
   async signup(data: {
     email: string
     password: string
@@ -182,6 +475,11 @@ class ApiClient {
     return response.data
   }
 
+  async getCompanyRoles(id: string) {
+    const response = await this.client.get(`/companies/${id}/roles`)
+    return response.data
+  }
+
   // ========== User endpoints ==========
   async getUsers(params?: { companyId?: string; tenantId?: string }) {
     const response = await this.client.get('/users', { params })
@@ -195,7 +493,6 @@ class ApiClient {
 
   async createUser(data: {
     email: string
-    password: string
     fullName: string
     tenantId?: string
     isOrgAdmin?: boolean
@@ -214,6 +511,98 @@ class ApiClient {
     return response.data
   }
 
+  async unlockUser(id: string) {
+    const response = await this.client.post(`/users/${id}/unlock`)
+    return response.data
+  }
+
+  async getInvitations() {
+    const response = await this.client.get('/users/invitations')
+    return response.data
+  }
+
+  async inviteUser(data: { email: string; tenantId?: string; roleIds?: string[] }) {
+    const response = await this.client.post('/users/invitations', data)
+    return response.data
+  }
+
+  async resendInvitation(id: string) {
+    const response = await this.client.post(`/users/invitations/${id}/resend`)
+    return response.data
+  }
+
+  async cancelInvitation(id: string) {
+    const response = await this.client.delete(`/users/invitations/${id}`)
+    return response.data
+  }
+
+  async getAccessRequests(status?: 'pending' | 'approved' | 'denied') {
+    const response = await this.client.get('/users/access-requests', { params: { status } })
+    return response.data
+  }
+
+  async approveAccessRequest(id: string, data: { tenantId?: string; roleIds?: string[] }) {
+    const response = await this.client.post(`/users/access-requests/${id}/approve`, data)
+    return response.data
+  }
+
+  async denyAccessRequest(id: string, reason: string) {
+    const response = await this.client.post(`/users/access-requests/${id}/deny`, { reason })
+    return response.data
+  }
+
+  async getDeviceApprovals(status?: 'pending' | 'approved' | 'denied') {
+    const response = await this.client.get('/users/device-approvals', { params: { status } })
+    return response.data
+  }
+
+  async approveDevice(id: string) {
+    const response = await this.client.post(`/users/device-approvals/${id}/approve`)
+    return response.data
+  }
+
+  async denyDevice(id: string) {
+    const response = await this.client.post(`/users/device-approvals/${id}/deny`)
+    return response.data
+  }
+
+  async declareBreakGlass(data: { tenantId: string; emergency: string; justification: string }) {
+    const response = await this.client.post('/break-glass', data)
+    return response.data
+  }
+
+  async getBreakGlassTenants() {
+    const response = await this.client.get('/break-glass/tenants')
+    return response.data
+  }
+
+  async getActiveBreakGlass() {
+    const response = await this.client.get('/break-glass/active')
+    return response.data
+  }
+
+  async endBreakGlass() {
+    const response = await this.client.delete('/break-glass/active')
+    return response.data
+  }
+
+  async getBreakGlassSessions(pendingReview?: boolean) {
+    const response = await this.client.get('/break-glass', {
+      params: pendingReview ? { pendingReview: 'true' } : {},
+    })
+    return response.data
+  }
+
+  async getBreakGlassSession(id: string) {
+    const response = await this.client.get(`/break-glass/${id}`)
+    return response.data
+  }
+
+  async reviewBreakGlassSession(id: string, outcome: 'justified' | 'unjustified', notes?: string) {
+    const response = await this.client.post(`/break-glass/${id}/review`, { outcome, notes })
+    return response.data
+  }
+
   async getUserRoles(id: string) {
     const response = await this.client.get(`/users/${id}/roles`)
     return response.data
@@ -10,12 +10,30 @@ interface User {
   isSuperUser: boolean
 }
 
+// The super user behind an impersonation, restored when it ends
+interface Impersonation {
+  impersonator: User
+  expiresAt: string
+}
+
+// The user's open break-glass session, shown as a banner until it ends
+interface BreakGlass {
+  id: string
+  tenantName: string
+  expiresAt: string
+}
+
 interface AuthState {
   user: User | null
   token: string | null
   isAuthenticated: boolean
+  impersonation: Impersonation | null
+  breakGlass: BreakGlass | null
   setAuth: (user: User, token: string) => void
   clearAuth: () => void
+  startImpersonation: (user: User, token: string, expiresAt: string) => void
+  endImpersonation: (token: string | null) => void
+  setBreakGlass: (breakGlass: BreakGlass | null) => void
 }
 
 export const useAuthStore = create<AuthState>()(
@@ -24,10 +42,25 @@ export const useAuthStore = create<AuthState>()(
       user: null,
       token: null,
       isAuthenticated: false,
+      impersonation: null,
+      breakGlass: null,
       setAuth: (user, token) =>
-        set({ user, token, isAuthenticated: true }),
+        set({ user, token, isAuthenticated: true, impersonation: null, breakGlass: null }),
       clearAuth: () =>
-        set({ user: null, token: null, isAuthenticated: false }),
+        set({ user: null, token: null, isAuthenticated: false, impersonation: null, breakGlass: null }),
+      startImpersonation: (user, token, expiresAt) =>
+        set((state) => ({
+          user,
+          token,
+          impersonation: state.user ? { impersonator: state.user, expiresAt } : null,
+        })),
+      endImpersonation: (token) =>
+        set((state) => ({
+          user: state.impersonation?.impersonator ?? state.user,
+          token,
+          impersonation: null,
+        })),
+      setBreakGlass: (breakGlass) => set({ breakGlass }),
     }),
     {
       name: 'auth-storage',